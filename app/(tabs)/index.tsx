@@ -1,9 +1,24 @@
-import React, { useEffect, useRef, useState } from "react";
-import { Keyboard, StyleSheet, Text, TextInput, TouchableOpacity, View, Alert } from "react-native";
-import { FlatList, GestureHandlerRootView } from "react-native-gesture-handler";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Keyboard, SectionList, StyleProp, Text, TextInput, TextStyle, TouchableOpacity, View, Alert } from "react-native";
+import { FlatList, GestureHandlerRootView, ScrollView } from "react-native-gesture-handler";
 
-import { createTodo, getAllTodos, getDBVersion, getSQLiteVersion, updateTodoStatus, getAllLists, getTodosByList } from "@/lib/db";
-import { TodoItem, uuid } from "@/lib/types";
+import { getDBVersion, getSQLiteVersion, setAllSubtasksStatus, getSortMode, setSortMode, ALL_TODOS_VIEW_ID, setTodoTags, getSavedFilter, savedFilterPreferenceId, DEFAULT_LIST_ID } from "@/lib/db";
+import { createTodo, getAllTodos, updateTodoStatus, getTodosByList, deleteTodo, reorderTodos, searchTodos, getSmartViewTodos, getTodosByFilter, TodoBatch, setTodosStatus, moveTodos, setTodosDueDate, setTodosPriority, duplicateTodos, deleteTodos } from "@/lib/todoRepository";
+import { HistoryEntry, isLatestHistoryEntry, undoEntry, withHistoryEntry, withHistoryGroup } from "@/lib/history";
+import { addCachedTodo, notifyChange, patchCachedTodo, QueryKeys, setQueryData } from "@/lib/store";
+import { useLists, useQuery, useSavedFilters, useSetting, useSubtaskProgress, useTags, useTodoTags } from "@/hooks/useData";
+import { Priority, SearchResult, SubtaskProgress, Tag, TagMatchMode, TodoItem, uuid } from "@/lib/types";
+import { splitHighlight } from "@/lib/search";
+import { FilterOptions } from "@/lib/filters";
+import { addDays, dateInputPlaceholder, formatDate, formatDueDate, formatRelativeDay, isOverdue, parseDateInput, parseTime, startOfDay } from "@/lib/dates";
+import { groupTodosByDay, isSmartView, SmartView, smartViewPreferenceId } from "@/lib/smartViews";
+import { SmartViewLabels } from "@/constants/SmartViews";
+import { SortModeLabels, SortModeOptions } from "@/constants/SortModes";
+import { parseQuickAdd, QuickAddToken } from "@/lib/quickAdd";
+import { TagInput } from "@/components/TagInput";
+import { mergeManualOrder, SortMode, sortTodos } from "@/lib/sort";
+import { DraggableList } from "@/components/DraggableList";
+import { PriorityColors, PriorityLabels, PriorityOptions } from "@/constants/Priority";
 import { useSQLiteContext } from "expo-sqlite";
 import { SafeAreaProvider, SafeAreaView } from "react-native-safe-area-context";
 import { useLocalSearchParams, Link, router } from "expo-router";
@@ -11,6 +26,11 @@ import { useLocalSearchParams, Link, router } from "expo-router";
 import ReanimatedSwipeable, { SwipeableMethods } from 'react-native-gesture-handler/ReanimatedSwipeable';
 import Reanimated, { FadeIn, FadeOut, SharedValue, useAnimatedStyle } from "react-native-reanimated";
 import { IconSymbol } from "@/components/ui/IconSymbol";
+import { UndoSnackbar } from "@/components/UndoSnackbar";
+import { HistoryButtons } from "@/components/HistoryButtons";
+import { makeThemedStyles, useTheme } from "@/hooks/useTheme";
+import { useI18n } from "@/hooks/useI18n";
+import { t } from "@/lib/i18n";
 
 function RightAction({ prog, drag, isDone, onPress }: {
   prog: SharedValue<number>;
@@ -18,6 +38,7 @@ function RightAction({ prog, drag, isDone, onPress }: {
   isDone?: boolean;
   onPress: () => void;
 }) {
+  const { colors } = useTheme();
   const styleAnimation = useAnimatedStyle(() => ({
     transform: [{ translateX: drag.value + 200 }],
   }));
@@ -27,7 +48,7 @@ function RightAction({ prog, drag, isDone, onPress }: {
         <TouchableOpacity
           style={{
             flex: 1,
-            backgroundColor: isDone ? "orange" : "green",
+            backgroundColor: isDone ? colors.warning : colors.success,
             justifyContent: "center",
             alignItems: "center",
             width: "100%",
@@ -37,19 +58,60 @@ function RightAction({ prog, drag, isDone, onPress }: {
           onPress={onPress}
           activeOpacity={0.7}
         >
-          <Text style={{ color: "white", fontWeight: "bold", fontSize: 16 }}>
-            {isDone ? "Marcar como pendente" : "Marcar como concluído"}
+          <Text style={{ color: isDone ? colors.onWarning : colors.onSuccess, fontWeight: "bold", fontSize: 16 }}>
+            {isDone ? t("todo.markPending") : t("todo.markDone")}
           </Text>
         </TouchableOpacity>
     </Reanimated.View>
   );
 }
 
-function ListItem({ todoItem, toggleTodo, lists }: { 
+function LeftAction({ prog, drag, onPress }: {
+  prog: SharedValue<number>;
+  drag: SharedValue<number>;
+  onPress: () => void;
+}) {
+  const { colors } = useTheme();
+  const styleAnimation = useAnimatedStyle(() => ({
+    transform: [{ translateX: drag.value - 120 }],
+  }));
+
+  return (
+    <Reanimated.View style={[styleAnimation, { width: 120, height: "100%" }]}>
+        <TouchableOpacity
+          style={{
+            flex: 1,
+            backgroundColor: colors.danger,
+            justifyContent: "center",
+            alignItems: "center",
+            width: "100%",
+            height: "100%",
+            borderRadius: 0,
+          }}
+          onPress={onPress}
+          activeOpacity={0.7}
+        >
+          <Text style={{ color: colors.onDanger, fontWeight: "bold", fontSize: 16 }}>
+            {t("common.delete")}
+          </Text>
+        </TouchableOpacity>
+    </Reanimated.View>
+  );
+}
+
+function ListItem({ todoItem, toggleTodo, removeTodo, lists, subtaskProgress, tags, selecting, selected, onSelect }: { 
   todoItem: TodoItem; 
   toggleTodo: (id: uuid) => void;
+  removeTodo: (id: uuid) => void;
   lists: { id: string; name: string }[];
+  subtaskProgress?: SubtaskProgress;
+  tags?: Tag[];
+  selecting: boolean;
+  selected: boolean;
+  onSelect: (id: uuid) => void;
 }) {
+  const styles = useStyles();
+  const { colors } = useTheme();
   const swipeableRef = useRef<SwipeableMethods>(null);
 
   const handlePress = (id: uuid) => {
@@ -57,147 +119,499 @@ function ListItem({ todoItem, toggleTodo, lists }: {
     toggleTodo(id);
   };
 
+  const handleDelete = (id: uuid) => {
+    swipeableRef.current?.close();
+    removeTodo(id);
+  };
+
   const listName = lists.find(list => list.id === todoItem.listId)?.name || 
-                   (todoItem.listId === 'default-list' ? 'Geral' : todoItem.listId);
+                   (todoItem.listId === 'default-list' ? t("lists.general") : todoItem.listId);
+  const overdue = !todoItem.done && isOverdue(todoItem.dueDate, todoItem.allDay);
 
-  return (
-    <Link href={{ pathname: "/task-details", params: { id: todoItem.id } }} asChild>
-      <TouchableOpacity>
-        <Reanimated.View exiting={FadeOut} entering={FadeIn}>
-          <View style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between" }}>
-            <ReanimatedSwipeable
-              ref={swipeableRef}
-              containerStyle={styles.itemContainer}
-              friction={1}
-              enableTrackpadTwoFingerGesture
-              rightThreshold={200}
-              renderRightActions={(prog, drag) => (
-                <RightAction
-                  prog={prog}
-                  drag={drag}
-                  isDone={todoItem.done}
-                  onPress={() => handlePress(todoItem.id)}
-                />
-              )}
-            >
-              <View style={{ flex: 1 }}>
-                <Text style={todoItem.done ? styles.itemTextDone : styles.itemText}>
-                  {todoItem.text}
-                </Text>
+  const content = (
+    <Reanimated.View exiting={FadeOut} entering={FadeIn}>
+      <View style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between" }}>
+        <ReanimatedSwipeable
+          ref={swipeableRef}
+          enabled={!selecting}
+          containerStyle={[styles.itemContainer, selected && styles.itemSelected]}
+          friction={1}
+          enableTrackpadTwoFingerGesture
+          rightThreshold={200}
+          leftThreshold={120}
+          renderLeftActions={(prog, drag) => (
+            <LeftAction
+              prog={prog}
+              drag={drag}
+              onPress={() => handleDelete(todoItem.id)}
+            />
+          )}
+          renderRightActions={(prog, drag) => (
+            <RightAction
+              prog={prog}
+              drag={drag}
+              isDone={todoItem.done}
+              onPress={() => handlePress(todoItem.id)}
+            />
+          )}
+        >
+          <View style={{ flex: 1, flexDirection: "row" }}>
+            {selecting && (
+              <IconSymbol
+                name={selected ? "checkmark.circle.fill" : "circle"}
+                size={22}
+                color={selected ? colors.primary : colors.icon}
+                style={styles.selectionIcon}
+              />
+            )}
+            <View style={[styles.priorityMarker, { backgroundColor: PriorityColors[todoItem.priority ?? Priority.None] }]} />
+            <View style={{ flex: 1 }}>
+              <Text style={todoItem.done ? styles.itemTextDone : styles.itemText}>
+                {todoItem.text}
+              </Text>
                 
-                <Text style={styles.listInfo}>
-                  📋 Lista: {listName}
-                </Text>
+              <Text style={styles.listInfo}>
+                {t("todo.listInfo", { name: listName })}
+                {subtaskProgress && `   ☑️ ${subtaskProgress.done}/${subtaskProgress.total}`}
+                {todoItem.recurrence && '   🔁'}
+              </Text>
                 
-                {todoItem.dueDate && (
-                  <Text style={[
-                    styles.dueDate,
-                    new Date(todoItem.dueDate) < new Date() && !todoItem.done && styles.overdue
-                  ]}>
-                    📅 Vence: {new Date(todoItem.dueDate).toLocaleDateString("pt-BR")}
-                    {new Date(todoItem.dueDate) < new Date() && !todoItem.done && ' ⚠️ Atrasada'}
-                  </Text>
-                )}
+              {todoItem.dueDate && (
+                <Text style={[styles.dueDate, overdue && styles.overdue]}>
+                  {t("todo.due", { date: formatDueDate(todoItem.dueDate, todoItem.allDay) })}
+                  {overdue
+                    ? ` ⚠️ ${t("todo.overdue")} (${formatRelativeDay(todoItem.dueDate)})`
+                    : !todoItem.done && ` • ${formatRelativeDay(todoItem.dueDate)}`}
+                </Text>
+              )}
                 
-                {todoItem.notes && (
-                  <Text style={styles.notes} numberOfLines={2}>
-                    📝 {todoItem.notes}
-                  </Text>
-                )}
-              </View>
-            </ReanimatedSwipeable>
+              {todoItem.notes && (
+                <Text style={styles.notes} numberOfLines={2}>
+                  📝 {todoItem.notes}
+                </Text>
+              )}
+
+              {tags && tags.length > 0 && (
+                <View style={styles.tagRow}>
+                  {tags.map((tag) => (
+                    <View key={tag.id} style={styles.tagChip}>
+                      <Text style={styles.tagChipText}>@{tag.name}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+            </View>
           </View>
-        </Reanimated.View>
+        </ReanimatedSwipeable>
+      </View>
+    </Reanimated.View>
+  );
+
+  // No modo de seleção o toque marca a tarefa em vez de abrir os detalhes.
+  if (selecting) {
+    return (
+      <TouchableOpacity onPress={() => onSelect(todoItem.id)}>
+        {content}
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <Link href={{ pathname: "/task-details", params: { id: todoItem.id } }} asChild>
+      <TouchableOpacity onLongPress={() => onSelect(todoItem.id)}>
+        {content}
       </TouchableOpacity>
     </Link>
   );
 }
 
-enum FilterOptions {
-  All = "all",
-  Pending = "pending",
-  Done = "done"
+function HighlightedText({ value, style, numberOfLines }: {
+  value: string;
+  style: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}) {
+  const styles = useStyles();
+
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {splitHighlight(value).map((segment, index) => (
+        <Text key={index} style={segment.highlighted && styles.searchHighlight}>
+          {segment.text}
+        </Text>
+      ))}
+    </Text>
+  );
 }
 
-function TodosFilter({ selectedValue, setFilter }: { selectedValue: FilterOptions, setFilter: (value: FilterOptions) => void }) {
+function SearchResultItem({ result, lists }: {
+  result: SearchResult;
+  lists: { id: string; name: string }[];
+}) {
+  const styles = useStyles();
+  const listName = lists.find(list => list.id === result.todo.listId)?.name;
+
   return (
-    <View style={filterStyles.filterMenu}>
-      <TouchableOpacity
-        style={[filterStyles.button, filterStyles.buttonAll, selectedValue === FilterOptions.All && filterStyles.buttonAllSelected]}
-        onPress={() => setFilter(FilterOptions.All)}
-      >
-        <Text style={[filterStyles.label, filterStyles.buttonAllLabel, selectedValue === FilterOptions.All && filterStyles.buttonAllSelectedLabel]}>Todos</Text>
-      </TouchableOpacity>
-      <TouchableOpacity
-        style={[filterStyles.button, filterStyles.buttonPending, selectedValue === FilterOptions.Pending && filterStyles.buttonPendingSelected]}
-        onPress={() => setFilter(FilterOptions.Pending)}
-      >
-        <Text style={[filterStyles.label, filterStyles.buttonPendingLabel, selectedValue === FilterOptions.Pending && filterStyles.buttonPendingSelectedLabel]}>Pendentes</Text>
+    <Link href={{ pathname: "/task-details", params: { id: result.todo.id } }} asChild>
+      <TouchableOpacity style={styles.itemContainer}>
+        <HighlightedText
+          value={result.textHighlight}
+          style={result.todo.done ? styles.itemTextDone : styles.itemText}
+        />
+        {listName && <Text style={styles.listInfo}>{t("todo.listInfo", { name: listName })}</Text>}
+        {result.notesHighlight && (
+          <HighlightedText value={`📝 ${result.notesHighlight}`} style={styles.notes} numberOfLines={2} />
+        )}
       </TouchableOpacity>
-      <TouchableOpacity
-        style={[filterStyles.button, filterStyles.buttonDone, selectedValue === FilterOptions.Done && filterStyles.buttonDoneSelected]}
-        onPress={() => setFilter(FilterOptions.Done)}
-      >
-        <Text style={[filterStyles.label, filterStyles.buttonDoneLabel, selectedValue === FilterOptions.Done && filterStyles.buttonDoneSelectedLabel]}>Concluídos</Text>
+    </Link>
+  );
+}
+
+function SearchBar({ query, setQuery, scope, setScope, canScopeToList }: {
+  query: string;
+  setQuery: (value: string) => void;
+  scope: "list" | "all";
+  setScope: (value: "list" | "all") => void;
+  canScopeToList: boolean;
+}) {
+  const { colors } = useTheme();
+  const styles = useStyles();
+
+  return (
+    <View style={styles.searchBar}>
+      <TextInput
+        value={query}
+        onChangeText={setQuery}
+        style={styles.searchInput}
+        placeholder={t("search.placeholder")}
+        placeholderTextColor={colors.placeholder}
+        autoCapitalize="none"
+        autoCorrect={false}
+        clearButtonMode="while-editing"
+        returnKeyType="search"
+      />
+      {canScopeToList && (
+        <TouchableOpacity
+          style={styles.searchScope}
+          onPress={() => setScope(scope === "list" ? "all" : "list")}
+        >
+          <Text style={styles.searchScopeText}>{scope === "list" ? t("search.scopeList") : t("search.scopeAll")}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const MANUAL_ITEM_HEIGHT = 56;
+
+function ManualOrderItem({ todoItem, toggleTodo }: {
+  todoItem: TodoItem;
+  toggleTodo: (id: uuid) => void;
+}) {
+  const { colors } = useTheme();
+  const styles = useStyles();
+
+  return (
+    <View style={styles.manualItem}>
+      <View style={[styles.priorityMarker, { backgroundColor: PriorityColors[todoItem.priority ?? Priority.None] }]} />
+      <TouchableOpacity onPress={() => toggleTodo(todoItem.id)} style={styles.manualCheck}>
+        <IconSymbol
+          name={todoItem.done ? "checkmark.circle.fill" : "circle"}
+          size={22}
+          color={todoItem.done ? colors.success : colors.icon}
+        />
       </TouchableOpacity>
+      <Link href={{ pathname: "/task-details", params: { id: todoItem.id } }} asChild>
+        <TouchableOpacity style={{ flex: 1 }}>
+          <Text style={todoItem.done ? styles.itemTextDone : styles.itemText} numberOfLines={1}>
+            {todoItem.text}
+          </Text>
+        </TouchableOpacity>
+      </Link>
+      <IconSymbol name="line.3.horizontal" size={22} color={colors.textFaint} />
     </View>
   );
 }
 
-function AddTodoForm({ addTodoHandler, lists, selectedListId }: { 
-  addTodoHandler: (text: string, listId: string, notes?: string, dueDate?: Date) => void;
+function TodosFilter({ selectedValue, setFilter, tags, selectedTagIds, setSelectedTagIds, tagMode, setTagMode }: {
+  selectedValue: FilterOptions,
+  setFilter: (value: FilterOptions) => void,
+  tags: Tag[],
+  selectedTagIds: string[],
+  setSelectedTagIds: (ids: string[]) => void,
+  tagMode: TagMatchMode,
+  setTagMode: (mode: TagMatchMode) => void,
+}) {
+  const filterStyles = useFilterStyles();
+  const sortStyles = useSortStyles();
+  const toggleTag = (id: string) => {
+    setSelectedTagIds(selectedTagIds.includes(id)
+      ? selectedTagIds.filter(tagId => tagId !== id)
+      : [...selectedTagIds, id]);
+  };
+
+  return (
+    <View style={{ width: "100%" }}>
+      <View style={filterStyles.filterMenu}>
+        <TouchableOpacity
+          style={[filterStyles.button, filterStyles.buttonAll, selectedValue === FilterOptions.All && filterStyles.buttonAllSelected]}
+          onPress={() => setFilter(FilterOptions.All)}
+        >
+          <Text style={[filterStyles.label, filterStyles.buttonAllLabel, selectedValue === FilterOptions.All && filterStyles.buttonAllSelectedLabel]}>{t("filter.all")}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[filterStyles.button, filterStyles.buttonPending, selectedValue === FilterOptions.Pending && filterStyles.buttonPendingSelected]}
+          onPress={() => setFilter(FilterOptions.Pending)}
+        >
+          <Text style={[filterStyles.label, filterStyles.buttonPendingLabel, selectedValue === FilterOptions.Pending && filterStyles.buttonPendingSelectedLabel]}>{t("filter.pending")}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[filterStyles.button, filterStyles.buttonDone, selectedValue === FilterOptions.Done && filterStyles.buttonDoneSelected]}
+          onPress={() => setFilter(FilterOptions.Done)}
+        >
+          <Text style={[filterStyles.label, filterStyles.buttonDoneLabel, selectedValue === FilterOptions.Done && filterStyles.buttonDoneSelectedLabel]}>{t("filter.done")}</Text>
+        </TouchableOpacity>
+      </View>
+      {tags.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={sortStyles.container} contentContainerStyle={sortStyles.content}>
+          <TouchableOpacity
+            style={filterStyles.tagModeButton}
+            onPress={() => setTagMode(tagMode === "and" ? "or" : "and")}
+          >
+            <Text style={filterStyles.tagModeLabel}>{tagMode === "and" ? t("filter.tagsAll") : t("filter.tagsAny")}</Text>
+          </TouchableOpacity>
+          {tags.map((tag) => (
+            <TouchableOpacity
+              key={tag.id}
+              style={[sortStyles.option, selectedTagIds.includes(tag.id) && sortStyles.optionSelected]}
+              onPress={() => toggleTag(tag.id)}
+            >
+              <Text style={[sortStyles.optionText, selectedTagIds.includes(tag.id) && sortStyles.optionTextSelected]}>
+                @{tag.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+function matchesTags(todoTags: Tag[] | undefined, selectedTagIds: string[], mode: TagMatchMode) {
+  if (selectedTagIds.length === 0) return true;
+  const ids = new Set((todoTags ?? []).map(tag => tag.id));
+  return mode === "and"
+    ? selectedTagIds.every(id => ids.has(id))
+    : selectedTagIds.some(id => ids.has(id));
+}
+
+function SortSelector({ selectedValue, setSortMode }: { selectedValue: SortMode, setSortMode: (value: SortMode) => void }) {
+  const sortStyles = useSortStyles();
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={sortStyles.container} contentContainerStyle={sortStyles.content}>
+      <Text style={sortStyles.label}>{t("sort.label")}</Text>
+      {SortModeOptions.map((mode) => (
+        <TouchableOpacity
+          key={mode}
+          style={[sortStyles.option, selectedValue === mode && sortStyles.optionSelected]}
+          onPress={() => setSortMode(mode)}
+        >
+          <Text style={[sortStyles.optionText, selectedValue === mode && sortStyles.optionTextSelected]}>
+            {t(SortModeLabels[mode])}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+}
+
+type BatchAction =
+  | { type: "status"; done: boolean }
+  | { type: "move"; listId: string }
+  | { type: "dueDate"; dueDate: Date | null }
+  | { type: "priority"; priority: Priority }
+  | { type: "duplicate" }
+  | { type: "delete" };
+
+type BatchPicker = "move" | "dueDate" | "priority";
+
+function SelectionToolbar({ count, lists, onSelectAll, onSelectNone, onCancel, onAction }: {
+  count: number;
+  lists: { id: string; name: string }[];
+  onSelectAll: () => void;
+  onSelectNone: () => void;
+  onCancel: () => void;
+  onAction: (action: BatchAction) => void;
+}) {
+  const styles = useSelectionStyles();
+  const { colors } = useTheme();
+  const [picker, setPicker] = useState<BatchPicker | null>(null);
+  const today = startOfDay(new Date());
+
+  const actions: { label: string; onPress: () => void; picker?: BatchPicker; danger?: boolean }[] = [
+    { label: t("selection.complete"), onPress: () => onAction({ type: "status", done: true }) },
+    { label: t("selection.uncomplete"), onPress: () => onAction({ type: "status", done: false }) },
+    { label: t("selection.move"), onPress: () => setPicker(picker === "move" ? null : "move"), picker: "move" },
+    { label: t("selection.dueDate"), onPress: () => setPicker(picker === "dueDate" ? null : "dueDate"), picker: "dueDate" },
+    { label: t("selection.priority"), onPress: () => setPicker(picker === "priority" ? null : "priority"), picker: "priority" },
+    { label: t("selection.duplicate"), onPress: () => onAction({ type: "duplicate" }) },
+    { label: t("common.delete"), onPress: () => onAction({ type: "delete" }), danger: true },
+  ];
+
+  const options: { key: string; label: string; action: BatchAction }[] =
+    picker === "move"
+      ? lists.map(list => ({ key: list.id, label: list.name, action: { type: "move", listId: list.id } }))
+      : picker === "dueDate"
+        ? [
+            { key: "today", label: t("day.today"), action: { type: "dueDate", dueDate: today } },
+            { key: "tomorrow", label: t("day.tomorrow"), action: { type: "dueDate", dueDate: addDays(today, 1) } },
+            { key: "nextWeek", label: t("selection.nextWeek"), action: { type: "dueDate", dueDate: addDays(today, 7) } },
+            { key: "none", label: t("selection.noDate"), action: { type: "dueDate", dueDate: null } },
+          ]
+        : picker === "priority"
+          ? PriorityOptions.map(priority => ({
+              key: String(priority),
+              label: t(PriorityLabels[priority]),
+              action: { type: "priority", priority },
+            }))
+          : [];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.topRow}>
+        <TouchableOpacity onPress={onCancel} style={styles.iconButton}>
+          <IconSymbol name="xmark" size={22} color={colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.count}>{t("selection.count", { count })}</Text>
+        <TouchableOpacity onPress={onSelectAll}>
+          <Text style={styles.link}>{t("selection.all")}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onSelectNone}>
+          <Text style={styles.link}>{t("selection.none")}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        {actions.map(({ label, onPress, picker: opens, danger }) => (
+          <TouchableOpacity
+            key={label}
+            style={[styles.action, opens && picker === opens && styles.actionSelected]}
+            onPress={onPress}
+            disabled={count === 0}
+          >
+            <Text
+              style={[
+                styles.actionText,
+                danger && styles.actionTextDanger,
+                opens && picker === opens && styles.actionTextSelected,
+                count === 0 && styles.actionTextDisabled,
+              ]}
+            >
+              {label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {options.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+          {options.map(option => (
+            <TouchableOpacity key={option.key} style={styles.option} onPress={() => onAction(option.action)}>
+              <Text style={styles.optionText}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+function describeQuickAddToken(token: QuickAddToken): string {
+  switch (token.kind) {
+    case "date":
+      return `📅 ${formatDate(token.date, { weekday: "short", day: "2-digit", month: "2-digit" })}`;
+    case "time":
+      return `⏰ ${String(token.hours).padStart(2, "0")}:${String(token.minutes).padStart(2, "0")}`;
+    case "list":
+      return `📋 ${token.listName}`;
+    case "priority":
+      return `❗ ${t(PriorityLabels[token.priority])}`;
+    case "tag":
+      return `@${token.tag}`;
+  }
+}
+
+function AddTodoForm({ addTodoHandler, lists, selectedListId, tagSuggestions }: { 
+  addTodoHandler: (text: string, listId: string, notes?: string, dueDate?: Date, allDay?: boolean, priority?: Priority, tags?: string[]) => void;
   lists: { id: string; name: string }[];
   selectedListId?: string;
+  tagSuggestions: string[];
 }) {
+  const { colors } = useTheme();
+  const styles = useStyles();
   const [text, setText] = useState("");
   const [notes, setNotes] = useState("");
   const [dueDateText, setDueDateText] = useState("");
-  const [selectedList, setSelectedList] = useState<string>(selectedListId || 'default-list');
+  const [dueTimeText, setDueTimeText] = useState("");
+  const defaultListId = useSetting("defaultListId");
+  const initialListId = selectedListId
+    || (lists.some(list => list.id === defaultListId) ? defaultListId : DEFAULT_LIST_ID);
+  const [selectedList, setSelectedList] = useState<string>(initialListId);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [priority, setPriority] = useState<Priority>(Priority.None);
+  const [tags, setTags] = useState<string[]>([]);
+  const quickAdd = useMemo(() => parseQuickAdd(text, { lists }), [text, lists]);
+
+  // Trocar de lista na tela ou a lista padrão nas configurações muda o destino das próximas tarefas.
+  useEffect(() => {
+    setSelectedList(initialListId);
+  }, [initialListId]);
 
 const handlePress = () => {
-  if (text.trim().length === 0) {
-    Alert.alert("Atenção", "Por favor, digite uma descrição para a tarefa");
+  if (quickAdd.text.length === 0) {
+    Alert.alert(t("common.attention"), t("addTodo.emptyText"));
     return;
   }
 
   let parsedDueDate: Date | undefined = undefined;
 
-  // Verifica se a data foi fornecida
+  // Verifica se a data foi fornecida, na ordem de dia e mês do idioma
   if (dueDateText.trim()) {
-    // Formato esperado: DD/MM/AAAA
-    const dateRegex = /^(\d{2})\/(\d{2})\/(\d{4})$/;
-    const match = dueDateText.match(dateRegex);
-    
-    if (!match) {
-      Alert.alert("Erro", "Formato de data inválido. Use DD/MM/AAAA");
-      return;
-    }
-    
-    const [, day, month, year] = match;
-    const dayNum = parseInt(day, 10);
-    const monthNum = parseInt(month, 10) - 1; // Mês começa em 0 no JavaScript
-    const yearNum = parseInt(year, 10);
-    
-    // Validação básica da data
-    const date = new Date(yearNum, monthNum, dayNum);
-    
-    // Verifica se a data é válida
-    if (isNaN(date.getTime()) || 
-        date.getDate() !== dayNum || 
-        date.getMonth() !== monthNum || 
-        date.getFullYear() !== yearNum) {
-      Alert.alert("Erro", "Data inválida. Verifique o dia, mês e ano");
+    const date = parseDateInput(dueDateText);
+    if (!date) {
+      Alert.alert(t("common.error"), t("addTodo.invalidDate", { format: dateInputPlaceholder() }));
       return;
     }
     
     parsedDueDate = date;
+
+    // Sem horário a tarefa é de dia inteiro.
+    if (dueTimeText.trim()) {
+      const time = parseTime(dueTimeText);
+      if (!time) {
+        Alert.alert(t("common.error"), t("addTodo.invalidTime"));
+        return;
+      }
+      parsedDueDate.setHours(time.hours, time.minutes, 0, 0);
+    }
   }
 
-  addTodoHandler(text, selectedList, notes.trim() || undefined, parsedDueDate);
+  // O que foi escrito na própria linha tem precedência sobre as opções avançadas.
+  addTodoHandler(
+    quickAdd.text,
+    quickAdd.listId ?? selectedList,
+    notes.trim() || undefined,
+    quickAdd.dueDate ?? parsedDueDate,
+    quickAdd.dueDate ? !quickAdd.hasTime : !dueTimeText.trim(),
+    quickAdd.priority ?? priority,
+    [...tags, ...quickAdd.tags]
+  );
   setText("");
   setNotes("");
   setDueDateText("");
+  setDueTimeText("");
+  setPriority(Priority.None);
+  setTags([]);
   setShowAdvanced(false);
   Keyboard.dismiss();
 };
@@ -208,24 +622,34 @@ const handlePress = () => {
         value={text}
         onChangeText={setText}
         style={styles.textInput}
-        placeholder="O que você precisa fazer?"
-        placeholderTextColor="#666"
+        placeholder={t("addTodo.placeholder")}
+        placeholderTextColor={colors.placeholder}
         onSubmitEditing={handlePress}
         returnKeyType="done"
       />
 
+      {quickAdd.tokens.length > 0 && (
+        <View style={styles.quickAddPreview}>
+          {quickAdd.tokens.map((token, index) => (
+            <View key={index} style={styles.quickAddToken}>
+              <Text style={styles.quickAddTokenText}>{describeQuickAddToken(token)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
       <TouchableOpacity 
         style={styles.advancedToggle}
         onPress={() => setShowAdvanced(!showAdvanced)}
       >
         <Text style={styles.advancedToggleText}>
-          {showAdvanced ? "▲ Ocultar opções" : "▼ Mais opções"}
+          {showAdvanced ? t("addTodo.hideOptions") : t("addTodo.showOptions")}
         </Text>
       </TouchableOpacity>
 
       {showAdvanced && (
         <View style={styles.advancedOptions}>
-          <Text style={styles.optionLabel}>Lista:</Text>
+          <Text style={styles.optionLabel}>{t("addTodo.list")}</Text>
           <View style={styles.listOptions}>
             {lists.map((list) => (
               <TouchableOpacity
@@ -246,23 +670,59 @@ const handlePress = () => {
             ))}
           </View>
 
-          <Text style={styles.optionLabel}>Data de vencimento:</Text>
+          <Text style={styles.optionLabel}>{t("addTodo.priority")}</Text>
+          <View style={styles.listOptions}>
+            {PriorityOptions.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.listOption,
+                  priority === option && styles.listOptionSelected
+                ]}
+                onPress={() => setPriority(option)}
+              >
+                <Text style={[
+                  styles.listOptionText,
+                  priority === option && styles.listOptionTextSelected
+                ]}>
+                  {t(PriorityLabels[option])}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.optionLabel}>{t("addTodo.tags")}</Text>
+          <TagInput value={tags} onChange={setTags} suggestions={tagSuggestions} />
+
+          <Text style={styles.optionLabel}>{t("addTodo.dueDate")}</Text>
           <TextInput
             value={dueDateText}
             onChangeText={setDueDateText}
             style={styles.notesInput}
-            placeholder="DD/MM/AAAA"
+            placeholder={dateInputPlaceholder()}
+            placeholderTextColor={colors.placeholder}
             keyboardType="numeric"
             maxLength={10}
           />
+          {dueDateText.trim().length > 0 && (
+            <TextInput
+              value={dueTimeText}
+              onChangeText={setDueTimeText}
+              style={styles.notesInput}
+              placeholder={t("addTodo.timePlaceholder")}
+              placeholderTextColor={colors.placeholder}
+              keyboardType="numbers-and-punctuation"
+              maxLength={5}
+            />
+          )}
 
-          <Text style={styles.optionLabel}>Notas:</Text>
+          <Text style={styles.optionLabel}>{t("addTodo.notes")}</Text>
           <TextInput
             value={notes}
             onChangeText={setNotes}
             style={styles.notesInput}
-            placeholder="Adicione detalhes..."
-            placeholderTextColor="#666"
+            placeholder={t("addTodo.notesPlaceholder")}
+            placeholderTextColor={colors.placeholder}
             multiline
             numberOfLines={3}
           />
@@ -273,7 +733,7 @@ const handlePress = () => {
         style={styles.addButton}
         onPress={handlePress}
       >
-        <Text style={styles.addButtonText}>Adicionar Tarefa</Text>
+        <Text style={styles.addButtonText}>{t("addTodo.submit")}</Text>
       </TouchableOpacity>
     </View>
   );
@@ -281,69 +741,278 @@ const handlePress = () => {
 
 
 function TodoList() {
-  const [todos, setTodos] = useState<TodoItem[]>([]);
-  const [lists, setLists] = useState<{ id: string; name: string }[]>([]);
   const db = useSQLiteContext();
+  const { t } = useI18n();
+  const { colors } = useTheme();
+  const styles = useStyles();
   const params = useLocalSearchParams();
   const selectedListId = params.listId as string | undefined;
-  const [filter, setFilter] = useState<FilterOptions>(FilterOptions.All);
-  const [listName, setListName] = useState<string>("Todas as Tarefas");
+  const smartView = isSmartView(params.view) ? params.view : undefined;
+  const filterId = params.filterId as string | undefined;
+  const defaultFilter = useSetting("defaultFilter");
+  const [filter, setFilter] = useState<FilterOptions>(defaultFilter);
+  const [deletedTodo, setDeletedTodo] = useState<TodoItem | null>(null);
+  // null fora do modo de seleção; um toque longo numa tarefa entra nele.
+  const [selection, setSelection] = useState<uuid[] | null>(null);
+  const [batchMessage, setBatchMessage] = useState<string | null>(null);
+  // A entrada do histórico que o aviso visível desfaz; só um dos dois avisos aparece por vez.
+  const snackbarEntry = useRef<HistoryEntry | null>(null);
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const [tagMode, setTagMode] = useState<TagMatchMode>("or");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchScope, setSearchScope] = useState<"list" | "all">("list");
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const isSearching = searchQuery.trim().length > 0;
+  const viewId = smartView
+    ? smartViewPreferenceId(smartView)
+    : filterId ? savedFilterPreferenceId(filterId) : selectedListId ?? ALL_TODOS_VIEW_ID;
+
+  const { data: lists = [] } = useLists();
+  const { data: savedFilters } = useSavedFilters();
+  const { data: subtaskProgress = {} } = useSubtaskProgress();
+  const { data: allTags = [] } = useTags();
+  const { data: todoTags = {} } = useTodoTags();
+  const savedFilter = filterId ? savedFilters?.find(saved => saved.id === filterId) : undefined;
+
+  const todosKey = smartView
+    ? QueryKeys.smartView(smartView)
+    : filterId ? QueryKeys.savedFilter(filterId) : QueryKeys.todos(selectedListId);
+  const { data: todos = [] } = useQuery(todosKey, filterId ? ["todos", "tags", "filters"] : ["todos"], async () => {
+    if (smartView) return getSmartViewTodos(db, smartView);
+    const saved = filterId ? await getSavedFilter(db, filterId) : null;
+    if (saved) return getTodosByFilter(db, saved.criteria);
+    return selectedListId ? getTodosByList(db, selectedListId) : getAllTodos(db);
+  });
+
+  const sortModeKey = `sortMode:${viewId}`;
+  const { data: sortMode = SortMode.DueDate } = useQuery(sortModeKey, ["preferences"], () => getSortMode(db, viewId));
+
+  const listName = smartView
+    ? t(SmartViewLabels[smartView])
+    : savedFilter
+      ? savedFilter.name
+      : selectedListId
+        ? lists.find(list => list.id === selectedListId)?.name || t("todos.listFallback")
+        : t("todos.allTitle");
+
+  useEffect(() => {
+    setFilter(defaultFilter);
+  }, [defaultFilter]);
+
+  // A seleção vale para a lista à vista: trocar de lista, buscar ou passar a arrastar encerra o modo.
+  useEffect(() => {
+    setSelection(null);
+  }, [todosKey, isSearching, sortMode]);
 
   useEffect(() => {
-    loadData();
-  }, [db, selectedListId]);
+    if (!searchQuery.trim()) {
+      setSearchResults([]);
+      return;
+    }
+
+    const listId = searchScope === "list" ? selectedListId : undefined;
+    const timeout = setTimeout(() => {
+      searchTodos(db, searchQuery, { listId })
+        .then(setSearchResults)
+        .catch(error => console.error("Error searching todos:", error));
+    }, 200);
+
+    return () => clearTimeout(timeout);
+  }, [db, searchQuery, searchScope, selectedListId]);
+
+  const reorderVisibleTodos = async (orderedIds: string[]) => {
+    const allIds = mergeManualOrder(todos, orderedIds);
+    const byId = new Map(todos.map(t => [t.id, t]));
+    setQueryData<TodoItem[]>(todosKey, () => allIds.map((id, index) => ({ ...byId.get(id)!, position: index })));
 
-  const loadData = async () => {
     try {
-      const listsResult = await getAllLists(db);
-      setLists(listsResult);
-      
-      if (selectedListId) {
-        const selectedList = listsResult.find(list => list.id === selectedListId);
-        setListName(selectedList?.name || "Lista");
-      } else {
-        setListName("Todas as Tarefas");
-      }
+      await reorderTodos(db, allIds);
+    } catch (error) {
+      console.error("Error reordering todos:", error);
+      notifyChange("todos");
+    }
+  };
 
-      let todosResult;
-      if (selectedListId) {
-        todosResult = await getTodosByList(db, selectedListId);
-      } else {
-        todosResult = await getAllTodos(db);
-      }
-      setTodos(todosResult);
+  const changeSortMode = async (mode: SortMode) => {
+    setQueryData<SortMode>(sortModeKey, () => mode);
+    try {
+      await setSortMode(db, viewId, mode);
     } catch (error) {
-      console.error("Error loading data:", error);
+      console.error("Error saving sort mode:", error);
+      notifyChange("preferences");
     }
   };
 
-  const addTodo = async (text: string, listId: string, notes?: string, dueDate?: Date) => {
+  const addTodo = async (text: string, listId: string, notes?: string, dueDate?: Date, allDay: boolean = true, priority: Priority = Priority.None, tags?: string[]) => {
+    // Aparece na hora; a consulta refeita depois da gravação troca pela tarefa com o id definitivo.
+    addCachedTodo({
+      id: `pending-${Date.now()}`,
+      text,
+      done: false,
+      createdAt: new Date(),
+      listId,
+      notes,
+      dueDate,
+      allDay,
+      priority,
+      position: Number.MAX_SAFE_INTEGER,
+    });
+
     try {
-      const newTodo = await createTodo(db, text, listId, notes, dueDate);
-      setTodos([...todos, newTodo]);
-      loadData();
+      // A tarefa e suas etiquetas se desfazem num passo só.
+      await withHistoryGroup(async () => {
+        const newTodo = await createTodo(db, text, listId, notes, dueDate, undefined, priority, allDay);
+        if (tags && tags.length > 0) {
+          await setTodoTags(db, newTodo.id, tags);
+        }
+      });
     } catch (error) {
       console.error("Error adding todo:", error);
-      Alert.alert("Erro", "Não foi possível adicionar a tarefa");
+      notifyChange("todos");
+      Alert.alert(t("common.error"), t("todos.addFailed"));
+    }
+  };
+
+  const setTodoStatus = async (id: uuid, done: boolean, includeSubtasks: boolean) => {
+    patchCachedTodo(id, { done });
+    try {
+      // Ao concluir uma tarefa recorrente o banco cria a próxima ocorrência; ela chega pela consulta refeita.
+      await withHistoryGroup(async () => {
+        await updateTodoStatus(db, id, done);
+        if (includeSubtasks) {
+          await setAllSubtasksStatus(db, id, done);
+        }
+      });
+    } catch (error) {
+      console.error("Error toggling todo:", error);
+      notifyChange("todos");
+    }
+  };
+
+  const toggleTodo = (id: uuid) => {
+    const todo = todos.find(t => t.id === id);
+    if (!todo) return;
+
+    const progress = subtaskProgress[id];
+    if (!todo.done && progress && progress.done < progress.total) {
+      Alert.alert(
+        t("subtasks.completeTitle"),
+        t("subtasks.pending", { count: progress.total - progress.done }),
+        [
+          { text: t("subtasks.onlyTask"), onPress: () => setTodoStatus(id, true, false) },
+          { text: t("subtasks.completeAll"), onPress: () => setTodoStatus(id, true, true) },
+        ]
+      );
+      return;
     }
+
+    setTodoStatus(id, !todo.done, false);
   };
 
-  const toggleTodo = async (id: uuid) => {
+  const removeTodo = async (id: uuid) => {
     try {
       const todo = todos.find(t => t.id === id);
       if (!todo) return;
 
-      const updatedTodo = await updateTodoStatus(db, id, !todo.done);
-      if (updatedTodo) {
-        setTodos(todos.map(t => t.id === updatedTodo.id ? updatedTodo : t));
+      const [deleted, entry] = await withHistoryEntry(() => deleteTodo(db, id));
+      if (deleted) {
+        snackbarEntry.current = entry;
+        setBatchMessage(null);
+        setDeletedTodo(todo);
       }
     } catch (error) {
-      console.error("Error toggling todo:", error);
+      console.error("Error deleting todo:", error);
+      Alert.alert(t("common.error"), t("todos.deleteFailed"));
+    }
+  };
+
+  // Os avisos desfazem pelo histórico; restaurar direto deixaria a exclusão lá para ser desfeita de novo.
+  // Desfazem só a própria alteração: se outra veio depois, o aviso some sem desfazer nada.
+  const undoSnackbarEntry = async () => {
+    const entry = snackbarEntry.current;
+    if (entry && !(await undoEntry(entry)) && isLatestHistoryEntry(entry)) {
+      return false; // o histórico estava ocupado; o aviso continua para tentar de novo
+    }
+    snackbarEntry.current = null;
+    return true;
+  };
+
+  const undoDelete = async () => {
+    if (!deletedTodo) return;
+
+    try {
+      if (await undoSnackbarEntry()) setDeletedTodo(null);
+    } catch (error) {
+      console.error("Error restoring todo:", error);
+    }
+  };
+
+  const dismissUndo = useCallback(() => setDeletedTodo(null), []);
+
+  const selectTodo = (id: uuid) => {
+    setSelection(current => {
+      if (!current) return [id];
+      return current.includes(id) ? current.filter(selected => selected !== id) : [...current, id];
+    });
+  };
+
+  const runBatchAction = async (action: BatchAction) => {
+    const ids = selectedTodos.map(todo => todo.id);
+    if (ids.length === 0) return;
+    setSelection(null);
+
+    const perform = (): Promise<TodoBatch> => {
+      switch (action.type) {
+        case "status":
+          return setTodosStatus(db, ids, action.done);
+        case "move":
+          return moveTodos(db, ids, action.listId);
+        case "dueDate":
+          return setTodosDueDate(db, ids, action.dueDate);
+        case "priority":
+          return setTodosPriority(db, ids, action.priority);
+        case "duplicate":
+          return duplicateTodos(db, ids);
+        case "delete":
+          return deleteTodos(db, ids);
+      }
+    };
+
+    try {
+      const [batch, entry] = await withHistoryEntry(perform);
+
+      const count = batch.previous.length;
+      snackbarEntry.current = entry;
+      setDeletedTodo(null);
+      setBatchMessage(action.type === "delete"
+        ? t("selection.deleted", { count })
+        : action.type === "duplicate"
+          ? t("selection.duplicated", { count: batch.createdIds.length })
+          : t("selection.updated", { count }));
+    } catch (error) {
+      console.error("Error running batch action:", error);
+      notifyChange("todos");
+      Alert.alert(t("common.error"), t("selection.failed"));
+    }
+  };
+
+  // O lote é um único passo do histórico, inclusive as tarefas que ele criou.
+  const undoBatch = async () => {
+    if (!batchMessage) return;
+
+    try {
+      if (await undoSnackbarEntry()) setBatchMessage(null);
+    } catch (error) {
+      console.error("Error undoing batch action:", error);
     }
   };
 
-  const filteredAndSortedTodos = todos
-    .filter(todo => {
+  const dismissBatchUndo = useCallback(() => setBatchMessage(null), []);
+
+  const filteredAndSortedTodos = sortTodos(
+    todos.filter(todo => {
+      if (!matchesTags(todoTags[todo.id], selectedTagIds, tagMode)) return false;
+
       switch (filter) {
         case FilterOptions.All:
           return true;
@@ -354,58 +1023,167 @@ function TodoList() {
         default:
           return true;
       }
-    })
-    .sort((a, b) => {
-      if (a.done && !b.done) return 1;
-      if (!a.done && b.done) return -1;
-      
-      if (a.dueDate && !b.dueDate) return -1;
-      if (!a.dueDate && b.dueDate) return 1;
-      if (a.dueDate && b.dueDate) {
-        return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
-      }
-      
-      return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-    });
+    }),
+    sortMode
+  );
+  const selectedTodos = selection
+    ? filteredAndSortedTodos.filter(todo => selection.includes(todo.id))
+    : [];
+
+  const emptyMessage = smartView || filterId
+    ? t("todos.emptyView")
+    : selectedListId ? t("todos.emptyList") : t("todos.empty");
+
+  const renderTodo = ({ item }: { item: TodoItem }) => (
+    <ListItem 
+      todoItem={item} 
+      toggleTodo={toggleTodo} 
+      removeTodo={removeTodo}
+      lists={lists} // Passa as listas aqui
+      subtaskProgress={subtaskProgress[item.id]}
+      tags={todoTags[item.id]}
+      selecting={selection !== null}
+      selected={selection?.includes(item.id) ?? false}
+      onSelect={selectTodo}
+    />
+  );
 
   return (
     <GestureHandlerRootView style={styles.container}>
-      <View style={styles.header}>
-        <Text style={styles.title}>{listName}</Text>
-        <TouchableOpacity
-          style={styles.listsButton}
-          onPress={() => router.push("/lists")}
-        >
-          <IconSymbol name="list.bullet" size={24} color="#0a7ea4" />
-        </TouchableOpacity>
-      </View>
+      {selection ? (
+        <SelectionToolbar
+          count={selectedTodos.length}
+          lists={lists}
+          onSelectAll={() => setSelection(filteredAndSortedTodos.map(todo => todo.id))}
+          onSelectNone={() => setSelection([])}
+          onCancel={() => setSelection(null)}
+          onAction={runBatchAction}
+        />
+      ) : (
+        <View style={styles.header}>
+          <Text style={styles.title}>{listName}</Text>
+          <View style={styles.headerButtons}>
+            <HistoryButtons />
+            <TouchableOpacity
+              style={styles.listsButton}
+              onPress={() => router.push("/trash")}
+            >
+              <IconSymbol name="trash" size={24} color={colors.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.listsButton}
+              onPress={() => router.push("/lists")}
+            >
+              <IconSymbol name="list.bullet" size={24} color={colors.primary} />
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
       
+      <SearchBar
+        query={searchQuery}
+        setQuery={setSearchQuery}
+        scope={searchScope}
+        setScope={setSearchScope}
+        canScopeToList={!!selectedListId}
+      />
+
       <AddTodoForm 
         addTodoHandler={addTodo} 
         lists={lists}
+        tagSuggestions={allTags.map(tag => tag.name)}
         selectedListId={selectedListId}
       />
       
-      <TodosFilter selectedValue={filter} setFilter={setFilter} />
+      <TodosFilter
+        selectedValue={filter}
+        setFilter={setFilter}
+        tags={allTags}
+        selectedTagIds={selectedTagIds}
+        setSelectedTagIds={setSelectedTagIds}
+        tagMode={tagMode}
+        setTagMode={setTagMode}
+      />
+      <SortSelector selectedValue={sortMode} setSortMode={changeSortMode} />
       
-      <FlatList
-        style={styles.list}
-        data={filteredAndSortedTodos}
-        renderItem={({ item }) => (
-          <ListItem 
-            todoItem={item} 
-            toggleTodo={toggleTodo} 
-            lists={lists} // Passa as listas aqui
+      {isSearching ? (
+        <FlatList
+          style={styles.list}
+          data={searchResults}
+          renderItem={({ item }) => <SearchResultItem result={item} lists={lists} />}
+          keyExtractor={(item) => item.todo.id}
+          keyboardShouldPersistTaps="handled"
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>{t("search.noResults", { query: searchQuery.trim() })}</Text>
+            </View>
+          }
+        />
+      ) : sortMode === SortMode.Manual ? (
+        <View style={[styles.list, { flex: 1 }]}>
+          <DraggableList
+            data={filteredAndSortedTodos}
+            keyExtractor={(item) => item.id}
+            itemHeight={MANUAL_ITEM_HEIGHT}
+            onReorder={reorderVisibleTodos}
+            renderItem={(item) => (
+              <ManualOrderItem todoItem={item} toggleTodo={toggleTodo} />
+            )}
+            ListHeaderComponent={
+              <Text style={styles.manualHint}>{t("todos.dragHint")}</Text>
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <Text style={styles.emptyText}>
+                  {emptyMessage}
+                </Text>
+              </View>
+            }
           />
-        )}
-        keyExtractor={(item) => item.id}
-        ListEmptyComponent={
-          <View style={styles.emptyContainer}>
-            <Text style={styles.emptyText}>
-              {selectedListId ? "Nenhuma tarefa nesta lista" : "Nenhuma tarefa encontrada"}
-            </Text>
-          </View>
-        }
+        </View>
+      ) : smartView === SmartView.Upcoming ? (
+        <SectionList
+          style={styles.list}
+          sections={groupTodosByDay(filteredAndSortedTodos)}
+          renderItem={renderTodo}
+          renderSectionHeader={({ section }) => (
+            <Text style={styles.sectionHeader}>{section.title}</Text>
+          )}
+          keyExtractor={(item) => item.id}
+          stickySectionHeadersEnabled={false}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>{emptyMessage}</Text>
+            </View>
+          }
+        />
+      ) : (
+        <FlatList
+          style={styles.list}
+          data={filteredAndSortedTodos}
+          renderItem={renderTodo}
+          keyExtractor={(item) => item.id}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>
+                {emptyMessage}
+              </Text>
+            </View>
+          }
+        />
+      )}
+
+      <UndoSnackbar
+        visible={deletedTodo !== null}
+        message={t("todos.movedToTrash", { text: deletedTodo?.text ?? "" })}
+        onUndo={undoDelete}
+        onDismiss={dismissUndo}
+      />
+      <UndoSnackbar
+        visible={batchMessage !== null}
+        message={batchMessage ?? ""}
+        onUndo={undoBatch}
+        onDismiss={dismissBatchUndo}
       />
     </GestureHandlerRootView>
   );
@@ -413,6 +1191,7 @@ function TodoList() {
 
 function Footer() {
   const db = useSQLiteContext();
+  const { colors } = useTheme();
   const [sqliteVersion, setSqliteVersion] = useState<string>("");
   const [dbVersion, setDBVersion] = useState<string>();
 
@@ -441,15 +1220,17 @@ function Footer() {
 
   return (
     <View>
-      <Text style={{ padding: 20 }}>SQLite version: {sqliteVersion} / DBVersion: {dbVersion}</Text>
+      <Text style={{ padding: 20, color: colors.textMuted }}>SQLite version: {sqliteVersion} / DBVersion: {dbVersion}</Text>
     </View>
   );
 }
 
 export default function Index() {
+  const { colors } = useTheme();
+
   return (
     <SafeAreaProvider>
-      <SafeAreaView style={{ flex: 1, backgroundColor: "white" }}>
+      <SafeAreaView style={{ flex: 1, backgroundColor: colors.background }}>
         <TodoList />
         <Footer />
       </SafeAreaView>
@@ -457,13 +1238,13 @@ export default function Index() {
   );
 }
 
-const styles = StyleSheet.create({
+const useStyles = makeThemedStyles(colors => ({
   container: {
     flex: 1,
     alignContent: "center",
     justifyContent: "center",
     alignItems: "center",
-    backgroundColor: "white",
+    backgroundColor: colors.background,
   },
   header: {
     flexDirection: "row",
@@ -476,36 +1257,60 @@ const styles = StyleSheet.create({
   title: {
     fontSize: 32,
     fontWeight: "bold",
+    color: colors.text,
+  },
+  headerButtons: {
+    flexDirection: "row",
+    alignItems: "center",
   },
   listsButton: {
     padding: 8,
   },
   textInput: {
     width: "100%",
-    borderColor: "black",
+    borderColor: colors.text,
+    color: colors.text,
     borderWidth: 1,
     margin: 10,
     padding: 10,
     borderRadius: 50,
   },
+  quickAddPreview: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignSelf: "flex-start",
+    gap: 6,
+    marginTop: -4,
+    marginBottom: 8,
+  },
+  quickAddToken: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    backgroundColor: colors.accentSurface,
+  },
+  quickAddTokenText: {
+    fontSize: 12,
+    color: colors.primary,
+  },
   advancedToggle: {
     marginBottom: 10,
   },
   advancedToggleText: {
-    color: "#0a7ea4",
+    color: colors.primary,
     fontSize: 14,
   },
   advancedOptions: {
     width: "100%",
     padding: 15,
-    backgroundColor: "#f8f9fa",
+    backgroundColor: colors.surfaceMuted,
     borderRadius: 10,
     marginBottom: 10,
   },
   optionLabel: {
     fontSize: 14,
     fontWeight: "600",
-    color: "#495057",
+    color: colors.textSecondary,
     marginTop: 10,
     marginBottom: 5,
   },
@@ -518,47 +1323,48 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
     paddingVertical: 6,
     borderRadius: 6,
-    backgroundColor: "#e9ecef",
+    backgroundColor: colors.chip,
   },
   listOptionSelected: {
-    backgroundColor: "#0a7ea4",
+    backgroundColor: colors.primary,
   },
   listOptionText: {
     fontSize: 14,
-    color: "#495057",
+    color: colors.textSecondary,
   },
   listOptionTextSelected: {
-    color: "white",
+    color: colors.onPrimary,
   },
   dateButton: {
     borderWidth: 1,
-    borderColor: "#ddd",
+    borderColor: colors.border,
     borderRadius: 8,
     padding: 10,
-    backgroundColor: "white",
+    backgroundColor: colors.background,
   },
   dateButtonText: {
     fontSize: 14,
-    color: "#495057",
+    color: colors.textSecondary,
   },
   clearDateButton: {
     marginTop: 5,
     alignSelf: "flex-start",
   },
   clearDateText: {
-    color: "#dc3545",
+    color: colors.danger,
     fontSize: 12,
   },
   notesInput: {
     borderWidth: 1,
-    borderColor: "#ddd",
+    borderColor: colors.border,
     borderRadius: 8,
     padding: 10,
     fontSize: 14,
+    color: colors.text,
     minHeight: 60,
   },
   addButton: {
-    backgroundColor: "#0a7ea4",
+    backgroundColor: colors.primary,
     paddingVertical: 12,
     paddingHorizontal: 24,
     borderRadius: 25,
@@ -566,7 +1372,7 @@ const styles = StyleSheet.create({
     marginTop: 10,
   },
   addButtonText: {
-    color: "white",
+    color: colors.onPrimary,
     fontSize: 16,
     fontWeight: "600",
   },
@@ -574,55 +1380,142 @@ const styles = StyleSheet.create({
     padding: 15,
     width: "100%",
     borderBottomWidth: 1,
-    borderBottomColor: "#f0f0f0",
+    borderBottomColor: colors.separator,
+  },
+  itemSelected: {
+    backgroundColor: colors.accentSurface,
+  },
+  selectionIcon: {
+    alignSelf: "center",
+    marginRight: 10,
+  },
+  priorityMarker: {
+    width: 4,
+    borderRadius: 2,
+    marginRight: 10,
   },
   itemText: {
     fontSize: 16,
-    color: "#11181C",
+    color: colors.text,
     marginBottom: 4,
   },
   itemTextDone: {
     fontSize: 16,
-    color: "#6c757d",
+    color: colors.textMuted,
     textDecorationLine: "line-through",
     marginBottom: 4,
   },
   listInfo: {
     fontSize: 12,
-    color: "#6c757d",
+    color: colors.textMuted,
     marginBottom: 4,
   },
   dueDate: {
     fontSize: 13,
-    color: "#495057",
+    color: colors.textSecondary,
     marginBottom: 4,
   },
   overdue: {
-    color: "#dc3545",
+    color: colors.overdue,
     fontWeight: "600",
   },
   notes: {
     fontSize: 13,
-    color: "#6c757d",
+    color: colors.textMuted,
     fontStyle: "italic",
   },
+  tagRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 4,
+    marginTop: 4,
+  },
+  tagChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: colors.accentSurface,
+  },
+  tagChipText: {
+    fontSize: 12,
+    color: colors.primary,
+  },
   list: {
     width: "100%",
-    backgroundColor: "white",
+    backgroundColor: colors.background,
     padding: 10,
     marginTop: 20,
   },
+  searchBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    width: "100%",
+    paddingHorizontal: 20,
+    marginTop: 10,
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    backgroundColor: colors.input,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: colors.text,
+  },
+  searchScope: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  searchScopeText: {
+    fontSize: 13,
+    color: colors.primary,
+  },
+  searchHighlight: {
+    backgroundColor: colors.highlight,
+    fontWeight: "bold",
+  },
+  manualItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    height: MANUAL_ITEM_HEIGHT,
+    paddingHorizontal: 10,
+    backgroundColor: colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.separator,
+  },
+  manualCheck: {
+    padding: 6,
+    marginRight: 6,
+  },
+  manualHint: {
+    fontSize: 12,
+    color: colors.textFaint,
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  sectionHeader: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.icon,
+    paddingHorizontal: 4,
+    paddingTop: 12,
+    paddingBottom: 4,
+  },
   emptyContainer: {
     padding: 40,
     alignItems: "center",
   },
   emptyText: {
     fontSize: 16,
-    color: "#6c757d",
+    color: colors.textMuted,
   },
-});
+}));
 
-const filterStyles = StyleSheet.create({
+const useFilterStyles = makeThemedStyles(colors => ({
   filterMenu: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -684,6 +1577,118 @@ const filterStyles = StyleSheet.create({
   },
 
   selectedLabel: {
-    color: 'white',
+    color: colors.onPrimary,
+  },
+  tagModeButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  tagModeLabel: {
+    fontSize: 13,
+    color: colors.primary,
+  },
+}));
+
+const useSelectionStyles = makeThemedStyles(colors => ({
+  container: {
+    paddingTop: 60,
+    paddingBottom: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.separator,
+    gap: 8,
+  },
+  topRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    gap: 16,
+  },
+  iconButton: {
+    padding: 4,
+  },
+  count: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: "bold",
+    color: colors.text,
+  },
+  link: {
+    fontSize: 15,
+    color: colors.primary,
+  },
+  row: {
+    alignItems: "center",
+    paddingHorizontal: 20,
+    gap: 6,
+  },
+  action: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: colors.surfaceSubtle,
+  },
+  actionSelected: {
+    backgroundColor: colors.primary,
+  },
+  actionText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  actionTextSelected: {
+    color: colors.onPrimary,
+  },
+  actionTextDanger: {
+    color: colors.danger,
+  },
+  actionTextDisabled: {
+    color: colors.textMuted,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  optionText: {
+    fontSize: 14,
+    color: colors.primary,
+  },
+}));
+
+const useSortStyles = makeThemedStyles(colors => ({
+  container: {
+    flexGrow: 0,
+    width: "100%",
+    marginTop: 4,
+  },
+  content: {
+    alignItems: "center",
+    paddingHorizontal: 20,
+    gap: 6,
+  },
+  label: {
+    fontSize: 13,
+    color: colors.icon,
+    marginRight: 4,
+  },
+  option: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: colors.surfaceSubtle,
+  },
+  optionSelected: {
+    backgroundColor: colors.primary,
+  },
+  optionText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  optionTextSelected: {
+    color: colors.onPrimary,
   },
-});
\ No newline at end of file
+}));
@@ -1,46 +1,216 @@
 import React, { useEffect, useState } from "react";
-import {Text, View, StyleSheet, TouchableOpacity, FlatList, Modal, TextInput, Alert } from "react-native";
+import {Text, View, TouchableOpacity, Modal, TextInput, Alert, Share } from "react-native";
 import { useSQLiteContext } from "expo-sqlite";
+import { SymbolViewProps } from "expo-symbols";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
-import { TodoList } from "@/lib/types";
-import { getAllLists, createList } from "@/lib/db";
+import { ListDeleteStrategy, TodoList } from "@/lib/types";
+import { getSortMode, getTodoTags, getSubtasks, DEFAULT_LIST_COLOR, DEFAULT_LIST_ICON, DEFAULT_LIST_ID } from "@/lib/db";
+import { createList, updateList, reorderLists, deleteList } from "@/lib/listRepository";
+import { notifyChange, QueryKeys, setQueryData } from "@/lib/store";
+import { useLists, useSavedFilters } from "@/hooks/useData";
+import { getTodosByList } from "@/lib/todoRepository";
 import { router } from "expo-router";
 import { IconSymbol } from "@/components/ui/IconSymbol";
+import { HistoryButtons } from "@/components/HistoryButtons";
+import { DraggableList } from "@/components/DraggableList";
+import { ListColors, ListIcons } from "@/constants/ListAppearance";
+import { SmartViewColors, SmartViewIcons, SmartViewLabels, SmartViewOptions } from "@/constants/SmartViews";
+import { SmartView } from "@/lib/smartViews";
+import { formatListExport, ListExportFormat } from "@/lib/listExport";
+import { sortTodos } from "@/lib/sort";
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { makeThemedStyles, useTheme } from "@/hooks/useTheme";
+import { useI18n } from "@/hooks/useI18n";
+import { t } from "@/lib/i18n";
+
+const LIST_ITEM_HEIGHT = 64;
+
+function DeleteListModal({ list, lists, onCancel, onConfirm }: {
+  list: TodoList | null;
+  lists: TodoList[];
+  onCancel: () => void;
+  onConfirm: (strategy: ListDeleteStrategy) => void;
+}) {
+  const styles = useStyles();
+  const [mode, setMode] = useState<"default" | "other" | "delete">("default");
+  const [targetListId, setTargetListId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMode("default");
+    setTargetListId(null);
+  }, [list]);
+
+  const otherLists = lists.filter(l => l.id !== list?.id && l.id !== DEFAULT_LIST_ID);
+
+  const handleConfirm = () => {
+    if (mode === "delete") {
+      onConfirm({ type: "delete-todos" });
+    } else if (mode === "other") {
+      if (!targetListId) {
+        Alert.alert(t("common.attention"), t("lists.chooseTarget"));
+        return;
+      }
+      onConfirm({ type: "move", targetListId });
+    } else {
+      onConfirm({ type: "move", targetListId: DEFAULT_LIST_ID });
+    }
+  };
+
+  const defaultListName = lists.find(l => l.id === DEFAULT_LIST_ID)?.name ?? t("lists.defaultName");
+  const options: { value: typeof mode; label: string }[] = [
+    { value: "default", label: t("lists.deleteMoveTo", { name: defaultListName }) },
+    ...(otherLists.length > 0 ? [{ value: "other" as const, label: t("lists.deleteMoveOther") }] : []),
+    { value: "delete", label: t("lists.deleteTodos") },
+  ];
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={list !== null}
+      onRequestClose={onCancel}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>{t("lists.deleteTitle", { name: list?.name ?? "" })}</Text>
+          <Text style={styles.optionLabel}>{t("lists.deleteQuestion")}</Text>
+
+          {options.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={styles.radioRow}
+              onPress={() => setMode(option.value)}
+            >
+              <View style={[styles.radio, mode === option.value && styles.radioSelected]} />
+              <Text style={styles.radioLabel}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+
+          {mode === "other" && (
+            <View style={styles.chipRow}>
+              {otherLists.map((l) => (
+                <TouchableOpacity
+                  key={l.id}
+                  style={[styles.chip, targetListId === l.id && { backgroundColor: l.color }]}
+                  onPress={() => setTargetListId(l.id)}
+                >
+                  <Text style={[styles.chipText, targetListId === l.id && styles.chipTextSelected]}>
+                    {l.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <View style={[styles.modalButtons, { marginTop: 20 }]}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={onCancel}
+            >
+              <Text style={styles.cancelButtonText}>{t("common.cancel")}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.deleteButton]}
+              onPress={handleConfirm}
+            >
+              <Text style={styles.createButtonText}>{t("common.delete")}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
 
 export default function ListsScreen() {
   const db = useSQLiteContext();
-  const [lists, setLists] = useState<TodoList[]>([]);
+  const { t } = useI18n();
+  const { colors } = useTheme();
+  const styles = useStyles();
+  const { data: lists = [] } = useLists();
+  const { data: savedFilters = [] } = useSavedFilters();
   const [modalVisible, setModalVisible] = useState(false);
+  const [editingList, setEditingList] = useState<TodoList | null>(null);
+  const [deletingList, setDeletingList] = useState<TodoList | null>(null);
   const [newListName, setNewListName] = useState("");
+  const [newListColor, setNewListColor] = useState(DEFAULT_LIST_COLOR);
+  const [newListIcon, setNewListIcon] = useState(DEFAULT_LIST_ICON);
 
-  useEffect(() => {
-    loadLists();
-  }, [db]);
+  const openCreateModal = () => {
+    setEditingList(null);
+    setNewListName("");
+    setNewListColor(DEFAULT_LIST_COLOR);
+    setNewListIcon(DEFAULT_LIST_ICON);
+    setModalVisible(true);
+  };
 
-  const loadLists = async () => {
-    try {
-      const result = await getAllLists(db);
-      setLists(result);
-    } catch (error) {
-      console.error("Error loading lists:", error);
-      Alert.alert("Erro", "Não foi possível carregar as listas");
-    }
+  const openEditModal = (list: TodoList) => {
+    setEditingList(list);
+    setNewListName(list.name);
+    setNewListColor(list.color);
+    setNewListIcon(list.icon);
+    setModalVisible(true);
   };
 
-  const handleCreateList = async () => {
+  const handleSaveList = async () => {
     if (!newListName.trim()) {
-      Alert.alert("Erro", "Por favor, digite um nome para a lista");
+      Alert.alert(t("common.error"), t("lists.nameRequired"));
+      return;
+    }
+
+    if (editingList) {
+      try {
+        await updateList(db, editingList.id, {
+          name: newListName.trim(),
+          color: newListColor,
+          icon: newListIcon,
+        });
+        setModalVisible(false);
+      } catch (error) {
+        console.error("Error updating list:", error);
+        Alert.alert(t("common.error"), t("lists.updateFailed"));
+      }
       return;
     }
 
     try {
-      const newList = await createList(db, newListName.trim());
-      setLists([...lists, newList]);
+      await createList(db, newListName.trim(), newListColor, newListIcon);
       setNewListName("");
       setModalVisible(false);
-      Alert.alert("Sucesso", "Lista criada com sucesso!");
+      Alert.alert(t("common.success"), t("lists.created"));
+    } catch (error) {
+      Alert.alert(t("common.error"), t("lists.createFailed"));
+    }
+  };
+
+  const handleReorder = async (orderedIds: string[]) => {
+    const byId = new Map(lists.map(l => [l.id, l]));
+    setQueryData<TodoList[]>(QueryKeys.lists, () => orderedIds.map((id, index) => ({ ...byId.get(id)!, position: index })));
+
+    try {
+      await reorderLists(db, orderedIds);
+    } catch (error) {
+      console.error("Error reordering lists:", error);
+      notifyChange("lists");
+    }
+  };
+
+  const requestDelete = () => {
+    if (!editingList) return;
+    setModalVisible(false);
+    setDeletingList(editingList);
+  };
+
+  const handleDeleteList = async (strategy: ListDeleteStrategy) => {
+    if (!deletingList) return;
+
+    try {
+      await deleteList(db, deletingList.id, strategy);
+      setDeletingList(null);
     } catch (error) {
-      Alert.alert("Erro", "Não foi possível criar a lista");
+      console.error("Error deleting list:", error);
+      Alert.alert(t("common.error"), t("lists.deleteFailed"));
     }
   };
 
@@ -51,40 +221,167 @@ export default function ListsScreen() {
     });
   };
 
-  const renderItem = ({ item }: { item: TodoList }) => (
+  // Exporta as tarefas da lista na mesma ordem em que aparecem na tela.
+  const exportList = async (list: TodoList, format: ListExportFormat) => {
+    try {
+      const todos = sortTodos(await getTodosByList(db, list.id), await getSortMode(db, list.id));
+      const tags = await getTodoTags(db);
+      const subtasks = format === "markdown"
+        ? Object.fromEntries(await Promise.all(todos.map(async todo => [todo.id, await getSubtasks(db, todo.id)] as const)))
+        : {};
+      const content = formatListExport(format, { listName: list.name, todos, tags, subtasks });
+
+      if (format === "markdown") {
+        await Share.share({ title: list.name, message: content });
+        return;
+      }
+
+      const fileName = `${list.name.replace(/[^\p{L}\p{N}_-]+/gu, "-") || t("lists.exportFileName")}.csv`;
+      const file = new File(Paths.cache, fileName);
+      if (file.exists) file.delete();
+      file.create();
+      file.write(content);
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(file.uri, {
+          mimeType: "text/csv",
+          UTI: "public.comma-separated-values-text",
+          dialogTitle: t("lists.exportDialogTitle", { name: list.name }),
+        });
+      } else {
+        Alert.alert(t("lists.exported"), t("lists.exportedTo", { uri: file.uri }));
+      }
+    } catch (error) {
+      console.error("Error exporting list:", error);
+      Alert.alert(t("common.error"), t("lists.exportFailed"));
+    }
+  };
+
+  const handleExportPress = (list: TodoList) => {
+    Alert.alert(t("lists.exportTitle"), t("lists.exportQuestion", { name: list.name }), [
+      { text: t("common.cancel"), style: "cancel" },
+      { text: "CSV", onPress: () => exportList(list, "csv") },
+      { text: "Markdown", onPress: () => exportList(list, "markdown") },
+    ]);
+  };
+
+  const handleSmartViewPress = (view: SmartView) => {
+    router.push({
+      pathname: "/(tabs)",
+      params: { view }
+    });
+  };
+
+  const handleFilterPress = (filterId: string) => {
+    router.push({
+      pathname: "/(tabs)",
+      params: { filterId }
+    });
+  };
+
+  const renderItem = (item: TodoList) => (
     <TouchableOpacity 
       style={styles.listItem}
       onPress={() => handleListPress(item.id)}
     >
       <View style={styles.listContent}>
-        <IconSymbol name="list.bullet" size={24} color="#0a7ea4" />
-        <Text style={styles.listName}>{item.name}</Text>
+        <IconSymbol name={item.icon as SymbolViewProps["name"]} size={24} color={item.color} />
+        <Text style={styles.listName} numberOfLines={1}>{item.name}</Text>
+      </View>
+      <View style={styles.listActions}>
+        <TouchableOpacity style={styles.editButton} onPress={() => handleExportPress(item)}>
+          <IconSymbol name="square.and.arrow.up" size={20} color={colors.icon} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.editButton} onPress={() => openEditModal(item)}>
+          <IconSymbol name="pencil" size={20} color={colors.icon} />
+        </TouchableOpacity>
+        <IconSymbol name="chevron.right" size={20} color={colors.icon} />
       </View>
-      <IconSymbol name="chevron.right" size={20} color="#687076" />
     </TouchableOpacity>
   );
 
   return (
     <GestureHandlerRootView style={styles.container}>
         <View style={styles.header}>
-            <Text style={styles.title}>Minhas Listas</Text>
-            <TouchableOpacity
-                style={styles.addButton}
-                onPress={() => setModalVisible(true)}
-            >
-                <IconSymbol name="plus" size={24} color="white" />
-            </TouchableOpacity>
+            <Text style={styles.title}>{t("lists.title")}</Text>
+            <View style={styles.headerButtons}>
+                <HistoryButtons />
+                <TouchableOpacity
+                    style={styles.headerIconButton}
+                    onPress={() => router.push("/settings")}
+                >
+                    <IconSymbol name="gearshape.fill" size={24} color={colors.primary} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={styles.headerIconButton}
+                    onPress={() => router.push("/backup")}
+                >
+                    <IconSymbol name="square.and.arrow.up" size={24} color={colors.primary} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={styles.addButton}
+                    onPress={openCreateModal}
+                >
+                    <IconSymbol name="plus" size={24} color={colors.onPrimary} />
+                </TouchableOpacity>
+            </View>
         </View>
 
-        <FlatList
+        <DraggableList
             data={lists}
             renderItem={renderItem}
             keyExtractor={(item) => item.id}
+            itemHeight={LIST_ITEM_HEIGHT}
+            onReorder={handleReorder}
             contentContainerStyle={styles.listContainer}
+            ListHeaderComponent={
+              <View style={styles.smartViews}>
+                {SmartViewOptions.map((view) => (
+                  <TouchableOpacity
+                    key={view}
+                    style={styles.smartViewItem}
+                    onPress={() => handleSmartViewPress(view)}
+                  >
+                    <View style={styles.listContent}>
+                      <IconSymbol name={SmartViewIcons[view]} size={24} color={colors[SmartViewColors[view]]} />
+                      <Text style={styles.listName}>{t(SmartViewLabels[view])}</Text>
+                    </View>
+                    <IconSymbol name="chevron.right" size={20} color={colors.icon} />
+                  </TouchableOpacity>
+                ))}
+
+                <View style={styles.sectionHeader}>
+                  <Text style={styles.sectionTitle}>{t("lists.savedFilters")}</Text>
+                  <TouchableOpacity onPress={() => router.push("/filter-editor")}>
+                    <IconSymbol name="plus" size={22} color={colors.primary} />
+                  </TouchableOpacity>
+                </View>
+                {savedFilters.map((filter) => (
+                  <TouchableOpacity
+                    key={filter.id}
+                    style={styles.smartViewItem}
+                    onPress={() => handleFilterPress(filter.id)}
+                  >
+                    <View style={styles.listContent}>
+                      <IconSymbol name="line.3.horizontal.decrease.circle" size={24} color={colors.primary} />
+                      <Text style={styles.listName} numberOfLines={1}>{filter.name}</Text>
+                    </View>
+                    <View style={styles.listActions}>
+                      <TouchableOpacity
+                        style={styles.editButton}
+                        onPress={() => router.push({ pathname: "/filter-editor", params: { id: filter.id } })}
+                      >
+                        <IconSymbol name="pencil" size={20} color={colors.icon} />
+                      </TouchableOpacity>
+                      <IconSymbol name="chevron.right" size={20} color={colors.icon} />
+                    </View>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            }
             ListEmptyComponent={
               <View style={styles.emptyContainer}>
-                <Text style={styles.emptyText}>Nenhuma lista criada</Text>
-                <Text style={styles.emptySubtext}>Clique no botão + para criar uma nova lista</Text>
+                <Text style={styles.emptyText}>{t("lists.empty")}</Text>
+                <Text style={styles.emptySubtext}>{t("lists.emptyHint")}</Text>
               </View>
             }
         />
@@ -97,41 +394,88 @@ export default function ListsScreen() {
         >
             <View style={styles.modalContainer}>
                 <View style={styles.modalContent}>
-                    <Text style={styles.modalTitle}>Nova Lista</Text>
+                    <Text style={styles.modalTitle}>{editingList ? t("lists.editTitle") : t("lists.newTitle")}</Text>
                     <TextInput
                         style={styles.input}
-                        placeholder="Nome da lista"
+                        placeholder={t("lists.namePlaceholder")}
+                        placeholderTextColor={colors.placeholder}
                         value={newListName}
                         onChangeText={setNewListName}
                         autoFocus
-                        onSubmitEditing={handleCreateList}
+                        onSubmitEditing={handleSaveList}
                         returnKeyType="done"
                     />
+
+                    <Text style={styles.optionLabel}>{t("lists.color")}</Text>
+                    <View style={styles.chipRow}>
+                        {ListColors.map((color) => (
+                            <TouchableOpacity
+                                key={color}
+                                style={[
+                                    styles.colorSwatch,
+                                    { backgroundColor: color },
+                                    newListColor === color && styles.colorSwatchSelected,
+                                ]}
+                                onPress={() => setNewListColor(color)}
+                            />
+                        ))}
+                    </View>
+
+                    <Text style={styles.optionLabel}>{t("lists.icon")}</Text>
+                    <View style={[styles.chipRow, { marginBottom: 20 }]}>
+                        {ListIcons.map((icon) => (
+                            <TouchableOpacity
+                                key={icon as string}
+                                style={[styles.iconOption, newListIcon === icon && styles.iconOptionSelected]}
+                                onPress={() => setNewListIcon(icon as string)}
+                            >
+                                <IconSymbol
+                                    name={icon}
+                                    size={22}
+                                    color={newListIcon === icon ? newListColor : colors.icon}
+                                />
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+
                     <View style={styles.modalButtons}>
                         <TouchableOpacity
                             style={[styles.button, styles.cancelButton]}
                             onPress={() => setModalVisible(false)}
                         >
-                            <Text style={styles.cancelButtonText}>Cancelar</Text>
+                            <Text style={styles.cancelButtonText}>{t("common.cancel")}</Text>
                         </TouchableOpacity>
                         <TouchableOpacity
                             style={[styles.button, styles.createButton]}
-                            onPress={handleCreateList}
+                            onPress={handleSaveList}
                         >
-                            <Text style={styles.createButtonText}>Criar</Text>
+                            <Text style={styles.createButtonText}>{editingList ? t("common.save") : t("common.create")}</Text>
                         </TouchableOpacity>
                     </View>
+
+                    {editingList && editingList.id !== DEFAULT_LIST_ID && (
+                        <TouchableOpacity style={styles.deleteListButton} onPress={requestDelete}>
+                            <Text style={styles.deleteListText}>{t("lists.delete")}</Text>
+                        </TouchableOpacity>
+                    )}
                 </View>
             </View>
         </Modal>
+
+        <DeleteListModal
+            list={deletingList}
+            lists={lists}
+            onCancel={() => setDeletingList(null)}
+            onConfirm={handleDeleteList}
+        />
     </GestureHandlerRootView>
   );
 }
 
-const styles = StyleSheet.create({
+const useStyles = makeThemedStyles(colors => ({
   container: {
     flex: 1,
-    backgroundColor: "white",
+    backgroundColor: colors.background,
   },
   header: {
     flexDirection: "row",
@@ -141,15 +485,23 @@ const styles = StyleSheet.create({
     paddingTop: 60,
     paddingBottom: 20,
     borderBottomWidth: 1,
-    borderBottomColor: "#f0f0f0",
+    borderBottomColor: colors.separator,
   },
   title: {
     fontSize: 28,
     fontWeight: "bold",
-    color: "#11181C",
+    color: colors.text,
+  },
+  headerButtons: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  headerIconButton: {
+    padding: 8,
   },
   addButton: {
-    backgroundColor: "#0a7ea4",
+    backgroundColor: colors.primary,
     width: 40,
     height: 40,
     borderRadius: 20,
@@ -164,27 +516,61 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     justifyContent: "space-between",
     alignItems: "center",
-    paddingVertical: 15,
+    height: LIST_ITEM_HEIGHT,
+    backgroundColor: colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.separator,
+  },
+  smartViews: {
+    marginBottom: 16,
+    paddingBottom: 8,
     borderBottomWidth: 1,
-    borderBottomColor: "#f0f0f0",
+    borderBottomColor: colors.border,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.icon,
+  },
+  smartViewItem: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    height: 52,
   },
   listContent: {
+    flex: 1,
     flexDirection: "row",
     alignItems: "center",
     gap: 12,
   },
+  listActions: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  editButton: {
+    padding: 8,
+    marginRight: 4,
+  },
   listName: {
     fontSize: 18,
-    color: "#11181C",
+    color: colors.text,
   },
   modalContainer: {
     flex: 1,
     justifyContent: "center",
     alignItems: "center",
-    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    backgroundColor: colors.overlay,
   },
   modalContent: {
-    backgroundColor: "white",
+    backgroundColor: colors.surface,
     borderRadius: 20,
     padding: 20,
     width: "80%",
@@ -193,16 +579,18 @@ const styles = StyleSheet.create({
   modalTitle: {
     fontSize: 20,
     fontWeight: "bold",
+    color: colors.text,
     marginBottom: 20,
     textAlign: "center",
   },
   input: {
     borderWidth: 1,
-    borderColor: "#ddd",
+    borderColor: colors.border,
     borderRadius: 10,
     padding: 12,
     marginBottom: 20,
     fontSize: 16,
+    color: colors.text,
   },
   modalButtons: {
     flexDirection: "row",
@@ -216,19 +604,93 @@ const styles = StyleSheet.create({
     alignItems: "center",
   },
   cancelButton: {
-    backgroundColor: "#f0f0f0",
+    backgroundColor: colors.surfaceSubtle,
   },
   cancelButtonText: {
-    color: "#666",
+    color: colors.placeholder,
     fontWeight: "600",
   },
   createButton: {
-    backgroundColor: "#0a7ea4",
+    backgroundColor: colors.primary,
   },
   createButtonText: {
-    color: "white",
+    color: colors.onPrimary,
     fontWeight: "600",
   },
+  deleteButton: {
+    backgroundColor: colors.danger,
+  },
+  deleteListButton: {
+    marginTop: 16,
+    alignItems: "center",
+  },
+  deleteListText: {
+    color: colors.danger,
+    fontWeight: "600",
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: colors.chip,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: colors.onPrimary,
+  },
+  colorSwatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  colorSwatchSelected: {
+    borderWidth: 3,
+    borderColor: colors.text,
+  },
+  iconOption: {
+    padding: 6,
+    borderRadius: 8,
+  },
+  iconOptionSelected: {
+    backgroundColor: colors.surfaceSubtle,
+  },
+  radioRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    gap: 10,
+  },
+  radio: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 2,
+    borderColor: colors.textFaint,
+  },
+  radioSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+  radioLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.text,
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: "center",
@@ -237,12 +699,12 @@ const styles = StyleSheet.create({
   },
   emptyText: {
     fontSize: 16,
-    color: "#6c757d",
+    color: colors.textMuted,
     marginBottom: 10,
   },
   emptySubtext: {
     fontSize: 14,
-    color: "#adb5bd",
+    color: colors.textFaint,
     textAlign: "center",
   },
-});
\ No newline at end of file
+}));
\ No newline at end of file
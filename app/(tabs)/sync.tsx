@@ -0,0 +1,289 @@
+import React, { useCallback, useState } from "react";
+import { ActivityIndicator, Alert, Text, TextInput, TouchableOpacity, View } from "react-native";
+import { GestureHandlerRootView, RefreshControl, ScrollView } from "react-native-gesture-handler";
+import {
+  clearSyncConflicts,
+  getPendingChangeCount,
+  getSyncConflicts,
+  getSyncState,
+  setSyncState,
+  SyncConflict,
+  syncNow,
+} from "@/lib/sync";
+import { createHttpTransport } from "@/lib/syncHttp";
+import { formatDueDate } from "@/lib/dates";
+import { t } from "@/lib/i18n";
+import { useI18n } from "@/hooks/useI18n";
+import { makeThemedStyles, useTheme } from "@/hooks/useTheme";
+import { useFocusEffect } from "expo-router";
+import { useSQLiteContext } from "expo-sqlite";
+
+function formatInstant(value: string | null) {
+  return value ? formatDueDate(new Date(value), false) : t("sync.never");
+}
+
+function describeConflict(conflict: SyncConflict) {
+  const data = conflict.remoteData ?? conflict.localData;
+  const name = data ? ("text" in data ? data.text : data.name) : conflict.entityId;
+  const kind = conflict.entity === "todo" ? t("sync.conflictTodo") : t("sync.conflictList");
+  const kept = conflict.winner === "remote"
+    ? conflict.remoteData ? t("sync.keptRemote") : t("sync.deletedRemote")
+    : t("sync.keptLocal");
+  return t("sync.conflict", { kind, name: String(name), kept });
+}
+
+export default function SyncScreen() {
+  const db = useSQLiteContext();
+  useI18n();
+  const { colors } = useTheme();
+  const styles = useStyles();
+  const [serverUrl, setServerUrl] = useState("");
+  const [token, setToken] = useState("");
+  const [pending, setPending] = useState(0);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const [url, savedToken, count, last, conflictList] = await Promise.all([
+        getSyncState(db, "serverUrl"),
+        getSyncState(db, "token"),
+        getPendingChangeCount(db),
+        getSyncState(db, "lastSyncedAt"),
+        getSyncConflicts(db),
+      ]);
+      setServerUrl(url ?? "");
+      setToken(savedToken ?? "");
+      setPending(count);
+      setLastSyncedAt(last);
+      setConflicts(conflictList);
+    } catch (error) {
+      console.error("Error loading sync status:", error);
+    }
+  }, [db]);
+
+  // As alterações feitas nas outras abas entram no outbox; atualiza a contagem ao voltar.
+  useFocusEffect(
+    useCallback(() => {
+      loadStatus();
+    }, [loadStatus])
+  );
+
+  const handleSaveServer = async () => {
+    try {
+      await setSyncState(db, "serverUrl", serverUrl.trim() || null);
+      await setSyncState(db, "token", token.trim() || null);
+      Alert.alert(t("sync.serverSaved"), serverUrl.trim() ? t("sync.serverSavedHint") : t("sync.disabled"));
+    } catch (error) {
+      console.error("Error saving sync server:", error);
+      Alert.alert(t("common.error"), t("sync.saveFailed"));
+    }
+  };
+
+  const handleSync = async () => {
+    const url = await getSyncState(db, "serverUrl");
+    if (!url) {
+      Alert.alert(t("common.attention"), t("sync.serverRequired"));
+      return;
+    }
+
+    setSyncing(true);
+    try {
+      const transport = createHttpTransport({ baseUrl: url, token: (await getSyncState(db, "token")) ?? undefined });
+      const result = await syncNow(db, transport);
+      if (result.conflicts > 0) {
+        Alert.alert(t("sync.withConflicts"), t("sync.conflictsResolved", { count: result.conflicts }));
+      }
+    } catch (error) {
+      console.error("Error syncing:", error);
+      Alert.alert(t("common.error"), t("sync.failed"));
+    } finally {
+      setSyncing(false);
+      await loadStatus();
+    }
+  };
+
+  const handleClearConflicts = async () => {
+    try {
+      await clearSyncConflicts(db);
+      setConflicts([]);
+    } catch (error) {
+      console.error("Error clearing conflicts:", error);
+    }
+  };
+
+  return (
+    <GestureHandlerRootView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{t("sync.title")}</Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={syncing} onRefresh={handleSync} />}
+      >
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("sync.server")}</Text>
+          <TextInput
+            style={styles.input}
+            value={serverUrl}
+            onChangeText={setServerUrl}
+            placeholder={t("sync.serverPlaceholder")}
+            placeholderTextColor={colors.placeholder}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          <TextInput
+            style={[styles.input, styles.tokenInput]}
+            value={token}
+            onChangeText={setToken}
+            placeholder={t("sync.tokenPlaceholder")}
+            placeholderTextColor={colors.placeholder}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+          />
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleSaveServer}>
+            <Text style={styles.secondaryButtonText}>{t("sync.saveServer")}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("sync.status")}</Text>
+          <Text style={styles.statusText}>
+            {t("sync.pending", { count: pending })}
+          </Text>
+          <Text style={styles.statusText}>{t("sync.lastSynced", { date: formatInstant(lastSyncedAt) })}</Text>
+
+          <TouchableOpacity style={styles.primaryButton} onPress={handleSync} disabled={syncing}>
+            {syncing ? (
+              <ActivityIndicator color={colors.onPrimary} />
+            ) : (
+              <Text style={styles.primaryButtonText}>{t("sync.now")}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {conflicts.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.label}>{t("sync.conflicts")}</Text>
+              <TouchableOpacity onPress={handleClearConflicts}>
+                <Text style={styles.clearText}>{t("sync.clear")}</Text>
+              </TouchableOpacity>
+            </View>
+            {conflicts.map((conflict) => (
+              <View key={conflict.id} style={styles.conflictItem}>
+                <Text style={styles.conflictText}>{describeConflict(conflict)}</Text>
+                <Text style={styles.conflictDate}>{formatInstant(conflict.createdAt)}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </GestureHandlerRootView>
+  );
+}
+
+const useStyles = makeThemedStyles(colors => ({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.separator,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "bold",
+    color: colors.text,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    marginBottom: 30,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.textMuted,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: colors.text,
+  },
+  tokenInput: {
+    marginTop: 10,
+  },
+  statusText: {
+    fontSize: 15,
+    color: colors.text,
+    marginBottom: 6,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    padding: 16,
+    borderRadius: 10,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    color: colors.onPrimary,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+    padding: 14,
+    borderRadius: 10,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  clearText: {
+    color: colors.primary,
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  conflictItem: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.separator,
+  },
+  conflictText: {
+    fontSize: 15,
+    color: colors.text,
+  },
+  conflictDate: {
+    fontSize: 12,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+}));
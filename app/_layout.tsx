@@ -1,14 +1,30 @@
 import { Stack } from "expo-router";
 import { SQLiteProvider } from "expo-sqlite";
-import { migrateDB } from "@/lib/db";
+import { migrateDB } from "@/lib/migrations";
+import { configureNotifications, notificationScheduler } from "@/lib/notifications";
+import { setReminderScheduler } from "@/lib/reminders";
+import { SettingsProvider } from "@/components/SettingsProvider";
+import { ThemeProvider } from "@/components/ThemeProvider";
+
+configureNotifications();
+setReminderScheduler(notificationScheduler);
 
 export default function RootLayout() {
   return (
     <SQLiteProvider databaseName="todos.db" onInit={migrateDB}>
-      <Stack screenOptions={{ headerShown: false }}>
-        <Stack.Screen name="(tabs)" options={{headerShown: false}} />
-        <Stack.Screen name="task-details" options={{headerShown: false}} />
-      </Stack>
+      <SettingsProvider>
+        <ThemeProvider>
+          <Stack screenOptions={{ headerShown: false }}>
+            <Stack.Screen name="(tabs)" options={{headerShown: false}} />
+            <Stack.Screen name="task-details" options={{headerShown: false}} />
+            <Stack.Screen name="trash" options={{headerShown: false}} />
+            <Stack.Screen name="filter-editor" options={{headerShown: false}} />
+            <Stack.Screen name="backup" options={{headerShown: false}} />
+            <Stack.Screen name="task-import" options={{headerShown: false}} />
+            <Stack.Screen name="settings" options={{headerShown: false}} />
+          </Stack>
+        </ThemeProvider>
+      </SettingsProvider>
     </SQLiteProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,236 @@
+import React, { useState } from "react";
+import { ActivityIndicator, Alert, Text, TouchableOpacity, View } from "react-native";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { BackupDocument, exportDatabase, ImportMode, importDatabase, parseBackup } from "@/lib/backup";
+import { useI18n } from "@/hooks/useI18n";
+import { makeThemedStyles, useTheme } from "@/hooks/useTheme";
+import { formatDateOnly } from "@/lib/dates";
+import { formatList } from "@/lib/i18n";
+import * as DocumentPicker from "expo-document-picker";
+import { File, Paths } from "expo-file-system";
+import { router } from "expo-router";
+import * as Sharing from "expo-sharing";
+import { useSQLiteContext } from "expo-sqlite";
+
+export default function BackupScreen() {
+  const db = useSQLiteContext();
+  const { t } = useI18n();
+  const { colors } = useTheme();
+  const styles = useStyles();
+  const [busy, setBusy] = useState(false);
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const backup = await exportDatabase(db);
+      const file = new File(Paths.cache, `${t("backup.fileName")}-${formatDateOnly(new Date())}.json`);
+      if (file.exists) file.delete();
+      file.create();
+      file.write(JSON.stringify(backup, null, 2));
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(file.uri, {
+          mimeType: "application/json",
+          UTI: "public.json",
+          dialogTitle: t("backup.export"),
+        });
+      } else {
+        Alert.alert(t("backup.created"), t("backup.savedTo", { uri: file.uri }));
+      }
+    } catch (error) {
+      console.error("Error exporting backup:", error);
+      Alert.alert(t("common.error"), t("backup.exportFailed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runImport = async (backup: BackupDocument, mode: ImportMode) => {
+    setBusy(true);
+    try {
+      const summary = await importDatabase(db, backup, mode);
+      Alert.alert(
+        t("backup.imported"),
+        t("backup.importedSummary", {
+          todos: t("count.todos", { count: summary.todos }),
+          lists: t("count.lists", { count: summary.lists }),
+          tags: t("count.newTags", { count: summary.tags }),
+        })
+      );
+    } catch (error) {
+      console.error("Error importing backup:", error);
+      Alert.alert(t("common.error"), t("backup.importFailed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (mode: ImportMode) => {
+    let backup: BackupDocument;
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ["application/json", "text/plain"],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      backup = parseBackup(await new File(result.assets[0].uri).text());
+    } catch (error) {
+      console.error("Error reading backup:", error);
+      Alert.alert(t("backup.invalidTitle"), t("backup.invalidMessage"));
+      return;
+    }
+
+    const contents = formatList([
+      t("count.todos", { count: backup.todos.length }),
+      t("count.lists", { count: backup.lists.length }),
+    ]);
+    if (mode === "replace") {
+      Alert.alert(
+        t("backup.replaceTitle"),
+        t("backup.replaceMessage", { contents }),
+        [
+          { text: t("common.cancel"), style: "cancel" },
+          { text: t("backup.replace"), style: "destructive", onPress: () => runImport(backup, mode) },
+        ]
+      );
+    } else {
+      Alert.alert(
+        t("backup.mergeTitle"),
+        t("backup.mergeMessage", { contents }),
+        [
+          { text: t("common.cancel"), style: "cancel" },
+          { text: t("backup.import"), onPress: () => runImport(backup, mode) },
+        ]
+      );
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.primary} />
+          <Text style={styles.backText}>{t("common.back")}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.content}>
+        <Text style={styles.screenTitle}>{t("backup.title")}</Text>
+
+        <Text style={styles.description}>
+          {t("backup.description")}
+        </Text>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={handleExport} disabled={busy}>
+          <Text style={styles.primaryButtonText}>{t("backup.export")}</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => handleImport("merge")} disabled={busy}>
+          <Text style={styles.secondaryButtonText}>{t("backup.importMerge")}</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.dangerButton} onPress={() => handleImport("replace")} disabled={busy}>
+          <Text style={styles.dangerButtonText}>{t("backup.importReplace")}</Text>
+        </TouchableOpacity>
+
+        <Text style={[styles.description, styles.importDescription]}>
+          {t("backup.otherAppsDescription")}
+        </Text>
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => router.push("/task-import")} disabled={busy}>
+          <Text style={styles.secondaryButtonText}>{t("backup.otherApps")}</Text>
+        </TouchableOpacity>
+
+        {busy && <ActivityIndicator style={styles.spinner} color={colors.primary} />}
+      </View>
+    </View>
+  );
+}
+
+const useStyles = makeThemedStyles(colors => ({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.separator,
+  },
+  backButton: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  backText: {
+    color: colors.primary,
+    marginLeft: 5,
+    fontSize: 16,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  screenTitle: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: colors.text,
+    marginBottom: 20,
+    textAlign: "center",
+  },
+  description: {
+    fontSize: 15,
+    color: colors.textMuted,
+    lineHeight: 22,
+    marginBottom: 30,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    padding: 16,
+    borderRadius: 10,
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    color: colors.onPrimary,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+    padding: 16,
+    borderRadius: 10,
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  secondaryButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  dangerButton: {
+    borderWidth: 1,
+    borderColor: colors.danger,
+    padding: 16,
+    borderRadius: 10,
+    alignItems: "center",
+  },
+  dangerButtonText: {
+    color: colors.danger,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  importDescription: {
+    marginTop: 30,
+    marginBottom: 15,
+  },
+  spinner: {
+    marginTop: 20,
+  },
+}));
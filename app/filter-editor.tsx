@@ -0,0 +1,375 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Alert, ScrollView, Text, TextInput, TouchableOpacity, View } from "react-native";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { TagInput } from "@/components/TagInput";
+import {
+  createSavedFilter,
+  deleteSavedFilter,
+  getSavedFilter,
+  updateSavedFilter,
+} from "@/lib/db";
+import { DueFilter, FilterCriteria } from "@/lib/filters";
+import { Priority, TagMatchMode } from "@/lib/types";
+import { PriorityLabels, PriorityOptions } from "@/constants/Priority";
+import { useLists, useTags } from "@/hooks/useData";
+import { useI18n } from "@/hooks/useI18n";
+import { makeThemedStyles, useTheme } from "@/hooks/useTheme";
+import { MessageKey } from "@/lib/i18n";
+import { router, useLocalSearchParams } from "expo-router";
+import { useSQLiteContext } from "expo-sqlite";
+
+const STATUS_OPTIONS: { value: boolean | undefined; label: MessageKey }[] = [
+  { value: undefined, label: "filterEditor.statusAll" },
+  { value: false, label: "filterEditor.statusPending" },
+  { value: true, label: "filterEditor.statusDone" },
+];
+
+const DUE_OPTIONS: { value: DueFilter | undefined; label: MessageKey }[] = [
+  { value: undefined, label: "filterEditor.dueAny" },
+  { value: { kind: "overdue" }, label: "smartView.overdue" },
+  { value: { kind: "today" }, label: "smartView.today" },
+  { value: { kind: "next", days: 7 }, label: "filterEditor.dueNext7" },
+  { value: { kind: "next", days: 30 }, label: "filterEditor.dueNext30" },
+  { value: { kind: "any" }, label: "filterEditor.dueSet" },
+  { value: { kind: "none" }, label: "smartView.noDate" },
+];
+
+function sameDue(a?: DueFilter, b?: DueFilter) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function Chip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  const styles = useStyles();
+
+  return (
+    <TouchableOpacity style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+export default function FilterEditorScreen() {
+  const db = useSQLiteContext();
+  const params = useLocalSearchParams();
+  const { t } = useI18n();
+  const { colors } = useTheme();
+  const styles = useStyles();
+  const filterId = params.id as string | undefined;
+
+  const [name, setName] = useState("");
+  const [criteria, setCriteria] = useState<FilterCriteria>({});
+  const { data: lists = [] } = useLists();
+  const { data: tags = [] } = useTags();
+  const tagSuggestions = tags.map(tag => tag.name);
+
+  const loadFilter = useCallback(async () => {
+    if (!filterId) return;
+
+    try {
+      const filter = await getSavedFilter(db, filterId);
+      if (filter) {
+        setName(filter.name);
+        setCriteria(filter.criteria);
+      }
+    } catch (error) {
+      console.error("Error loading filter:", error);
+      Alert.alert(t("common.error"), t("filterEditor.loadFailed"));
+    }
+  }, [db, filterId, t]);
+
+  useEffect(() => {
+    loadFilter();
+  }, [loadFilter]);
+
+  const update = (changes: Partial<FilterCriteria>) => setCriteria({ ...criteria, ...changes });
+
+  const toggleList = (listId: string) => {
+    const current = criteria.listIds ?? [];
+    update({
+      listIds: current.includes(listId) ? current.filter(id => id !== listId) : [...current, listId],
+    });
+  };
+
+  const togglePriority = (priority: Priority) => {
+    const current = criteria.priorities ?? [];
+    update({
+      priorities: current.includes(priority) ? current.filter(p => p !== priority) : [...current, priority],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert(t("common.attention"), t("filterEditor.nameRequired"));
+      return;
+    }
+
+    try {
+      if (filterId) {
+        await updateSavedFilter(db, filterId, { name: name.trim(), criteria });
+      } else {
+        await createSavedFilter(db, name.trim(), criteria);
+      }
+      router.back();
+    } catch (error) {
+      console.error("Error saving filter:", error);
+      Alert.alert(t("common.error"), t("filterEditor.saveFailed"));
+    }
+  };
+
+  const handleDelete = () => {
+    if (!filterId) return;
+
+    Alert.alert(
+      t("filterEditor.deleteTitle"),
+      t("filterEditor.deleteMessage", { name }),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("common.delete"),
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteSavedFilter(db, filterId);
+              router.back();
+            } catch (error) {
+              console.error("Error deleting filter:", error);
+              Alert.alert(t("common.error"), t("filterEditor.deleteFailed"));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.primary} />
+          <Text style={styles.backText}>{t("common.back")}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.screenTitle}>{filterId ? t("filterEditor.editTitle") : t("filterEditor.newTitle")}</Text>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("filterEditor.name")}</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder={t("filterEditor.namePlaceholder")}
+            placeholderTextColor={colors.placeholder}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("filterEditor.lists")}</Text>
+          <View style={styles.chipRow}>
+            <Chip
+              label={t("filterEditor.listsAll")}
+              selected={!criteria.listIds || criteria.listIds.length === 0}
+              onPress={() => update({ listIds: undefined })}
+            />
+            {lists.map((list) => (
+              <Chip
+                key={list.id}
+                label={list.name}
+                selected={criteria.listIds?.includes(list.id) ?? false}
+                onPress={() => toggleList(list.id)}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("task.status")}</Text>
+          <View style={styles.chipRow}>
+            {STATUS_OPTIONS.map((option) => (
+              <Chip
+                key={option.label}
+                label={t(option.label)}
+                selected={criteria.done === option.value}
+                onPress={() => update({ done: option.value })}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("filterEditor.due")}</Text>
+          <View style={styles.chipRow}>
+            {DUE_OPTIONS.map((option) => (
+              <Chip
+                key={option.label}
+                label={t(option.label)}
+                selected={sameDue(criteria.due, option.value)}
+                onPress={() => update({ due: option.value })}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("filterEditor.text")}</Text>
+          <TextInput
+            style={styles.input}
+            value={criteria.text ?? ""}
+            onChangeText={(text) => update({ text })}
+            placeholder={t("filterEditor.textPlaceholder")}
+            placeholderTextColor={colors.placeholder}
+            autoCapitalize="none"
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("task.priority")}</Text>
+          <View style={styles.chipRow}>
+            {PriorityOptions.map((priority) => (
+              <Chip
+                key={priority}
+                label={t(PriorityLabels[priority])}
+                selected={criteria.priorities?.includes(priority) ?? false}
+                onPress={() => togglePriority(priority)}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("task.tags")}</Text>
+          <TagInput
+            value={criteria.tags ?? []}
+            onChange={(tags) => update({ tags })}
+            suggestions={tagSuggestions}
+          />
+          {(criteria.tags?.length ?? 0) > 1 && (
+            <View style={styles.chipRow}>
+              {(["or", "and"] as TagMatchMode[]).map((mode) => (
+                <Chip
+                  key={mode}
+                  label={mode === "or" ? t("filterEditor.tagsAny") : t("filterEditor.tagsAll")}
+                  selected={(criteria.tagMode ?? "or") === mode}
+                  onPress={() => update({ tagMode: mode })}
+                />
+              ))}
+            </View>
+          )}
+        </View>
+
+        <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+          <Text style={styles.saveButtonText}>{t("filterEditor.save")}</Text>
+        </TouchableOpacity>
+
+        {filterId && (
+          <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+            <Text style={styles.deleteButtonText}>{t("filterEditor.delete")}</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const useStyles = makeThemedStyles(colors => ({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.separator,
+  },
+  backButton: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  backText: {
+    color: colors.primary,
+    marginLeft: 5,
+    fontSize: 16,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  screenTitle: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: colors.text,
+    marginBottom: 30,
+    textAlign: "center",
+  },
+  section: {
+    marginBottom: 25,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.textMuted,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: colors.text,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginVertical: 4,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: colors.chip,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: colors.onPrimary,
+  },
+  saveButton: {
+    backgroundColor: colors.primary,
+    padding: 16,
+    borderRadius: 10,
+    alignItems: "center",
+    marginTop: 20,
+    marginBottom: 20,
+  },
+  saveButtonText: {
+    color: colors.onPrimary,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  deleteButton: {
+    borderWidth: 1,
+    borderColor: colors.danger,
+    padding: 16,
+    borderRadius: 10,
+    alignItems: "center",
+    marginBottom: 40,
+  },
+  deleteButtonText: {
+    color: colors.danger,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+}));
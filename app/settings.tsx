@@ -0,0 +1,253 @@
+import React from "react";
+import { ScrollView, Text, TouchableOpacity, View } from "react-native";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { ThemePreferenceLabels, ThemePreferenceOptions } from "@/constants/Colors";
+import { SortModeLabels, SortModeOptions } from "@/constants/SortModes";
+import { DEFAULT_LIST_ID, Settings } from "@/lib/db";
+import { FilterOptions } from "@/lib/filters";
+import { Locale, MessageKey, SUPPORTED_LOCALES } from "@/lib/i18n";
+import { useLists, useSettings, useUpdateSetting } from "@/hooks/useData";
+import { useI18n } from "@/hooks/useI18n";
+import { makeThemedStyles, useTheme } from "@/hooks/useTheme";
+import { router } from "expo-router";
+
+// Nomes de idioma ficam na própria língua, como nos ajustes do sistema.
+const LANGUAGE_LABELS: Record<Locale, MessageKey> = {
+  "pt-BR": "settings.languagePtBR",
+  "en-US": "settings.languageEnUS",
+};
+
+const FILTER_OPTIONS: { value: FilterOptions; label: MessageKey }[] = [
+  { value: FilterOptions.All, label: "filter.all" },
+  { value: FilterOptions.Pending, label: "filter.pending" },
+  { value: FilterOptions.Done, label: "filter.done" },
+];
+
+const DATE_FORMAT_OPTIONS: { value: Settings["dateFormat"]; label: MessageKey }[] = [
+  { value: "auto", label: "settings.dateFormatAuto" },
+  { value: "dmy", label: "date.inputDMY" },
+  { value: "mdy", label: "date.inputMDY" },
+];
+
+const WEEK_START_OPTIONS: { value: Settings["weekStart"]; label: MessageKey }[] = [
+  { value: 0, label: "settings.weekStartSunday" },
+  { value: 1, label: "settings.weekStartMonday" },
+];
+
+function Chip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  const styles = useStyles();
+
+  return (
+    <TouchableOpacity style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+export default function SettingsScreen() {
+  const { t } = useI18n();
+  const { colors } = useTheme();
+  const styles = useStyles();
+  const { data: settings } = useSettings();
+  const { data: lists = [] } = useLists();
+  const updateSetting = useUpdateSetting();
+
+  if (!settings) return null;
+
+  // A lista escolhida pode ter sido excluída; aí as tarefas novas vão para a lista fixa.
+  const defaultListId = lists.some(list => list.id === settings.defaultListId)
+    ? settings.defaultListId
+    : DEFAULT_LIST_ID;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.primary} />
+          <Text style={styles.backText}>{t("common.back")}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content}>
+        <Text style={styles.screenTitle}>{t("settings.title")}</Text>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("settings.language")}</Text>
+          <View style={styles.chipRow}>
+            <Chip
+              label={t("settings.languageSystem")}
+              selected={settings.language === "system"}
+              onPress={() => updateSetting("language", "system")}
+            />
+            {SUPPORTED_LOCALES.map((locale) => (
+              <Chip
+                key={locale}
+                label={t(LANGUAGE_LABELS[locale])}
+                selected={settings.language === locale}
+                onPress={() => updateSetting("language", locale)}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("theme.title")}</Text>
+          <View style={styles.chipRow}>
+            {ThemePreferenceOptions.map((option) => (
+              <Chip
+                key={option}
+                label={t(ThemePreferenceLabels[option])}
+                selected={settings.theme === option}
+                onPress={() => updateSetting("theme", option)}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("settings.defaultList")}</Text>
+          <View style={styles.chipRow}>
+            {lists.map((list) => (
+              <Chip
+                key={list.id}
+                label={list.name}
+                selected={defaultListId === list.id}
+                onPress={() => updateSetting("defaultListId", list.id)}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("settings.defaultFilter")}</Text>
+          <View style={styles.chipRow}>
+            {FILTER_OPTIONS.map((option) => (
+              <Chip
+                key={option.value}
+                label={t(option.label)}
+                selected={settings.defaultFilter === option.value}
+                onPress={() => updateSetting("defaultFilter", option.value)}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("settings.sortMode")}</Text>
+          <View style={styles.chipRow}>
+            {SortModeOptions.map((mode) => (
+              <Chip
+                key={mode}
+                label={t(SortModeLabels[mode])}
+                selected={settings.sortMode === mode}
+                onPress={() => updateSetting("sortMode", mode)}
+              />
+            ))}
+          </View>
+          <Text style={styles.hint}>{t("settings.sortModeHint")}</Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("settings.dateFormat")}</Text>
+          <View style={styles.chipRow}>
+            {DATE_FORMAT_OPTIONS.map((option) => (
+              <Chip
+                key={option.value}
+                label={t(option.label)}
+                selected={settings.dateFormat === option.value}
+                onPress={() => updateSetting("dateFormat", option.value)}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("settings.weekStart")}</Text>
+          <View style={styles.chipRow}>
+            {WEEK_START_OPTIONS.map((option) => (
+              <Chip
+                key={option.value}
+                label={t(option.label)}
+                selected={settings.weekStart === option.value}
+                onPress={() => updateSetting("weekStart", option.value)}
+              />
+            ))}
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const useStyles = makeThemedStyles(colors => ({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.separator,
+  },
+  backButton: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  backText: {
+    color: colors.primary,
+    marginLeft: 5,
+    fontSize: 16,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  screenTitle: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: colors.text,
+    marginBottom: 30,
+    textAlign: "center",
+  },
+  section: {
+    marginBottom: 25,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.icon,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: colors.textMuted,
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginVertical: 4,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: colors.chip,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: colors.onPrimary,
+  },
+}));
@@ -1,88 +1,295 @@
-import React, { useEffect, useState } from "react";
-import { Alert, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from "react-native";
+import React, { useState } from "react";
+import { Alert, ScrollView, Switch, Text, TextInput, TouchableOpacity, View } from "react-native";
 import { IconSymbol } from "@/components/ui/IconSymbol";
-import { getAllLists, updateTodo } from "@/lib/db";
-import { TodoItem } from "@/lib/types";
-import DateTimePicker from "@react-native-community/datetimepicker";
+import { HistoryButtons } from "@/components/HistoryButtons";
+import { DraggableList } from "@/components/DraggableList";
+import {
+  addReminder,
+  createSubtask,
+  deleteReminder,
+  deleteSubtask,
+  reorderSubtasks,
+  setAllSubtasksStatus,
+  setTodoTags,
+  updateSubtaskStatus,
+} from "@/lib/db";
+import { withHistoryGroup } from "@/lib/history";
+import { notifyChange, patchCachedTodo, QueryKeys, setQueryData } from "@/lib/store";
+import { deleteTodo, updateTodo, updateTodoStatus } from "@/lib/todoRepository";
+import { formatDate, formatDateTime, formatDueDate, formatTime, isOverdue, startOfDay } from "@/lib/dates";
+import { describeRecurrence } from "@/lib/recurrence";
+import { describeReminder } from "@/lib/reminders";
+import { Priority, ReminderKind, Subtask, TodoItem } from "@/lib/types";
+import { PriorityColors, PriorityLabels, PriorityOptions } from "@/constants/Priority";
+import { RecurrenceEditor } from "@/components/RecurrenceEditor";
+import { TagInput } from "@/components/TagInput";
+import DateTimePicker, { DateTimePickerEvent } from "@react-native-community/datetimepicker";
 import { router, useLocalSearchParams } from "expo-router";
 import { useSQLiteContext } from "expo-sqlite";
+import { useLists, useReminders, useSubtasks, useTags, useTagsByTodo, useTodo } from "@/hooks/useData";
+import { makeThemedStyles, useTheme } from "@/hooks/useTheme";
+import { useI18n } from "@/hooks/useI18n";
+
+const SUBTASK_HEIGHT = 44;
+// Horário sugerido ao desmarcar "Dia inteiro".
+const DEFAULT_DUE_HOUR = 9;
+
+const REMINDER_PRESETS: { kind: ReminderKind; offsetMinutes?: number }[] = [
+  { kind: "at-due" },
+  { kind: "before", offsetMinutes: 15 },
+  { kind: "before", offsetMinutes: 60 },
+  { kind: "before", offsetMinutes: 1440 },
+];
 
 export default function TaskDetailScreen() {
   const db = useSQLiteContext();
   const params = useLocalSearchParams();
   const taskId = params.id as string;
+  const { t } = useI18n();
+  const { colors } = useTheme();
+  const styles = useStyles();
   
-  const [task, setTask] = useState<TodoItem | null>(null);
-  const [lists, setLists] = useState<any[]>([]);
-  const [editing, setEditing] = useState(false);
+  const { data: savedTask } = useTodo(taskId);
+  const { data: lists = [] } = useLists();
+  // Cópia editável da tarefa; enquanto existe, a tela está no modo de edição.
+  const [draft, setDraft] = useState<TodoItem | null>(null);
+  const editing = draft !== null;
+  const task = draft ?? savedTask ?? null;
   const [showDatePicker, setShowDatePicker] = useState(false);
+  const [showTimePicker, setShowTimePicker] = useState(false);
+  // Subtarefas, etiquetas e lembretes vêm do cache, como a tarefa: desfazer, sincronizar ou editar em
+  // outra tela atualiza esta também.
+  const { data: subtasks = [] } = useSubtasks(taskId);
+  const { data: savedTags = [] } = useTagsByTodo(taskId);
+  const { data: allTags = [] } = useTags();
+  const { data: reminders = [] } = useReminders(taskId);
+  const [newSubtaskText, setNewSubtaskText] = useState("");
+  // Etiquetas em edição; fora do modo de edição, as gravadas.
+  const [draftTags, setDraftTags] = useState<string[] | null>(null);
+  const tags = (editing && draftTags) || savedTags.map(tag => tag.name);
+  const tagSuggestions = allTags.map(tag => tag.name);
+  // Lembrete personalizado: primeiro escolhe a data, depois o horário.
+  const [customReminderDate, setCustomReminderDate] = useState<Date | null>(null);
+  const [customReminderStep, setCustomReminderStep] = useState<"date" | "time" | null>(null);
 
-  useEffect(() => {
-    loadTask();
-    loadLists();
-  }, [db, taskId]);
+  // Mostra a mudança nas subtarefas antes de a escrita terminar; a consulta refeita confirma.
+  const patchSubtasks = (update: (current: Subtask[]) => Subtask[]) =>
+    setQueryData<Subtask[]>(QueryKeys.subtasks(taskId), update);
 
-  const loadTask = async () => {
-    const result = await db.getFirstAsync<TodoItem>(
-      "SELECT * FROM todos WHERE id = ?",
-      [taskId]
-    );
-    if (result) {
-      const dueDate = result.dueDate ? 
-        (typeof result.dueDate === 'string' ? new Date(result.dueDate) : new Date(result.dueDate)) : 
-        undefined;
-      
-      setTask({
-        ...result,
-        createdAt: new Date(result.createdAt),
-        dueDate: dueDate,
+  const handleAddReminder = async (reminder: { kind: ReminderKind; offsetMinutes?: number; remindAt?: Date }) => {
+    try {
+      await addReminder(db, taskId, reminder);
+    } catch (error) {
+      console.error("Error adding reminder:", error);
+      Alert.alert(t("common.error"), t("task.reminderAddFailed"));
+    }
+  };
+
+  const handleDeleteReminder = async (id: string) => {
+    try {
+      await deleteReminder(db, id);
+    } catch (error) {
+      console.error("Error deleting reminder:", error);
+    }
+  };
+
+  const handleCustomReminderChange = (event: DateTimePickerEvent, selected?: Date) => {
+    if (!selected) {
+      setCustomReminderStep(null);
+      return;
+    }
+
+    if (customReminderStep === "date") {
+      setCustomReminderDate(selected);
+      setCustomReminderStep("time");
+      return;
+    }
+
+    const remindAt = new Date(customReminderDate ?? selected);
+    remindAt.setHours(selected.getHours(), selected.getMinutes(), 0, 0);
+    setCustomReminderStep(null);
+    if (remindAt <= new Date()) {
+      Alert.alert(t("common.attention"), t("task.reminderInPast"));
+      return;
+    }
+    handleAddReminder({ kind: "custom", remindAt });
+  };
+
+  const handleAddSubtask = async () => {
+    if (!newSubtaskText.trim()) return;
+
+    try {
+      await createSubtask(db, taskId, newSubtaskText.trim());
+      setNewSubtaskText("");
+    } catch (error) {
+      console.error("Error creating subtask:", error);
+      Alert.alert(t("common.error"), t("task.subtaskAddFailed"));
+    }
+  };
+
+  const handleToggleSubtask = async (subtask: Subtask) => {
+    patchSubtasks(current => current.map(s => s.id === subtask.id ? { ...s, done: !s.done } : s));
+    try {
+      await updateSubtaskStatus(db, subtask.id, !subtask.done);
+    } catch (error) {
+      console.error("Error toggling subtask:", error);
+      notifyChange("subtasks");
+    }
+  };
+
+  const handleDeleteSubtask = async (id: string) => {
+    try {
+      await deleteSubtask(db, id);
+    } catch (error) {
+      console.error("Error deleting subtask:", error);
+    }
+  };
+
+  const handleReorderSubtasks = async (orderedIds: string[]) => {
+    patchSubtasks(current => {
+      const byId = new Map(current.map(s => [s.id, s]));
+      return orderedIds.map((id, index) => ({ ...byId.get(id)!, position: index }));
+    });
+
+    try {
+      await reorderSubtasks(db, orderedIds);
+    } catch (error) {
+      console.error("Error reordering subtasks:", error);
+      notifyChange("subtasks");
+    }
+  };
+
+  const setStatus = async (done: boolean, includeSubtasks: boolean) => {
+    if (!task) return;
+
+    try {
+      patchCachedTodo(task.id, { done });
+      await withHistoryGroup(async () => {
+        await updateTodoStatus(db, task.id, done);
+        if (includeSubtasks) {
+          await setAllSubtasksStatus(db, task.id, done);
+        }
       });
+    } catch (error) {
+      console.error("Error updating status:", error);
+      Alert.alert(t("common.error"), t("task.statusFailed"));
     }
   };
 
-  const loadLists = async () => {
-    const result = await getAllLists(db);
-    setLists(result);
+  const handleToggleStatus = () => {
+    if (!task) return;
+
+    const pending = subtasks.filter(s => !s.done).length;
+    if (!task.done && pending > 0) {
+      Alert.alert(
+        t("subtasks.completeTitle"),
+        t("subtasks.pending", { count: pending }),
+        [
+          { text: t("subtasks.onlyTask"), onPress: () => setStatus(true, false) },
+          { text: t("subtasks.completeAll"), onPress: () => setStatus(true, true) },
+        ]
+      );
+      return;
+    }
+
+    setStatus(!task.done, false);
   };
 
   const handleUpdate = async () => {
     if (!task) return;
 
     try {
-      const updated = await updateTodo(db, task.id, {
-        text: task.text,
-        notes: task.notes,
-        dueDate: task.dueDate,
-        listId: task.listId,
-      });
+      // A edição e as etiquetas se desfazem juntas, como um passo só.
+      const [updated] = await withHistoryGroup(async () => [
+        await updateTodo(db, task.id, {
+          text: task.text,
+          notes: task.notes,
+          dueDate: task.dueDate ?? null,
+          allDay: task.allDay,
+          listId: task.listId,
+          recurrence: task.recurrence ?? null,
+          priority: task.priority,
+        }),
+        await setTodoTags(db, task.id, tags),
+      ] as const);
 
       if (updated) {
-        setTask(updated);
-        setEditing(false);
-        Alert.alert("Sucesso", "Tarefa atualizada!");
+        patchCachedTodo(updated.id, updated);
+        setDraft(null);
+        setDraftTags(null);
+        Alert.alert(t("common.success"), t("task.updated"));
       }
     } catch (error) {
-      Alert.alert("Erro", "Não foi possível atualizar a tarefa");
+      Alert.alert(t("common.error"), t("task.updateFailed"));
     }
   };
 
+  const handleDelete = () => {
+    if (!task) return;
+
+    Alert.alert(
+      t("task.deleteTitle"),
+      t("task.deleteMessage"),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("common.delete"),
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteTodo(db, task.id);
+              router.back();
+            } catch (error) {
+              console.error("Error deleting todo:", error);
+              Alert.alert(t("common.error"), t("todos.deleteFailed"));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // O seletor de data não altera o horário já escolhido, e vice-versa.
   const handleDateChange = (event: any, selectedDate?: Date) => {
     setShowDatePicker(false);
     if (selectedDate && task) {
-      setTask({ ...task, dueDate: selectedDate });
+      const dueDate = startOfDay(selectedDate);
+      if (!task.allDay && task.dueDate) {
+        dueDate.setHours(task.dueDate.getHours(), task.dueDate.getMinutes());
+      }
+      setDraft({ ...task, dueDate });
     }
   };
 
+  const handleTimeChange = (event: DateTimePickerEvent, selectedTime?: Date) => {
+    setShowTimePicker(false);
+    if (selectedTime && task?.dueDate) {
+      const dueDate = new Date(task.dueDate);
+      dueDate.setHours(selectedTime.getHours(), selectedTime.getMinutes(), 0, 0);
+      setDraft({ ...task, dueDate });
+    }
+  };
+
+  const setAllDay = (allDay: boolean) => {
+    if (!task?.dueDate) return;
+
+    const dueDate = startOfDay(task.dueDate);
+    if (!allDay) {
+      dueDate.setHours(DEFAULT_DUE_HOUR);
+    }
+    setDraft({ ...task, dueDate, allDay });
+  };
+
   const removeDueDate = () => {
     if (task) {
-      setTask({ ...task, dueDate: undefined });
+      setDraft({ ...task, dueDate: undefined, allDay: true });
     }
   };
 
   if (!task) {
     return (
       <View style={styles.container}>
-        <Text>Carregando...</Text>
+        <Text style={styles.text}>{t("common.loading")}</Text>
       </View>
     );
   }
@@ -93,26 +300,35 @@ export default function TaskDetailScreen() {
     <View style={styles.container}>
       <View style={styles.header}>
         <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-          <IconSymbol name="chevron.left" size={24} color="#0a7ea4" />
-          <Text style={styles.backText}>Voltar</Text>
-        </TouchableOpacity>
-        <TouchableOpacity onPress={() => setEditing(!editing)} style={styles.editButton}>
-          <Text style={styles.editButtonText}>
-            {editing ? "Cancelar" : "Editar"}
-          </Text>
+          <IconSymbol name="chevron.left" size={24} color={colors.primary} />
+          <Text style={styles.backText}>{t("common.back")}</Text>
         </TouchableOpacity>
+        <View style={styles.headerButtons}>
+          {!editing && <HistoryButtons />}
+          <TouchableOpacity
+            onPress={() => {
+              setDraft(editing ? null : task);
+              setDraftTags(null);
+            }}
+            style={styles.editButton}
+          >
+            <Text style={styles.editButtonText}>
+              {editing ? t("common.cancel") : t("common.edit")}
+            </Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       <ScrollView style={styles.content}>
-        <Text style={styles.screenTitle}>Detalhes da Tarefa</Text>
+        <Text style={styles.screenTitle}>{t("task.title")}</Text>
 
         <View style={styles.section}>
-          <Text style={styles.label}>Título</Text>
+          <Text style={styles.label}>{t("task.name")}</Text>
           {editing ? (
             <TextInput
               style={styles.input}
               value={task.text}
-              onChangeText={(text) => setTask({ ...task, text })}
+              onChangeText={(text) => setDraft({ ...task, text })}
             />
           ) : (
             <Text style={styles.text}>{task.text}</Text>
@@ -120,7 +336,7 @@ export default function TaskDetailScreen() {
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.label}>Lista</Text>
+          <Text style={styles.label}>{t("task.list")}</Text>
           {editing ? (
             <View style={styles.listOptions}>
               {lists.map((list) => (
@@ -130,7 +346,7 @@ export default function TaskDetailScreen() {
                     styles.listOption,
                     task.listId === list.id && styles.selectedListOption,
                   ]}
-                  onPress={() => setTask({ ...task, listId: list.id })}
+                  onPress={() => setDraft({ ...task, listId: list.id })}
                 >
                   <Text
                     style={[
@@ -144,12 +360,57 @@ export default function TaskDetailScreen() {
               ))}
             </View>
           ) : (
-            <Text style={styles.text}>{currentList?.name || "Sem lista"}</Text>
+            <Text style={styles.text}>{currentList?.name || t("task.noList")}</Text>
           )}
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.label}>Data de Vencimento</Text>
+          <Text style={styles.label}>{t("task.tags")}</Text>
+          {editing ? (
+            <TagInput value={tags} onChange={setDraftTags} suggestions={tagSuggestions} />
+          ) : (
+            <Text style={[styles.text, tags.length === 0 && styles.placeholder]}>
+              {tags.length > 0 ? tags.map(tag => `@${tag}`).join("  ") : t("task.noTags")}
+            </Text>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("task.priority")}</Text>
+          {editing ? (
+            <View style={styles.listOptions}>
+              {PriorityOptions.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.listOption,
+                    task.priority === option && styles.selectedListOption,
+                  ]}
+                  onPress={() => setDraft({ ...task, priority: option })}
+                >
+                  <Text
+                    style={[
+                      styles.listOptionText,
+                      task.priority === option && styles.selectedListOptionText,
+                    ]}
+                  >
+                    {t(PriorityLabels[option])}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ) : (
+            <View style={styles.priorityRow}>
+              <View style={[styles.priorityDot, { backgroundColor: PriorityColors[task.priority ?? Priority.None] }]} />
+              <Text style={[styles.text, !task.priority && styles.placeholder]}>
+                {t(PriorityLabels[task.priority ?? Priority.None])}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("task.dueDate")}</Text>
           {editing ? (
             <>
               <TouchableOpacity
@@ -158,16 +419,32 @@ export default function TaskDetailScreen() {
               >
                 <Text style={styles.dateButtonText}>
                   {task.dueDate
-                    ? task.dueDate.toLocaleDateString("pt-BR")
-                    : "Definir data"}
+                    ? formatDate(task.dueDate)
+                    : t("task.setDate")}
                 </Text>
               </TouchableOpacity>
+              {task.dueDate && (
+                <View style={styles.allDayRow}>
+                  <Text style={styles.text}>{t("task.allDay")}</Text>
+                  <Switch value={task.allDay} onValueChange={setAllDay} />
+                </View>
+              )}
+              {task.dueDate && !task.allDay && (
+                <TouchableOpacity
+                  style={styles.dateButton}
+                  onPress={() => setShowTimePicker(true)}
+                >
+                  <Text style={styles.dateButtonText}>
+                    🕒 {formatTime(task.dueDate)}
+                  </Text>
+                </TouchableOpacity>
+              )}
               {task.dueDate && (
                 <TouchableOpacity
                   style={styles.removeDateButton}
                   onPress={removeDueDate}
                 >
-                  <Text style={styles.removeDateText}>Remover data</Text>
+                  <Text style={styles.removeDateText}>{t("task.removeDate")}</Text>
                 </TouchableOpacity>
               )}
               {showDatePicker && (
@@ -178,62 +455,183 @@ export default function TaskDetailScreen() {
                   onChange={handleDateChange}
                 />
               )}
+              {showTimePicker && task.dueDate && (
+                <DateTimePicker
+                  value={task.dueDate}
+                  mode="time"
+                  is24Hour
+                  display="default"
+                  onChange={handleTimeChange}
+                />
+              )}
             </>
           ) : (
-            <Text style={[styles.text, !task.dueDate && styles.placeholder]}>
+            <Text style={[
+              styles.text,
+              !task.dueDate && styles.placeholder,
+              !task.done && isOverdue(task.dueDate, task.allDay) && styles.overdue,
+            ]}>
               {task.dueDate
-                ? task.dueDate.toLocaleDateString("pt-BR")
-                : "Sem data definida"}
+                ? formatDueDate(task.dueDate, task.allDay)
+                : t("task.noDate")}
             </Text>
           )}
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.label}>Notas</Text>
+          <Text style={styles.label}>{t("task.reminders")}</Text>
+          {reminders.map((reminder) => (
+            <View key={reminder.id} style={styles.subtaskRow}>
+              <Text style={styles.subtaskText}>🔔 {describeReminder(reminder)}</Text>
+              <TouchableOpacity onPress={() => handleDeleteReminder(reminder.id)} style={styles.subtaskCheck}>
+                <IconSymbol name="xmark" size={18} color={colors.dangerSoft} />
+              </TouchableOpacity>
+            </View>
+          ))}
+          {!task.dueDate && (
+            <Text style={[styles.text, styles.placeholder]}>
+              {t("task.remindersNeedDate")}
+            </Text>
+          )}
+          <View style={[styles.listOptions, styles.reminderOptions]}>
+            {task.dueDate && REMINDER_PRESETS.map((preset) => (
+              <TouchableOpacity
+                key={preset.offsetMinutes ?? preset.kind}
+                style={styles.listOption}
+                onPress={() => handleAddReminder(preset)}
+              >
+                <Text style={styles.listOptionText}>+ {describeReminder(preset)}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity style={styles.listOption} onPress={() => setCustomReminderStep("date")}>
+              <Text style={styles.listOptionText}>+ {t("reminder.custom")}</Text>
+            </TouchableOpacity>
+          </View>
+          {customReminderStep && (
+            <DateTimePicker
+              value={customReminderDate ?? task.dueDate ?? new Date()}
+              mode={customReminderStep}
+              is24Hour
+              display="default"
+              onChange={handleCustomReminderChange}
+            />
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("task.recurrence")}</Text>
+          {editing ? (
+            <RecurrenceEditor
+              value={task.recurrence}
+              dueDate={task.dueDate}
+              onChange={(recurrence) => setDraft({ ...task, recurrence })}
+            />
+          ) : (
+            <Text style={[styles.text, !task.recurrence && styles.placeholder]}>
+              {task.recurrence ? `🔁 ${describeRecurrence(task.recurrence)}` : t("recurrence.none")}
+            </Text>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("task.notes")}</Text>
           {editing ? (
             <TextInput
               style={[styles.input, styles.textArea]}
               value={task.notes || ""}
-              onChangeText={(notes) => setTask({ ...task, notes })}
+              onChangeText={(notes) => setDraft({ ...task, notes })}
               multiline
               numberOfLines={6}
-              placeholder="Adicione notas..."
+              placeholder={t("task.notesPlaceholder")}
+              placeholderTextColor={colors.placeholder}
             />
           ) : (
             <Text style={[styles.text, !task.notes && styles.placeholder]}>
-              {task.notes || "Nenhuma nota adicionada"}
+              {task.notes || t("task.noNotes")}
             </Text>
           )}
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.label}>Status</Text>
-          <Text style={[styles.text, task.done && styles.completed]}>
-            {task.done ? "Concluída" : "Pendente"}
+          <Text style={styles.label}>{t("task.status")}</Text>
+          <View style={styles.statusRow}>
+            <Text style={[styles.text, task.done && styles.completed]}>
+              {task.done ? t("task.done") : t("task.pending")}
+            </Text>
+            <TouchableOpacity onPress={handleToggleStatus}>
+              <Text style={styles.statusToggleText}>
+                {task.done ? t("todo.markPending") : t("task.markDone")}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>
+            {t("task.subtasks")}{subtasks.length > 0 && ` (${subtasks.filter(s => s.done).length}/${subtasks.length})`}
           </Text>
+          <DraggableList
+            data={subtasks}
+            keyExtractor={(item) => item.id}
+            itemHeight={SUBTASK_HEIGHT}
+            onReorder={handleReorderSubtasks}
+            renderItem={(item) => (
+              <View style={styles.subtaskRow}>
+                <TouchableOpacity onPress={() => handleToggleSubtask(item)} style={styles.subtaskCheck}>
+                  <IconSymbol
+                    name={item.done ? "checkmark.circle.fill" : "circle"}
+                    size={22}
+                    color={item.done ? colors.success : colors.icon}
+                  />
+                </TouchableOpacity>
+                <Text
+                  style={[styles.subtaskText, item.done && styles.subtaskTextDone]}
+                  numberOfLines={1}
+                >
+                  {item.text}
+                </Text>
+                <TouchableOpacity onPress={() => handleDeleteSubtask(item.id)} style={styles.subtaskCheck}>
+                  <IconSymbol name="xmark" size={18} color={colors.dangerSoft} />
+                </TouchableOpacity>
+              </View>
+            )}
+          />
+          <TextInput
+            style={[styles.input, styles.subtaskInput]}
+            value={newSubtaskText}
+            onChangeText={setNewSubtaskText}
+            placeholder={t("task.subtaskPlaceholder")}
+            placeholderTextColor={colors.placeholder}
+            onSubmitEditing={handleAddSubtask}
+            returnKeyType="done"
+          />
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.label}>Criada em</Text>
+          <Text style={styles.label}>{t("task.createdAt")}</Text>
           <Text style={styles.text}>
-            {task.createdAt.toLocaleString("pt-BR")}
+            {formatDateTime(task.createdAt)}
           </Text>
         </View>
 
         {editing && (
           <TouchableOpacity style={styles.saveButton} onPress={handleUpdate}>
-            <Text style={styles.saveButtonText}>Salvar Alterações</Text>
+            <Text style={styles.saveButtonText}>{t("task.saveChanges")}</Text>
           </TouchableOpacity>
         )}
+
+        <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+          <Text style={styles.deleteButtonText}>{t("task.delete")}</Text>
+        </TouchableOpacity>
       </ScrollView>
     </View>
   );
 }
 
-const styles = StyleSheet.create({
+const useStyles = makeThemedStyles(colors => ({
   container: {
     flex: 1,
-    backgroundColor: "white",
+    backgroundColor: colors.background,
   },
   header: {
     flexDirection: "row",
@@ -243,14 +641,19 @@ const styles = StyleSheet.create({
     paddingTop: 60,
     paddingBottom: 20,
     borderBottomWidth: 1,
-    borderBottomColor: "#f0f0f0",
+    borderBottomColor: colors.separator,
+  },
+  headerButtons: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
   },
   backButton: {
     flexDirection: "row",
     alignItems: "center",
   },
   backText: {
-    color: "#0a7ea4",
+    color: colors.primary,
     marginLeft: 5,
     fontSize: 16,
   },
@@ -258,7 +661,7 @@ const styles = StyleSheet.create({
     padding: 8,
   },
   editButtonText: {
-    color: "#0a7ea4",
+    color: colors.primary,
     fontWeight: "600",
     fontSize: 16,
   },
@@ -269,7 +672,7 @@ const styles = StyleSheet.create({
   screenTitle: {
     fontSize: 24,
     fontWeight: "bold",
-    color: "#11181C",
+    color: colors.text,
     marginBottom: 30,
     textAlign: "center",
   },
@@ -279,24 +682,25 @@ const styles = StyleSheet.create({
   label: {
     fontSize: 14,
     fontWeight: "600",
-    color: "#687076",
+    color: colors.icon,
     marginBottom: 8,
   },
   text: {
     fontSize: 16,
-    color: "#11181C",
+    color: colors.text,
     lineHeight: 24,
   },
   placeholder: {
-    color: "#999",
+    color: colors.placeholder,
     fontStyle: "italic",
   },
   input: {
     borderWidth: 1,
-    borderColor: "#ddd",
+    borderColor: colors.border,
     borderRadius: 8,
     padding: 12,
     fontSize: 16,
+    color: colors.text,
   },
   textArea: {
     minHeight: 120,
@@ -310,41 +714,98 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
     paddingVertical: 8,
     borderRadius: 6,
-    backgroundColor: "#f0f0f0",
+    backgroundColor: colors.surfaceSubtle,
   },
   selectedListOption: {
-    backgroundColor: "#0a7ea4",
+    backgroundColor: colors.primary,
   },
   listOptionText: {
     fontSize: 14,
-    color: "#666",
+    color: colors.placeholder,
   },
   selectedListOptionText: {
-    color: "white",
+    color: colors.onPrimary,
+  },
+  reminderOptions: {
+    marginTop: 10,
   },
   dateButton: {
     borderWidth: 1,
-    borderColor: "#ddd",
+    borderColor: colors.border,
     borderRadius: 8,
     padding: 12,
   },
   dateButtonText: {
     fontSize: 16,
-    color: "#11181C",
+    color: colors.text,
+  },
+  allDayRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginVertical: 8,
+  },
+  overdue: {
+    color: colors.overdue,
+    fontWeight: "600",
   },
   removeDateButton: {
     marginTop: 8,
   },
   removeDateText: {
-    color: "#ff6b6b",
+    color: colors.dangerSoft,
     fontSize: 14,
   },
   completed: {
-    color: "green",
+    color: colors.success,
     fontWeight: "600",
   },
+  priorityRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  priorityDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  statusRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  statusToggleText: {
+    color: colors.primary,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  subtaskRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    height: SUBTASK_HEIGHT,
+    backgroundColor: colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.separator,
+  },
+  subtaskCheck: {
+    padding: 6,
+  },
+  subtaskText: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.text,
+    marginHorizontal: 6,
+  },
+  subtaskTextDone: {
+    color: colors.textMuted,
+    textDecorationLine: "line-through",
+  },
+  subtaskInput: {
+    marginTop: 10,
+  },
   saveButton: {
-    backgroundColor: "#0a7ea4",
+    backgroundColor: colors.primary,
     padding: 16,
     borderRadius: 10,
     alignItems: "center",
@@ -352,8 +813,21 @@ const styles = StyleSheet.create({
     marginBottom: 40,
   },
   saveButtonText: {
-    color: "white",
+    color: colors.onPrimary,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  deleteButton: {
+    borderWidth: 1,
+    borderColor: colors.danger,
+    padding: 16,
+    borderRadius: 10,
+    alignItems: "center",
+    marginBottom: 40,
+  },
+  deleteButtonText: {
+    color: colors.danger,
     fontSize: 16,
     fontWeight: "600",
   },
-});
\ No newline at end of file
+}));
\ No newline at end of file
@@ -0,0 +1,458 @@
+import React, { useMemo, useState } from "react";
+import { ActivityIndicator, Alert, ScrollView, Text, TextInput, TouchableOpacity, View } from "react-native";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { formatDueDate } from "@/lib/dates";
+import { MessageKey } from "@/lib/i18n";
+import {
+  CsvColumnMapping,
+  CsvField,
+  guessCsvMapping,
+  ImportPlan,
+  ImportSource,
+  importTasks,
+  parseChecklist,
+  parseCsv,
+  parseGenericCsv,
+  parseTodoistCsv,
+  planImportLists,
+} from "@/lib/taskImport";
+import * as DocumentPicker from "expo-document-picker";
+import { File } from "expo-file-system";
+import { router } from "expo-router";
+import { useSQLiteContext } from "expo-sqlite";
+import { useLists, useSetting } from "@/hooks/useData";
+import { useI18n } from "@/hooks/useI18n";
+import { makeThemedStyles, useTheme } from "@/hooks/useTheme";
+
+const SOURCE_OPTIONS: { value: ImportSource; label: MessageKey }[] = [
+  { value: "todoist", label: "taskImport.sourceTodoist" },
+  { value: "csv", label: "taskImport.sourceCsv" },
+  { value: "text", label: "taskImport.sourceText" },
+];
+
+const CSV_FIELDS: { field: CsvField; label: MessageKey }[] = [
+  { field: "text", label: "taskImport.fieldText" },
+  { field: "done", label: "taskImport.fieldDone" },
+  { field: "dueDate", label: "filterEditor.due" },
+  { field: "notes", label: "task.notes" },
+  { field: "list", label: "task.list" },
+  { field: "priority", label: "task.priority" },
+  { field: "tags", label: "task.tags" },
+];
+
+const PREVIEW_LIMIT = 50;
+
+function Chip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  const styles = useStyles();
+
+  return (
+    <TouchableOpacity style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+export default function TaskImportScreen() {
+  const db = useSQLiteContext();
+  const { t } = useI18n();
+  const { colors } = useTheme();
+  const styles = useStyles();
+  const [source, setSource] = useState<ImportSource>("todoist");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [content, setContent] = useState("");
+  const [projectName, setProjectName] = useState("");
+  const [mapping, setMapping] = useState<CsvColumnMapping>({ text: 0 });
+  const { data: lists = [] } = useLists();
+  const defaultListId = useSetting("defaultListId");
+  const [fallbackListId, setFallbackListId] = useState(defaultListId);
+  const [busy, setBusy] = useState(false);
+
+  const header = useMemo(
+    () => (source === "csv" && content ? parseCsv(content)[0] ?? [] : []),
+    [source, content]
+  );
+
+  const preview = useMemo((): { plan: ImportPlan; error?: string } => {
+    const empty = { tasks: [], warnings: [] };
+    if (!content.trim()) return { plan: empty };
+    try {
+      if (source === "todoist") return { plan: parseTodoistCsv(content, projectName.trim() || undefined) };
+      if (source === "csv") return { plan: parseGenericCsv(content, mapping) };
+      return { plan: parseChecklist(content) };
+    } catch (error) {
+      console.error("Error parsing import:", error);
+      return { plan: empty, error: t("taskImport.parseFailed") };
+    }
+  }, [source, content, projectName, mapping, t]);
+
+  const fallbackList = lists.find(list => list.id === fallbackListId) ?? lists[0];
+  const targets = fallbackList ? planImportLists(preview.plan, lists, fallbackList) : [];
+
+  const changeSource = (value: ImportSource) => {
+    setSource(value);
+    setContent("");
+    setFileName(null);
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ["text/csv", "text/comma-separated-values", "text/plain"],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      const asset = result.assets[0];
+      const text = await new File(asset.uri).text();
+      setFileName(asset.name);
+      setContent(text);
+      // O Todoist exporta um arquivo por projeto, com o nome do projeto.
+      setProjectName(asset.name.replace(/\.csv$/i, ""));
+      if (source === "csv") {
+        setMapping(guessCsvMapping(parseCsv(text)[0] ?? []));
+      }
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      Alert.alert(t("common.error"), t("taskImport.readFailed"));
+    }
+  };
+
+  const setColumn = (field: CsvField, index: number | undefined) => {
+    setMapping({ ...mapping, [field]: index });
+  };
+
+  const handleImport = async () => {
+    setBusy(true);
+    try {
+      const summary = await importTasks(db, preview.plan, fallbackList?.id);
+      Alert.alert(
+        t("taskImport.done"),
+        t("taskImport.doneSummary", {
+          todos: t("count.todos", { count: summary.todos }),
+          subtasks: t("count.subtasks", { count: summary.subtasks }),
+          lists: t("count.newLists", { count: summary.lists }),
+        })
+      );
+      router.back();
+    } catch (error) {
+      console.error("Error importing tasks:", error);
+      Alert.alert(t("common.error"), t("taskImport.importFailed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const { tasks, warnings } = preview.plan;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.primary} />
+          <Text style={styles.backText}>{t("common.back")}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.screenTitle}>{t("taskImport.title")}</Text>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("taskImport.source")}</Text>
+          <View style={styles.chipRow}>
+            {SOURCE_OPTIONS.map((option) => (
+              <Chip
+                key={option.value}
+                label={t(option.label)}
+                selected={source === option.value}
+                onPress={() => changeSource(option.value)}
+              />
+            ))}
+          </View>
+        </View>
+
+        {source === "text" ? (
+          <View style={styles.section}>
+            <Text style={styles.label}>{t("taskImport.pasteLabel")}</Text>
+            <TextInput
+              style={[styles.input, styles.textArea]}
+              value={content}
+              onChangeText={setContent}
+              placeholder={t("taskImport.pastePlaceholder")}
+              placeholderTextColor={colors.placeholder}
+              multiline
+              textAlignVertical="top"
+              autoCapitalize="none"
+            />
+          </View>
+        ) : (
+          <View style={styles.section}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={handlePickFile} disabled={busy}>
+              <Text style={styles.secondaryButtonText}>{fileName ?? t("taskImport.pickFile")}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {source === "todoist" && content !== "" && (
+          <View style={styles.section}>
+            <Text style={styles.label}>{t("taskImport.project")}</Text>
+            <TextInput style={styles.input} value={projectName} onChangeText={setProjectName} />
+          </View>
+        )}
+
+        {source === "csv" && header.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.label}>{t("taskImport.columns")}</Text>
+            {CSV_FIELDS.map(({ field, label }) => (
+              <View key={field} style={styles.mappingRow}>
+                <Text style={styles.mappingLabel}>{t(label)}</Text>
+                <View style={styles.chipRow}>
+                  {field !== "text" && (
+                    <Chip label="—" selected={mapping[field] === undefined} onPress={() => setColumn(field, undefined)} />
+                  )}
+                  {header.map((column, index) => (
+                    <Chip
+                      key={index}
+                      label={column || t("taskImport.column", { number: index + 1 })}
+                      selected={mapping[field] === index}
+                      onPress={() => setColumn(field, index)}
+                    />
+                  ))}
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t("taskImport.fallbackList")}</Text>
+          <View style={styles.chipRow}>
+            {lists.map((list) => (
+              <Chip
+                key={list.id}
+                label={list.name}
+                selected={list.id === fallbackList?.id}
+                onPress={() => setFallbackListId(list.id)}
+              />
+            ))}
+          </View>
+        </View>
+
+        {preview.error && <Text style={styles.errorText}>{preview.error}</Text>}
+
+        {tasks.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.label}>{t("taskImport.preview")}</Text>
+            {targets.map((target) => (
+              <Text key={target.listId ?? target.name} style={styles.targetText}>
+                {t(target.listId ? "taskImport.target" : "taskImport.targetNew", {
+                  name: target.name,
+                  todos: t("count.todos", { count: target.count }),
+                })}
+              </Text>
+            ))}
+            {warnings.map((warning, index) => (
+              <Text key={index} style={styles.warningText}>{warning}</Text>
+            ))}
+
+            <View style={styles.previewList}>
+              {tasks.slice(0, PREVIEW_LIMIT).map((task, index) => (
+                <View key={index} style={styles.previewItem}>
+                  <IconSymbol
+                    name={task.done ? "checkmark.circle.fill" : "circle"}
+                    size={18}
+                    color={task.done ? colors.primary : colors.icon}
+                  />
+                  <View style={styles.previewTextContainer}>
+                    <Text style={[styles.previewText, task.done && styles.previewTextDone]}>{task.text}</Text>
+                    {(task.dueDate || task.subtasks.length > 0 || task.tags.length > 0) && (
+                      <Text style={styles.previewMeta}>
+                        {[
+                          task.dueDate && formatDueDate(task.dueDate, task.allDay),
+                          task.subtasks.length > 0 && t("count.subtasks", { count: task.subtasks.length }),
+                          ...task.tags.map(tag => `@${tag}`),
+                        ].filter(Boolean).join(" · ")}
+                      </Text>
+                    )}
+                  </View>
+                </View>
+              ))}
+              {tasks.length > PREVIEW_LIMIT && (
+                <Text style={styles.previewMeta}>{t("taskImport.more", { todos: t("count.todos", { count: tasks.length - PREVIEW_LIMIT }) })}</Text>
+              )}
+            </View>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, (tasks.length === 0 || busy) && styles.primaryButtonDisabled]}
+          onPress={handleImport}
+          disabled={tasks.length === 0 || busy}
+        >
+          <Text style={styles.primaryButtonText}>{t("taskImport.submit", { todos: t("count.todos", { count: tasks.length }) })}</Text>
+        </TouchableOpacity>
+
+        {busy && <ActivityIndicator style={styles.spinner} color={colors.primary} />}
+      </ScrollView>
+    </View>
+  );
+}
+
+const useStyles = makeThemedStyles(colors => ({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.separator,
+  },
+  backButton: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  backText: {
+    color: colors.primary,
+    marginLeft: 5,
+    fontSize: 16,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  screenTitle: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: colors.text,
+    marginBottom: 30,
+    textAlign: "center",
+  },
+  section: {
+    marginBottom: 25,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.textMuted,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: colors.text,
+  },
+  textArea: {
+    minHeight: 160,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginVertical: 4,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: colors.chip,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: colors.onPrimary,
+  },
+  mappingRow: {
+    marginBottom: 10,
+  },
+  mappingLabel: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  targetText: {
+    fontSize: 15,
+    color: colors.text,
+    marginBottom: 4,
+  },
+  warningText: {
+    fontSize: 13,
+    color: colors.warningText,
+    marginTop: 4,
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.danger,
+    marginBottom: 20,
+  },
+  previewList: {
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.separator,
+  },
+  previewItem: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.separator,
+  },
+  previewTextContainer: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  previewText: {
+    fontSize: 15,
+    color: colors.text,
+  },
+  previewTextDone: {
+    textDecorationLine: "line-through",
+    color: colors.textMuted,
+  },
+  previewMeta: {
+    fontSize: 12,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+    padding: 16,
+    borderRadius: 10,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    padding: 16,
+    borderRadius: 10,
+    alignItems: "center",
+    marginBottom: 40,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: colors.onPrimary,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  spinner: {
+    marginBottom: 40,
+  },
+}));
@@ -0,0 +1,207 @@
+import React from "react";
+import { Alert, FlatList, Text, TouchableOpacity, View } from "react-native";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { getDeletedTodos, purgeDeletedTodos, purgeTodo, restoreTodo } from "@/lib/todoRepository";
+import { QueryKeys } from "@/lib/store";
+import { TodoItem } from "@/lib/types";
+import { useQuery } from "@/hooks/useData";
+import { useI18n } from "@/hooks/useI18n";
+import { makeThemedStyles, useTheme } from "@/hooks/useTheme";
+import { formatDate } from "@/lib/dates";
+import { router } from "expo-router";
+import { useSQLiteContext } from "expo-sqlite";
+
+export default function TrashScreen() {
+  const db = useSQLiteContext();
+  const { t } = useI18n();
+  const { colors } = useTheme();
+  const styles = useStyles();
+  const { data: todos = [], error } = useQuery(QueryKeys.deletedTodos, ["todos"], () => getDeletedTodos(db));
+
+  const handleRestore = async (id: string) => {
+    try {
+      await restoreTodo(db, id);
+    } catch (error) {
+      console.error("Error restoring todo:", error);
+      Alert.alert(t("common.error"), t("trash.restoreFailed"));
+    }
+  };
+
+  const handlePurge = (todo: TodoItem) => {
+    Alert.alert(
+      t("trash.purgeTitle"),
+      t("trash.purgeMessage", { text: todo.text }),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("common.delete"),
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await purgeTodo(db, todo.id);
+            } catch (error) {
+              console.error("Error purging todo:", error);
+              Alert.alert(t("common.error"), t("trash.purgeFailed"));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handlePurgeAll = () => {
+    if (todos.length === 0) return;
+
+    Alert.alert(
+      t("trash.emptyTitle"),
+      t("trash.emptyMessage"),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("trash.empty"),
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await purgeDeletedTodos(db);
+            } catch (error) {
+              console.error("Error purging todos:", error);
+              Alert.alert(t("common.error"), t("trash.emptyFailed"));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: TodoItem }) => (
+    <View style={styles.item}>
+      <View style={styles.itemContent}>
+        <Text style={styles.itemText}>{item.text}</Text>
+        {item.deletedAt && (
+          <Text style={styles.itemInfo}>
+            {t("trash.deletedAt", { date: formatDate(item.deletedAt) })}
+          </Text>
+        )}
+      </View>
+      <TouchableOpacity style={styles.actionButton} onPress={() => handleRestore(item.id)}>
+        <IconSymbol name="arrow.uturn.backward" size={22} color={colors.primary} />
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.actionButton} onPress={() => handlePurge(item)}>
+        <IconSymbol name="trash" size={22} color={colors.danger} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.primary} />
+          <Text style={styles.backText}>{t("common.back")}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={handlePurgeAll} style={styles.emptyTrashButton}>
+          <Text style={[styles.emptyTrashText, todos.length === 0 && styles.disabledText]}>
+            {t("trash.empty")}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.screenTitle}>{t("trash.title")}</Text>
+
+      <FlatList
+        data={todos}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.listContainer}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>
+              {error ? t("trash.loadFailed") : t("trash.isEmpty")}
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const useStyles = makeThemedStyles(colors => ({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.separator,
+  },
+  backButton: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  backText: {
+    color: colors.primary,
+    marginLeft: 5,
+    fontSize: 16,
+  },
+  emptyTrashButton: {
+    padding: 8,
+  },
+  emptyTrashText: {
+    color: colors.danger,
+    fontWeight: "600",
+    fontSize: 16,
+  },
+  disabledText: {
+    color: colors.textFaint,
+  },
+  screenTitle: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: colors.text,
+    marginVertical: 20,
+    textAlign: "center",
+  },
+  listContainer: {
+    paddingHorizontal: 20,
+    flexGrow: 1,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.separator,
+  },
+  itemContent: {
+    flex: 1,
+  },
+  itemText: {
+    fontSize: 16,
+    color: colors.text,
+    marginBottom: 4,
+  },
+  itemInfo: {
+    fontSize: 12,
+    color: colors.textMuted,
+  },
+  actionButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textMuted,
+  },
+}));
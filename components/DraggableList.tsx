@@ -0,0 +1,184 @@
+import { ReactElement, ReactNode, useEffect } from 'react';
+import { StyleProp, StyleSheet, View, ViewStyle } from 'react-native';
+import { Gesture, GestureDetector, ScrollView } from 'react-native-gesture-handler';
+import Reanimated, {
+  runOnJS,
+  SharedValue,
+  useAnimatedReaction,
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from 'react-native-reanimated';
+
+const LONG_PRESS_MS = 300;
+
+type Positions = Record<string, number>;
+
+function positionsFromKeys(keys: string[]): Positions {
+  const positions: Positions = {};
+  keys.forEach((key, index) => {
+    positions[key] = index;
+  });
+  return positions;
+}
+
+function movePosition(positions: Positions, from: number, to: number): Positions {
+  'worklet';
+  const next: Positions = {};
+  for (const key in positions) {
+    const position = positions[key];
+    if (position === from) {
+      next[key] = to;
+    } else if (from < to && position > from && position <= to) {
+      next[key] = position - 1;
+    } else if (to < from && position >= to && position < from) {
+      next[key] = position + 1;
+    } else {
+      next[key] = position;
+    }
+  }
+  return next;
+}
+
+function DraggableRow({
+  id,
+  positions,
+  itemHeight,
+  count,
+  onDragEnd,
+  children,
+}: {
+  id: string;
+  positions: SharedValue<Positions>;
+  itemHeight: number;
+  count: number;
+  onDragEnd: (positions: Positions) => void;
+  children: ReactNode;
+}) {
+  const isDragging = useSharedValue(false);
+  const top = useSharedValue((positions.value[id] ?? 0) * itemHeight);
+  const startTop = useSharedValue(0);
+
+  useAnimatedReaction(
+    () => positions.value[id],
+    (current, previous) => {
+      if (current !== previous && current !== undefined && !isDragging.value) {
+        top.value = withTiming(current * itemHeight);
+      }
+    }
+  );
+
+  const gesture = Gesture.Pan()
+    .activateAfterLongPress(LONG_PRESS_MS)
+    .onStart(() => {
+      isDragging.value = true;
+      startTop.value = top.value;
+    })
+    .onUpdate((event) => {
+      top.value = startTop.value + event.translationY;
+
+      const target = Math.min(Math.max(Math.round(top.value / itemHeight), 0), count - 1);
+      const current = positions.value[id];
+      if (target !== current) {
+        positions.value = movePosition(positions.value, current, target);
+      }
+    })
+    .onFinalize(() => {
+      top.value = withTiming(positions.value[id] * itemHeight);
+      if (isDragging.value) {
+        isDragging.value = false;
+        runOnJS(onDragEnd)(positions.value);
+      }
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    top: top.value,
+    zIndex: isDragging.value ? 1 : 0,
+    opacity: isDragging.value ? 0.9 : 1,
+    transform: [{ scale: withTiming(isDragging.value ? 1.03 : 1) }],
+  }));
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <Reanimated.View style={[styles.row, { height: itemHeight }, animatedStyle]}>
+        {children}
+      </Reanimated.View>
+    </GestureDetector>
+  );
+}
+
+/**
+ * Vertical list whose rows can be reordered by long-pressing and dragging them.
+ * Rows must share a fixed `itemHeight`; `onReorder` receives the keys in their new order.
+ */
+export function DraggableList<T>({
+  data,
+  keyExtractor,
+  renderItem,
+  itemHeight,
+  onReorder,
+  ListHeaderComponent,
+  ListEmptyComponent,
+  contentContainerStyle,
+}: {
+  data: T[];
+  keyExtractor: (item: T) => string;
+  renderItem: (item: T) => ReactNode;
+  itemHeight: number;
+  onReorder: (orderedKeys: string[]) => void;
+  ListHeaderComponent?: ReactElement;
+  ListEmptyComponent?: ReactElement;
+  contentContainerStyle?: StyleProp<ViewStyle>;
+}) {
+  const keys = data.map(keyExtractor);
+  const positions = useSharedValue<Positions>(positionsFromKeys(keys));
+  const keysSignature = keys.join('|');
+
+  useEffect(() => {
+    positions.value = positionsFromKeys(keysSignature ? keysSignature.split('|') : []);
+  }, [keysSignature, positions]);
+
+  const handleDragEnd = (finalPositions: Positions) => {
+    const orderedKeys = Object.keys(finalPositions).sort(
+      (a, b) => finalPositions[a] - finalPositions[b]
+    );
+    if (orderedKeys.join('|') !== keysSignature) {
+      onReorder(orderedKeys);
+    }
+  };
+
+  return (
+    <ScrollView contentContainerStyle={contentContainerStyle}>
+      {ListHeaderComponent}
+      {data.length === 0 ? (
+        ListEmptyComponent
+      ) : (
+        <View style={{ height: data.length * itemHeight }}>
+          {data.map((item) => {
+            const key = keyExtractor(item);
+            return (
+              <DraggableRow
+                key={key}
+                id={key}
+                positions={positions}
+                itemHeight={itemHeight}
+                count={data.length}
+                onDragEnd={handleDragEnd}
+              >
+                {renderItem(item)}
+              </DraggableRow>
+            );
+          })}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+  },
+});
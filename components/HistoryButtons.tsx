@@ -0,0 +1,57 @@
+import { Alert, TouchableOpacity, View } from 'react-native';
+
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { useHistory } from '@/hooks/useHistory';
+import { makeThemedStyles, useTheme } from '@/hooks/useTheme';
+import { t } from '@/lib/i18n';
+
+/**
+ * Undo/redo buttons for screen headers, backed by the session history in lib/history.ts.
+ * A button is disabled while there is nothing to undo or redo.
+ */
+export function HistoryButtons() {
+  const { colors } = useTheme();
+  const styles = useStyles();
+  const { undoLabel, redoLabel, undo, redo } = useHistory();
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error replaying history:', error);
+      Alert.alert(t('common.error'), t('history.failed'));
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.button}
+        onPress={() => run(undo)}
+        disabled={!undoLabel}
+        accessibilityLabel={undoLabel ? t('history.undoAction', { action: t(undoLabel) }) : t('common.undo')}
+      >
+        <IconSymbol name="arrow.uturn.left" size={24} color={undoLabel ? colors.primary : colors.textFaint} />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.button}
+        onPress={() => run(redo)}
+        disabled={!redoLabel}
+        accessibilityLabel={redoLabel ? t('history.redoAction', { action: t(redoLabel) }) : t('common.redo')}
+      >
+        <IconSymbol name="arrow.uturn.right" size={24} color={redoLabel ? colors.primary : colors.textFaint} />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const useStyles = makeThemedStyles(() => ({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  button: {
+    padding: 5,
+  },
+}));
@@ -0,0 +1,331 @@
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { useState } from 'react';
+import { Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { useI18n } from '@/hooks/useI18n';
+import { makeThemedStyles } from '@/hooks/useTheme';
+import { formatDate, orderedWeekdays } from '@/lib/dates';
+import { MessageKey, t } from '@/lib/i18n';
+import {
+  describeRecurrence,
+  formatUntilDate,
+  MonthlyMode,
+  parseUntilDate,
+  RecurrenceRule,
+  Weekday,
+} from '@/lib/recurrence';
+
+const FREQUENCIES: { value: RecurrenceRule['freq'] | 'none'; label: MessageKey }[] = [
+  { value: 'none', label: 'recurrence.none' },
+  { value: 'daily', label: 'recurrence.freqDaily' },
+  { value: 'weekly', label: 'recurrence.freqWeekly' },
+  { value: 'monthly', label: 'recurrence.freqMonthly' },
+  { value: 'after-completion', label: 'recurrence.freqAfterCompletion' },
+];
+
+const ORDINALS: (1 | 2 | 3 | 4 | -1)[] = [1, 2, 3, 4, -1];
+
+function Chip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  const styles = useStyles();
+
+  return (
+    <TouchableOpacity style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+function parsePositiveInt(text: string, fallback: number): number {
+  const value = parseInt(text, 10);
+  return isNaN(value) || value < 1 ? fallback : value;
+}
+
+/**
+ * Editor for a task's repeat rule. Calls `onChange(undefined)` when the task stops repeating.
+ * `dueDate` seeds sensible defaults (weekday, day of month) when switching frequency.
+ */
+export function RecurrenceEditor({
+  value,
+  onChange,
+  dueDate,
+}: {
+  value?: RecurrenceRule;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+  dueDate?: Date;
+}) {
+  const styles = useStyles();
+  const { weekStart } = useI18n();
+  const weekdays = orderedWeekdays(weekStart) as Weekday[];
+  const [showUntilPicker, setShowUntilPicker] = useState(false);
+  const reference = dueDate ?? new Date();
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (!value) return;
+    onChange({ ...value, ...changes });
+  };
+
+  const selectFrequency = (freq: RecurrenceRule['freq'] | 'none') => {
+    if (freq === 'none') {
+      onChange(undefined);
+      return;
+    }
+
+    const rule: RecurrenceRule = { freq, interval: value?.interval ?? 1, until: value?.until, count: value?.count };
+    if (freq === 'weekly') {
+      rule.byWeekday = value?.byWeekday ?? [reference.getDay() as Weekday];
+    }
+    if (freq === 'monthly') {
+      rule.monthly = value?.monthly ?? { type: 'day', day: reference.getDate() };
+    }
+    onChange(rule);
+  };
+
+  const toggleWeekday = (weekday: Weekday) => {
+    const current = value?.byWeekday ?? [];
+    const next = current.includes(weekday) ? current.filter(d => d !== weekday) : [...current, weekday].sort();
+    if (next.length > 0) {
+      update({ byWeekday: next });
+    }
+  };
+
+  const setMonthly = (monthly: MonthlyMode) => update({ monthly });
+
+  const endMode = value?.until ? 'until' : value?.count !== undefined ? 'count' : 'never';
+
+  const interval = value?.interval ?? 1;
+  const unitLabel = value?.freq === 'weekly'
+    ? t('recurrence.unitWeeks', { count: interval })
+    : value?.freq === 'monthly'
+      ? t('recurrence.unitMonths', { count: interval })
+      : t('recurrence.unitDays', { count: interval });
+
+  return (
+    <View>
+      <View style={styles.chipRow}>
+        {FREQUENCIES.map((f) => (
+          <Chip
+            key={f.value}
+            label={t(f.label)}
+            selected={(value?.freq ?? 'none') === f.value}
+            onPress={() => selectFrequency(f.value)}
+          />
+        ))}
+      </View>
+
+      {value && (
+        <>
+          <View style={styles.inlineRow}>
+            <Text style={styles.inlineText}>{t('recurrence.every')}</Text>
+            <TextInput
+              style={styles.numberInput}
+              keyboardType="numeric"
+              value={String(value.interval)}
+              onChangeText={(text) => update({ interval: parsePositiveInt(text, 1) })}
+            />
+            <Text style={styles.inlineText}>{unitLabel}</Text>
+          </View>
+
+          {value.freq === 'weekly' && (
+            <View style={styles.chipRow}>
+              {weekdays.map((weekday) => (
+                <TouchableOpacity
+                  key={weekday}
+                  style={[styles.weekday, value.byWeekday?.includes(weekday) && styles.chipSelected]}
+                  onPress={() => toggleWeekday(weekday)}
+                >
+                  <Text style={[styles.chipText, value.byWeekday?.includes(weekday) && styles.chipTextSelected]}>
+                    {t('weekday.narrow', { weekday })}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {value.freq === 'monthly' && (
+            <>
+              <View style={styles.chipRow}>
+                <Chip
+                  label={t('recurrence.dayOfMonth')}
+                  selected={value.monthly?.type !== 'weekday'}
+                  onPress={() => setMonthly({ type: 'day', day: reference.getDate() })}
+                />
+                <Chip
+                  label={t('recurrence.dayOfWeek')}
+                  selected={value.monthly?.type === 'weekday'}
+                  onPress={() => setMonthly({ type: 'weekday', weekday: reference.getDay() as Weekday, ordinal: -1 })}
+                />
+              </View>
+
+              {value.monthly?.type === 'weekday' ? (
+                <>
+                  <View style={styles.chipRow}>
+                    {ORDINALS.map((ordinal) => (
+                      <Chip
+                        key={ordinal}
+                        label={t('recurrence.ordinal', { ordinal })}
+                        selected={value.monthly?.type === 'weekday' && value.monthly.ordinal === ordinal}
+                        onPress={() => value.monthly?.type === 'weekday' && setMonthly({ ...value.monthly, ordinal })}
+                      />
+                    ))}
+                  </View>
+                  <View style={styles.chipRow}>
+                    {weekdays.map((weekday) => (
+                      <Chip
+                        key={weekday}
+                        label={t('weekday.short', { weekday })}
+                        selected={value.monthly?.type === 'weekday' && value.monthly.weekday === weekday}
+                        onPress={() => value.monthly?.type === 'weekday' && setMonthly({ ...value.monthly, weekday })}
+                      />
+                    ))}
+                  </View>
+                </>
+              ) : (
+                <View style={styles.inlineRow}>
+                  <Text style={styles.inlineText}>{t('recurrence.onDayOfMonth')}</Text>
+                  <TextInput
+                    style={styles.numberInput}
+                    keyboardType="numeric"
+                    value={String(value.monthly?.type === 'day' ? value.monthly.day : reference.getDate())}
+                    onChangeText={(text) => setMonthly({ type: 'day', day: Math.min(parsePositiveInt(text, 1), 31) })}
+                  />
+                </View>
+              )}
+            </>
+          )}
+
+          <Text style={styles.subLabel}>{t('recurrence.ends')}</Text>
+          <View style={styles.chipRow}>
+            <Chip
+              label={t('recurrence.endsNever')}
+              selected={endMode === 'never'}
+              onPress={() => update({ until: undefined, count: undefined })}
+            />
+            <Chip
+              label={t('recurrence.endsOnDate')}
+              selected={endMode === 'until'}
+              onPress={() => {
+                update({ until: value.until ?? formatUntilDate(reference), count: undefined });
+                setShowUntilPicker(true);
+              }}
+            />
+            <Chip
+              label={t('recurrence.endsAfterCount')}
+              selected={endMode === 'count'}
+              onPress={() => update({ until: undefined, count: value.count ?? 5 })}
+            />
+          </View>
+
+          {endMode === 'until' && value.until && (
+            <TouchableOpacity style={styles.dateButton} onPress={() => setShowUntilPicker(true)}>
+              <Text style={styles.dateButtonText}>
+                {formatDate(parseUntilDate(value.until))}
+              </Text>
+            </TouchableOpacity>
+          )}
+          {showUntilPicker && value.until && (
+            <DateTimePicker
+              value={parseUntilDate(value.until)}
+              mode="date"
+              display="default"
+              onChange={(event, date) => {
+                setShowUntilPicker(false);
+                if (date) update({ until: formatUntilDate(date) });
+              }}
+            />
+          )}
+
+          {endMode === 'count' && (
+            <View style={styles.inlineRow}>
+              <TextInput
+                style={styles.numberInput}
+                keyboardType="numeric"
+                value={String(value.count ?? 1)}
+                onChangeText={(text) => update({ count: parsePositiveInt(text, 1) })}
+              />
+              <Text style={styles.inlineText}>{t('recurrence.unitOccurrences', { count: value.count ?? 1 })}</Text>
+            </View>
+          )}
+
+          <Text style={styles.summary}>🔁 {describeRecurrence(value)}</Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+const useStyles = makeThemedStyles(colors => ({
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: colors.surfaceSubtle,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.placeholder,
+  },
+  chipTextSelected: {
+    color: colors.onPrimary,
+  },
+  weekday: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: colors.surfaceSubtle,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  inlineText: {
+    fontSize: 16,
+    color: colors.text,
+  },
+  numberInput: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    minWidth: 50,
+    fontSize: 16,
+    color: colors.text,
+    textAlign: 'center',
+  },
+  subLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.icon,
+    marginTop: 6,
+    marginBottom: 8,
+  },
+  dateButton: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 10,
+  },
+  dateButtonText: {
+    fontSize: 16,
+    color: colors.text,
+  },
+  summary: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    fontStyle: 'italic',
+  },
+}));
@@ -0,0 +1,24 @@
+import { PropsWithChildren, useLayoutEffect } from 'react';
+
+import { useSettings } from '@/hooks/useData';
+import { getDeviceLocale, setFormatPreferences, setLocale } from '@/lib/i18n';
+
+/**
+ * Loads the settings before any screen renders and applies language, date format and week start
+ * to lib/i18n.ts, where both the screens and lib/ read them.
+ */
+export function SettingsProvider({ children }: PropsWithChildren) {
+  const { data: settings } = useSettings();
+
+  useLayoutEffect(() => {
+    if (!settings) return;
+    setLocale(settings.language === 'system' ? getDeviceLocale() : settings.language);
+    setFormatPreferences({
+      dateOrder: settings.dateFormat === 'auto' ? null : settings.dateFormat,
+      weekStart: settings.weekStart,
+    });
+  }, [settings]);
+
+  if (!settings) return null;
+  return <>{children}</>;
+}
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { makeThemedStyles, useTheme } from '@/hooks/useTheme';
+import { t } from '@/lib/i18n';
+
+const MAX_SUGGESTIONS = 6;
+
+function normalize(value: string) {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Free-form tag editor with autocomplete from `suggestions`.
+ * A tag is added on submit or when a comma is typed.
+ */
+export function TagInput({
+  value,
+  onChange,
+  suggestions,
+  placeholder = t('tags.placeholder'),
+}: {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[];
+  placeholder?: string;
+}) {
+  const { colors } = useTheme();
+  const styles = useStyles();
+  const [text, setText] = useState('');
+
+  const addTag = (name: string) => {
+    const tag = name.trim().replace(/^[#@]/, '');
+    setText('');
+    if (!tag || value.some(t => normalize(t) === normalize(tag))) return;
+    onChange([...value, tag]);
+  };
+
+  const removeTag = (name: string) => onChange(value.filter(t => t !== name));
+
+  const handleChangeText = (newText: string) => {
+    if (newText.endsWith(',')) {
+      addTag(newText.slice(0, -1));
+    } else {
+      setText(newText);
+    }
+  };
+
+  const query = normalize(text.trim().replace(/^[#@]/, ''));
+  const matches = query
+    ? suggestions
+        .filter(s => normalize(s).includes(query) && !value.some(t => normalize(t) === normalize(s)))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  return (
+    <View>
+      {value.length > 0 && (
+        <View style={styles.chipRow}>
+          {value.map((tag) => (
+            <TouchableOpacity key={tag} style={styles.chip} onPress={() => removeTag(tag)}>
+              <Text style={styles.chipText}>@{tag} ✕</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      <TextInput
+        style={styles.input}
+        value={text}
+        onChangeText={handleChangeText}
+        onSubmitEditing={() => addTag(text)}
+        placeholder={placeholder}
+        placeholderTextColor={colors.placeholder}
+        autoCapitalize="none"
+        returnKeyType="done"
+        submitBehavior="submit"
+      />
+      {matches.length > 0 && (
+        <View style={styles.chipRow}>
+          {matches.map((suggestion) => (
+            <TouchableOpacity key={suggestion} style={styles.suggestion} onPress={() => addTag(suggestion)}>
+              <Text style={styles.suggestionText}>@{suggestion}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const useStyles = makeThemedStyles(colors => ({
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginVertical: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: colors.accentSurface,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.primary,
+  },
+  suggestion: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  suggestionText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    color: colors.text,
+  },
+}));
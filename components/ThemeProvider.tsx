@@ -0,0 +1,53 @@
+import { PropsWithChildren, useMemo } from 'react';
+import { useColorScheme } from 'react-native';
+import { DarkTheme, DefaultTheme, ThemeProvider as NavigationThemeProvider } from '@react-navigation/native';
+import { StatusBar } from 'expo-status-bar';
+
+import { Colors, ThemePreference } from '@/constants/Colors';
+import { useSetting, useUpdateSetting } from '@/hooks/useData';
+import { Theme, ThemeContext } from '@/hooks/useTheme';
+
+/**
+ * Provides the app theme: follows the system color scheme unless the user picked light or dark in
+ * the settings, and keeps the navigation chrome and status bar in sync with it.
+ */
+export function ThemeProvider({ children }: PropsWithChildren) {
+  const systemScheme = useColorScheme();
+  const preference = useSetting('theme');
+  const updateSetting = useUpdateSetting();
+  const scheme = preference === 'system' ? (systemScheme === 'dark' ? 'dark' : 'light') : preference;
+
+  const theme = useMemo<Theme>(
+    () => ({
+      scheme,
+      colors: Colors[scheme],
+      preference,
+      setPreference: (value: ThemePreference) => updateSetting('theme', value),
+    }),
+    [scheme, preference, updateSetting]
+  );
+
+  const navigationTheme = useMemo(() => {
+    const base = scheme === 'dark' ? DarkTheme : DefaultTheme;
+    return {
+      ...base,
+      colors: {
+        ...base.colors,
+        primary: Colors[scheme].primary,
+        background: Colors[scheme].background,
+        card: Colors[scheme].surface,
+        text: Colors[scheme].text,
+        border: Colors[scheme].separator,
+      },
+    };
+  }, [scheme]);
+
+  return (
+    <ThemeContext.Provider value={theme}>
+      <NavigationThemeProvider value={navigationTheme}>
+        {children}
+        <StatusBar style={scheme === 'dark' ? 'light' : 'dark'} />
+      </NavigationThemeProvider>
+    </ThemeContext.Provider>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect } from 'react';
+import { Text, TouchableOpacity } from 'react-native';
+import Reanimated, { FadeInDown, FadeOutDown } from 'react-native-reanimated';
+import { makeThemedStyles } from '@/hooks/useTheme';
+import { t } from '@/lib/i18n';
+
+const DEFAULT_DURATION_MS = 5000;
+
+/**
+ * Snackbar shown at the bottom of the screen after a destructive action.
+ * `onDismiss` fires when the undo window expires without the user tapping undo.
+ */
+export function UndoSnackbar({
+  message,
+  visible,
+  onUndo,
+  onDismiss,
+  duration = DEFAULT_DURATION_MS,
+}: {
+  message: string;
+  visible: boolean;
+  onUndo: () => void;
+  onDismiss: () => void;
+  duration?: number;
+}) {
+  const styles = useStyles();
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const timeout = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timeout);
+  }, [visible, message, duration, onDismiss]);
+
+  if (!visible) return null;
+
+  return (
+    <Reanimated.View entering={FadeInDown} exiting={FadeOutDown} style={styles.container}>
+      <Text style={styles.message} numberOfLines={2}>
+        {message}
+      </Text>
+      <TouchableOpacity onPress={onUndo} style={styles.button}>
+        <Text style={styles.buttonText}>{t('common.undo')}</Text>
+      </TouchableOpacity>
+    </Reanimated.View>
+  );
+}
+
+const useStyles = makeThemedStyles(colors => ({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.snackbar,
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  message: {
+    flex: 1,
+    color: colors.onSnackbar,
+    fontSize: 14,
+  },
+  button: {
+    marginLeft: 12,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+  },
+  buttonText: {
+    color: colors.snackbarAction,
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+}));
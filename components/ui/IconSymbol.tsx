@@ -18,6 +18,30 @@ const MAPPING = {
   'paperplane.fill': 'send',
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
+  'trash': 'delete',
+  'arrow.uturn.backward': 'restore',
+  'arrow.uturn.left': 'undo',
+  'arrow.uturn.right': 'redo',
+  'list.bullet': 'format-list-bulleted',
+  'star.fill': 'star',
+  'briefcase.fill': 'work',
+  'cart.fill': 'shopping-cart',
+  'book.fill': 'book',
+  'heart.fill': 'favorite',
+  'flag.fill': 'flag',
+  'pencil': 'edit',
+  'line.3.horizontal': 'drag-handle',
+  'checkmark.circle.fill': 'check-circle',
+  'circle': 'radio-button-unchecked',
+  'xmark': 'close',
+  'sun.max.fill': 'wb-sunny',
+  'calendar': 'event',
+  'exclamationmark.circle.fill': 'error',
+  'tray.fill': 'inbox',
+  'line.3.horizontal.decrease.circle': 'filter-list',
+  'square.and.arrow.up': 'ios-share',
+  'arrow.triangle.2.circlepath': 'sync',
+  'gearshape.fill': 'settings',
 } as IconMapping;
 
 /**
@@ -2,12 +2,16 @@ import { useBottomTabBarHeight } from '@react-navigation/bottom-tabs';
 import { BlurView } from 'expo-blur';
 import { StyleSheet } from 'react-native';
 
+import { useTheme } from '@/hooks/useTheme';
+
 export default function BlurTabBarBackground() {
+  const { scheme } = useTheme();
+
   return (
     <BlurView
-      // System chrome material automatically adapts to the system's theme
-      // and matches the native tab bar appearance on iOS.
-      tint="systemChromeMaterial"
+      // Chrome material matches the native tab bar appearance on iOS; the variant follows the
+      // app theme so a manual light/dark override also applies to the tab bar.
+      tint={scheme === 'dark' ? 'systemChromeMaterialDark' : 'systemChromeMaterialLight'}
       intensity={100}
       style={StyleSheet.absoluteFill}
     />
@@ -1,5 +1,12 @@
-// This is a shim for web and Android where the tab bar is generally opaque.
-export default undefined;
+import { StyleSheet, View } from 'react-native';
+
+import { useTheme } from '@/hooks/useTheme';
+
+// On web and Android the tab bar is opaque, painted with the theme surface.
+export default function TabBarBackground() {
+  const { colors } = useTheme();
+  return <View style={[StyleSheet.absoluteFill, { backgroundColor: colors.surface }]} />;
+}
 
 export function useBottomTabOverflow() {
   return 0;
@@ -1,8 +1,13 @@
 /**
  * Below are the colors that are used in the app. The colors are defined in the light and dark mode.
  * There are many other ways to style your app. For example, [Nativewind](https://www.nativewind.dev/), [Tamagui](https://tamagui.dev/), [unistyles](https://reactnativeunistyles.vercel.app), etc.
+ *
+ * Screens should read these through `useTheme`/`makeThemedStyles` (hooks/useTheme.ts) and use the
+ * semantic tokens (surface, danger, overdue...) instead of literal colors, so both palettes apply.
  */
 
+import { MessageKey } from '@/lib/i18n';
+
 const tintColorLight = '#0a7ea4';
 const tintColorDark = '#fff';
 
@@ -14,6 +19,48 @@ export const Colors = {
     icon: '#687076',
     tabIconDefault: '#687076',
     tabIconSelected: tintColorLight,
+
+    // Texto secundário, do mais forte ao mais apagado.
+    textSecondary: '#495057',
+    textMuted: '#6c757d',
+    textFaint: '#adb5bd',
+    placeholder: '#666',
+
+    // Superfícies: cartões e modais, painéis recuados e chips/botões neutros.
+    surface: '#fff',
+    surfaceMuted: '#f8f9fa',
+    surfaceSubtle: '#f0f0f0',
+    chip: '#e9ecef',
+    input: '#f1f3f5',
+    border: '#ddd',
+    separator: '#f0f0f0',
+    overlay: 'rgba(0, 0, 0, 0.5)',
+
+    primary: tintColorLight,
+    onPrimary: '#fff',
+    accentSurface: '#e7f5ff',
+    highlight: '#fff3bf',
+
+    danger: '#dc3545',
+    dangerSoft: '#ff6b6b',
+    onDanger: '#fff',
+    success: 'green',
+    onSuccess: '#fff',
+    warning: 'orange',
+    warningText: '#b35c00',
+    onWarning: '#fff',
+    overdue: '#dc3545',
+
+    // Snackbar de desfazer: fundo escuro nos dois temas, destacado do conteúdo.
+    snackbar: '#323232',
+    onSnackbar: '#fff',
+    snackbarAction: '#4fc3f7',
+
+    // Ícones das listas inteligentes.
+    smartViewToday: '#f08c00',
+    smartViewUpcoming: '#1c7ed6',
+    smartViewOverdue: '#e03131',
+    smartViewNoDate: '#495057',
   },
   dark: {
     text: '#ECEDEE',
@@ -22,5 +69,58 @@ export const Colors = {
     icon: '#9BA1A6',
     tabIconDefault: '#9BA1A6',
     tabIconSelected: tintColorDark,
+
+    textSecondary: '#c1c7cd',
+    textMuted: '#9BA1A6',
+    textFaint: '#6c757d',
+    placeholder: '#868e96',
+
+    surface: '#1e2022',
+    surfaceMuted: '#1e2022',
+    surfaceSubtle: '#26292b',
+    chip: '#2b2f32',
+    input: '#26292b',
+    border: '#3a3f42',
+    separator: '#26292b',
+    overlay: 'rgba(0, 0, 0, 0.7)',
+
+    primary: '#3fa9d6',
+    onPrimary: '#fff',
+    accentSurface: '#173042',
+    highlight: '#5c4b00',
+
+    danger: '#ff6b6b',
+    dangerSoft: '#ff8787',
+    onDanger: '#fff',
+    success: '#51cf66',
+    onSuccess: '#151718',
+    warning: '#ffa94d',
+    warningText: '#ffa94d',
+    onWarning: '#151718',
+    overdue: '#ff8787',
+
+    snackbar: '#e9ecef',
+    onSnackbar: '#151718',
+    snackbarAction: '#1c7ed6',
+
+    smartViewToday: '#ffa94d',
+    smartViewUpcoming: '#4dabf7',
+    smartViewOverdue: '#ff6b6b',
+    smartViewNoDate: '#adb5bd',
   },
 };
+
+export type ColorScheme = keyof typeof Colors;
+
+export type ThemeColors = (typeof Colors)[ColorScheme];
+
+// "system" segue o esquema de cores do aparelho; os outros fixam um tema.
+export type ThemePreference = 'system' | ColorScheme;
+
+export const ThemePreferenceOptions: ThemePreference[] = ['system', 'light', 'dark'];
+
+export const ThemePreferenceLabels: Record<ThemePreference, MessageKey> = {
+  system: 'theme.system',
+  light: 'theme.light',
+  dark: 'theme.dark',
+};
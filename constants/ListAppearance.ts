@@ -0,0 +1,27 @@
+import { SymbolViewProps } from 'expo-symbols';
+
+/**
+ * Colors and icons a user can pick for a list. Icons are SF Symbol names and must have
+ * a Material Icons mapping in `components/ui/IconSymbol.tsx`.
+ */
+
+export const ListColors = [
+  '#0a7ea4',
+  '#2f9e44',
+  '#f08c00',
+  '#e03131',
+  '#ae3ec9',
+  '#1c7ed6',
+  '#495057',
+];
+
+export const ListIcons: SymbolViewProps['name'][] = [
+  'list.bullet',
+  'star.fill',
+  'house.fill',
+  'briefcase.fill',
+  'cart.fill',
+  'book.fill',
+  'heart.fill',
+  'flag.fill',
+];
@@ -0,0 +1,27 @@
+import { MessageKey } from '@/lib/i18n';
+import { Priority } from '@/lib/types';
+
+// Chaves de tradução; o texto vem de t(PriorityLabels[priority]).
+export const PriorityLabels: Record<Priority, MessageKey> = {
+  [Priority.None]: 'priority.none',
+  [Priority.Low]: 'priority.low',
+  [Priority.Medium]: 'priority.medium',
+  [Priority.High]: 'priority.high',
+  [Priority.Urgent]: 'priority.urgent',
+};
+
+export const PriorityColors: Record<Priority, string> = {
+  [Priority.None]: 'transparent',
+  [Priority.Low]: '#74c0fc',
+  [Priority.Medium]: '#ffd43b',
+  [Priority.High]: '#ff922b',
+  [Priority.Urgent]: '#e03131',
+};
+
+export const PriorityOptions: Priority[] = [
+  Priority.None,
+  Priority.Low,
+  Priority.Medium,
+  Priority.High,
+  Priority.Urgent,
+];
@@ -0,0 +1,38 @@
+import { SymbolViewProps } from 'expo-symbols';
+
+import { ThemeColors } from '@/constants/Colors';
+import { MessageKey } from '@/lib/i18n';
+import { SmartView } from '@/lib/smartViews';
+
+/**
+ * Display metadata for the built-in smart views, in the order they appear on the lists screen.
+ */
+
+export const SmartViewOptions: SmartView[] = [
+  SmartView.Today,
+  SmartView.Upcoming,
+  SmartView.Overdue,
+  SmartView.NoDate,
+];
+
+export const SmartViewLabels: Record<SmartView, MessageKey> = {
+  [SmartView.Today]: 'smartView.today',
+  [SmartView.Upcoming]: 'smartView.upcoming',
+  [SmartView.Overdue]: 'smartView.overdue',
+  [SmartView.NoDate]: 'smartView.noDate',
+};
+
+export const SmartViewIcons: Record<SmartView, SymbolViewProps['name']> = {
+  [SmartView.Today]: 'sun.max.fill',
+  [SmartView.Upcoming]: 'calendar',
+  [SmartView.Overdue]: 'exclamationmark.circle.fill',
+  [SmartView.NoDate]: 'tray.fill',
+};
+
+// Tokens da paleta (constants/Colors.ts), para o ícone acompanhar o tema.
+export const SmartViewColors: Record<SmartView, keyof ThemeColors> = {
+  [SmartView.Today]: 'smartViewToday',
+  [SmartView.Upcoming]: 'smartViewUpcoming',
+  [SmartView.Overdue]: 'smartViewOverdue',
+  [SmartView.NoDate]: 'smartViewNoDate',
+};
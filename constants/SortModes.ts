@@ -0,0 +1,19 @@
+import { MessageKey } from '@/lib/i18n';
+import { SortMode } from '@/lib/sort';
+
+// Chaves de tradução; o texto vem de t(SortModeLabels[mode]).
+export const SortModeLabels: Record<SortMode, MessageKey> = {
+  [SortMode.Priority]: 'sort.priority',
+  [SortMode.DueDate]: 'sort.dueDate',
+  [SortMode.Created]: 'sort.created',
+  [SortMode.Alphabetical]: 'sort.alphabetical',
+  [SortMode.Manual]: 'sort.manual',
+};
+
+export const SortModeOptions: SortMode[] = [
+  SortMode.Priority,
+  SortMode.DueDate,
+  SortMode.Created,
+  SortMode.Alphabetical,
+  SortMode.Manual,
+];
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import { useSQLiteContext } from "expo-sqlite";
+import {
+  DEFAULT_SETTINGS,
+  getAllTags,
+  getReminders,
+  getSavedFilters,
+  getSettings,
+  getSubtaskProgress,
+  getSubtasks,
+  getTagsByTodo,
+  getTodoTags,
+  setSetting,
+  SettingKey,
+  Settings,
+} from "@/lib/db";
+import { getAllLists } from "@/lib/listRepository";
+import {
+  DataTopic,
+  getQueryState,
+  notifyChange,
+  QueryKeys,
+  QueryState,
+  setQueryData,
+  subscribeQuery,
+} from "@/lib/store";
+import { getAllTodos, getTodoById, getTodosByList } from "@/lib/todoRepository";
+
+/**
+ * Lê uma consulta do cache compartilhado, buscando no banco na primeira vez e de novo sempre que
+ * uma escrita avisar mudança em um dos `topics`.
+ */
+export function useQuery<T>(key: string, topics: DataTopic[], fetcher: () => Promise<T>): QueryState<T> {
+  // A consulta é criada na inscrição, fora da renderização; o ref dá a ela o fetcher mais recente
+  // sem refazer a inscrição a cada renderização.
+  const latest = useRef({ topics, fetcher });
+  useEffect(() => {
+    latest.current = { topics, fetcher };
+  });
+  const subscribe = useCallback(
+    (listener: () => void) =>
+      subscribeQuery(key, { topics: latest.current.topics, fetcher: () => latest.current.fetcher() }, listener),
+    [key]
+  );
+  const getSnapshot = useCallback(() => getQueryState<T>(key), [key]);
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+export function useTodos(listId?: string) {
+  const db = useSQLiteContext();
+  return useQuery(QueryKeys.todos(listId), ["todos"], () =>
+    listId ? getTodosByList(db, listId) : getAllTodos(db)
+  );
+}
+
+export function useTodo(id: string) {
+  const db = useSQLiteContext();
+  return useQuery(QueryKeys.todo(id), ["todos"], () => getTodoById(db, id));
+}
+
+export function useSubtasks(todoId: string) {
+  const db = useSQLiteContext();
+  return useQuery(QueryKeys.subtasks(todoId), ["subtasks"], () => getSubtasks(db, todoId));
+}
+
+export function useTagsByTodo(todoId: string) {
+  const db = useSQLiteContext();
+  return useQuery(QueryKeys.tagsByTodo(todoId), ["tags"], () => getTagsByTodo(db, todoId));
+}
+
+export function useReminders(todoId: string) {
+  const db = useSQLiteContext();
+  return useQuery(QueryKeys.reminders(todoId), ["reminders"], () => getReminders(db, todoId));
+}
+
+export function useLists() {
+  const db = useSQLiteContext();
+  return useQuery(QueryKeys.lists, ["lists"], () => getAllLists(db));
+}
+
+export function useTags() {
+  const db = useSQLiteContext();
+  return useQuery(QueryKeys.tags, ["tags"], () => getAllTags(db));
+}
+
+export function useTodoTags() {
+  const db = useSQLiteContext();
+  return useQuery(QueryKeys.todoTags, ["tags", "todos"], () => getTodoTags(db));
+}
+
+export function useSubtaskProgress() {
+  const db = useSQLiteContext();
+  return useQuery(QueryKeys.subtaskProgress, ["subtasks", "todos"], () => getSubtaskProgress(db));
+}
+
+export function useSavedFilters() {
+  const db = useSQLiteContext();
+  return useQuery(QueryKeys.savedFilters, ["filters"], () => getSavedFilters(db));
+}
+
+export function useSettings() {
+  const db = useSQLiteContext();
+  return useQuery(QueryKeys.settings, ["preferences"], () => getSettings(db));
+}
+
+/** Valor de uma configuração; enquanto carrega, o padrão. */
+export function useSetting<K extends SettingKey>(key: K): Settings[K] {
+  const { data } = useSettings();
+  return data ? data[key] : DEFAULT_SETTINGS[key];
+}
+
+/** Grava uma configuração; as telas mostram o novo valor antes de a escrita terminar. */
+export function useUpdateSetting() {
+  const db = useSQLiteContext();
+  return useCallback(async <K extends SettingKey>(key: K, value: Settings[K]) => {
+    setQueryData<Settings>(QueryKeys.settings, settings => ({ ...settings, [key]: value }));
+    try {
+      await setSetting(db, key, value);
+    } catch (error) {
+      console.error("Error saving setting:", error);
+      notifyChange("preferences");
+    }
+  }, [db]);
+}
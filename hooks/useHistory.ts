@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from "react";
+import { getHistoryState, redo, subscribeHistory, undo } from "@/lib/history";
+
+/** Rótulos do que dá para desfazer e refazer agora; a tela é desenhada de novo quando o histórico muda. */
+export function useHistory() {
+  const { undoLabel, redoLabel } = useSyncExternalStore(subscribeHistory, getHistoryState);
+  return { undoLabel, redoLabel, undo, redo };
+}
@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react";
+import { getFormatPreferences, getLocale, setLocale, subscribeI18n, t } from "@/lib/i18n";
+
+/**
+ * Idioma atual, formatos de data e a função de tradução. A tela que usa o hook é desenhada de novo
+ * quando algum deles muda, e com ela os filhos que chamam `t` diretamente.
+ */
+export function useI18n() {
+  const locale = useSyncExternalStore(subscribeI18n, getLocale);
+  const { weekStart } = useSyncExternalStore(subscribeI18n, getFormatPreferences);
+  return { locale, weekStart, setLocale, t };
+}
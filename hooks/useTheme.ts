@@ -0,0 +1,39 @@
+import { createContext, useContext } from "react";
+import { StyleSheet } from "react-native";
+import { Colors, ColorScheme, ThemeColors, ThemePreference } from "@/constants/Colors";
+
+export type Theme = {
+  scheme: ColorScheme;
+  colors: ThemeColors;
+  preference: ThemePreference;
+  setPreference: (preference: ThemePreference) => void;
+};
+
+export const ThemeContext = createContext<Theme>({
+  scheme: "light",
+  colors: Colors.light,
+  preference: "system",
+  setPreference: () => {},
+});
+
+export function useTheme(): Theme {
+  return useContext(ThemeContext);
+}
+
+/**
+ * Cria um hook que devolve os estilos da tela montados com a paleta do tema atual. Cada paleta
+ * gera o StyleSheet uma única vez, então itens de lista podem chamar o hook sem custo.
+ */
+export function makeThemedStyles<T extends StyleSheet.NamedStyles<T>>(factory: (colors: ThemeColors) => T) {
+  const cache = new Map<ThemeColors, T>();
+
+  return function useThemedStyles(): T {
+    const { colors } = useTheme();
+    let styles = cache.get(colors);
+    if (!styles) {
+      styles = StyleSheet.create(factory(colors));
+      cache.set(colors, styles);
+    }
+    return styles;
+  };
+}
@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { BACKUP_FORMAT, BACKUP_VERSION, BackupDocument, exportDatabase, importDatabase, parseBackup } from "@/lib/backup";
+import {
+  addReminder,
+  createSavedFilter,
+  createSubtask,
+  DEFAULT_LIST_ID,
+  getSetting,
+  getSettings,
+  setSetting,
+  setSortMode,
+  setTodoTags,
+} from "@/lib/db";
+import { setLocale } from "@/lib/i18n";
+import { createList, updateList } from "@/lib/listRepository";
+import { SortMode } from "@/lib/sort";
+import { createTodo, deleteTodo } from "@/lib/todoRepository";
+import { Priority } from "@/lib/types";
+import { openMigratedDatabase, TestDatabase } from "@/test/sqlite";
+
+const NOW = new Date("2030-01-01T12:00:00.000Z");
+
+let source: TestDatabase;
+let target: TestDatabase;
+let backup: BackupDocument;
+
+// Passa pelo mesmo caminho do app: JSON em texto, validado por parseBackup.
+function reparse(document: BackupDocument): BackupDocument {
+  return parseBackup(JSON.stringify(document));
+}
+
+beforeEach(async () => {
+  source = await openMigratedDatabase();
+  const list = await createList(source, "Mercado", "#e03131");
+  const todo = await createTodo(
+    source, "Pão", list.id, "integral", new Date(2030, 0, 10), { freq: "weekly", interval: 1 }, Priority.High
+  );
+  await createSubtask(source, todo.id, "Fatiado");
+  await setTodoTags(source, todo.id, ["padaria"]);
+  await addReminder(source, todo.id, { kind: "before", offsetMinutes: 30 });
+  await deleteTodo(source, (await createTodo(source, "Leite", list.id)).id);
+  await createSavedFilter(source, "Urgentes", { priorities: [Priority.High] });
+  await setSortMode(source, list.id, SortMode.Priority);
+  await setSetting(source, "language", "en-US");
+  await setSetting(source, "defaultListId", list.id);
+  // Normalizado uma vez: as tarefas de exemplo das migrações gravam createdAt sem milissegundos.
+  backup = reparse(await exportDatabase(source, NOW));
+
+  target = await openMigratedDatabase();
+});
+
+describe("exportDatabase/importDatabase", () => {
+  it("restores an identical database in replace mode", async () => {
+    await createTodo(target, "Só no destino");
+
+    const summary = await importDatabase(target, reparse(backup), "replace");
+
+    expect(await exportDatabase(target, NOW)).toEqual(backup);
+    expect(summary).toEqual({
+      lists: backup.lists.length,
+      todos: backup.todos.length,
+      subtasks: 1,
+      tags: 1,
+      reminders: 1,
+      savedFilters: 1,
+    });
+  });
+
+  it("keeps existing data and updates matching ids in merge mode", async () => {
+    const local = await createTodo(target, "Só no destino");
+
+    await importDatabase(target, reparse(backup), "merge");
+
+    const merged = await exportDatabase(target, NOW);
+    expect(merged.todos).toEqual(expect.arrayContaining(backup.todos));
+    expect(merged.todos.map(todo => todo.id)).toContain(local.id);
+    for (const key of ["lists", "subtasks", "tags", "todoTags", "reminders", "savedFilters", "viewPreferences"] as const) {
+      expect(merged[key]).toEqual(expect.arrayContaining(backup[key] as unknown[]));
+    }
+  });
+
+  it("exports the stored settings and restores them in either mode", async () => {
+    const list = backup.lists.find(list => list.name === "Mercado");
+    expect(backup.settings).toEqual({ defaultListId: list?.id, language: "en-US" });
+
+    await setSetting(target, "weekStart", 1);
+    await setSetting(target, "language", "pt-BR");
+    await importDatabase(target, reparse(backup), "merge");
+    expect(await getSettings(target)).toMatchObject({ ...backup.settings, weekStart: 1 });
+
+    await importDatabase(target, reparse(backup), "replace");
+    expect(await getSetting(target, "weekStart")).toBe(0);
+    expect((await exportDatabase(target, NOW)).settings).toEqual(backup.settings);
+  });
+
+  it("leaves corrupted or unknown settings out of the export", async () => {
+    source.raw.prepare("INSERT OR REPLACE INTO settings (key, value) VALUES ('theme', '{quebrado')").run();
+    source.raw.prepare("INSERT OR REPLACE INTO settings (key, value) VALUES ('weekStart', '5')").run();
+    source.raw.prepare("INSERT OR REPLACE INTO settings (key, value) VALUES ('futuro', '1')").run();
+
+    expect(Object.keys((await exportDatabase(source, NOW)).settings)).toEqual(["defaultListId", "language"]);
+  });
+
+  it("recreates a missing default list with the localized name and keeps an existing one", async () => {
+    setLocale("en-US");
+    const withoutDefault = { ...backup, lists: backup.lists.filter(list => list.id !== DEFAULT_LIST_ID) };
+
+    await importDatabase(target, reparse(withoutDefault), "replace");
+    expect((await exportDatabase(target)).lists.find(list => list.id === DEFAULT_LIST_ID)?.name).toBe("All Tasks");
+
+    await updateList(target, DEFAULT_LIST_ID, { name: "Caixa de entrada" });
+    await importDatabase(target, reparse(withoutDefault), "merge");
+    expect((await exportDatabase(target)).lists.find(list => list.id === DEFAULT_LIST_ID)?.name)
+      .toBe("Caixa de entrada");
+  });
+});
+
+describe("parseBackup", () => {
+  it("leaves an already normalized export unchanged", () => {
+    expect(reparse(backup)).toEqual(backup);
+  });
+
+  it("accepts backups without settings and ignores settings it does not know", () => {
+    const { settings, ...withoutSettings } = backup;
+
+    expect(reparse(withoutSettings as BackupDocument).settings).toEqual({});
+    expect(reparse({ ...backup, settings: { ...settings, futuro: true } } as BackupDocument)).toEqual(backup);
+  });
+
+  it.each([
+    ["text that is not JSON", "{ not json", "document is not valid JSON"],
+    ["a document that is not an object", "[]", "document must be an object"],
+    ["another format", { format: "other", version: 1 }, "format must be"],
+    ["a version from a newer app", { format: BACKUP_FORMAT, version: BACKUP_VERSION + 1 }, "is not supported"],
+    ["a version before the first one", { format: BACKUP_FORMAT, version: 0 }, "is not supported"],
+    ["a list that is not an array", { format: BACKUP_FORMAT, version: 1, lists: {} }, "lists must be an array"],
+    [
+      "a todo without text",
+      { format: BACKUP_FORMAT, version: 1, todos: [{ id: "a", createdAt: NOW.toISOString() }] },
+      "todos[0].text",
+    ],
+    [
+      "an invalid date",
+      { format: BACKUP_FORMAT, version: 1, todos: [{ id: "a", text: "Pão", createdAt: "ontem" }] },
+      "todos[0].createdAt must be an ISO date",
+    ],
+    [
+      "an unknown reminder kind",
+      { format: BACKUP_FORMAT, version: 1, reminders: [{ id: "r", todoId: "a", kind: "sometimes" }] },
+      "reminders[0].kind",
+    ],
+    [
+      "an invalid setting value",
+      { format: BACKUP_FORMAT, version: 1, settings: { theme: "rosa" } },
+      "settings.theme is not a valid value",
+    ],
+    ["settings that are not an object", { format: BACKUP_FORMAT, version: 1, settings: [] }, "settings must be an object"],
+  ])("rejects %s", (_, document, message) => {
+    expect(() => parseBackup(document)).toThrow(message);
+  });
+});
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createSubtask, getSubtasks, getTodoTags, setTodoTags } from "@/lib/db";
+import { createList } from "@/lib/listRepository";
+import { TodoRow } from "@/lib/rows";
+import {
+  createTodo,
+  deleteTodos,
+  duplicateTodos,
+  getAllTodos,
+  getTodoById,
+  moveTodos,
+  setTodosDueDate,
+  setTodosPriority,
+  setTodosStatus,
+  undoTodoBatch,
+} from "@/lib/todoRepository";
+import { Priority } from "@/lib/types";
+import { openMigratedDatabase, TestDatabase } from "@/test/sqlite";
+
+let db: TestDatabase;
+let ids: string[];
+
+// As migrações semeiam tarefas de exemplo; os testes só olham para as que criaram.
+async function getCreatedTodos() {
+  return (await getAllTodos(db)).filter(todo => ids.includes(todo.id));
+}
+
+function snapshot(): TodoRow[] {
+  // updatedAt fica de fora: os gatilhos de sincronização o renovam a cada escrita.
+  return (db.raw.prepare("SELECT * FROM todos ORDER BY createdAt, id").all() as (TodoRow & { updatedAt: string })[])
+    .map(({ updatedAt, ...row }) => row);
+}
+
+beforeEach(async () => {
+  db = await openMigratedDatabase();
+  ids = [];
+  for (const text of ["Pão", "Leite", "Café"]) {
+    ids.push((await createTodo(db, text)).id);
+  }
+});
+
+describe("batch actions", () => {
+  it("completes and reopens several todos at once", async () => {
+    await setTodosStatus(db, ids.slice(0, 2), true);
+    expect((await getCreatedTodos()).filter(todo => todo.done).map(todo => todo.text).sort())
+      .toEqual(["Leite", "Pão"]);
+
+    await setTodosStatus(db, ids, false);
+    expect((await getCreatedTodos()).every(todo => !todo.done)).toBe(true);
+  });
+
+  it("creates the next occurrence when completing a recurring todo", async () => {
+    const recurring = await createTodo(
+      db, "Regar plantas", undefined, undefined, new Date(2030, 0, 10), { freq: "daily", interval: 1 }
+    );
+
+    const batch = await setTodosStatus(db, [recurring.id, ids[0]], true);
+
+    expect(batch.createdIds).toHaveLength(1);
+    const next = await getTodoById(db, batch.createdIds[0]);
+    expect(next?.text).toBe("Regar plantas");
+    expect(next?.dueDate).toEqual(new Date(2030, 0, 11));
+  });
+
+  it("moves todos to the end of the target list, keeping their order", async () => {
+    const list = await createList(db, "Mercado");
+    const existing = await createTodo(db, "Já estava", list.id);
+
+    await moveTodos(db, [ids[1], ids[0]], list.id);
+
+    const moved = (await getAllTodos(db)).filter(todo => todo.listId === list.id);
+    expect(moved.sort((a, b) => a.position! - b.position!).map(todo => todo.id))
+      .toEqual([existing.id, ids[0], ids[1]]);
+  });
+
+  it("sets and clears the due date and priority", async () => {
+    await setTodosDueDate(db, ids, new Date(2030, 5, 1));
+    await setTodosPriority(db, ids.slice(1), Priority.High);
+
+    let todos = await getCreatedTodos();
+    expect(todos.every(todo => todo.dueDate?.getTime() === new Date(2030, 5, 1).getTime())).toBe(true);
+    expect(todos.filter(todo => todo.priority === Priority.High)).toHaveLength(2);
+
+    await setTodosDueDate(db, ids, null);
+    todos = await getCreatedTodos();
+    expect(todos.every(todo => todo.dueDate === undefined)).toBe(true);
+  });
+
+  it("duplicates todos with their subtasks and tags", async () => {
+    await createSubtask(db, ids[0], "Integral");
+    await setTodoTags(db, ids[0], ["padaria"]);
+
+    const batch = await duplicateTodos(db, [ids[0]]);
+
+    const [copyId] = batch.createdIds;
+    expect((await getTodoById(db, copyId))?.text).toBe("Pão");
+    expect((await getSubtasks(db, copyId)).map(subtask => subtask.text)).toEqual(["Integral"]);
+    expect((await getTodoTags(db))[copyId].map(tag => tag.name)).toEqual(["padaria"]);
+  });
+
+  it("ignores todos already in the trash", async () => {
+    await deleteTodos(db, [ids[0]]);
+
+    const batch = await setTodosPriority(db, ids, Priority.Low);
+
+    expect(batch.previous.map(row => row.id).sort()).toEqual(ids.slice(1).sort());
+    expect((await getTodoById(db, ids[0]))?.priority).toBe(Priority.None);
+  });
+});
+
+describe("undoTodoBatch", () => {
+  it("restores every todo touched by a batch", async () => {
+    const list = await createList(db, "Mercado");
+    await setTodosDueDate(db, [ids[0]], new Date(2030, 0, 1));
+    const before = snapshot();
+
+    for (const batch of [
+      await moveTodos(db, ids, list.id),
+      await setTodosDueDate(db, ids, null),
+      await setTodosPriority(db, ids, Priority.High),
+      await setTodosStatus(db, ids, true),
+      await deleteTodos(db, ids),
+    ].reverse()) {
+      await undoTodoBatch(db, batch);
+    }
+
+    expect(snapshot()).toEqual(before);
+  });
+
+  it("removes the todos created by the batch", async () => {
+    await createSubtask(db, ids[0], "Integral");
+    const recurring = await createTodo(
+      db, "Regar plantas", undefined, undefined, new Date(2030, 0, 10), { freq: "daily", interval: 1 }
+    );
+    const before = snapshot();
+
+    await undoTodoBatch(db, await setTodosStatus(db, [recurring.id], true));
+    await undoTodoBatch(db, await duplicateTodos(db, ids));
+
+    expect(snapshot()).toEqual(before);
+    expect(db.raw.prepare("SELECT COUNT(*) AS count FROM todo_subtasks").get()).toEqual({ count: 1 });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { addDays, decodeDueDate, encodeDueDate, isOverdue } from "@/lib/dates";
+
+// vitest.config.ts fixa o fuso em America/New_York: UTC-5 no inverno, UTC-4 no horário de verão.
+// Em 2026 o horário de verão começa em 8/3 (o dia tem 23 horas) e termina em 1/11 (25 horas).
+const SPRING_FORWARD = new Date(2026, 2, 8);
+const FALL_BACK = new Date(2026, 10, 1);
+
+describe("time zone", () => {
+  it("runs in a non-UTC zone with daylight saving time", () => {
+    expect(new Date(2026, 0, 15).getTimezoneOffset()).toBe(300);
+    expect(new Date(2026, 6, 15).getTimezoneOffset()).toBe(240);
+  });
+});
+
+describe("encodeDueDate", () => {
+  it("stores all-day dates as the local calendar day, even when UTC is already the next day", () => {
+    expect(encodeDueDate(new Date(2026, 2, 8, 22, 0), true)).toBe("2026-03-08");
+    expect(encodeDueDate(new Date(2026, 10, 1, 23, 30), true)).toBe("2026-11-01");
+  });
+
+  it("stores timed dates as UTC instants with the offset in effect on that day", () => {
+    expect(encodeDueDate(new Date(2026, 2, 7, 22, 0), false)).toBe("2026-03-08T03:00:00.000Z");
+    expect(encodeDueDate(new Date(2026, 2, 8, 22, 0), false)).toBe("2026-03-09T02:00:00.000Z");
+  });
+
+  it("stores nothing without a date", () => {
+    expect(encodeDueDate(undefined, true)).toBeNull();
+    expect(encodeDueDate(null, false)).toBeNull();
+  });
+});
+
+describe("decodeDueDate", () => {
+  it("reads calendar days as local midnight on both DST days", () => {
+    for (const day of [SPRING_FORWARD, FALL_BACK]) {
+      const decoded = decodeDueDate(encodeDueDate(day, true));
+      expect(decoded).toEqual(day);
+      expect(decoded?.getHours()).toBe(0);
+    }
+  });
+
+  it("reads UTC instants back as the same local time", () => {
+    const decoded = decodeDueDate("2026-11-01T06:30:00.000Z");
+    expect([decoded?.getDate(), decoded?.getHours(), decoded?.getMinutes()]).toEqual([1, 1, 30]);
+  });
+
+  it("round-trips timed dates across the DST changes", () => {
+    for (const date of [new Date(2026, 2, 8, 3, 30), new Date(2026, 10, 1, 18, 0), new Date(2026, 10, 2, 9, 15)]) {
+      expect(decodeDueDate(encodeDueDate(date, false))).toEqual(date);
+    }
+  });
+
+  it("passes dates through and ignores empty values", () => {
+    const date = new Date(2026, 9, 20);
+    expect(decodeDueDate(date)).toBe(date);
+    expect(decodeDueDate(null)).toBeUndefined();
+    expect(decodeDueDate("")).toBeUndefined();
+  });
+});
+
+describe("isOverdue", () => {
+  it("keeps an all-day task on time until the end of its day, however long the day is", () => {
+    for (const day of [SPRING_FORWARD, FALL_BACK]) {
+      const next = addDays(day, 1);
+      expect(next.getHours()).toBe(0);
+      expect(isOverdue(day, true, new Date(next.getTime() - 1))).toBe(false);
+      expect(isOverdue(day, true, next)).toBe(true);
+    }
+  });
+
+  it("makes a timed task overdue as soon as its time passes", () => {
+    const due = decodeDueDate("2026-03-08T07:30:00.000Z")!; // 3h30 locais, logo depois do salto
+    expect(due.getHours()).toBe(3);
+    expect(isOverdue(due, false, new Date(due.getTime() - 1))).toBe(false);
+    expect(isOverdue(due, false, new Date(due.getTime() + 1))).toBe(true);
+  });
+
+  it("is never overdue without a due date", () => {
+    expect(isOverdue(undefined, true, new Date(2030, 0, 1))).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { setTodoTags } from "@/lib/db";
+import { FilterCriteria } from "@/lib/filters";
+import { createList } from "@/lib/listRepository";
+import { compileFilterCriteria, createTodo, getTodosByFilter, updateTodoStatus } from "@/lib/todoRepository";
+import { Priority } from "@/lib/types";
+import { openMigratedDatabase, TestDatabase } from "@/test/sqlite";
+
+let db: TestDatabase;
+
+beforeEach(async () => {
+  db = await openMigratedDatabase();
+  // Sem as tarefas de exemplo das primeiras migrações.
+  await db.execAsync("DELETE FROM todos;");
+});
+
+describe("compileFilterCriteria", () => {
+  const now = new Date(2024, 5, 15, 12);
+
+  it("matches everything without criteria", () => {
+    expect(compileFilterCriteria({})).toEqual({ where: "1 = 1", params: [] });
+  });
+
+  it("joins criteria with AND and passes values as parameters", () => {
+    const compiled = compileFilterCriteria({ listIds: ["a", "b"], done: false, priorities: [Priority.High] });
+
+    expect(compiled.where).toBe("(listId IN (?, ?)) AND (done = ?) AND (priority IN (?))");
+    expect(compiled.params).toEqual(["a", "b", 0, Priority.High]);
+  });
+
+  describe("on the database", () => {
+    let work: string;
+
+    beforeEach(async () => {
+      work = (await createList(db, "Trabalho")).id;
+      const yesterday = await createTodo(db, "Ontem", undefined, undefined, new Date(2024, 5, 14), undefined, Priority.High);
+      await setTodoTags(db, yesterday.id, ["Casa"]);
+      const early = await createTodo(db, "Hoje cedo", work, undefined, new Date(2024, 5, 15, 9), undefined, undefined, false);
+      await setTodoTags(db, early.id, ["casa", "urgente"]);
+      await createTodo(db, "Hoje", work, "Relatório mensal", new Date(2024, 5, 15));
+      const later = await createTodo(db, "Daqui a 5 dias", undefined, undefined, new Date(2024, 5, 20));
+      await setTodoTags(db, later.id, ["urgente"]);
+      await createTodo(db, "Sem data", work, undefined, undefined, undefined, Priority.High);
+      const done = await createTodo(db, "Feita", undefined, undefined, new Date(2024, 5, 15));
+      await updateTodoStatus(db, done.id, true);
+    });
+
+    const texts = async (criteria: FilterCriteria) =>
+      (await getTodosByFilter(db, criteria, now)).map(todo => todo.text).sort();
+
+    it("filters by due date relative to now", async () => {
+      expect(await texts({ due: { kind: "overdue" } })).toEqual(["Hoje cedo", "Ontem"]);
+      expect(await texts({ due: { kind: "today" }, done: false })).toEqual(["Hoje", "Hoje cedo"]);
+      expect(await texts({ due: { kind: "next", days: 7 }, done: false })).toEqual(["Daqui a 5 dias", "Hoje", "Hoje cedo"]);
+      expect(await texts({ due: { kind: "none" } })).toEqual(["Sem data"]);
+      expect(await texts({ due: { kind: "any" }, done: true })).toEqual(["Feita"]);
+    });
+
+    it("combines lists, priorities and text", async () => {
+      expect(await texts({ listIds: [work], priorities: [Priority.High] })).toEqual(["Sem data"]);
+      expect(await texts({ text: "relatorio" })).toEqual(["Hoje"]);
+      expect(await texts({ listIds: [work], text: "ontem" })).toEqual([]);
+    });
+
+    it("matches any or all of the tags, ignoring case", async () => {
+      expect(await texts({ tags: ["CASA", "urgente"], tagMode: "or" })).toEqual(["Daqui a 5 dias", "Hoje cedo", "Ontem"]);
+      expect(await texts({ tags: ["casa", "Urgente"], tagMode: "and" })).toEqual(["Hoje cedo"]);
+    });
+  });
+});
@@ -0,0 +1,363 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  addReminder,
+  createSubtask,
+  deleteReminder,
+  deleteSubtask,
+  getReminders,
+  getSubtasks,
+  reorderSubtasks,
+  setAllSubtasksStatus,
+  setTodoTags,
+  updateSubtaskStatus,
+} from "@/lib/db";
+import {
+  getHistoryState,
+  isLatestHistoryEntry,
+  MAX_HISTORY,
+  recordHistory,
+  redo,
+  undo,
+  undoEntry,
+  withHistoryEntry,
+  withHistoryGroup,
+} from "@/lib/history";
+import { createList, deleteList, reorderLists, updateList } from "@/lib/listRepository";
+import {
+  createTodo,
+  deleteTodo,
+  getTodoById,
+  moveTodos,
+  purgeDeletedTodos,
+  purgeTodo,
+  reorderTodos,
+  restoreTodo,
+  setTodosStatus,
+  updateTodo,
+  updateTodoStatus,
+} from "@/lib/todoRepository";
+import { Priority } from "@/lib/types";
+import { openMigratedDatabase, TestDatabase } from "@/test/sqlite";
+
+let db: TestDatabase;
+
+// Tudo o que o histórico pode tocar; updatedAt fica de fora porque os gatilhos de sincronização o renovam,
+// e o id da notificação porque os lembretes são agendados de novo.
+function snapshot() {
+  const rows = (sql: string) =>
+    (db.raw.prepare(sql).all() as Record<string, unknown>[]).map(({ updatedAt, notificationId, ...row }) => row);
+  return {
+    todos: rows("SELECT * FROM todos ORDER BY id"),
+    lists: rows("SELECT * FROM todo_lists ORDER BY id"),
+    subtasks: rows("SELECT * FROM todo_subtasks ORDER BY id"),
+    todoTags: rows("SELECT * FROM todo_tags ORDER BY todoId, tagId"),
+    tags: rows("SELECT * FROM tags ORDER BY id"),
+    reminders: rows("SELECT * FROM reminders ORDER BY rowid"),
+  };
+}
+
+// Desfaz e refaz `action`, conferindo que cada passo devolve exatamente o estado anterior.
+async function expectReversible(action: () => Promise<unknown>) {
+  const before = snapshot();
+  await action();
+  const after = snapshot();
+
+  await undo();
+  expect(snapshot()).toEqual(before);
+  await redo();
+  expect(snapshot()).toEqual(after);
+  await undo();
+  expect(snapshot()).toEqual(before);
+}
+
+beforeEach(async () => {
+  db = await openMigratedDatabase();
+});
+
+describe("todo mutations", () => {
+  it("undoes and redoes a created todo, including tags added afterwards", async () => {
+    let id = "";
+    await expectReversible(() =>
+      withHistoryGroup(async () => {
+        id = (await createTodo(db, "Pão")).id;
+        await setTodoTags(db, id, ["padaria"]);
+      })
+    );
+
+    await redo();
+    expect((await getTodoById(db, id))?.text).toBe("Pão");
+  });
+
+  it("undoes and redoes an edit", async () => {
+    const todo = await createTodo(db, "Pão", undefined, "integral", new Date(2030, 0, 1));
+
+    await expectReversible(() =>
+      updateTodo(db, todo.id, { text: "Leite", notes: "", dueDate: null, priority: Priority.High })
+    );
+  });
+
+  it("undoes and redoes moving a todo to another list", async () => {
+    const list = await createList(db, "Mercado");
+    const todo = await createTodo(db, "Pão");
+
+    await expectReversible(() => updateTodo(db, todo.id, { listId: list.id }));
+  });
+
+  it("undoes completing a recurring todo, removing the next occurrence and its subtasks", async () => {
+    const todo = await createTodo(
+      db, "Regar plantas", undefined, undefined, new Date(2030, 0, 10), { freq: "daily", interval: 1 }
+    );
+    await createSubtask(db, todo.id, "Samambaia");
+
+    await expectReversible(() => updateTodoStatus(db, todo.id, true));
+  });
+
+  it("undoes and redoes deleting and restoring", async () => {
+    const todo = await createTodo(db, "Pão");
+
+    await expectReversible(() => deleteTodo(db, todo.id));
+    await deleteTodo(db, todo.id);
+    await expectReversible(() => restoreTodo(db, todo.id));
+  });
+
+  it("undoes a manual reorder", async () => {
+    const ids: string[] = [];
+    for (const text of ["Pão", "Leite", "Café"]) {
+      ids.push((await createTodo(db, text)).id);
+    }
+
+    await expectReversible(() => reorderTodos(db, [...ids].reverse()));
+  });
+
+  it("undoes batch actions as a single step", async () => {
+    const list = await createList(db, "Mercado");
+    const ids = [(await createTodo(db, "Pão")).id, (await createTodo(db, "Leite")).id];
+
+    await expectReversible(() => moveTodos(db, ids, list.id));
+    await expectReversible(() => setTodosStatus(db, ids, true));
+  });
+});
+
+describe("subtask, tag and reminder mutations", () => {
+  let todoId: string;
+
+  beforeEach(async () => {
+    todoId = (await createTodo(db, "Mercado", undefined, undefined, new Date(2999, 0, 10))).id;
+    await createSubtask(db, todoId, "Pão");
+    await createSubtask(db, todoId, "Leite");
+    await setTodoTags(db, todoId, ["padaria"]);
+    await addReminder(db, todoId, { kind: "at-due" });
+  });
+
+  it("undoes and redoes adding, completing, reordering and deleting subtasks", async () => {
+    const [bread, milk] = await getSubtasks(db, todoId);
+
+    await expectReversible(() => createSubtask(db, todoId, "Café"));
+    await expectReversible(() => updateSubtaskStatus(db, bread.id, true));
+    await expectReversible(() => setAllSubtasksStatus(db, todoId, true));
+    await expectReversible(() => reorderSubtasks(db, [milk.id, bread.id]));
+    await expectReversible(() => deleteSubtask(db, bread.id));
+  });
+
+  it("undoes and redoes replacing the tags, removing a tag only it created", async () => {
+    await expectReversible(() => setTodoTags(db, todoId, ["feira", "Padaria"]));
+    await expectReversible(() => setTodoTags(db, todoId, []));
+
+    const existing = await createTodo(db, "Outra");
+    await setTodoTags(db, existing.id, ["casa"]);
+    await expectReversible(() => setTodoTags(db, todoId, ["casa"]));
+  });
+
+  it("undoes and redoes adding and deleting reminders", async () => {
+    await expectReversible(() => addReminder(db, todoId, { kind: "before", offsetMinutes: 30 }));
+
+    const [reminder] = await getReminders(db, todoId);
+    await expectReversible(() => deleteReminder(db, reminder.id));
+  });
+
+  it("records nothing when nothing changes", async () => {
+    await setAllSubtasksStatus(db, todoId, false);
+    await setTodoTags(db, todoId, ["padaria"]);
+
+    expect(getHistoryState().undoLabel).toBe("history.editReminders");
+  });
+
+  it("undoes an edit together with the tags saved with it", async () => {
+    await expectReversible(() =>
+      withHistoryGroup(async () => {
+        await updateTodo(db, todoId, { text: "Feira" });
+        await setTodoTags(db, todoId, ["feira"]);
+      })
+    );
+    expect(getHistoryState().redoLabel).toBe("history.editTodo");
+  });
+});
+
+describe("list mutations", () => {
+  it("undoes and redoes creating, editing and reordering lists", async () => {
+    let listId = "";
+    await expectReversible(async () => {
+      listId = (await createList(db, "Mercado")).id;
+    });
+    await redo();
+
+    await expectReversible(() => updateList(db, listId, { name: "Feira", color: "#e03131" }));
+
+    const other = await createList(db, "Trabalho");
+    await expectReversible(() => reorderLists(db, [other.id, listId, "default-list"]));
+  });
+
+  it("undoes deleting a list that moved its todos", async () => {
+    const list = await createList(db, "Mercado");
+    const target = await createList(db, "Casa");
+    await createTodo(db, "Pão", list.id);
+    await createTodo(db, "Vassoura", target.id);
+
+    await expectReversible(() => deleteList(db, list.id, { type: "move", targetListId: target.id }));
+  });
+
+  it("undoes deleting a list that sent its todos to the trash", async () => {
+    const list = await createList(db, "Mercado");
+    const todo = await createTodo(db, "Pão", list.id);
+    await deleteTodo(db, (await createTodo(db, "Leite", list.id)).id);
+    await updateTodoStatus(db, todo.id, true);
+
+    await expectReversible(() => deleteList(db, list.id, { type: "delete-todos" }));
+  });
+});
+
+describe("history stack", () => {
+  it("keeps only the most recent entries", async () => {
+    const undone: string[] = [];
+    for (let i = 0; i < MAX_HISTORY + 5; i++) {
+      recordHistory({
+        label: "history.editTodo",
+        undo: async () => { undone.push(`step-${i}`); },
+        redo: async () => {},
+      });
+    }
+
+    while (await undo()) {
+      // desfaz até esvaziar
+    }
+
+    expect(undone).toHaveLength(MAX_HISTORY);
+    expect(undone.at(-1)).toBe("step-5");
+  });
+
+  it("drops the redo stack when a new change is recorded", async () => {
+    const todo = await createTodo(db, "Pão");
+    await updateTodo(db, todo.id, { text: "Leite" });
+    await undo();
+    expect(getHistoryState().redoLabel).toBe("history.editTodo");
+
+    await updateTodo(db, todo.id, { text: "Café" });
+
+    expect(getHistoryState().redoLabel).toBeNull();
+    expect(await redo()).toBeNull();
+  });
+
+  it("forgets what touched a todo once it is deleted for good", async () => {
+    const todo = await createTodo(db, "Pão");
+    await deleteTodo(db, todo.id);
+
+    await purgeTodo(db, todo.id);
+
+    expect(getHistoryState()).toEqual({ undoLabel: null, redoLabel: null });
+  });
+
+  it("keeps the history of other todos when one is deleted for good", async () => {
+    const kept = await createTodo(db, "Leite");
+    const purged = await createTodo(db, "Pão");
+    await setTodosStatus(db, [kept.id, purged.id], true);
+    await updateTodo(db, kept.id, { text: "Café" });
+    await deleteTodo(db, purged.id);
+    await undo();
+    await deleteTodo(db, purged.id);
+    await updateTodo(db, kept.id, { text: "Chá" });
+    await undo();
+
+    await purgeTodo(db, purged.id);
+
+    expect(getHistoryState()).toEqual({ undoLabel: "history.editTodo", redoLabel: "history.editTodo" });
+    await redo();
+    expect((await getTodoById(db, kept.id))?.text).toBe("Chá");
+    await undo();
+    await undo();
+    expect((await getTodoById(db, kept.id))?.text).toBe("Leite");
+    expect(await undo()).toBe("history.createTodo");
+    expect(await undo()).toBeNull();
+    expect(await getTodoById(db, purged.id)).toBeNull();
+  });
+
+  it("forgets the emptied trash without touching the rest", async () => {
+    const kept = await createTodo(db, "Leite");
+    await deleteTodo(db, (await createTodo(db, "Pão")).id);
+
+    await purgeDeletedTodos(db);
+
+    expect(await undo()).toBe("history.createTodo");
+    expect(await getTodoById(db, kept.id)).toBeNull();
+    expect(await undo()).toBeNull();
+  });
+
+  it("keeps the history when there was nothing to delete for good", async () => {
+    const todo = await createTodo(db, "Pão");
+
+    expect(await purgeTodo(db, todo.id)).toBe(false);
+    expect(await purgeDeletedTodos(db)).toBe(0);
+
+    expect(getHistoryState().undoLabel).not.toBeNull();
+  });
+});
+
+describe("undoing a specific entry", () => {
+  it("returns the entry an action recorded, or null when it recorded none", async () => {
+    const todo = await createTodo(db, "Pão");
+
+    const [deleted, entry] = await withHistoryEntry(() => deleteTodo(db, todo.id));
+    expect(deleted).toBe(true);
+    expect(entry && isLatestHistoryEntry(entry)).toBe(true);
+
+    expect(await withHistoryEntry(() => getTodoById(db, todo.id))).toEqual([expect.anything(), null]);
+  });
+
+  it("undoes the entry while it is the latest change", async () => {
+    const todo = await createTodo(db, "Pão");
+    const [, entry] = await withHistoryEntry(() => deleteTodo(db, todo.id));
+
+    expect(await undoEntry(entry!)).toBe(entry!.label);
+    expect((await getTodoById(db, todo.id))?.deletedAt).toBeUndefined();
+    expect(await undoEntry(entry!)).toBeNull();
+  });
+
+  it("leaves a later change alone instead of undoing it", async () => {
+    const todo = await createTodo(db, "Pão");
+    const [, entry] = await withHistoryEntry(() => deleteTodo(db, todo.id));
+    await updateTodo(db, todo.id, { text: "Leite" });
+
+    expect(await undoEntry(entry!)).toBeNull();
+    expect(await getTodoById(db, todo.id)).toMatchObject({ text: "Leite", deletedAt: expect.any(Date) });
+  });
+
+  it("does nothing while another step is being undone, keeping the entry for later", async () => {
+    let finish = () => {};
+    let undone = false;
+    const entry = { label: "history.editTodo" as const, undo: async () => { undone = true; }, redo: async () => {} };
+    recordHistory(entry);
+    recordHistory({
+      label: "history.editTodo",
+      undo: () => new Promise<void>(resolve => { finish = resolve; }),
+      redo: async () => {},
+    });
+    const pending = undo();
+
+    expect(await undoEntry(entry)).toBeNull();
+    expect(isLatestHistoryEntry(entry)).toBe(true);
+
+    finish();
+    await pending;
+    expect(await undoEntry(entry)).toBe("history.editTodo");
+    expect(undone).toBe(true);
+  });
+});
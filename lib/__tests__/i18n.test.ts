@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { dateInputPlaceholder, formatRelativeDay, parseDateInput } from "@/lib/dates";
+import { DEFAULT_LIST_ID } from "@/lib/db";
+import { formatList, resolveLocale, setLocale, SUPPORTED_LOCALES, t } from "@/lib/i18n";
+import { enUS } from "@/lib/locales/en-US";
+import { ptBR } from "@/lib/locales/pt-BR";
+import { describeRecurrence } from "@/lib/recurrence";
+import { openMigratedDatabase } from "@/test/sqlite";
+
+describe("catalogs", () => {
+  it("have the same keys and the same kind of message in every locale", () => {
+    expect(Object.keys(enUS).sort()).toEqual(Object.keys(ptBR).sort());
+    for (const key of Object.keys(ptBR) as (keyof typeof ptBR)[]) {
+      expect(typeof enUS[key], key).toBe(typeof ptBR[key]);
+    }
+  });
+});
+
+describe("resolveLocale", () => {
+  it("picks the supported locale for the device language", () => {
+    expect(resolveLocale("en-GB")).toBe("en-US");
+    expect(resolveLocale("pt_PT")).toBe("pt-BR");
+    expect(resolveLocale("fr-FR")).toBe("pt-BR");
+    expect(resolveLocale(undefined)).toBe("pt-BR");
+  });
+});
+
+describe("t", () => {
+  it("interpolates parameters and keeps unknown placeholders", () => {
+    expect(t("lists.deleteTitle", { name: "Casa" })).toBe('Excluir "Casa"');
+    expect(t("lists.deleteTitle")).toBe('Excluir "{name}"');
+  });
+
+  it("chooses the plural form by each locale's rules", () => {
+    expect(t("count.todos", { count: 0 })).toBe("0 tarefa");
+    expect(t("count.todos", { count: 1 })).toBe("1 tarefa");
+    expect(t("count.todos", { count: 2 })).toBe("2 tarefas");
+
+    expect(t("count.todos", { count: 0 }, "en-US")).toBe("0 tasks");
+    expect(t("count.todos", { count: 1 }, "en-US")).toBe("1 task");
+  });
+
+  it("prefers the zero form when the message has one", () => {
+    expect(t("sync.pending", { count: 0 })).toBe("Nenhuma alteração pendente");
+    expect(t("sync.pending", { count: 3 })).toBe("3 alterações aguardando envio");
+  });
+
+  it("follows the current locale", () => {
+    setLocale("en-US");
+    expect(t("common.undo")).toBe("Undo");
+    expect(formatList(["a", "b", "c"])).toBe("a, b and c");
+  });
+});
+
+describe("formatRelativeDay", () => {
+  const now = new Date(2026, 9, 19, 15, 0);
+
+  it("names the neighbouring days", () => {
+    expect(formatRelativeDay(new Date(2026, 9, 19, 23, 0), now)).toBe("hoje");
+    expect(formatRelativeDay(new Date(2026, 9, 20), now)).toBe("amanhã");
+    expect(formatRelativeDay(new Date(2026, 9, 18), now)).toBe("ontem");
+  });
+
+  it("counts days, then weeks, then months", () => {
+    expect(formatRelativeDay(new Date(2026, 9, 24), now)).toBe("em 5 dias");
+    expect(formatRelativeDay(new Date(2026, 9, 5), now)).toBe("há 2 semanas");
+    expect(formatRelativeDay(new Date(2027, 0, 19), now)).toBe("em 3 meses");
+  });
+
+  it("counts calendar days across the end of daylight saving time", () => {
+    expect(formatRelativeDay(new Date(2026, 10, 2), now)).toBe("em 2 semanas");
+    expect(formatRelativeDay(new Date(2026, 10, 2), new Date(2026, 9, 31, 23, 30))).toBe("em 2 dias");
+  });
+
+  it("speaks English when the locale is en-US", () => {
+    setLocale("en-US");
+    expect(formatRelativeDay(new Date(2026, 9, 20), now)).toBe("tomorrow");
+    expect(formatRelativeDay(new Date(2026, 9, 16), now)).toBe("3 days ago");
+  });
+});
+
+describe("parseDateInput", () => {
+  it("reads day first in pt-BR and month first in en-US", () => {
+    expect(dateInputPlaceholder()).toBe("DD/MM/AAAA");
+    expect(parseDateInput("03/11/2026")).toEqual(new Date(2026, 10, 3));
+
+    setLocale("en-US");
+    expect(dateInputPlaceholder()).toBe("MM/DD/YYYY");
+    expect(parseDateInput("03/11/2026")).toEqual(new Date(2026, 2, 11));
+  });
+
+  it("rejects dates that do not exist in the locale's order", () => {
+    expect(parseDateInput("31/12/2026", "dmy")).toEqual(new Date(2026, 11, 31));
+    expect(parseDateInput("31/12/2026", "mdy")).toBeNull();
+    expect(parseDateInput("29/02/2026", "dmy")).toBeNull();
+    expect(parseDateInput("2026-02-01", "dmy")).toBeNull();
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("agrees ordinals and articles with the weekday in Portuguese", () => {
+    expect(describeRecurrence({ freq: "monthly", interval: 1, monthly: { type: "weekday", ordinal: 1, weekday: 0 } }))
+      .toBe("Todo mês no primeiro domingo");
+    expect(describeRecurrence({ freq: "monthly", interval: 2, monthly: { type: "weekday", ordinal: -1, weekday: 5 } }))
+      .toBe("A cada 2 meses na última sexta-feira");
+  });
+
+  it("describes the same rules in English", () => {
+    setLocale("en-US");
+    expect(describeRecurrence({ freq: "weekly", interval: 1, byWeekday: [3, 1] }))
+      .toBe("Every week: Mondays and Wednesdays");
+    expect(describeRecurrence({ freq: "monthly", interval: 1, monthly: { type: "weekday", ordinal: -1, weekday: 5 } }))
+      .toBe("Every month on the last Friday");
+    expect(describeRecurrence({ freq: "daily", interval: 3, count: 1 })).toBe("Every 3 days, last occurrence");
+  });
+});
+
+describe("default list", () => {
+  it("is seeded with the name in the current locale", async () => {
+    setLocale("en-US");
+    const db = await openMigratedDatabase();
+    const row = await db.getFirstAsync<{ name: string }>("SELECT name FROM todo_lists WHERE id = ?", [DEFAULT_LIST_ID]);
+    expect(row?.name).toBe("All Tasks");
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { escapeCsvField, formatListAsCsv, formatListAsMarkdown, formatListExport } from "@/lib/listExport";
+import { parseChecklist } from "@/lib/taskImport";
+import { Priority, Subtask, TodoItem } from "@/lib/types";
+
+function todo(overrides: Partial<TodoItem> = {}): TodoItem {
+  return {
+    id: "t1",
+    text: "Pão",
+    done: false,
+    createdAt: new Date("2030-01-01T12:00:00.000Z"),
+    listId: "default-list",
+    allDay: true,
+    priority: Priority.None,
+    position: 0,
+    ...overrides,
+  };
+}
+
+function subtask(text: string, done = false): Subtask {
+  return { id: text, todoId: "t1", text, done, position: 0, createdAt: new Date("2030-01-01T12:00:00.000Z") };
+}
+
+describe("escapeCsvField", () => {
+  it.each([
+    ["Pão", "Pão"],
+    ["Pão, leite", '"Pão, leite"'],
+    ['Pão "integral"', '"Pão ""integral"""'],
+    ["linha 1\nlinha 2", '"linha 1\nlinha 2"'],
+    ["linha 1\r\nlinha 2", '"linha 1\r\nlinha 2"'],
+    [" espaço", '" espaço"'],
+    ["", ""],
+  ])("escapes %j", (value, expected) => {
+    expect(escapeCsvField(value)).toBe(expected);
+  });
+});
+
+describe("formatListAsCsv", () => {
+  it("writes a header and one CRLF-terminated record per todo", () => {
+    const csv = formatListAsCsv({
+      listName: "Mercado",
+      todos: [
+        todo({ text: "Pão, leite", notes: 'Dizer "oi"\nna padaria', priority: Priority.High }),
+        todo({ id: "t2", text: "Café", done: true, dueDate: new Date(2030, 0, 10) }),
+      ],
+      tags: { t1: [{ id: "g1", name: "padaria" }, { id: "g2", name: "manhã" }] },
+    });
+
+    expect(csv).toBe(
+      "Tarefa,Concluída,Vencimento,Prioridade,Etiquetas,Notas,Criada em\r\n" +
+        '"Pão, leite",não,,Alta,"padaria, manhã","Dizer ""oi""\nna padaria",2030-01-01T12:00:00.000Z\r\n' +
+        "Café,sim,10/01/2030,Nenhuma,,,2030-01-01T12:00:00.000Z\r\n"
+    );
+  });
+});
+
+describe("formatListAsMarkdown", () => {
+  it("writes a checklist with due dates, notes and subtasks", () => {
+    const markdown = formatListAsMarkdown({
+      listName: "Mercado",
+      todos: [
+        todo({ dueDate: new Date(2030, 0, 10), notes: "integral\n\nfatiado" }),
+        todo({ id: "t2", text: "Café", done: true }),
+      ],
+      subtasks: { t1: [subtask("Centeio", true)] },
+    });
+
+    expect(markdown).toBe(
+      "# Mercado\n\n- [ ] Pão (vence 10/01/2030)\n  integral\n  fatiado\n  - [x] Centeio\n- [x] Café\n"
+    );
+  });
+
+  it("escapes text that Markdown would interpret", () => {
+    const markdown = formatListAsMarkdown({
+      listName: "[Casa] *urgente*",
+      todos: [
+        todo({ text: "Ver [link](x) e `código`\ncom _ênfase_", notes: "# título\n- item\n> citação\n1. passo\n[x] feito" }),
+      ],
+      subtasks: { t1: [subtask("a\\b")] },
+    });
+
+    expect(markdown.split("\n")).toEqual([
+      "# \\[Casa\\] \\*urgente\\*",
+      "",
+      "- [ ] Ver \\[link\\](x) e \\`código\\` com \\_ênfase\\_",
+      "  \\# título",
+      "  \\- item",
+      "  \\> citação",
+      "  1\\. passo",
+      "  \\[x\\] feito",
+      "  - [ ] a\\\\b",
+      "",
+    ]);
+  });
+
+  it("reads back the same text, notes and subtasks through parseChecklist", () => {
+    const markdown = formatListAsMarkdown({
+      listName: "[Casa]",
+      todos: [todo({ text: "Ver [link] e *isso*", notes: "- item\n1. passo\n# título" })],
+      subtasks: { t1: [subtask("a_b")] },
+    });
+
+    expect(parseChecklist(markdown).tasks).toEqual([
+      expect.objectContaining({
+        text: "Ver [link] e *isso*",
+        notes: "- item\n1. passo\n# título",
+        listName: "[Casa]",
+        subtasks: [{ text: "a_b", done: false }],
+      }),
+    ]);
+  });
+
+  it("says when the list is empty", () => {
+    expect(formatListAsMarkdown({ listName: "Mercado", todos: [] })).toBe("# Mercado\n\n_Nenhuma tarefa_\n");
+  });
+});
+
+describe("formatListExport", () => {
+  it("picks the formatter for the format", () => {
+    const data = { listName: "Mercado", todos: [todo()] };
+
+    expect(formatListExport("csv", data)).toBe(formatListAsCsv(data));
+    expect(formatListExport("markdown", data)).toBe(formatListAsMarkdown(data));
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_LIST_ID, getSubtasks } from "@/lib/db";
+import { createList } from "@/lib/listRepository";
+import { DATABASE_VERSION, migrateDB, MIGRATIONS } from "@/lib/migrations";
+import { createTodo, getTodoById } from "@/lib/todoRepository";
+import { openMigratedDatabase, openTestDatabase, TestDatabase } from "@/test/sqlite";
+
+// Deixa o banco como uma versão antiga do app o deixaria: migrado só até `version`.
+async function migrateTo(db: TestDatabase, version: number) {
+  for (const migration of MIGRATIONS.filter(migration => migration.version <= version)) {
+    await db.withTransactionAsync(async () => {
+      await migration.up(db);
+      await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+    });
+  }
+}
+
+type Column = { name: string; type: string; notnull: number; dflt_value: string | null; pk: number };
+type ForeignKey = { table: string; from: string; to: string; on_delete: string };
+
+function schema(db: TestDatabase) {
+  const tables = (
+    db.raw
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name")
+      .all() as { name: string }[]
+  ).map(row => row.name);
+
+  return Object.fromEntries(
+    tables.map(table => [
+      table,
+      {
+        columns: (db.raw.pragma(`table_info(${table})`) as Column[])
+          .map(({ name, type, notnull, dflt_value, pk }) => ({ name, type, notnull, dflt_value, pk })),
+        foreignKeys: (db.raw.pragma(`foreign_key_list(${table})`) as ForeignKey[])
+          .map(({ table, from, to, on_delete }) => ({ table, from, to, on_delete })),
+        indexes: (db.raw.pragma(`index_list(${table})`) as { name: string }[]).map(index => index.name).sort(),
+      },
+    ])
+  );
+}
+
+function triggers(db: TestDatabase): string[] {
+  const rows = db.raw.prepare("SELECT name FROM sqlite_master WHERE type = 'trigger' ORDER BY name").all();
+  return (rows as { name: string }[]).map(row => row.name);
+}
+
+describe("migrateDB", () => {
+  it.each(MIGRATIONS.map(migration => migration.version - 1))(
+    "upgrades a database at version %i to the same schema as a new one",
+    async version => {
+      const fresh = await openMigratedDatabase();
+      const db = openTestDatabase();
+      await migrateTo(db, version);
+
+      await migrateDB(db);
+
+      expect(db.raw.pragma("user_version", { simple: true })).toBe(DATABASE_VERSION);
+      expect(schema(db)).toEqual(schema(fresh));
+      expect(triggers(db)).toEqual(triggers(fresh));
+      expect(db.raw.pragma("foreign_keys", { simple: true })).toBe(1);
+      expect(db.raw.pragma("foreign_key_check")).toEqual([]);
+    }
+  );
+
+  it("links todos to lists and cascades deletes to what belongs to a todo", async () => {
+    const { todos, todo_subtasks, todo_tags, reminders } = schema(await openMigratedDatabase());
+
+    expect(todos.foreignKeys).toEqual([{ table: "todo_lists", from: "listId", to: "id", on_delete: "NO ACTION" }]);
+    expect(todos.indexes).toEqual(expect.arrayContaining(["idx_todos_listId", "idx_todos_dueDate"]));
+    for (const table of [todo_subtasks, todo_tags, reminders]) {
+      expect(table.foreignKeys).toContainEqual({ table: "todos", from: "todoId", to: "id", on_delete: "CASCADE" });
+    }
+  });
+
+  it("keeps the data and search index of an old database", async () => {
+    const db = openTestDatabase();
+    await migrateTo(db, 1);
+    const [sample] = db.raw.prepare("SELECT id FROM todos ORDER BY createdAt").all() as { id: string }[];
+
+    await migrateDB(db);
+
+    expect(await getTodoById(db, sample.id)).toMatchObject({ text: "Sample Todo from DB", listId: DEFAULT_LIST_ID });
+    expect(db.raw.prepare("SELECT COUNT(*) AS count FROM todos_fts WHERE todos_fts MATCH 'sample'").get())
+      .toEqual({ count: 3 });
+  });
+
+  it("moves todos of missing lists to the default list and drops orphaned records", async () => {
+    const db = openTestDatabase();
+    await migrateTo(db, DATABASE_VERSION - 1);
+    db.raw.exec(`
+      INSERT INTO todos (id, text, done, createdAt, listId) VALUES ('t1', 'Pão', 0, '2030-01-01T00:00:00.000Z', 'sumiu');
+      INSERT INTO todo_subtasks (id, todoId, text, createdAt) VALUES
+        ('s1', 't1', 'Integral', '2030-01-01T00:00:00.000Z'),
+        ('s2', 'nenhuma', 'Solta', '2030-01-01T00:00:00.000Z');
+    `);
+
+    await migrateDB(db);
+
+    expect((await getTodoById(db, "t1"))?.listId).toBe(DEFAULT_LIST_ID);
+    expect((await getSubtasks(db, "t1")).map(subtask => subtask.id)).toEqual(["s1"]);
+    expect(db.raw.prepare("SELECT id FROM todo_subtasks WHERE id = 's2'").get()).toBeUndefined();
+  });
+
+  it("rejects a list deletion that would leave todos behind", async () => {
+    const db = await openMigratedDatabase();
+    const list = await createList(db, "Mercado");
+    await createTodo(db, "Pão", list.id);
+
+    expect(() => db.raw.prepare("DELETE FROM todo_lists WHERE id = ?").run(list.id)).toThrow(/FOREIGN KEY/);
+  });
+
+  it("refuses a database from a newer version of the app", async () => {
+    const db = openTestDatabase();
+    db.raw.pragma(`user_version = ${DATABASE_VERSION + 1}`);
+
+    await expect(migrateDB(db)).rejects.toThrow("newer than this app supports");
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { setLocale } from "@/lib/i18n";
+import { parseQuickAdd } from "@/lib/quickAdd";
+import { Priority } from "@/lib/types";
+
+// Segunda-feira, 19/10/2026, 10h.
+const now = new Date(2026, 9, 19, 10, 0);
+
+function parse(input: string, options: Parameters<typeof parseQuickAdd>[1] = {}) {
+  return parseQuickAdd(input, { now, ...options });
+}
+
+describe("parseQuickAdd", () => {
+  it("extracts a relative date, a time, priority and tags", () => {
+    const result = parse("pagar conta amanhã às 18h !alta @contas");
+
+    expect(result.text).toBe("pagar conta");
+    expect(result.dueDate).toEqual(new Date(2026, 9, 20, 18, 0));
+    expect(result.hasTime).toBe(true);
+    expect(result.priority).toBe(Priority.High);
+    expect(result.tags).toEqual(["contas"]);
+  });
+
+  it("recognizes a list only when it exists", () => {
+    const lists = [{ id: "casa-id", name: "Casa" }];
+
+    expect(parse("varrer #casa", { lists })).toMatchObject({ text: "varrer", listId: "casa-id" });
+    expect(parse("varrer #quintal", { lists })).toMatchObject({ text: "varrer #quintal", listId: undefined });
+  });
+
+  it("resolves weekdays and offsets from now", () => {
+    expect(parse("reunião sexta").dueDate).toEqual(new Date(2026, 9, 23));
+    expect(parse("reunião segunda").dueDate).toEqual(new Date(2026, 9, 26));
+    expect(parse("revisar daqui a duas semanas").dueDate).toEqual(new Date(2026, 10, 2));
+  });
+
+  it("reads numeric dates as day and month", () => {
+    expect(parse("consulta 20/11").dueDate).toEqual(new Date(2026, 10, 20));
+    // Sem o ano, uma data que já passou fica para o ano seguinte.
+    expect(parse("consulta 1/2").dueDate).toEqual(new Date(2027, 1, 1));
+  });
+
+  it("reads numeric dates as month and day when that is the configured order", () => {
+    expect(parse("consulta 11/20", { dateOrder: "mdy" }).dueDate).toEqual(new Date(2026, 10, 20));
+    expect(parse("renovar 03/05/2027", { dateOrder: "mdy" }).dueDate).toEqual(new Date(2027, 2, 5));
+    // 20/11 não existe como mês/dia: fica no texto.
+    expect(parse("consulta 20/11", { dateOrder: "mdy" })).toMatchObject({ text: "consulta 20/11", dueDate: undefined });
+  });
+
+  it("follows the date order of the locale by default", () => {
+    setLocale("en-US");
+
+    expect(parse("consulta 11/20").dueDate).toEqual(new Date(2026, 10, 20));
+  });
+
+  it("reads full dates", () => {
+    const result = parse("renovar 05/03/2027");
+
+    expect(result.text).toBe("renovar");
+    expect(result.dueDate).toEqual(new Date(2027, 2, 5));
+    expect(result.hasTime).toBe(false);
+  });
+
+  it("reads hours with or without minutes", () => {
+    expect(parse("ligar às 15h30").dueDate).toEqual(new Date(2026, 9, 19, 15, 30));
+    expect(parse("ligar 15:45").dueDate).toEqual(new Date(2026, 9, 19, 15, 45));
+  });
+
+  it("moves a time that already passed today to tomorrow", () => {
+    expect(parse("ligar às 9h").dueDate).toEqual(new Date(2026, 9, 20, 9, 0));
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { getNextOccurrence, RecurrenceRule } from "@/lib/recurrence";
+
+// Encadeia `times` conclusões, como o app faz ao concluir cada ocorrência.
+function occurrences(rule: RecurrenceRule, dueDate: Date, times: number): Date[] {
+  const dates: Date[] = [];
+  let current: { dueDate: Date; rule: RecurrenceRule } | null = { dueDate, rule };
+  for (let i = 0; i < times && current; i++) {
+    current = getNextOccurrence(current.rule, current.dueDate);
+    if (current) dates.push(current.dueDate);
+  }
+  return dates;
+}
+
+describe("getNextOccurrence", () => {
+  it("advances daily and weekly rules", () => {
+    expect(occurrences({ freq: "daily", interval: 2 }, new Date(2030, 0, 30), 2))
+      .toEqual([new Date(2030, 1, 1), new Date(2030, 1, 3)]);
+    // 10/01/2030 é uma quinta; segundas e quintas.
+    expect(occurrences({ freq: "weekly", interval: 1, byWeekday: [1, 4] }, new Date(2030, 0, 10), 3))
+      .toEqual([new Date(2030, 0, 14), new Date(2030, 0, 17), new Date(2030, 0, 21)]);
+  });
+
+  it("keeps the original day of month after a short month", () => {
+    expect(occurrences({ freq: "monthly", interval: 1 }, new Date(2030, 0, 31, 9, 0), 3))
+      .toEqual([new Date(2030, 1, 28, 9, 0), new Date(2030, 2, 31, 9, 0), new Date(2030, 3, 30, 9, 0)]);
+  });
+
+  it("clamps an explicit day to the length of each month", () => {
+    const rule: RecurrenceRule = { freq: "monthly", interval: 1, monthly: { type: "day", day: 30 } };
+    expect(occurrences(rule, new Date(2032, 0, 30), 2)).toEqual([new Date(2032, 1, 29), new Date(2032, 2, 30)]);
+  });
+
+  it("follows the nth or last weekday of the month", () => {
+    const last: RecurrenceRule = { freq: "monthly", interval: 1, monthly: { type: "weekday", weekday: 5, ordinal: -1 } };
+    expect(occurrences(last, new Date(2030, 0, 25), 2)).toEqual([new Date(2030, 1, 22), new Date(2030, 2, 29)]);
+  });
+
+  it("stops at the until date or when the count runs out", () => {
+    expect(occurrences({ freq: "daily", interval: 1, until: "2030-01-12" }, new Date(2030, 0, 10), 5))
+      .toEqual([new Date(2030, 0, 11), new Date(2030, 0, 12)]);
+    expect(occurrences({ freq: "daily", interval: 1, count: 3 }, new Date(2030, 0, 10), 5))
+      .toEqual([new Date(2030, 0, 11), new Date(2030, 0, 12)]);
+  });
+});
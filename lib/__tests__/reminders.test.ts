@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { addReminder, getReminders } from "@/lib/db";
+import { ALL_DAY_REMINDER_HOUR, ReminderNotification, ReminderScheduler, setReminderScheduler } from "@/lib/reminders";
+import { createTodo, deleteTodo, restoreTodo, updateTodo, updateTodoStatus } from "@/lib/todoRepository";
+import { openMigratedDatabase, TestDatabase } from "@/test/sqlite";
+
+// Agendador em memória: guarda as notificações pendentes pelo id, como o sistema faria.
+class FakeReminderScheduler implements ReminderScheduler {
+  pending = new Map<string, ReminderNotification>();
+  cancelled: string[] = [];
+  private nextId = 0;
+
+  async schedule(notification: ReminderNotification): Promise<string | null> {
+    const id = `notification-${this.nextId++}`;
+    this.pending.set(id, notification);
+    return id;
+  }
+
+  async cancel(notificationId: string): Promise<void> {
+    this.cancelled.push(notificationId);
+    this.pending.delete(notificationId);
+  }
+
+  dates(): Date[] {
+    return Array.from(this.pending.values(), notification => notification.date);
+  }
+}
+
+const DUE = new Date(2030, 0, 10, 18, 0);
+
+let db: TestDatabase;
+let scheduler: FakeReminderScheduler;
+let todoId: string;
+
+beforeEach(async () => {
+  db = await openMigratedDatabase();
+  scheduler = new FakeReminderScheduler();
+  setReminderScheduler(scheduler);
+  todoId = (await createTodo(db, "Dentista", undefined, undefined, DUE, undefined, undefined, false)).id;
+  await addReminder(db, todoId, { kind: "before", offsetMinutes: 60 });
+});
+
+describe("reminder scheduling", () => {
+  it("schedules a reminder relative to the due date", async () => {
+    expect(scheduler.dates()).toEqual([new Date(2030, 0, 10, 17, 0)]);
+    const [notification] = scheduler.pending.values();
+    expect(notification.title).toBe("Dentista");
+    expect(notification.data.todoId).toBe(todoId);
+
+    const [reminder] = await getReminders(db, todoId);
+    expect(scheduler.pending.has(reminder.notificationId!)).toBe(true);
+  });
+
+  it("reschedules when the due date changes", async () => {
+    const [before] = scheduler.pending.keys();
+
+    await updateTodo(db, todoId, { dueDate: new Date(2030, 0, 12, 9, 30) });
+
+    expect(scheduler.cancelled).toEqual([before]);
+    expect(scheduler.dates()).toEqual([new Date(2030, 0, 12, 8, 30)]);
+  });
+
+  it("fires all-day reminders at the default hour and drops them without a due date", async () => {
+    await updateTodo(db, todoId, { dueDate: new Date(2030, 0, 12), allDay: true });
+    expect(scheduler.dates()).toEqual([new Date(2030, 0, 12, ALL_DAY_REMINDER_HOUR - 1, 0)]);
+
+    await updateTodo(db, todoId, { dueDate: null });
+    expect(scheduler.pending.size).toBe(0);
+    expect((await getReminders(db, todoId))[0].notificationId).toBeUndefined();
+  });
+
+  it("cancels on completion and schedules again when the task is reopened", async () => {
+    await updateTodoStatus(db, todoId, true);
+    expect(scheduler.pending.size).toBe(0);
+
+    await updateTodoStatus(db, todoId, false);
+    expect(scheduler.dates()).toEqual([new Date(2030, 0, 10, 17, 0)]);
+  });
+
+  it("cancels when the task goes to the trash and schedules again when it is restored", async () => {
+    await deleteTodo(db, todoId);
+    expect(scheduler.pending.size).toBe(0);
+
+    await restoreTodo(db, todoId);
+    expect(scheduler.dates()).toEqual([new Date(2030, 0, 10, 17, 0)]);
+  });
+
+  it("does not schedule reminders that are already in the past", async () => {
+    await updateTodo(db, todoId, { dueDate: new Date(2020, 0, 10, 18, 0) });
+    expect(scheduler.pending.size).toBe(0);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { fromBackupTodo, toBackupTodo, toSubtask, toTodoItem, toTodoRow, TodoRow } from "@/lib/rows";
+import { Priority } from "@/lib/types";
+
+const ROW: TodoRow = {
+  id: "t1",
+  text: "Pão",
+  done: 1,
+  createdAt: "2030-01-01T12:00:00.000Z",
+  listId: "default-list",
+  notes: "integral",
+  dueDate: "2030-01-10",
+  allDay: 1,
+  deletedAt: null,
+  recurrence: JSON.stringify({ freq: "weekly", interval: 2 }),
+  priority: Priority.High,
+  position: 3,
+};
+
+describe("toTodoItem", () => {
+  it("decodes booleans, instants, calendar dates and the recurrence rule", () => {
+    expect(toTodoItem(ROW)).toEqual({
+      id: "t1",
+      text: "Pão",
+      done: true,
+      createdAt: new Date("2030-01-01T12:00:00.000Z"),
+      listId: "default-list",
+      notes: "integral",
+      dueDate: new Date(2030, 0, 10),
+      allDay: true,
+      deletedAt: undefined,
+      recurrence: { freq: "weekly", interval: 2 },
+      priority: Priority.High,
+      position: 3,
+    });
+  });
+
+  it("reads a timed due date as an instant and fills in missing columns", () => {
+    const item = toTodoItem({
+      ...ROW,
+      done: 0,
+      allDay: 0,
+      dueDate: "2030-01-10T21:30:00.000Z",
+      deletedAt: "2030-01-02T08:00:00.000Z",
+      notes: null,
+      recurrence: null,
+      priority: null,
+      position: null,
+    });
+
+    expect(item).toMatchObject({ done: false, allDay: false, priority: Priority.None, position: 0 });
+    expect(item.dueDate).toEqual(new Date("2030-01-10T21:30:00.000Z"));
+    expect(item.deletedAt).toEqual(new Date("2030-01-02T08:00:00.000Z"));
+    expect(item.notes).toBeUndefined();
+    expect(item.recurrence).toBeUndefined();
+  });
+});
+
+describe("toTodoRow", () => {
+  it("is the inverse of toTodoItem", () => {
+    expect(toTodoRow(toTodoItem(ROW))).toEqual(ROW);
+  });
+
+  it("stores an all-day due date as a calendar date and empty notes as null", () => {
+    const row = toTodoRow({ ...toTodoItem(ROW), dueDate: new Date(2030, 5, 1, 23, 30), notes: "" });
+
+    expect(row.dueDate).toBe("2030-06-01");
+    expect(row.notes).toBeNull();
+  });
+});
+
+describe("toBackupTodo/fromBackupTodo", () => {
+  it("keeps the stored values and decodes booleans and the recurrence rule", () => {
+    const backup = toBackupTodo(ROW);
+
+    expect(backup).toMatchObject({ done: true, allDay: true, dueDate: "2030-01-10", recurrence: { freq: "weekly" } });
+    expect(fromBackupTodo(backup)).toEqual(ROW);
+  });
+});
+
+describe("toSubtask", () => {
+  it("decodes done and createdAt", () => {
+    const createdAt = "2030-01-01T12:00:00.000Z";
+
+    expect(toSubtask({ id: "s1", todoId: "t1", text: "Fatiado", done: 0, position: 1, createdAt })).toEqual({
+      id: "s1", todoId: "t1", text: "Fatiado", done: false, position: 1, createdAt: new Date(createdAt),
+    });
+  });
+});
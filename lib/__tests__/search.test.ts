@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createList } from "@/lib/listRepository";
+import { buildFtsQuery, HIGHLIGHT_END, HIGHLIGHT_START, splitHighlight } from "@/lib/search";
+import { createTodo, deleteTodo, searchTodos, updateTodo } from "@/lib/todoRepository";
+import { openMigratedDatabase, TestDatabase } from "@/test/sqlite";
+
+const mark = (text: string) => `${HIGHLIGHT_START}${text}${HIGHLIGHT_END}`;
+
+describe("buildFtsQuery", () => {
+  it("turns each word into a quoted prefix term", () => {
+    expect(buildFtsQuery("  pag   conta ")).toBe('"pag"* "conta"*');
+  });
+
+  it("drops FTS5 syntax characters and returns null when nothing is left", () => {
+    expect(buildFtsQuery('"pão" OR (leite*)')).toBe('"pão"* "OR"* "leite"*');
+    expect(buildFtsQuery('  "*" ^ ')).toBeNull();
+    expect(buildFtsQuery("")).toBeNull();
+  });
+});
+
+describe("splitHighlight", () => {
+  it("splits the marked ranges from the plain text", () => {
+    expect(splitHighlight(`Comprar ${mark("pão")} e ${mark("leite")}`)).toEqual([
+      { text: "Comprar ", highlighted: false },
+      { text: "pão", highlighted: true },
+      { text: " e ", highlighted: false },
+      { text: "leite", highlighted: true },
+    ]);
+  });
+
+  it("handles text without marks, marks at the edges and an unterminated mark", () => {
+    expect(splitHighlight("Pão")).toEqual([{ text: "Pão", highlighted: false }]);
+    expect(splitHighlight(mark("Pão"))).toEqual([{ text: "Pão", highlighted: true }]);
+    expect(splitHighlight(`Pão ${HIGHLIGHT_START}leite`)).toEqual([
+      { text: "Pão ", highlighted: false },
+      { text: "leite", highlighted: true },
+    ]);
+    expect(splitHighlight("")).toEqual([]);
+  });
+});
+
+describe("searchTodos", () => {
+  let db: TestDatabase;
+  let market: string;
+
+  beforeEach(async () => {
+    db = await openMigratedDatabase();
+    // Sem as tarefas de exemplo das primeiras migrações.
+    await db.execAsync("DELETE FROM todos;");
+    market = (await createList(db, "Mercado")).id;
+    await createTodo(db, "Pagar conta de luz", undefined, "Vence na segunda");
+    await createTodo(db, "Comprar pão francês", market, "Na padaria da esquina");
+    await createTodo(db, "Ligar para o médico", undefined, "Pedir a receita do pão sem glúten");
+  });
+
+  const texts = async (query: string, options?: { listId?: string }) =>
+    (await searchTodos(db, query, options)).map(result => result.todo.text).sort();
+
+  it("matches word prefixes in the text and the notes, with every word required", async () => {
+    expect(await texts("pag")).toEqual(["Pagar conta de luz"]);
+    expect(await texts("pad")).toEqual(["Comprar pão francês"]);
+    expect(await texts("pão")).toEqual(["Comprar pão francês", "Ligar para o médico"]);
+    expect(await texts("pão receita")).toEqual(["Ligar para o médico"]);
+    expect(await texts("pão luz")).toEqual([]);
+    expect(await texts("  ")).toEqual([]);
+  });
+
+  it("ignores case and accents on both sides", async () => {
+    expect(await texts("PAO")).toEqual(["Comprar pão francês", "Ligar para o médico"]);
+    expect(await texts("medico")).toEqual(["Ligar para o médico"]);
+    expect(await texts("francés")).toEqual(["Comprar pão francês"]);
+  });
+
+  it("scopes the search to a list", async () => {
+    expect(await texts("pão", { listId: market })).toEqual(["Comprar pão francês"]);
+  });
+
+  it("leaves out todos in the trash and follows edits", async () => {
+    const [bread] = await searchTodos(db, "francês");
+    await deleteTodo(db, bread.todo.id);
+    expect(await texts("pão")).toEqual(["Ligar para o médico"]);
+
+    const [doctor] = await searchTodos(db, "médico");
+    await updateTodo(db, doctor.todo.id, { text: "Ligar para a dentista" });
+    expect(await texts("médico")).toEqual([]);
+    expect(await texts("dentista")).toEqual(["Ligar para a dentista"]);
+  });
+
+  it("highlights the matches in the text and the notes", async () => {
+    const [result] = await searchTodos(db, "pao fran");
+
+    expect(result.textHighlight).toBe(`Comprar ${mark("pão")} ${mark("francês")}`);
+    expect(result.notesHighlight).toBe("Na padaria da esquina");
+    expect((await searchTodos(db, "receita"))[0].notesHighlight).toBe(`Pedir a ${mark("receita")} do pão sem glúten`);
+  });
+
+  it("limits the number of results", async () => {
+    expect(await searchTodos(db, "pão", { limit: 1 })).toHaveLength(1);
+  });
+});
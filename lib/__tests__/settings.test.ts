@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_LIST_ID, DEFAULT_SETTINGS, getSetting, getSettings, getSortMode, setSetting, setSortMode } from "@/lib/db";
+import { formatDate, orderedWeekdays, parseDateInput } from "@/lib/dates";
+import { FilterOptions } from "@/lib/filters";
+import { setFormatPreferences } from "@/lib/i18n";
+import { createList, deleteList } from "@/lib/listRepository";
+import { describeRecurrence } from "@/lib/recurrence";
+import { SortMode } from "@/lib/sort";
+import { createTodo } from "@/lib/todoRepository";
+import { openMigratedDatabase, TestDatabase } from "@/test/sqlite";
+
+let db: TestDatabase;
+
+beforeEach(async () => {
+  db = await openMigratedDatabase();
+});
+
+describe("settings", () => {
+  it("returns the defaults before anything is saved", async () => {
+    expect(await getSettings(db)).toEqual(DEFAULT_SETTINGS);
+    expect(await getSetting(db, "theme")).toBe("system");
+  });
+
+  it("keeps each value with its type", async () => {
+    await setSetting(db, "weekStart", 1);
+    await setSetting(db, "defaultFilter", FilterOptions.Pending);
+    await setSetting(db, "language", "en-US");
+
+    expect(await getSetting(db, "weekStart")).toBe(1);
+    expect(await getSettings(db)).toMatchObject({
+      weekStart: 1,
+      defaultFilter: FilterOptions.Pending,
+      language: "en-US",
+      theme: "system",
+    });
+  });
+
+  it("falls back to the default for values it does not understand", async () => {
+    await db.runAsync("INSERT INTO settings (key, value) VALUES ('theme', '\"sepia\"'), ('weekStart', 'not json');");
+
+    expect(await getSetting(db, "theme")).toBe("system");
+    expect(await getSetting(db, "weekStart")).toBe(0);
+  });
+});
+
+describe("default sort order", () => {
+  it("applies to views without their own choice", async () => {
+    await setSetting(db, "sortMode", SortMode.Priority);
+    await setSortMode(db, "list-a", SortMode.Manual);
+
+    expect(await getSortMode(db, "list-a")).toBe(SortMode.Manual);
+    expect(await getSortMode(db, "list-b")).toBe(SortMode.Priority);
+  });
+});
+
+describe("default list", () => {
+  it("receives new todos created without a list", async () => {
+    const work = await createList(db, "Trabalho");
+    await setSetting(db, "defaultListId", work.id);
+
+    expect((await createTodo(db, "Relatório")).listId).toBe(work.id);
+    expect((await createTodo(db, "Mercado", DEFAULT_LIST_ID)).listId).toBe(DEFAULT_LIST_ID);
+  });
+
+  it("falls back to the fixed list after the chosen one is deleted", async () => {
+    const work = await createList(db, "Trabalho");
+    await setSetting(db, "defaultListId", work.id);
+    await deleteList(db, work.id, { type: "delete-todos" });
+
+    expect((await createTodo(db, "Relatório")).listId).toBe(DEFAULT_LIST_ID);
+  });
+});
+
+describe("format preferences", () => {
+  it("override the date order of the locale", () => {
+    expect(formatDate(new Date(2026, 2, 5))).toBe("05/03/2026");
+
+    setFormatPreferences({ dateOrder: "mdy", weekStart: 0 });
+    expect(formatDate(new Date(2026, 2, 5))).toBe("03/05/2026");
+    expect(parseDateInput("03/05/2026")).toEqual(new Date(2026, 2, 5));
+  });
+
+  it("order weekdays from the chosen first day", () => {
+    expect(orderedWeekdays()).toEqual([0, 1, 2, 3, 4, 5, 6]);
+
+    setFormatPreferences({ dateOrder: null, weekStart: 1 });
+    expect(orderedWeekdays()).toEqual([1, 2, 3, 4, 5, 6, 0]);
+    expect(describeRecurrence({ freq: "weekly", interval: 1, byWeekday: [0, 1] }))
+      .toBe("Toda semana: segundas e domingos");
+  });
+});
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { groupTodosByDay, SmartView } from "@/lib/smartViews";
+import { createTodo, deleteTodo, getSmartViewTodos, updateTodoStatus } from "@/lib/todoRepository";
+import { Priority } from "@/lib/types";
+import { openMigratedDatabase, TestDatabase } from "@/test/sqlite";
+
+// Os testes rodam em America/New_York (vitest.config.ts): 22h de hoje já é amanhã em UTC.
+const NOW = new Date(2030, 0, 10, 9, 0);
+
+let db: TestDatabase;
+
+async function todo(text: string, dueDate?: Date, { allDay = true, done = false } = {}) {
+  const created = await createTodo(db, text, undefined, undefined, dueDate, undefined, Priority.None, allDay);
+  if (done) await updateTodoStatus(db, created.id, true);
+  return created;
+}
+
+const texts = async (view: SmartView, now = NOW) =>
+  (await getSmartViewTodos(db, view, now)).map(item => item.text).sort();
+
+beforeEach(async () => {
+  db = await openMigratedDatabase();
+  // Sem as tarefas de exemplo das primeiras migrações.
+  await db.execAsync("DELETE FROM todos;");
+
+  await todo("Ontem", new Date(2030, 0, 9));
+  await todo("Ontem feita", new Date(2030, 0, 9), { done: true });
+  await todo("Ontem 23h59 feita", new Date(2030, 0, 9, 23, 59), { allDay: false, done: true });
+  await todo("Hoje", new Date(2030, 0, 10));
+  await todo("Hoje 0h feita", new Date(2030, 0, 10, 0, 0), { allDay: false, done: true });
+  await todo("Hoje 8h", new Date(2030, 0, 10, 8, 0), { allDay: false });
+  await todo("Hoje 22h", new Date(2030, 0, 10, 22, 0), { allDay: false });
+  await todo("Amanhã 0h", new Date(2030, 0, 11, 0, 0), { allDay: false });
+  await todo("Daqui a 6 dias", new Date(2030, 0, 16));
+  await todo("Daqui a 7 dias", new Date(2030, 0, 17));
+  await todo("Sem data");
+  await deleteTodo(db, (await todo("Hoje na lixeira", new Date(2030, 0, 10))).id);
+});
+
+describe("getSmartViewTodos", () => {
+  it("shows today's todos from midnight to midnight, done or not, plus pending overdue ones", async () => {
+    expect(await texts(SmartView.Today)).toEqual(["Hoje", "Hoje 0h feita", "Hoje 22h", "Hoje 8h", "Ontem"]);
+  });
+
+  it("shows the next days from today through the seventh day", async () => {
+    expect(await texts(SmartView.Upcoming)).toEqual([
+      "Amanhã 0h", "Daqui a 6 dias", "Hoje", "Hoje 0h feita", "Hoje 22h", "Hoje 8h",
+    ]);
+  });
+
+  it("treats a timed todo as overdue once its time passes and an all-day todo from the next day", async () => {
+    expect(await texts(SmartView.Overdue)).toEqual(["Hoje 8h", "Ontem"]);
+  });
+
+  it("moves the boundaries at midnight", async () => {
+    const midnight = new Date(2030, 0, 11, 0, 0);
+
+    expect(await texts(SmartView.Overdue, midnight)).toEqual(["Hoje", "Hoje 22h", "Hoje 8h", "Ontem"]);
+    expect(await texts(SmartView.Today, midnight)).toEqual(["Amanhã 0h", "Hoje", "Hoje 22h", "Hoje 8h", "Ontem"]);
+  });
+
+  it("lists undated todos outside the trash", async () => {
+    expect(await texts(SmartView.NoDate)).toEqual(["Sem data"]);
+  });
+});
+
+describe("groupTodosByDay", () => {
+  it("groups by local calendar day in date order, keeping the order inside each day", async () => {
+    const sections = groupTodosByDay(await getSmartViewTodos(db, SmartView.Upcoming, NOW), NOW);
+
+    expect(sections.map(({ key, title, data }) => ({ key, title, texts: data.map(item => item.text) }))).toEqual([
+      { key: "2030-01-10", title: "Hoje", texts: ["Hoje", "Hoje 0h feita", "Hoje 8h", "Hoje 22h"] },
+      { key: "2030-01-11", title: "Amanhã", texts: ["Amanhã 0h"] },
+      { key: "2030-01-16", title: "Quarta-feira, 16/01", texts: ["Daqui a 6 dias"] },
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from "vitest";
+import { setLocale } from "@/lib/i18n";
+import { isSortMode, mergeManualOrder, SortMode, sortTodos } from "@/lib/sort";
+import { Priority, TodoItem } from "@/lib/types";
+
+let nextId = 0;
+
+function todo(text: string, fields: Partial<TodoItem> = {}): TodoItem {
+  return {
+    id: `t${nextId++}`,
+    text,
+    done: false,
+    createdAt: new Date(2030, 0, 1),
+    listId: "default-list",
+    allDay: true,
+    priority: Priority.None,
+    position: 0,
+    ...fields,
+  };
+}
+
+const texts = (todos: TodoItem[]) => todos.map(item => item.text);
+
+describe("sortTodos", () => {
+  it("puts done todos last in every mode except manual", () => {
+    const done = todo("Feita", { done: true, priority: Priority.Urgent, position: 0 });
+    const pending = todo("Pendente", { position: 1 });
+
+    for (const mode of [SortMode.Priority, SortMode.DueDate, SortMode.Created, SortMode.Alphabetical]) {
+      expect(texts(sortTodos([done, pending], mode))).toEqual(["Pendente", "Feita"]);
+    }
+    expect(texts(sortTodos([pending, done], SortMode.Manual))).toEqual(["Feita", "Pendente"]);
+  });
+
+  it("sorts by priority, then due date, then newest first", () => {
+    const todos = [
+      todo("Sem prioridade"),
+      todo("Alta sem data", { priority: Priority.High }),
+      todo("Alta amanhã", { priority: Priority.High, dueDate: new Date(2030, 0, 11) }),
+      todo("Alta hoje antiga", { priority: Priority.High, dueDate: new Date(2030, 0, 10) }),
+      todo("Alta hoje nova", {
+        priority: Priority.High, dueDate: new Date(2030, 0, 10), createdAt: new Date(2030, 0, 2),
+      }),
+      todo("Urgente", { priority: Priority.Urgent }),
+    ];
+
+    expect(texts(sortTodos(todos, SortMode.Priority))).toEqual([
+      "Urgente", "Alta hoje nova", "Alta hoje antiga", "Alta amanhã", "Alta sem data", "Sem prioridade",
+    ]);
+  });
+
+  it("sorts by due date with undated todos last, then by priority", () => {
+    const todos = [
+      todo("Sem data"),
+      todo("Amanhã", { dueDate: new Date(2030, 0, 11) }),
+      todo("Hoje às 9h", { dueDate: new Date(2030, 0, 10, 9), allDay: false }),
+      todo("Hoje às 9h urgente", { dueDate: new Date(2030, 0, 10, 9), allDay: false, priority: Priority.Urgent }),
+      todo("Hoje", { dueDate: new Date(2030, 0, 10) }),
+    ];
+
+    expect(texts(sortTodos(todos, SortMode.DueDate))).toEqual([
+      "Hoje", "Hoje às 9h urgente", "Hoje às 9h", "Amanhã", "Sem data",
+    ]);
+  });
+
+  it("sorts by creation with the newest first", () => {
+    const todos = [
+      todo("Antiga", { createdAt: new Date(2030, 0, 1) }),
+      todo("Nova", { createdAt: new Date(2030, 0, 3) }),
+      todo("Meio", { createdAt: new Date(2030, 0, 2) }),
+    ];
+
+    expect(texts(sortTodos(todos, SortMode.Created))).toEqual(["Nova", "Meio", "Antiga"]);
+  });
+
+  it("sorts alphabetically ignoring case and accents, newest first on ties", () => {
+    const todos = [
+      todo("café", { createdAt: new Date(2030, 0, 1) }),
+      todo("Banana"),
+      todo("Cafe", { createdAt: new Date(2030, 0, 2) }),
+      todo("ábaco"),
+    ];
+
+    expect(texts(sortTodos(todos, SortMode.Alphabetical))).toEqual(["ábaco", "Banana", "Cafe", "café"]);
+  });
+
+  it("compares text in the active locale", () => {
+    const compare = vi.spyOn(String.prototype, "localeCompare");
+    setLocale("en-US");
+
+    sortTodos([todo("b"), todo("a")], SortMode.Alphabetical);
+
+    expect(compare).toHaveBeenCalledWith(expect.any(String), "en-US", { sensitivity: "base" });
+    compare.mockRestore();
+  });
+
+  it("keeps the manual order, oldest first on equal positions", () => {
+    const todos = [
+      todo("Segunda", { position: 1 }),
+      todo("Nova na primeira", { position: 0, createdAt: new Date(2030, 0, 2) }),
+      todo("Primeira", { position: 0 }),
+    ];
+
+    expect(texts(sortTodos(todos, SortMode.Manual))).toEqual(["Primeira", "Nova na primeira", "Segunda"]);
+  });
+
+  it("falls back to due date order for an unknown mode and does not change the input", () => {
+    const todos = [todo("Sem data"), todo("Hoje", { dueDate: new Date(2030, 0, 10) })];
+
+    expect(texts(sortTodos(todos, "outro" as SortMode))).toEqual(["Hoje", "Sem data"]);
+    expect(texts(todos)).toEqual(["Sem data", "Hoje"]);
+  });
+});
+
+describe("mergeManualOrder", () => {
+  it("reorders only the given todos and keeps the others in place", () => {
+    const [a, b, c, d] = ["A", "B", "C", "D"].map((text, position) => todo(text, { position }));
+
+    expect(mergeManualOrder([a, b, c, d], [d.id, b.id])).toEqual([a.id, d.id, c.id, b.id]);
+  });
+});
+
+describe("isSortMode", () => {
+  it("accepts only known modes", () => {
+    expect(isSortMode(SortMode.Manual)).toBe(true);
+    expect(isSortMode("outro")).toBe(false);
+    expect(isSortMode(undefined)).toBe(false);
+  });
+});
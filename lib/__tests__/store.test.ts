@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { addReminder, createSubtask, getReminders, getSubtasks, getTagsByTodo, setTodoTags } from "@/lib/db";
+import { undo } from "@/lib/history";
+import {
+  DataTopic,
+  getQueryState,
+  notifyChange,
+  patchCachedTodo,
+  QUERY_EVICTION_MS,
+  QueryKeys,
+  subscribeQuery,
+} from "@/lib/store";
+import { createTodo } from "@/lib/todoRepository";
+import { Priority, TodoItem } from "@/lib/types";
+import { openMigratedDatabase } from "@/test/sqlite";
+
+let nextKey = 0;
+
+// O cache é estado de módulo: cada consulta do teste ganha uma chave própria.
+function query<T>(topics: DataTopic[], load: () => T, key = `test:${nextKey++}`) {
+  const fetcher = vi.fn(async () => load());
+  const listener = vi.fn();
+  const unsubscribe = subscribeQuery(key, { topics, fetcher }, listener);
+  return { key, fetcher, listener, unsubscribe };
+}
+
+// Deixa rodar a rodada de notifyChange (um setTimeout 0) e as buscas que ela disparou.
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("subscribeQuery", () => {
+  it("loads on the first subscription and shares the result", async () => {
+    let value = 1;
+    const first = query(["lists"], () => value);
+    expect(getQueryState(first.key)).toEqual({ loading: true });
+
+    await flush();
+    value = 2;
+    const listener = vi.fn();
+    subscribeQuery(first.key, { topics: ["lists"], fetcher: async () => value }, listener);
+    await flush();
+
+    expect(getQueryState(first.key)).toEqual({ data: 1, loading: false });
+    expect(first.fetcher).toHaveBeenCalledTimes(1);
+    expect(first.listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the previous data and the error when a reload fails", async () => {
+    const error = new Error("falhou");
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    let fail = false;
+    const { key, unsubscribe } = query(["tags"], () => {
+      if (fail) throw error;
+      return "ok";
+    });
+    await flush();
+
+    fail = true;
+    notifyChange("tags");
+    await flush();
+
+    expect(getQueryState(key)).toEqual({ data: "ok", error, loading: false });
+    unsubscribe();
+    consoleError.mockRestore();
+  });
+});
+
+describe("notifyChange", () => {
+  it("reloads only the queries that depend on the changed topics, once per round", async () => {
+    const todos = query(["todos"], () => "todos");
+    const tags = query(["tags", "todos"], () => "tags");
+    const lists = query(["lists"], () => "lists");
+    await flush();
+
+    notifyChange("todos");
+    notifyChange("todos", "subtasks");
+    await flush();
+
+    expect(todos.fetcher).toHaveBeenCalledTimes(2);
+    expect(tags.fetcher).toHaveBeenCalledTimes(2);
+    expect(lists.fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("reloads a query without subscribers only when someone subscribes again", async () => {
+    let value = "antes";
+    const first = query(["lists"], () => value);
+    await flush();
+    first.unsubscribe();
+
+    value = "depois";
+    notifyChange("lists");
+    await flush();
+    expect(first.fetcher).toHaveBeenCalledTimes(1);
+    expect(getQueryState(first.key)).toMatchObject({ data: "antes" });
+
+    query(["lists"], () => value, first.key);
+    await flush();
+    expect(getQueryState(first.key)).toMatchObject({ data: "depois" });
+  });
+
+  it("reloads again when a change arrives during a load", async () => {
+    let value = 0;
+    const { key, fetcher } = query(["todos"], () => ++value);
+
+    notifyChange("todos");
+    await flush();
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(getQueryState(key)).toMatchObject({ data: 2 });
+  });
+});
+
+describe("eviction", () => {
+  it("drops a query some time after its last subscriber leaves", async () => {
+    const { key, unsubscribe } = query(["lists"], () => "listas");
+    await flush();
+
+    unsubscribe();
+    await vi.advanceTimersByTimeAsync(QUERY_EVICTION_MS - 1);
+    expect(getQueryState(key)).toMatchObject({ data: "listas" });
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(getQueryState(key)).toEqual({ loading: true });
+  });
+
+  it("keeps the cached data when someone subscribes again in time", async () => {
+    const first = query(["lists"], () => "listas");
+    await flush();
+    first.unsubscribe();
+
+    const second = query(["lists"], () => "novas", first.key);
+    await vi.advanceTimersByTimeAsync(QUERY_EVICTION_MS);
+
+    expect(second.fetcher).not.toHaveBeenCalled();
+    expect(getQueryState(first.key)).toMatchObject({ data: "listas" });
+  });
+});
+
+describe("patchCachedTodo", () => {
+  it("updates the todo in every cached todo query", async () => {
+    const todo: TodoItem = {
+      id: "t1",
+      text: "Pão",
+      done: false,
+      createdAt: new Date(2030, 0, 1),
+      listId: "default-list",
+      allDay: true,
+      priority: Priority.None,
+      position: 0,
+    };
+    query(["todos"], () => [todo], QueryKeys.todos());
+    query(["todos"], () => [todo], QueryKeys.todos(todo.listId));
+    query(["todos"], () => todo, QueryKeys.todo(todo.id));
+    await flush();
+
+    patchCachedTodo(todo.id, { done: true });
+
+    for (const key of [QueryKeys.todos(), QueryKeys.todos(todo.listId)]) {
+      expect(getQueryState<TodoItem[]>(key).data?.[0].done).toBe(true);
+    }
+    expect(getQueryState<TodoItem>(QueryKeys.todo(todo.id)).data?.done).toBe(true);
+  });
+});
+
+describe("todo detail queries", () => {
+  it("reload a todo's subtasks, tags and reminders when they change, including by undo", async () => {
+    const db = await openMigratedDatabase();
+    const todo = await createTodo(db, "Mercado", undefined, undefined, new Date(2999, 0, 10));
+    const subtasks = query(["subtasks"], () => getSubtasks(db, todo.id), QueryKeys.subtasks(todo.id));
+    const tags = query(["tags"], () => getTagsByTodo(db, todo.id), QueryKeys.tagsByTodo(todo.id));
+    const reminders = query(["reminders"], () => getReminders(db, todo.id), QueryKeys.reminders(todo.id));
+    await flush();
+
+    await createSubtask(db, todo.id, "Pão");
+    await setTodoTags(db, todo.id, ["padaria"]);
+    await addReminder(db, todo.id, { kind: "at-due" });
+    await flush();
+
+    expect(getQueryState<unknown[]>(subtasks.key).data).toHaveLength(1);
+    expect(getQueryState<unknown[]>(tags.key).data).toHaveLength(1);
+    expect(getQueryState<unknown[]>(reminders.key).data).toHaveLength(1);
+
+    await undo();
+    await undo();
+    await undo();
+    await flush();
+
+    for (const { key } of [subtasks, tags, reminders]) {
+      expect(getQueryState(key).data).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createSubtask, getSubtaskProgress, getSubtasks, setAllSubtasksStatus, updateSubtaskStatus } from "@/lib/db";
+import { createTodo, getTodoById, updateTodoStatus } from "@/lib/todoRepository";
+import { openMigratedDatabase, TestDatabase } from "@/test/sqlite";
+
+let db: TestDatabase;
+let todoId: string;
+let otherId: string;
+
+beforeEach(async () => {
+  db = await openMigratedDatabase();
+  todoId = (await createTodo(db, "Mercado")).id;
+  otherId = (await createTodo(db, "Casa")).id;
+  for (const text of ["Pão", "Leite", "Café"]) {
+    await createSubtask(db, todoId, text);
+  }
+  await createSubtask(db, otherId, "Varrer");
+});
+
+const doneFlags = async (id: string) => (await getSubtasks(db, id)).map(subtask => subtask.done);
+
+describe("setAllSubtasksStatus", () => {
+  it("completes and reopens every subtask of one todo only", async () => {
+    const [first] = await getSubtasks(db, todoId);
+    await updateSubtaskStatus(db, first.id, true);
+
+    await setAllSubtasksStatus(db, todoId, true);
+    expect(await doneFlags(todoId)).toEqual([true, true, true]);
+    expect(await getSubtaskProgress(db)).toEqual({
+      [todoId]: { done: 3, total: 3 },
+      [otherId]: { done: 0, total: 1 },
+    });
+
+    await setAllSubtasksStatus(db, todoId, false);
+    expect(await doneFlags(todoId)).toEqual([false, false, false]);
+    expect(await doneFlags(otherId)).toEqual([false]);
+  });
+
+  it("leaves the parent's status alone", async () => {
+    await setAllSubtasksStatus(db, todoId, true);
+    expect((await getTodoById(db, todoId))?.done).toBe(false);
+
+    await updateTodoStatus(db, todoId, true);
+    await setAllSubtasksStatus(db, todoId, false);
+    expect((await getTodoById(db, todoId))?.done).toBe(true);
+  });
+
+  it("is not implied by completing or reopening the parent", async () => {
+    await updateTodoStatus(db, todoId, true);
+    expect(await doneFlags(todoId)).toEqual([false, false, false]);
+
+    await setAllSubtasksStatus(db, todoId, true);
+    await updateTodoStatus(db, todoId, false);
+    expect(await doneFlags(todoId)).toEqual([true, true, true]);
+  });
+});
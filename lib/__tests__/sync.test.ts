@@ -0,0 +1,208 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createSubtask, getSubtasks } from "@/lib/db";
+import { createList } from "@/lib/listRepository";
+import {
+  getPendingChangeCount,
+  getSyncConflicts,
+  PullResponse,
+  PushRequest,
+  SyncChange,
+  SyncEntity,
+  syncNow,
+  SyncTransport,
+} from "@/lib/sync";
+import { createTodo, deleteTodo, getTodoById, purgeTodo, updateTodo } from "@/lib/todoRepository";
+import { openMigratedDatabase, TestDatabase } from "@/test/sqlite";
+
+// Servidor em memória com o contrato de lib/sync.ts: guarda a mudança de maior updatedAt de cada
+// registro e devolve no pull o que entrou depois do cursor (aqui, a posição no log).
+class FakeSyncServer implements SyncTransport {
+  log: SyncChange[] = [];
+  pushes: PushRequest[] = [];
+
+  async push(request: PushRequest): Promise<void> {
+    this.pushes.push(request);
+    request.changes.forEach(change => this.receive(change));
+  }
+
+  async pull(since: string | null): Promise<PullResponse> {
+    return { changes: this.log.slice(since ? Number(since) : 0), cursor: String(this.log.length) };
+  }
+
+  receive(change: SyncChange) {
+    const current = this.latest(change.entity, change.id);
+    if (!current || change.updatedAt > current.updatedAt) this.log.push(change);
+  }
+
+  latest(entity: SyncEntity, id: string): SyncChange | undefined {
+    return this.log.filter(change => change.entity === entity && change.id === id).at(-1);
+  }
+
+  pushed(): SyncChange[] {
+    return this.pushes.flatMap(request => request.changes);
+  }
+}
+
+const PAST = "2000-01-01T00:00:00.000Z";
+const FUTURE = "2999-01-01T00:00:00.000Z";
+
+function remoteTodo(id: string, text: string, updatedAt: string, listId = "default-list"): SyncChange {
+  return {
+    entity: "todo",
+    id,
+    op: "upsert",
+    updatedAt,
+    data: {
+      id,
+      text,
+      done: false,
+      createdAt: PAST,
+      listId,
+      notes: null,
+      dueDate: null,
+      allDay: true,
+      deletedAt: null,
+      recurrence: null,
+      priority: 0,
+      position: 0,
+      updatedAt,
+    },
+  };
+}
+
+let db: TestDatabase;
+let server: FakeSyncServer;
+
+beforeEach(async () => {
+  db = await openMigratedDatabase();
+  server = new FakeSyncServer();
+});
+
+describe("push", () => {
+  it("sends the outbox with lists before todos and empties it", async () => {
+    const list = await createList(db, "Mercado");
+    const todo = await createTodo(db, "Pão", list.id);
+
+    const result = await syncNow(db, server);
+
+    expect(await getPendingChangeCount(db)).toBe(0);
+    expect(result.pushed).toBe(server.pushed().length);
+    expect(server.latest("todo", todo.id)).toMatchObject({ op: "upsert", data: { text: "Pão", listId: list.id } });
+    const entities = server.pushed().map(change => change.entity);
+    expect(entities.lastIndexOf("list")).toBeLessThan(entities.indexOf("todo"));
+  });
+
+  it("only sends what changed since the last sync", async () => {
+    const todo = await createTodo(db, "Pão");
+    await syncNow(db, server);
+    server.pushes = [];
+
+    await updateTodo(db, todo.id, { text: "Leite" });
+    await syncNow(db, server);
+
+    expect(server.pushed()).toEqual([
+      expect.objectContaining({ id: todo.id, data: expect.objectContaining({ text: "Leite" }) }),
+    ]);
+  });
+
+  it("sends a permanent deletion with the time of its tombstone", async () => {
+    const todo = await createTodo(db, "Pão");
+    await syncNow(db, server);
+    await deleteTodo(db, todo.id);
+    await purgeTodo(db, todo.id);
+    const tombstone = db.raw
+      .prepare("SELECT deletedAt FROM sync_tombstones WHERE entity = 'todo' AND entityId = ?")
+      .get(todo.id) as { deletedAt: string };
+
+    await syncNow(db, server);
+
+    expect(server.latest("todo", todo.id)).toEqual({
+      entity: "todo", id: todo.id, op: "delete", updatedAt: tombstone.deletedAt,
+    });
+  });
+});
+
+describe("pull", () => {
+  it("applies remote changes without sending them back", async () => {
+    server.receive(remoteTodo("remote-1", "Do servidor", FUTURE));
+
+    const result = await syncNow(db, server);
+
+    expect(result).toMatchObject({ pulled: 1, conflicts: 0 });
+    expect((await getTodoById(db, "remote-1"))?.text).toBe("Do servidor");
+    expect(server.pushed().map(change => change.id)).not.toContain("remote-1");
+    expect(await getPendingChangeCount(db)).toBe(0);
+  });
+
+  it("keeps a newer local edit, records the conflict and sends the local version", async () => {
+    const todo = await createTodo(db, "Local");
+    server.receive(remoteTodo(todo.id, "Remoto", PAST));
+
+    const result = await syncNow(db, server);
+
+    expect(result.conflicts).toBe(1);
+    expect((await getTodoById(db, todo.id))?.text).toBe("Local");
+    expect(server.latest("todo", todo.id)).toMatchObject({ data: { text: "Local" } });
+    expect(await getSyncConflicts(db)).toEqual([
+      expect.objectContaining({
+        entity: "todo",
+        entityId: todo.id,
+        winner: "local",
+        remoteUpdatedAt: PAST,
+        localData: expect.objectContaining({ text: "Local" }),
+        remoteData: expect.objectContaining({ text: "Remoto" }),
+      }),
+    ]);
+  });
+
+  it("lets a newer remote change win over a pending local edit", async () => {
+    const todo = await createTodo(db, "Local");
+    server.receive(remoteTodo(todo.id, "Remoto", FUTURE));
+
+    await syncNow(db, server);
+
+    expect((await getTodoById(db, todo.id))?.text).toBe("Remoto");
+    expect(server.pushed().map(change => change.id)).not.toContain(todo.id);
+    expect((await getSyncConflicts(db)).map(conflict => conflict.winner)).toEqual(["remote"]);
+  });
+
+  it("moves a remote todo from a list this device does not have to the default list", async () => {
+    server.receive(remoteTodo("remote-1", "Do servidor", PAST, "lista-desconhecida"));
+
+    await syncNow(db, server);
+
+    expect((await getTodoById(db, "remote-1"))?.listId).toBe("default-list");
+    expect(server.latest("todo", "remote-1")).toMatchObject({ data: { listId: "default-list" } });
+  });
+
+  it("does not record a conflict when both sides have the same content", async () => {
+    const list = await createList(db, "Mercado");
+    server.receive({ entity: "list", id: list.id, op: "upsert", updatedAt: PAST, data: { ...list, updatedAt: PAST } });
+
+    const result = await syncNow(db, server);
+
+    expect(result.conflicts).toBe(0);
+    expect(await getSyncConflicts(db)).toEqual([]);
+  });
+
+  it("deletes a todo removed remotely and ignores older versions that arrive later", async () => {
+    const todo = await createTodo(db, "Pão");
+    await createSubtask(db, todo.id, "Integral");
+    await syncNow(db, server);
+
+    server.receive({ entity: "todo", id: todo.id, op: "delete", updatedAt: FUTURE });
+    await syncNow(db, server);
+
+    expect(await getTodoById(db, todo.id)).toBeNull();
+    expect(await getSubtasks(db, todo.id)).toEqual([]);
+    expect(db.raw.prepare("SELECT deletedAt FROM sync_tombstones WHERE entityId = ?").get(todo.id))
+      .toEqual({ deletedAt: FUTURE });
+
+    // Entregue fora de ordem: a lápide é mais nova, então a tarefa não volta.
+    server.log.push(remoteTodo(todo.id, "Pão", "2998-01-01T00:00:00.000Z"));
+    const result = await syncNow(db, server);
+
+    expect(result.pulled).toBe(0);
+    expect(await getTodoById(db, todo.id)).toBeNull();
+  });
+});
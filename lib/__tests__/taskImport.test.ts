@@ -0,0 +1,205 @@
+import { describe, expect, it } from "vitest";
+import { setLocale } from "@/lib/i18n";
+import {
+  guessCsvMapping,
+  parseChecklist,
+  parseCsv,
+  parseGenericCsv,
+  parseImportedDate,
+  parseTodoistCsv,
+} from "@/lib/taskImport";
+import { Priority } from "@/lib/types";
+
+describe("parseCsv", () => {
+  it("keeps separators, doubled quotes and line breaks inside quoted fields", () => {
+    expect(parseCsv('nome,notas\n"Pão, leite","Dizer ""oi""\nna padaria"\n')).toEqual([
+      ["nome", "notas"],
+      ["Pão, leite", 'Dizer "oi"\nna padaria'],
+    ]);
+  });
+
+  it("ignores the BOM and accepts CRLF, including inside quotes", () => {
+    expect(parseCsv('﻿nome,notas\r\nPão,"linha 1\r\nlinha 2"\r\nCafé,\r\n')).toEqual([
+      ["nome", "notas"],
+      ["Pão", "linha 1\r\nlinha 2"],
+      ["Café", ""],
+    ]);
+  });
+
+  it("uses semicolons when the first line has more of them", () => {
+    expect(parseCsv("tarefa;vencimento\nPão, integral;10/01/2030")).toEqual([
+      ["tarefa", "vencimento"],
+      ["Pão, integral", "10/01/2030"],
+    ]);
+  });
+
+  it("drops blank rows and keeps rows with missing cells as they are", () => {
+    expect(parseCsv("a,b,c\n\n,,\n1\n\n")).toEqual([["a", "b", "c"], ["1"]]);
+    expect(parseCsv("")).toEqual([]);
+  });
+
+  it("reads an unterminated quoted field up to the end of the file", () => {
+    expect(parseCsv('a,b\n1,"sem fim\n2,3')).toEqual([["a", "b"], ["1", "sem fim\n2,3"]]);
+  });
+});
+
+const TODOIST_HEADER = "TYPE,CONTENT,DESCRIPTION,PRIORITY,INDENT,AUTHOR,RESPONSIBLE,DATE,DATE_LANG,TIMEZONE";
+
+describe("parseTodoistCsv", () => {
+  it("maps Todoist priorities, where 1 is the highest", () => {
+    const plan = parseTodoistCsv(
+      [TODOIST_HEADER, "task,P1,,1,1", "task,P2,,2,1", "task,P3,,3,1", "task,P4,,4,1", "task,Sem,,,1", "task,Outra,,9,1"]
+        .join("\n")
+    );
+
+    expect(plan.tasks.map(task => task.priority)).toEqual([
+      Priority.Urgent, Priority.High, Priority.Medium, Priority.None, Priority.None, Priority.None,
+    ]);
+  });
+
+  it("reads descriptions, notes, labels, indented subtasks and due dates", () => {
+    const plan = parseTodoistCsv(
+      [
+        TODOIST_HEADER,
+        'task,Comprar pão @mercado @manhã,"integral\nfatiado",4,1,,,2030-01-10,pt,',
+        "task,Centeio,,4,2,,,,,",
+        "note,Perto de casa,,,,,,,,",
+        ",,,,,,,,,",
+        "section,Casa,,,,,,,,",
+        "task,Varrer,,4,1,,,2030-01-11 18:30,pt,",
+      ].join("\r\n"),
+      "Semana"
+    );
+
+    expect(plan.warnings).toEqual([]);
+    expect(plan.tasks).toEqual([
+      expect.objectContaining({
+        text: "Comprar pão",
+        tags: ["mercado", "manhã"],
+        notes: "integral\nfatiado\nPerto de casa",
+        subtasks: [{ text: "Centeio", done: false }],
+        dueDate: new Date(2030, 0, 10),
+        allDay: true,
+        listName: "Semana",
+      }),
+      expect.objectContaining({ text: "Varrer", dueDate: new Date(2030, 0, 11, 18, 30), allDay: false }),
+    ]);
+  });
+
+  it("warns about dates it cannot read and keeps the task", () => {
+    const plan = parseTodoistCsv([TODOIST_HEADER, "task,Pão,,4,1,,,every monday,en,"].join("\n"));
+
+    expect(plan.tasks).toHaveLength(1);
+    expect(plan.tasks[0].dueDate).toBeUndefined();
+    expect(plan.warnings).toHaveLength(1);
+  });
+
+  it("rejects files without the Todoist columns and accepts an empty file", () => {
+    expect(() => parseTodoistCsv("nome,notas\nPão,")).toThrow("Not a Todoist CSV");
+    expect(parseTodoistCsv("")).toEqual({ tasks: [], warnings: [] });
+  });
+});
+
+describe("parseImportedDate", () => {
+  it("reads numeric dates in the configured day/month order", () => {
+    expect(parseImportedDate("10/01/2030", "dmy")).toEqual({ date: new Date(2030, 0, 10), allDay: true });
+    expect(parseImportedDate("01/10/2030 18:30", "mdy")).toEqual({
+      date: new Date(2030, 0, 10, 18, 30),
+      allDay: false,
+    });
+    expect(parseImportedDate("31/01/2030", "mdy")).toBeNull();
+    expect(parseImportedDate("2030-01-10", "mdy")).toEqual({ date: new Date(2030, 0, 10), allDay: true });
+  });
+
+  it("follows the locale when no order is given", () => {
+    setLocale("en-US");
+
+    expect(parseImportedDate("01/10/2030")?.date).toEqual(new Date(2030, 0, 10));
+  });
+});
+
+describe("parseGenericCsv", () => {
+  it("guesses the columns from a Portuguese header and reads each field", () => {
+    const content = [
+      "Título;Concluída;Vencimento;Lista;Prioridade;Etiquetas;Notas",
+      "Pão;sim;10/01/2030;Mercado;alta;#padaria, manhã;integral",
+      "Varrer;não;2030-01-11 08:00;;2;;",
+    ].join("\n");
+    const mapping = guessCsvMapping(parseCsv(content)[0]);
+
+    expect(mapping).toEqual({ text: 0, done: 1, dueDate: 2, list: 3, priority: 4, tags: 5, notes: 6 });
+    expect(parseGenericCsv(content, mapping).tasks).toEqual([
+      {
+        text: "Pão",
+        done: true,
+        notes: "integral",
+        dueDate: new Date(2030, 0, 10),
+        allDay: true,
+        priority: Priority.High,
+        tags: ["padaria", "manhã"],
+        subtasks: [],
+        listName: "Mercado",
+      },
+      expect.objectContaining({
+        text: "Varrer",
+        done: false,
+        dueDate: new Date(2030, 0, 11, 8, 0),
+        allDay: false,
+        priority: Priority.Medium,
+        tags: [],
+      }),
+    ]);
+  });
+
+  it("skips rows without text, tolerates short rows and warns about bad dates", () => {
+    const plan = parseGenericCsv("task,due,notes\n,2030-01-10,sem texto\nPão\nLeite,31/02/2030,", {
+      text: 0,
+      dueDate: 1,
+      notes: 2,
+    });
+
+    expect(plan.tasks.map(task => task.text)).toEqual(["Pão", "Leite"]);
+    expect(plan.tasks[1].dueDate).toBeUndefined();
+    expect(plan.warnings).toHaveLength(1);
+  });
+});
+
+describe("parseChecklist", () => {
+  it("reads items, checkboxes, headings, subtasks and notes", () => {
+    const plan = parseChecklist(
+      "﻿# Mercado\r\n- [x] Pão\r\n  integral\r\n  - [ ] Fatiado\r\n* Leite\r\n\r\n## Casa\r\n1. Varrer\r\n[ ] Lavar\r\nSolto\r\n"
+    );
+
+    expect(plan.tasks).toEqual([
+      expect.objectContaining({
+        text: "Pão", done: true, listName: "Mercado", notes: "integral", subtasks: [{ text: "Fatiado", done: false }],
+      }),
+      expect.objectContaining({ text: "Leite", done: false, listName: "Mercado" }),
+      expect.objectContaining({ text: "Varrer", listName: "Casa" }),
+      expect.objectContaining({ text: "Lavar", listName: "Casa" }),
+      expect.objectContaining({ text: "Solto", listName: "Casa" }),
+    ]);
+  });
+
+  it("reads the due date suffix of a Markdown export in either language", () => {
+    expect(parseChecklist("- [ ] Pão (vence 10/01/2030)\n").tasks[0]).toMatchObject({
+      text: "Pão",
+      dueDate: new Date(2030, 0, 10),
+    });
+
+    setLocale("en-US");
+    expect(parseChecklist("- [ ] Bread (due 01/10/2030 18:30)\n").tasks[0]).toMatchObject({
+      text: "Bread",
+      dueDate: new Date(2030, 0, 10, 18, 30),
+      allDay: false,
+    });
+  });
+
+  it("ignores the empty-list marker and blank items", () => {
+    expect(parseChecklist("# Mercado\n\n_Nenhuma tarefa_\n- \n- [ ]\n").tasks).toEqual([]);
+  });
+
+  it("reads an indented line with no task above it as a task", () => {
+    expect(parseChecklist("  Pão\n").tasks.map(task => task.text)).toEqual(["Pão"]);
+  });
+});
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createList } from "@/lib/listRepository";
+import {
+  createTodo,
+  deleteTodo,
+  getDeletedTodos,
+  getTodoById,
+  restoreTodo,
+  updateTodo,
+  updateTodoStatus,
+} from "@/lib/todoRepository";
+import { Priority } from "@/lib/types";
+import { openMigratedDatabase, TestDatabase } from "@/test/sqlite";
+
+let db: TestDatabase;
+
+beforeEach(async () => {
+  db = await openMigratedDatabase();
+});
+
+describe("getTodoById", () => {
+  it("returns null for an unknown id", async () => {
+    expect(await getTodoById(db, "nenhuma")).toBeNull();
+  });
+
+  it("decodes a row written directly to the table, with the column defaults", async () => {
+    db.raw
+      .prepare(
+        `INSERT INTO todos (id, text, done, createdAt, listId, dueDate, allDay)
+         VALUES ('t1', 'Pão', 1, '2030-01-01T12:00:00.000Z', 'default-list', '2030-01-10', 1)`
+      )
+      .run();
+
+    expect(await getTodoById(db, "t1")).toEqual({
+      id: "t1",
+      text: "Pão",
+      done: true,
+      createdAt: new Date("2030-01-01T12:00:00.000Z"),
+      listId: "default-list",
+      notes: undefined,
+      dueDate: new Date(2030, 0, 10),
+      allDay: true,
+      deletedAt: undefined,
+      recurrence: undefined,
+      priority: Priority.None,
+      position: 0,
+    });
+  });
+});
+
+describe("createTodo", () => {
+  it("reads back what it stored, including a timed due date and recurrence", async () => {
+    const due = new Date(2030, 0, 10, 18, 30);
+    const todo = await createTodo(
+      db, "Dentista", undefined, "levar exames", due, { freq: "monthly", interval: 1 }, Priority.Urgent, false
+    );
+
+    const stored = await getTodoById(db, todo.id);
+
+    expect(stored).toEqual(todo);
+    expect(stored).toMatchObject({ dueDate: due, allDay: false, done: false, recurrence: { freq: "monthly" } });
+    expect(db.raw.prepare("SELECT dueDate, allDay, done FROM todos WHERE id = ?").get(todo.id)).toEqual({
+      dueDate: due.toISOString(),
+      allDay: 0,
+      done: 0,
+    });
+  });
+});
+
+describe("updateTodoStatus", () => {
+  it("stores done as 0/1", async () => {
+    const todo = await createTodo(db, "Pão");
+
+    await updateTodoStatus(db, todo.id, true);
+    expect(db.raw.prepare("SELECT done FROM todos WHERE id = ?").get(todo.id)).toEqual({ done: 1 });
+    expect((await getTodoById(db, todo.id))?.done).toBe(true);
+
+    await updateTodoStatus(db, todo.id, false);
+    expect((await getTodoById(db, todo.id))?.done).toBe(false);
+  });
+});
+
+describe("deleteTodo/restoreTodo", () => {
+  it("sets and clears deletedAt", async () => {
+    const todo = await createTodo(db, "Pão");
+
+    expect(await deleteTodo(db, todo.id)).toBe(true);
+    expect((await getTodoById(db, todo.id))?.deletedAt).toBeInstanceOf(Date);
+    expect((await getDeletedTodos(db)).map(deleted => deleted.id)).toContain(todo.id);
+
+    expect(await restoreTodo(db, todo.id)).toBe(true);
+    expect((await getTodoById(db, todo.id))?.deletedAt).toBeUndefined();
+  });
+});
+
+describe("updateTodo", () => {
+  it("moves a todo to the end of another list", async () => {
+    const list = await createList(db, "Mercado");
+    await createTodo(db, "Leite", list.id);
+    await createTodo(db, "Café", list.id);
+    const todo = await createTodo(db, "Pão");
+
+    const moved = await updateTodo(db, todo.id, { listId: list.id });
+
+    expect(moved?.listId).toBe(list.id);
+    expect(moved?.position).toBe(2);
+    expect(await getTodoById(db, todo.id)).toMatchObject({ listId: list.id, position: 2 });
+  });
+});
@@ -0,0 +1,504 @@
+// Exportação e importação do banco inteiro num documento JSON versionado.
+// Só depende de SQLiteDatabase, sem telas nem APIs do dispositivo, para poder rodar fora do app.
+//
+// Datas seguem o formato do banco: createdAt, deletedAt e remindAt como instante ISO em UTC;
+// dueDate como "AAAA-MM-DD" quando allDay e como instante ISO caso contrário.
+// Preferências (tabela settings) vão já decodificadas, só as que foram gravadas.
+
+import { SQLiteDatabase } from "expo-sqlite";
+import { formatDateOnly } from "./dates";
+import {
+  DEFAULT_LIST_COLOR,
+  DEFAULT_LIST_ICON,
+  DEFAULT_LIST_ID,
+  isSettingKey,
+  isValidSetting,
+  Settings,
+  syncTodoReminders,
+} from "./db";
+import { FilterCriteria, parseFilterCriteria, serializeFilterCriteria } from "./filters";
+import { clearHistory } from "./history";
+import { t } from "./i18n";
+import { parseRecurrenceRule, RecurrenceRule } from "./recurrence";
+import { getReminderScheduler } from "./reminders";
+import { fromBackupTodo, SubtaskRow, toBackupList, toBackupTodo, TodoListRow, TodoRow } from "./rows";
+import { ALL_DATA_TOPICS, notifyChange } from "./store";
+import { ReminderKind } from "./types";
+
+export const BACKUP_FORMAT = "todo-app-backup";
+export const BACKUP_VERSION = 1;
+
+export type BackupList = { id: string; name: string; color: string; icon: string; position: number };
+
+export type BackupTodo = {
+  id: string;
+  text: string;
+  done: boolean;
+  createdAt: string;
+  listId: string;
+  notes: string | null;
+  dueDate: string | null;
+  allDay: boolean;
+  deletedAt: string | null;
+  recurrence: RecurrenceRule | null;
+  priority: number;
+  position: number;
+};
+
+export type BackupSubtask = {
+  id: string;
+  todoId: string;
+  text: string;
+  done: boolean;
+  position: number;
+  createdAt: string;
+};
+
+export type BackupTag = { id: string; name: string };
+export type BackupTodoTag = { todoId: string; tagId: string };
+
+export type BackupReminder = {
+  id: string;
+  todoId: string;
+  kind: ReminderKind;
+  offsetMinutes: number | null;
+  remindAt: string | null;
+};
+
+export type BackupSavedFilter = { id: string; name: string; criteria: FilterCriteria; position: number };
+export type BackupViewPreference = { viewId: string; sortMode: string };
+export type BackupSettings = Partial<Settings>;
+
+export type BackupDocument = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  lists: BackupList[];
+  todos: BackupTodo[];
+  subtasks: BackupSubtask[];
+  tags: BackupTag[];
+  todoTags: BackupTodoTag[];
+  reminders: BackupReminder[];
+  savedFilters: BackupSavedFilter[];
+  viewPreferences: BackupViewPreference[];
+  settings: BackupSettings;
+};
+
+export type ImportMode = "merge" | "replace";
+
+export type ImportSummary = {
+  lists: number;
+  todos: number;
+  subtasks: number;
+  tags: number;
+  reminders: number;
+  savedFilters: number;
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const REMINDER_KINDS: ReminderKind[] = ["at-due", "before", "custom"];
+
+export async function exportDatabase(db: SQLiteDatabase, now: Date = new Date()): Promise<BackupDocument> {
+  const lists = await db.getAllAsync<TodoListRow>(
+    "SELECT id, name, color, icon, position FROM todo_lists ORDER BY position, name;"
+  );
+  const todos = await db.getAllAsync<TodoRow>("SELECT * FROM todos ORDER BY listId, position;");
+  const subtasks = await db.getAllAsync<SubtaskRow>(
+    "SELECT * FROM todo_subtasks ORDER BY todoId, position;"
+  );
+  const tags = await db.getAllAsync<BackupTag>("SELECT id, name FROM tags ORDER BY name;");
+  const todoTags = await db.getAllAsync<BackupTodoTag>("SELECT todoId, tagId FROM todo_tags;");
+  const reminders = await db.getAllAsync<BackupReminder>(
+    "SELECT id, todoId, kind, offsetMinutes, remindAt FROM reminders ORDER BY todoId, rowid;"
+  );
+  const savedFilters = await db.getAllAsync<{ id: string; name: string; criteria: string; position: number }>(
+    "SELECT * FROM saved_filters ORDER BY position, name;"
+  );
+  const viewPreferences = await db.getAllAsync<BackupViewPreference>(
+    "SELECT viewId, sortMode FROM view_preferences;"
+  );
+  const settings = await db.getAllAsync<{ key: string; value: string }>("SELECT key, value FROM settings ORDER BY key;");
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: now.toISOString(),
+    lists: lists.map(toBackupList),
+    todos: todos.map(toBackupTodo),
+    subtasks: subtasks.map(subtask => ({
+      id: subtask.id,
+      todoId: subtask.todoId,
+      text: subtask.text,
+      done: !!subtask.done,
+      position: subtask.position,
+      createdAt: subtask.createdAt,
+    })),
+    tags,
+    todoTags,
+    reminders,
+    savedFilters: savedFilters.map(filter => ({ ...filter, criteria: parseFilterCriteria(filter.criteria) })),
+    viewPreferences,
+    settings: toBackupSettings(settings),
+  };
+}
+
+// Valores corrompidos ou de chaves que esta versão não conhece ficam de fora; o app já os trata como o padrão.
+function toBackupSettings(rows: { key: string; value: string }[]): BackupSettings {
+  const settings: Record<string, unknown> = {};
+  for (const row of rows) {
+    if (!isSettingKey(row.key)) continue;
+    try {
+      const value: unknown = JSON.parse(row.value);
+      if (isValidSetting(row.key, value)) settings[row.key] = value;
+    } catch {
+      // fica de fora
+    }
+  }
+  return settings as BackupSettings;
+}
+
+// Validação -----------------------------------------------------------------
+
+function fail(path: string, problem: string): never {
+  throw new Error(`Invalid backup: ${path} ${problem}`);
+}
+
+function asObject(value: unknown, path: string): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) fail(path, "must be an object");
+  return value as Record<string, unknown>;
+}
+
+function asArray(value: unknown, path: string): unknown[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) fail(path, "must be an array");
+  return value;
+}
+
+function asString(value: unknown, path: string): string {
+  if (typeof value !== "string" || value.length === 0) fail(path, "must be a non-empty string");
+  return value;
+}
+
+function asOptionalString(value: unknown, path: string): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string") fail(path, "must be a string or null");
+  return value;
+}
+
+function asNumber(value: unknown, path: string, fallback?: number): number {
+  if (value === undefined && fallback !== undefined) return fallback;
+  if (typeof value !== "number" || !Number.isFinite(value)) fail(path, "must be a number");
+  return value;
+}
+
+function asBoolean(value: unknown, path: string): boolean {
+  if (typeof value === "boolean") return value;
+  if (value === 0 || value === 1) return value === 1;
+  fail(path, "must be a boolean");
+}
+
+function asInstant(value: unknown, path: string): string {
+  const date = new Date(asString(value, path));
+  if (isNaN(date.getTime())) fail(path, "must be an ISO date");
+  return date.toISOString();
+}
+
+function asDueDate(value: unknown, allDay: boolean, path: string): string | null {
+  if (value === undefined || value === null) return null;
+  const text = asString(value, path);
+  if (DATE_ONLY.test(text)) {
+    return allDay ? text : asInstant(`${text}T00:00:00`, path);
+  }
+  const instant = asInstant(text, path);
+  return allDay ? formatDateOnly(new Date(instant)) : instant;
+}
+
+/** Valida e normaliza um documento de backup; lança um Error descrevendo o primeiro problema encontrado. */
+export function parseBackup(value: unknown): BackupDocument {
+  const raw = typeof value === "string" ? (() => {
+    try {
+      return JSON.parse(value);
+    } catch {
+      fail("document", "is not valid JSON");
+    }
+  })() : value;
+
+  const doc = asObject(raw, "document");
+  if (doc.format !== BACKUP_FORMAT) fail("format", `must be "${BACKUP_FORMAT}"`);
+  const version = asNumber(doc.version, "version");
+  if (version < 1 || version > BACKUP_VERSION) fail("version", `${version} is not supported`);
+
+  const lists = asArray(doc.lists, "lists").map((item, i) => {
+    const list = asObject(item, `lists[${i}]`);
+    return {
+      id: asString(list.id, `lists[${i}].id`),
+      name: asString(list.name, `lists[${i}].name`),
+      color: asOptionalString(list.color, `lists[${i}].color`) ?? DEFAULT_LIST_COLOR,
+      icon: asOptionalString(list.icon, `lists[${i}].icon`) ?? DEFAULT_LIST_ICON,
+      position: asNumber(list.position, `lists[${i}].position`, i),
+    };
+  });
+
+  const todos = asArray(doc.todos, "todos").map((item, i) => {
+    const todo = asObject(item, `todos[${i}]`);
+    const path = `todos[${i}]`;
+    const allDay = todo.allDay === undefined ? true : asBoolean(todo.allDay, `${path}.allDay`);
+    const recurrence = todo.recurrence ? parseRecurrenceRule(todo.recurrence) : undefined;
+    if (todo.recurrence && !recurrence) fail(`${path}.recurrence`, "is not a valid rule");
+    return {
+      id: asString(todo.id, `${path}.id`),
+      text: asString(todo.text, `${path}.text`),
+      done: asBoolean(todo.done ?? false, `${path}.done`),
+      createdAt: asInstant(todo.createdAt, `${path}.createdAt`),
+      listId: asOptionalString(todo.listId, `${path}.listId`) ?? DEFAULT_LIST_ID,
+      notes: asOptionalString(todo.notes, `${path}.notes`),
+      dueDate: asDueDate(todo.dueDate, allDay, `${path}.dueDate`),
+      allDay,
+      deletedAt: todo.deletedAt ? asInstant(todo.deletedAt, `${path}.deletedAt`) : null,
+      recurrence: recurrence ?? null,
+      priority: asNumber(todo.priority, `${path}.priority`, 0),
+      position: asNumber(todo.position, `${path}.position`, i),
+    };
+  });
+
+  const subtasks = asArray(doc.subtasks, "subtasks").map((item, i) => {
+    const subtask = asObject(item, `subtasks[${i}]`);
+    return {
+      id: asString(subtask.id, `subtasks[${i}].id`),
+      todoId: asString(subtask.todoId, `subtasks[${i}].todoId`),
+      text: asString(subtask.text, `subtasks[${i}].text`),
+      done: asBoolean(subtask.done ?? false, `subtasks[${i}].done`),
+      position: asNumber(subtask.position, `subtasks[${i}].position`, i),
+      createdAt: asInstant(subtask.createdAt, `subtasks[${i}].createdAt`),
+    };
+  });
+
+  const tags = asArray(doc.tags, "tags").map((item, i) => {
+    const tag = asObject(item, `tags[${i}]`);
+    return { id: asString(tag.id, `tags[${i}].id`), name: asString(tag.name, `tags[${i}].name`) };
+  });
+
+  const todoTags = asArray(doc.todoTags, "todoTags").map((item, i) => {
+    const link = asObject(item, `todoTags[${i}]`);
+    return {
+      todoId: asString(link.todoId, `todoTags[${i}].todoId`),
+      tagId: asString(link.tagId, `todoTags[${i}].tagId`),
+    };
+  });
+
+  const reminders = asArray(doc.reminders, "reminders").map((item, i) => {
+    const reminder = asObject(item, `reminders[${i}]`);
+    const kind = reminder.kind as ReminderKind;
+    if (!REMINDER_KINDS.includes(kind)) fail(`reminders[${i}].kind`, "is not a reminder kind");
+    return {
+      id: asString(reminder.id, `reminders[${i}].id`),
+      todoId: asString(reminder.todoId, `reminders[${i}].todoId`),
+      kind,
+      offsetMinutes: reminder.offsetMinutes == null ? null : asNumber(reminder.offsetMinutes, `reminders[${i}].offsetMinutes`),
+      remindAt: reminder.remindAt ? asInstant(reminder.remindAt, `reminders[${i}].remindAt`) : null,
+    };
+  });
+
+  const savedFilters = asArray(doc.savedFilters, "savedFilters").map((item, i) => {
+    const filter = asObject(item, `savedFilters[${i}]`);
+    return {
+      id: asString(filter.id, `savedFilters[${i}].id`),
+      name: asString(filter.name, `savedFilters[${i}].name`),
+      criteria: parseFilterCriteria(filter.criteria),
+      position: asNumber(filter.position, `savedFilters[${i}].position`, i),
+    };
+  });
+
+  const viewPreferences = asArray(doc.viewPreferences, "viewPreferences").map((item, i) => {
+    const preference = asObject(item, `viewPreferences[${i}]`);
+    return {
+      viewId: asString(preference.viewId, `viewPreferences[${i}].viewId`),
+      sortMode: asString(preference.sortMode, `viewPreferences[${i}].sortMode`),
+    };
+  });
+
+  // Backups anteriores às preferências não têm o campo; chaves de uma versão mais nova do app são ignoradas.
+  const settings: Record<string, unknown> = {};
+  const rawSettings = doc.settings === undefined ? {} : asObject(doc.settings, "settings");
+  for (const [key, value] of Object.entries(rawSettings)) {
+    if (!isSettingKey(key)) continue;
+    if (!isValidSetting(key, value)) fail(`settings.${key}`, "is not a valid value");
+    settings[key] = value;
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version,
+    exportedAt: doc.exportedAt ? asInstant(doc.exportedAt, "exportedAt") : new Date().toISOString(),
+    lists,
+    todos,
+    subtasks,
+    tags,
+    todoTags,
+    reminders,
+    savedFilters,
+    viewPreferences,
+    settings: settings as BackupSettings,
+  };
+}
+
+// Importação ----------------------------------------------------------------
+
+/**
+ * Importa um backup já validado por parseBackup, tudo numa transação.
+ * "merge" insere ou atualiza cada registro pelo id e mantém o resto; "replace" apaga todos os dados antes.
+ * Tarefas de listas inexistentes vão para a lista padrão; registros de tarefas inexistentes são ignorados.
+ */
+export async function importDatabase(
+  db: SQLiteDatabase,
+  backup: BackupDocument,
+  mode: ImportMode = "merge"
+): Promise<ImportSummary> {
+  const summary: ImportSummary = { lists: 0, todos: 0, subtasks: 0, tags: 0, reminders: 0, savedFilters: 0 };
+  let staleNotifications: string[] = [];
+
+  await db.withTransactionAsync(async () => {
+    if (mode === "replace") {
+      const scheduled = await db.getAllAsync<{ notificationId: string }>(
+        "SELECT notificationId FROM reminders WHERE notificationId IS NOT NULL;"
+      );
+      staleNotifications = scheduled.map(row => row.notificationId);
+
+      await db.execAsync(`
+        DELETE FROM reminders;
+        DELETE FROM todo_tags;
+        DELETE FROM tags;
+        DELETE FROM todo_subtasks;
+        DELETE FROM todos;
+        DELETE FROM saved_filters;
+        DELETE FROM view_preferences;
+        DELETE FROM settings;
+        DELETE FROM todo_lists;
+      `);
+    }
+
+    for (const list of backup.lists) {
+      await db.runAsync(
+        `INSERT INTO todo_lists (id, name, color, icon, position) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET name = excluded.name, color = excluded.color,
+           icon = excluded.icon, position = excluded.position;`,
+        [list.id, list.name, list.color, list.icon, list.position]
+      );
+      summary.lists++;
+    }
+    // Se o backup não trouxe a lista padrão, ela é recriada com o nome no idioma atual, como nas migrações.
+    await db.runAsync(
+      "INSERT OR IGNORE INTO todo_lists (id, name, color, icon, position) VALUES (?, ?, ?, ?, 0);",
+      [DEFAULT_LIST_ID, t("lists.defaultName"), DEFAULT_LIST_COLOR, DEFAULT_LIST_ICON]
+    );
+
+    const listIds = new Set(
+      (await db.getAllAsync<{ id: string }>("SELECT id FROM todo_lists;")).map(row => row.id)
+    );
+    for (const todo of backup.todos) {
+      const row = fromBackupTodo({ ...todo, listId: listIds.has(todo.listId) ? todo.listId : DEFAULT_LIST_ID });
+      await db.runAsync(
+        `INSERT INTO todos (id, text, done, createdAt, listId, notes, dueDate, allDay, deletedAt, recurrence, priority, position)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET text = excluded.text, done = excluded.done, createdAt = excluded.createdAt,
+           listId = excluded.listId, notes = excluded.notes, dueDate = excluded.dueDate, allDay = excluded.allDay,
+           deletedAt = excluded.deletedAt, recurrence = excluded.recurrence, priority = excluded.priority,
+           position = excluded.position;`,
+        [
+          row.id, row.text, row.done, row.createdAt, row.listId, row.notes, row.dueDate, row.allDay,
+          row.deletedAt, row.recurrence, row.priority, row.position,
+        ]
+      );
+      summary.todos++;
+    }
+
+    const todoIds = new Set(
+      (await db.getAllAsync<{ id: string }>("SELECT id FROM todos;")).map(row => row.id)
+    );
+
+    for (const subtask of backup.subtasks) {
+      if (!todoIds.has(subtask.todoId)) continue;
+      await db.runAsync(
+        `INSERT INTO todo_subtasks (id, todoId, text, done, position, createdAt) VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET todoId = excluded.todoId, text = excluded.text, done = excluded.done,
+           position = excluded.position, createdAt = excluded.createdAt;`,
+        [subtask.id, subtask.todoId, subtask.text, subtask.done ? 1 : 0, subtask.position, subtask.createdAt]
+      );
+      summary.subtasks++;
+    }
+
+    // Nomes de etiqueta são únicos: uma etiqueta importada com nome já existente é unida à existente.
+    const tagIdMap = new Map<string, string>();
+    for (const tag of backup.tags) {
+      const existing = await db.getFirstAsync<{ id: string }>("SELECT id FROM tags WHERE name = ?;", [tag.name]);
+      if (existing) {
+        tagIdMap.set(tag.id, existing.id);
+      } else {
+        await db.runAsync(
+          "INSERT INTO tags (id, name) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET name = excluded.name;",
+          [tag.id, tag.name]
+        );
+        tagIdMap.set(tag.id, tag.id);
+        summary.tags++;
+      }
+    }
+    for (const link of backup.todoTags) {
+      const tagId = tagIdMap.get(link.tagId);
+      if (!tagId || !todoIds.has(link.todoId)) continue;
+      await db.runAsync("INSERT OR IGNORE INTO todo_tags (todoId, tagId) VALUES (?, ?);", [link.todoId, tagId]);
+    }
+
+    for (const reminder of backup.reminders) {
+      if (!todoIds.has(reminder.todoId)) continue;
+      await db.runAsync(
+        `INSERT INTO reminders (id, todoId, kind, offsetMinutes, remindAt) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET todoId = excluded.todoId, kind = excluded.kind,
+           offsetMinutes = excluded.offsetMinutes, remindAt = excluded.remindAt;`,
+        [reminder.id, reminder.todoId, reminder.kind, reminder.offsetMinutes, reminder.remindAt]
+      );
+      summary.reminders++;
+    }
+
+    for (const filter of backup.savedFilters) {
+      await db.runAsync(
+        `INSERT INTO saved_filters (id, name, criteria, position) VALUES (?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET name = excluded.name, criteria = excluded.criteria, position = excluded.position;`,
+        [filter.id, filter.name, serializeFilterCriteria(filter.criteria), filter.position]
+      );
+      summary.savedFilters++;
+    }
+
+    for (const preference of backup.viewPreferences) {
+      await db.runAsync(
+        `INSERT INTO view_preferences (viewId, sortMode) VALUES (?, ?)
+         ON CONFLICT(viewId) DO UPDATE SET sortMode = excluded.sortMode;`,
+        [preference.viewId, preference.sortMode]
+      );
+    }
+
+    for (const [key, value] of Object.entries(backup.settings)) {
+      await db.runAsync(
+        "INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value;",
+        [key, JSON.stringify(value)]
+      );
+    }
+  });
+  // Os dados foram trocados por inteiro; o histórico não se aplica mais a eles.
+  clearHistory();
+  notifyChange(...ALL_DATA_TOPICS);
+
+  // As notificações ficam fora da transação: canceladas as antigas, agenda as dos lembretes importados.
+  const scheduler = getReminderScheduler();
+  for (const notificationId of staleNotifications) {
+    try {
+      await scheduler.cancel(notificationId);
+    } catch (error) {
+      console.error("Error cancelling reminder:", error);
+    }
+  }
+  for (const todoId of new Set(backup.reminders.map(reminder => reminder.todoId))) {
+    await syncTodoReminders(db, todoId);
+  }
+
+  return summary;
+}
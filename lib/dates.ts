@@ -0,0 +1,149 @@
+// Utilitários de data usados por todas as telas e pelo banco.
+//
+// Vencimentos de dia inteiro são gravados como data de calendário ("AAAA-MM-DD"), sem horário
+// nem fuso, e lidos como meia-noite local. Vencimentos com horário são gravados como instante
+// ISO em UTC. Assim uma tarefa "para dia 15" continua no dia 15 após mudança de fuso ou horário de verão.
+// A exibição segue o idioma e os formatos escolhidos nas configurações (lib/i18n.ts).
+
+import { getDateOrder, getFormatPreferences, getLocale, t, WeekStart } from "./i18n";
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export function isSameDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+export function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(year, month, day);
+  return date.getFullYear() === year && date.getMonth() === month && date.getDate() === day;
+}
+
+/** Data de calendário local no formato AAAA-MM-DD. */
+export function formatDateOnly(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Lê uma data AAAA-MM-DD como meia-noite local. */
+export function parseDateOnly(value: string): Date {
+  const [year, month, day] = value.slice(0, 10).split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function encodeDueDate(date: Date | null | undefined, allDay: boolean): string | null {
+  if (!date) return null;
+  return allDay ? formatDateOnly(date) : date.toISOString();
+}
+
+export function decodeDueDate(value: unknown): Date | undefined {
+  if (!value) return undefined;
+  if (value instanceof Date) return value;
+
+  const text = String(value);
+  return DATE_ONLY.test(text) ? parseDateOnly(text) : new Date(text);
+}
+
+/**
+ * Uma tarefa de dia inteiro só fica atrasada no dia seguinte ao vencimento;
+ * uma tarefa com horário fica atrasada assim que o horário passa.
+ */
+export function isOverdue(dueDate: Date | undefined, allDay: boolean, now: Date = new Date()): boolean {
+  if (!dueDate) return false;
+  return allDay ? dueDate < startOfDay(now) : dueDate < now;
+}
+
+export function isDueToday(dueDate: Date | undefined, now: Date = new Date()): boolean {
+  return !!dueDate && isSameDay(dueDate, now);
+}
+
+export function formatTime(date: Date): string {
+  return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+}
+
+/** Data numérica na ordem configurada ("19/10/2026", "10/19/2026"); com `options`, por extenso no idioma. */
+export function formatDate(date: Date, options?: Intl.DateTimeFormatOptions): string {
+  if (options) return date.toLocaleDateString(getLocale(), options);
+
+  const day = String(date.getDate()).padStart(2, "0");
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  return getDateOrder() === "dmy" ? `${day}/${month}/${date.getFullYear()}` : `${month}/${day}/${date.getFullYear()}`;
+}
+
+export function formatDateTime(date: Date): string {
+  return `${formatDate(date)} ${formatTime(date)}`;
+}
+
+export function formatDueDate(dueDate: Date, allDay: boolean): string {
+  const date = formatDate(dueDate);
+  return allDay ? date : `${date} ${formatTime(dueDate)}`;
+}
+
+/** Diferença em dias de calendário, sem ser afetada por horário de verão. */
+export function calendarDaysBetween(from: Date, to: Date): number {
+  const start = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((end - start) / (24 * 60 * 60 * 1000));
+}
+
+/** "hoje", "amanhã", "em 3 dias", "há 2 semanas"... relativo ao dia de `now`. */
+export function formatRelativeDay(date: Date, now: Date = new Date()): string {
+  const days = calendarDaysBetween(now, date);
+  if (days === 0) return t("relative.today");
+  if (days === 1) return t("relative.tomorrow");
+  if (days === -1) return t("relative.yesterday");
+
+  const count = Math.abs(days);
+  if (count < 14) return t(days > 0 ? "relative.inDays" : "relative.daysAgo", { count });
+  if (count < 60) {
+    const weeks = Math.round(count / 7);
+    return t(days > 0 ? "relative.inWeeks" : "relative.weeksAgo", { count: weeks });
+  }
+  const months = Math.round(count / 30);
+  return t(days > 0 ? "relative.inMonths" : "relative.monthsAgo", { count: months });
+}
+
+/** Máscara mostrada no campo de data, na ordem configurada ("DD/MM/AAAA", "MM/DD/YYYY"). */
+export function dateInputPlaceholder(): string {
+  return t(getDateOrder() === "dmy" ? "date.inputDMY" : "date.inputMDY");
+}
+
+/**
+ * Lê uma data digitada como DD/MM/AAAA ou MM/DD/AAAA, conforme a ordem configurada. Retorna `null`
+ * quando o texto não segue o formato ou a data não existe (31/02).
+ */
+export function parseDateInput(value: string, order = getDateOrder()): Date | null {
+  const match = value.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (!match) return null;
+
+  const [first, second, year] = match.slice(1).map(Number);
+  const [day, month] = order === "dmy" ? [first, second] : [second, first];
+  return isValidDate(year, month - 1, day) ? new Date(year, month - 1, day) : null;
+}
+
+/** Interpreta "HH:MM" ou "HHhMM"; retorna `null` se o horário for inválido. */
+export function parseTime(value: string): { hours: number; minutes: number } | null {
+  const match = value.trim().match(/^(\d{1,2})(?:[:h](\d{2})?)?$/i);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  if (hours > 23 || minutes > 59) return null;
+
+  return { hours, minutes };
+}
+
+/** Dias da semana (0 = domingo) a partir do primeiro dia configurado. */
+export function orderedWeekdays(start: WeekStart = getFormatPreferences().weekStart): number[] {
+  return Array.from({ length: 7 }, (_, index) => (start + index) % 7);
+}
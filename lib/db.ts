@@ -1,222 +1,576 @@
 import { SQLiteDatabase } from "expo-sqlite";
 import * as crypto from "expo-crypto";
-import { TodoItem, TodoList } from "./types";
+import { ThemePreference, ThemePreferenceOptions } from "@/constants/Colors";
+import { formatDateOnly } from "./dates";
+import { FilterCriteria, FilterOptions, isFilterOption, parseFilterCriteria, serializeFilterCriteria } from "./filters";
+import { recordHistory } from "./history";
+import { DateOrder, Locale, MessageKey, SUPPORTED_LOCALES, WeekStart } from "./i18n";
+import { buildReminderNotification, getReminderScheduler, getReminderTime } from "./reminders";
+import { SubtaskRow, toSubtask, toTodoItem, TodoRow } from "./rows";
+import { isSortMode, SortMode } from "./sort";
+import { notifyChange } from "./store";
+import {
+  Reminder,
+  ReminderKind,
+  SavedFilter,
+  Subtask,
+  SubtaskProgress,
+  Tag,
+} from "./types";
 
-export async function migrateDB(db: SQLiteDatabase) {
-  const DATABASE_VERSION = 2;
+// Chave usada em view_preferences para a visão com todas as tarefas.
+export const ALL_TODOS_VIEW_ID = "all";
 
-  const userVersionRow = await db.getFirstAsync<{ user_version: number }>(
+export const DEFAULT_LIST_ID = "default-list";
+export const DEFAULT_LIST_COLOR = "#0a7ea4";
+export const DEFAULT_LIST_ICON = "list.bullet";
+
+export function getSQLiteVersion(db: SQLiteDatabase) {
+  return db.getFirstAsync<{ "sqlite_version()": string }>(
+    "SELECT sqlite_version()"
+  );
+}
+
+export async function getDBVersion(db: SQLiteDatabase) {
+  return await db.getFirstAsync<{ user_version: number }>(
     "PRAGMA user_version"
   );
-  let currentDbVersion = userVersionRow?.user_version ?? 0;
+}
 
-  if (currentDbVersion === DATABASE_VERSION) return;
+export async function getSubtasks(db: SQLiteDatabase, todoId: string): Promise<Subtask[]> {
+  const result = await db.getAllAsync<SubtaskRow>(
+    "SELECT * FROM todo_subtasks WHERE todoId = ? ORDER BY position, createdAt;",
+    [todoId]
+  );
+  return result.map(toSubtask);
+}
 
-  if (currentDbVersion === 0) {
-    console.log("Running initial database setup...");
-    console.log(
-      `Current DB version: ${currentDbVersion}, Target DB version: ${DATABASE_VERSION}`
-    );
-    await initializeDB(db);
-    currentDbVersion = 1;
+// Retorna o progresso (concluídas/total) das subtarefas de cada tarefa que possui alguma.
+export async function getSubtaskProgress(db: SQLiteDatabase): Promise<Record<string, SubtaskProgress>> {
+  const rows = await db.getAllAsync<{ todoId: string; done: number; total: number }>(
+    "SELECT todoId, SUM(done) as done, COUNT(*) as total FROM todo_subtasks GROUP BY todoId;"
+  );
+  const progress: Record<string, SubtaskProgress> = {};
+  for (const row of rows) {
+    progress[row.todoId] = { done: row.done, total: row.total };
   }
+  return progress;
+}
 
-  if (currentDbVersion === 1) {
-    console.log("Upgrading database to version 2...");
-    await upgradeToVersion2(db);
-    currentDbVersion = 2;
-  }
+export async function createSubtask(db: SQLiteDatabase, todoId: string, text: string): Promise<Subtask> {
+  const id = crypto.randomUUID();
+  const createdAt = new Date().toISOString();
+  const before = await captureTodoDependents(db, [todoId]);
 
-  await db.execAsync(`PRAGMA user_version = ${DATABASE_VERSION}`);
-}
-
-async function initializeDB(db: SQLiteDatabase) {
-  const todo1Id = crypto.randomUUID();
-  const todo2Id = crypto.randomUUID();
-  const todo3Id = crypto.randomUUID();
-
-  await db.execAsync(`
-    PRAGMA journal_mode = WAL;
-    CREATE TABLE IF NOT EXISTS todos (
-      id TEXT PRIMARY KEY, 
-      text TEXT NOT NULL, 
-      done INTEGER NOT NULL, 
-      createdAt TEXT NOT NULL
-    );
-    INSERT INTO todos (id, text, done, createdAt) VALUES ('${todo1Id}', 'Sample Todo from DB', 0, '2023-01-01T00:00:00Z');
-    INSERT INTO todos (id, text, done, createdAt) VALUES ('${todo2Id}', 'Sample Todo 2 from DB', 1, '2023-01-02T00:00:00Z');
-    INSERT INTO todos (id, text, done, createdAt) VALUES ('${todo3Id}', 'Sample Todo 3 from DB', 0, '2023-01-03T00:00:00Z');
-  `);
-}
-
-async function upgradeToVersion2(db: SQLiteDatabase) {
-  console.log("Running database upgrade to version 2...");
-  
-  await db.execAsync(`
-    CREATE TABLE IF NOT EXISTS todo_lists (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL
-    );
-  `);
+  const result = await db.getFirstAsync<SubtaskRow>(
+    `INSERT INTO todo_subtasks (id, todoId, text, done, position, createdAt)
+     VALUES (?, ?, ?, 0, (SELECT COALESCE(MAX(position) + 1, 0) FROM todo_subtasks WHERE todoId = ?), ?)
+     RETURNING *;`,
+    [id, todoId, text, todoId, createdAt]
+  );
 
-  try {
-    await db.execAsync(`ALTER TABLE todos ADD COLUMN listId TEXT;`);
-  } catch (e) {
-    console.log("Column listId may already exist");
-  }
+  recordDependentsChange(db, "history.editSubtasks", todoId, before);
+  notifyChange("subtasks");
+  return toSubtask(result!);
+}
 
-  try {
-    await db.execAsync(`ALTER TABLE todos ADD COLUMN notes TEXT;`);
-  } catch (e) {
-    console.log("Column notes may already exist");
-  }
+async function getSubtaskTodoId(db: SQLiteDatabase, id: string): Promise<string | null> {
+  const row = await db.getFirstAsync<{ todoId: string }>("SELECT todoId FROM todo_subtasks WHERE id = ?;", [id]);
+  return row?.todoId ?? null;
+}
 
-  try {
-    await db.execAsync(`ALTER TABLE todos ADD COLUMN dueDate TEXT;`);
-  } catch (e) {
-    console.log("Column dueDate may already exist");
-  }
+export async function updateSubtaskStatus(db: SQLiteDatabase, id: string, done: boolean): Promise<void> {
+  const todoId = await getSubtaskTodoId(db, id);
+  if (!todoId) return;
+  const before = await captureTodoDependents(db, [todoId]);
+
+  await db.runAsync("UPDATE todo_subtasks SET done = ? WHERE id = ?;", [done ? 1 : 0, id]);
+  recordDependentsChange(db, "history.editSubtasks", todoId, before);
+  notifyChange("subtasks");
+}
+
+export async function setAllSubtasksStatus(db: SQLiteDatabase, todoId: string, done: boolean): Promise<void> {
+  const before = await captureTodoDependents(db, [todoId]);
 
-  const defaultListExists = await db.getFirstAsync<{ count: number }>(
-    "SELECT COUNT(*) as count FROM todo_lists WHERE id = 'default-list'"
+  const result = await db.runAsync(
+    "UPDATE todo_subtasks SET done = ? WHERE todoId = ? AND done != ?;",
+    [done ? 1 : 0, todoId, done ? 1 : 0]
   );
+  if (result.changes > 0) recordDependentsChange(db, "history.editSubtasks", todoId, before);
+  notifyChange("subtasks");
+}
 
-  if (!defaultListExists || defaultListExists.count === 0) {
-    await db.execAsync(
-      "INSERT INTO todo_lists (id, name) VALUES ('default-list', 'Todas as Tarefas');"
-    );
-  }
+export async function deleteSubtask(db: SQLiteDatabase, id: string): Promise<void> {
+  const todoId = await getSubtaskTodoId(db, id);
+  if (!todoId) return;
+  const before = await captureTodoDependents(db, [todoId]);
+
+  await db.runAsync("DELETE FROM todo_subtasks WHERE id = ?;", [id]);
+  recordDependentsChange(db, "history.editSubtasks", todoId, before);
+  notifyChange("subtasks");
+}
 
-  await db.execAsync(
-    "UPDATE todos SET listId = 'default-list' WHERE listId IS NULL;"
+// `orderedIds` são subtarefas de uma mesma tarefa.
+export async function reorderSubtasks(db: SQLiteDatabase, orderedIds: string[]): Promise<void> {
+  const todoId = orderedIds.length > 0 ? await getSubtaskTodoId(db, orderedIds[0]) : null;
+  if (!todoId) return;
+  const before = await captureTodoDependents(db, [todoId]);
+
+  await db.withTransactionAsync(async () => {
+    for (const [index, id] of orderedIds.entries()) {
+      await db.runAsync("UPDATE todo_subtasks SET position = ? WHERE id = ?;", [index, id]);
+    }
+  });
+  recordDependentsChange(db, "history.editSubtasks", todoId, before);
+  notifyChange("subtasks");
+}
+
+export async function getAllTags(db: SQLiteDatabase): Promise<Tag[]> {
+  return await db.getAllAsync<Tag>("SELECT * FROM tags ORDER BY name COLLATE NOCASE;");
+}
+
+export async function getTagsByTodo(db: SQLiteDatabase, todoId: string): Promise<Tag[]> {
+  return await db.getAllAsync<Tag>(
+    `SELECT tags.* FROM tags
+     JOIN todo_tags ON todo_tags.tagId = tags.id
+     WHERE todo_tags.todoId = ?
+     ORDER BY tags.name COLLATE NOCASE;`,
+    [todoId]
   );
 }
 
-export function getSQLiteVersion(db: SQLiteDatabase) {
-  return db.getFirstAsync<{ "sqlite_version()": string }>(
-    "SELECT sqlite_version()"
+// Retorna as etiquetas de cada tarefa que possui alguma, indexadas pelo id da tarefa.
+export async function getTodoTags(db: SQLiteDatabase): Promise<Record<string, Tag[]>> {
+  const rows = await db.getAllAsync<Tag & { todoId: string }>(
+    `SELECT todo_tags.todoId, tags.id, tags.name FROM todo_tags
+     JOIN tags ON tags.id = todo_tags.tagId
+     ORDER BY tags.name COLLATE NOCASE;`
   );
+  const result: Record<string, Tag[]> = {};
+  for (const { todoId, ...tag } of rows) {
+    (result[todoId] ??= []).push(tag);
+  }
+  return result;
 }
 
-export async function getDBVersion(db: SQLiteDatabase) {
-  return await db.getFirstAsync<{ user_version: number }>(
-    "PRAGMA user_version"
+// Substitui as etiquetas de uma tarefa, criando as que ainda não existem (sem diferenciar maiúsculas).
+export async function setTodoTags(db: SQLiteDatabase, todoId: string, names: string[]): Promise<Tag[]> {
+  const uniqueNames = Array.from(
+    new Map(names.map(name => name.trim()).filter(Boolean).map(name => [name.toLowerCase(), name])).values()
   );
+  const before = await captureTodoDependents(db, [todoId]);
+  const createdTagIds: string[] = [];
+
+  await db.withTransactionAsync(async () => {
+    await db.runAsync("DELETE FROM todo_tags WHERE todoId = ?;", [todoId]);
+
+    for (const name of uniqueNames) {
+      const created = await db.getFirstAsync<{ id: string }>(
+        "INSERT INTO tags (id, name) VALUES (?, ?) ON CONFLICT(name) DO NOTHING RETURNING id;",
+        [crypto.randomUUID(), name]
+      );
+      if (created) createdTagIds.push(created.id);
+      await db.runAsync(
+        "INSERT OR IGNORE INTO todo_tags (todoId, tagId) SELECT ?, id FROM tags WHERE name = ?;",
+        [todoId, name]
+      );
+    }
+  });
+
+  const tags = await getTagsByTodo(db, todoId);
+  const changed = tags.map(tag => tag.id).sort().join() !== before.tags.map(tag => tag.tagId).sort().join();
+  if (changed) {
+    recordDependentsChange(db, "history.editTags", todoId, before, createdTagIds);
+  }
+  notifyChange("tags");
+  return tags;
 }
 
-export async function getAllTodos(db: SQLiteDatabase): Promise<TodoItem[]> {
-  const result = await db.getAllAsync<TodoItem>("SELECT * FROM todos;");
-  return result.map(todo => ({
-    ...todo,
-    createdAt: new Date(todo.createdAt),
-    dueDate: todo.dueDate ? new Date(todo.dueDate) : undefined as any,
-  }));
+type SavedFilterRow = {
+  id: string;
+  name: string;
+  criteria: string;
+  position: number;
+};
+
+function toSavedFilter(row: SavedFilterRow): SavedFilter {
+  return { ...row, criteria: parseFilterCriteria(row.criteria) };
 }
 
-export async function getTodosByList(db: SQLiteDatabase, listId?: string): Promise<TodoItem[]> {
-  let result: TodoItem[];
-  
-  if (listId) {
-    result = await db.getAllAsync<TodoItem>(
-      "SELECT * FROM todos WHERE listId = ?;",
-      [listId]
-    );
-  } else {
-    result = await db.getAllAsync<TodoItem>("SELECT * FROM todos;");
-  }
-  
-  return result.map(todo => ({
-    ...todo,
-    createdAt: new Date(todo.createdAt),
-    dueDate: todo.dueDate ? new Date(todo.dueDate) : undefined as any,
-  }));
+export async function getSavedFilters(db: SQLiteDatabase): Promise<SavedFilter[]> {
+  const rows = await db.getAllAsync<SavedFilterRow>("SELECT * FROM saved_filters ORDER BY position, name;");
+  return rows.map(toSavedFilter);
 }
 
-export async function getAllLists(db: SQLiteDatabase): Promise<TodoList[]> {
-  const result = await db.getAllAsync<TodoList>("SELECT * FROM todo_lists ORDER BY name;");
-  return result;
+export async function getSavedFilter(db: SQLiteDatabase, id: string): Promise<SavedFilter | null> {
+  const row = await db.getFirstAsync<SavedFilterRow>("SELECT * FROM saved_filters WHERE id = ?;", [id]);
+  return row ? toSavedFilter(row) : null;
 }
 
-export async function createList(db: SQLiteDatabase, name: string): Promise<TodoList> {
+export async function createSavedFilter(
+  db: SQLiteDatabase,
+  name: string,
+  criteria: FilterCriteria
+): Promise<SavedFilter> {
   const id = crypto.randomUUID();
-  const result = await db.getFirstAsync<TodoList>(
-    "INSERT INTO todo_lists (id, name) VALUES (?, ?) RETURNING id, name;",
-    [id, name]
+  const result = await db.getFirstAsync<SavedFilterRow>(
+    `INSERT INTO saved_filters (id, name, criteria, position)
+     VALUES (?, ?, ?, (SELECT COALESCE(MAX(position) + 1, 0) FROM saved_filters))
+     RETURNING id, name, criteria, position;`,
+    [id, name, serializeFilterCriteria(criteria)]
   );
-  return result!;
+  notifyChange("filters");
+  return toSavedFilter(result!);
 }
 
-export async function createTodo(
+export async function updateSavedFilter(
   db: SQLiteDatabase,
-  text: string,
-  listId: string = 'default-list',
-  notes?: string,
-  dueDate?: Date
-): Promise<TodoItem> {
-  const id = crypto.randomUUID();
-  const createdAt = new Date().toISOString();
-  const dueDateString = dueDate ? dueDate.toISOString() : null;
-  
-  const result = await db.getFirstAsync<TodoItem>(
-    `INSERT INTO todos (id, text, done, createdAt, listId, notes, dueDate) 
-     VALUES (?, ?, 0, ?, ?, ?, ?) 
-     RETURNING id, text, done, createdAt, listId, notes, dueDate;`,
-    [id, text, createdAt, listId, notes || null, dueDateString]
+  id: string,
+  updates: { name?: string; criteria?: FilterCriteria }
+): Promise<SavedFilter | null> {
+  const current = await getSavedFilter(db, id);
+  if (!current) return null;
+
+  const result = await db.getFirstAsync<SavedFilterRow>(
+    `UPDATE saved_filters SET name = ?, criteria = ? WHERE id = ?
+     RETURNING id, name, criteria, position;`,
+    [updates.name ?? current.name, serializeFilterCriteria(updates.criteria ?? current.criteria), id]
   );
+  notifyChange("filters");
+  return result ? toSavedFilter(result) : null;
+}
+
+export async function deleteSavedFilter(db: SQLiteDatabase, id: string): Promise<void> {
+  await db.withTransactionAsync(async () => {
+    await db.runAsync("DELETE FROM view_preferences WHERE viewId = ?;", [savedFilterPreferenceId(id)]);
+    await db.runAsync("DELETE FROM saved_filters WHERE id = ?;", [id]);
+  });
+  notifyChange("filters", "preferences");
+}
+
+// Chave usada em view_preferences para a ordenação de cada filtro salvo.
+export function savedFilterPreferenceId(id: string): string {
+  return `filter:${id}`;
+}
+
+type ReminderRow = {
+  id: string;
+  todoId: string;
+  kind: ReminderKind;
+  offsetMinutes: number | null;
+  remindAt: string | null;
+  notificationId: string | null;
+};
 
+function toReminder(row: ReminderRow): Reminder {
   return {
-    ...result!,
-    createdAt: new Date(result!.createdAt),
-    dueDate: result!.dueDate ? new Date(result!.dueDate) : undefined as any,
+    id: row.id,
+    todoId: row.todoId,
+    kind: row.kind,
+    offsetMinutes: row.offsetMinutes ?? undefined,
+    remindAt: row.remindAt ? new Date(row.remindAt) : undefined,
+    notificationId: row.notificationId ?? undefined,
   };
 }
 
-export async function updateTodoStatus(
+export async function getReminders(db: SQLiteDatabase, todoId: string): Promise<Reminder[]> {
+  const rows = await db.getAllAsync<ReminderRow>(
+    "SELECT * FROM reminders WHERE todoId = ? ORDER BY rowid;",
+    [todoId]
+  );
+  return rows.map(toReminder);
+}
+
+export async function addReminder(
   db: SQLiteDatabase,
-  id: string,
-  done: boolean
-): Promise<TodoItem | null> {
-  const result = await db.getFirstAsync<TodoItem | null>(
-    "UPDATE todos SET done = ? WHERE id = ? RETURNING id, text, done, createdAt, listId, notes, dueDate;",
-    [done ? 1 : 0, id]
+  todoId: string,
+  reminder: { kind: ReminderKind; offsetMinutes?: number; remindAt?: Date }
+): Promise<Reminder[]> {
+  const before = await captureTodoDependents(db, [todoId]);
+  await db.runAsync(
+    "INSERT INTO reminders (id, todoId, kind, offsetMinutes, remindAt) VALUES (?, ?, ?, ?, ?);",
+    [
+      crypto.randomUUID(),
+      todoId,
+      reminder.kind,
+      reminder.kind === "before" ? reminder.offsetMinutes ?? 0 : null,
+      reminder.kind === "custom" && reminder.remindAt ? reminder.remindAt.toISOString() : null,
+    ]
   );
+  await syncTodoReminders(db, todoId);
+  recordDependentsChange(db, "history.editReminders", todoId, before);
+  notifyChange("reminders");
+  return getReminders(db, todoId);
+}
+
+export async function deleteReminder(db: SQLiteDatabase, id: string): Promise<void> {
+  const row = await db.getFirstAsync<ReminderRow>("SELECT * FROM reminders WHERE id = ?;", [id]);
+  if (!row) return;
+  const before = await captureTodoDependents(db, [row.todoId]);
+
+  if (row.notificationId) {
+    try {
+      await getReminderScheduler().cancel(row.notificationId);
+    } catch (error) {
+      console.error("Error cancelling reminder:", error);
+    }
+  }
+  await db.runAsync("DELETE FROM reminders WHERE id = ?;", [id]);
+  recordDependentsChange(db, "history.editReminders", row.todoId, before);
+  notifyChange("reminders");
+}
 
-  if (!result) return null;
+/**
+ * Subtarefas, etiquetas e lembretes de algumas tarefas, para o histórico de desfazer. As etiquetas
+ * levam o nome para serem recriadas se a alteração desfeita foi a que as criou.
+ */
+export type TodoDependents = {
+  subtasks: SubtaskRow[];
+  tags: { todoId: string; tagId: string; name: string }[];
+  reminders: Omit<ReminderRow, "notificationId">[];
+};
 
+export async function captureTodoDependents(db: SQLiteDatabase, ids: string[]): Promise<TodoDependents> {
+  if (ids.length === 0) return { subtasks: [], tags: [], reminders: [] };
+  const inIds = ids.map(() => "?").join(", ");
   return {
-    ...result,
-    createdAt: new Date(result.createdAt),
-    dueDate: result.dueDate ? new Date(result.dueDate) : undefined as any,
+    subtasks: await db.getAllAsync<SubtaskRow>(
+      `SELECT * FROM todo_subtasks WHERE todoId IN (${inIds}) ORDER BY position, createdAt;`,
+      ids
+    ),
+    tags: await db.getAllAsync(
+      `SELECT todo_tags.todoId, todo_tags.tagId, tags.name FROM todo_tags
+       JOIN tags ON tags.id = todo_tags.tagId
+       WHERE todo_tags.todoId IN (${inIds});`,
+      ids
+    ),
+    reminders: await db.getAllAsync(
+      `SELECT id, todoId, kind, offsetMinutes, remindAt FROM reminders WHERE todoId IN (${inIds}) ORDER BY rowid;`,
+      ids
+    ),
   };
 }
 
-export async function updateTodo(
+/**
+ * Deixa as subtarefas, etiquetas e lembretes das tarefas `ids` exatamente como em `state`.
+ * Não entra no histórico: é a operação usada para desfazer e refazer.
+ */
+export async function replaceTodoDependents(
   db: SQLiteDatabase,
-  id: string,
-  updates: { text?: string; notes?: string; dueDate?: Date; listId?: string }
-): Promise<TodoItem | null> {
-  const todo = await db.getFirstAsync<TodoItem>("SELECT * FROM todos WHERE id = ?", [id]);
-  if (!todo) return null;
+  ids: string[],
+  state: TodoDependents
+): Promise<void> {
+  if (ids.length === 0) return;
+  const inIds = ids.map(() => "?").join(", ");
+
+  const scheduled = await db.getAllAsync<{ notificationId: string }>(
+    `SELECT notificationId FROM reminders WHERE todoId IN (${inIds}) AND notificationId IS NOT NULL;`,
+    ids
+  );
+  for (const { notificationId } of scheduled) {
+    try {
+      await getReminderScheduler().cancel(notificationId);
+    } catch (error) {
+      console.error("Error cancelling reminder:", error);
+    }
+  }
+
+  await db.withTransactionAsync(async () => {
+    await db.runAsync(`DELETE FROM todo_subtasks WHERE todoId IN (${inIds});`, ids);
+    await db.runAsync(`DELETE FROM todo_tags WHERE todoId IN (${inIds});`, ids);
+    await db.runAsync(`DELETE FROM reminders WHERE todoId IN (${inIds});`, ids);
+
+    for (const subtask of state.subtasks) {
+      await db.runAsync(
+        "INSERT INTO todo_subtasks (id, todoId, text, done, position, createdAt) VALUES (?, ?, ?, ?, ?, ?);",
+        [subtask.id, subtask.todoId, subtask.text, subtask.done, subtask.position, subtask.createdAt]
+      );
+    }
+    // Se outra etiqueta ficou com o nome nesse meio-tempo, a tarefa passa a usar ela.
+    for (const { todoId, tagId, name } of state.tags) {
+      await db.runAsync("INSERT INTO tags (id, name) VALUES (?, ?) ON CONFLICT DO NOTHING;", [tagId, name]);
+      await db.runAsync(
+        `INSERT OR IGNORE INTO todo_tags (todoId, tagId)
+         SELECT ?, id FROM tags WHERE id = ? OR name = ? ORDER BY id = ? DESC LIMIT 1;`,
+        [todoId, tagId, name, tagId]
+      );
+    }
+    for (const reminder of state.reminders) {
+      await db.runAsync(
+        "INSERT INTO reminders (id, todoId, kind, offsetMinutes, remindAt) VALUES (?, ?, ?, ?, ?);",
+        [reminder.id, reminder.todoId, reminder.kind, reminder.offsetMinutes, reminder.remindAt]
+      );
+    }
+  });
+
+  for (const id of ids) {
+    await syncTodoReminders(db, id);
+  }
+  notifyChange("subtasks", "tags", "reminders");
+}
+
+// Registra uma alteração nas subtarefas, etiquetas ou lembretes de uma tarefa. Desfazer também tira
+// do catálogo as etiquetas que a alteração criou, se nenhuma tarefa ficou com elas.
+function recordDependentsChange(
+  db: SQLiteDatabase,
+  label: MessageKey,
+  todoId: string,
+  before: TodoDependents,
+  createdTagIds: string[] = []
+) {
+  let redoState: TodoDependents | null = null;
+  recordHistory({
+    label,
+    todoIds: [todoId],
+    undo: async () => {
+      redoState = await captureTodoDependents(db, [todoId]);
+      await replaceTodoDependents(db, [todoId], before);
+      if (createdTagIds.length > 0) {
+        await db.runAsync(
+          `DELETE FROM tags WHERE id IN (${createdTagIds.map(() => "?").join(", ")})
+           AND id NOT IN (SELECT tagId FROM todo_tags);`,
+          createdTagIds
+        );
+      }
+    },
+    redo: async () => {
+      if (redoState) await replaceTodoDependents(db, [todoId], redoState);
+    },
+  });
+}
+
+/**
+ * Cancela as notificações agendadas da tarefa e agenda de novo as que ainda estão no futuro.
+ * Tarefas concluídas ou na lixeira ficam sem notificações. Falhas do agendador não interrompem a operação no banco.
+ */
+export async function syncTodoReminders(db: SQLiteDatabase, todoId: string): Promise<void> {
+  const scheduler = getReminderScheduler();
+  const row = await db.getFirstAsync<TodoRow>("SELECT * FROM todos WHERE id = ?;", [todoId]);
+  const todo = row ? toTodoItem(row) : null;
+  const reminders = await getReminders(db, todoId);
+  const now = new Date();
+
+  for (const reminder of reminders) {
+    let notificationId: string | null = null;
+    try {
+      if (reminder.notificationId) {
+        await scheduler.cancel(reminder.notificationId);
+      }
 
-  const text = updates.text ?? todo.text;
-  const notes = updates.notes ?? todo.notes;
-  const dueDate = updates.dueDate ? updates.dueDate.toISOString() : 
-                 (todo.dueDate ? (typeof todo.dueDate === 'string' ? todo.dueDate : new Date(todo.dueDate).toISOString()) : null);
-  const listId = updates.listId ?? todo.listId;
+      if (todo && !todo.done && !todo.deletedAt) {
+        const time = getReminderTime(reminder, todo.dueDate, todo.allDay);
+        if (time && time > now) {
+          notificationId = await scheduler.schedule(
+            buildReminderNotification(todo, reminder, time)
+          );
+        }
+      }
+    } catch (error) {
+      console.error("Error scheduling reminder:", error);
+    }
 
-  const result = await db.getFirstAsync<TodoItem | null>(
-    `UPDATE todos 
-     SET text = ?, notes = ?, dueDate = ?, listId = ? 
-     WHERE id = ? 
-     RETURNING id, text, done, createdAt, notes, dueDate, listId;`,
-    [text, notes || null, dueDate, listId, id]
+    if (notificationId !== (reminder.notificationId ?? null)) {
+      await db.runAsync("UPDATE reminders SET notificationId = ? WHERE id = ?;", [notificationId, reminder.id]);
+    }
+  }
+}
+
+export async function getSortMode(db: SQLiteDatabase, viewId: string): Promise<SortMode> {
+  const row = await db.getFirstAsync<{ sortMode: string }>(
+    "SELECT sortMode FROM view_preferences WHERE viewId = ?;",
+    [viewId]
   );
+  // Sem escolha para a visão, vale a ordenação padrão das configurações.
+  return row && isSortMode(row.sortMode) ? row.sortMode : getSetting(db, "sortMode");
+}
 
-  if (!result) return null;
+export async function setSortMode(db: SQLiteDatabase, viewId: string, sortMode: SortMode): Promise<void> {
+  await db.runAsync(
+    `INSERT INTO view_preferences (viewId, sortMode) VALUES (?, ?)
+     ON CONFLICT(viewId) DO UPDATE SET sortMode = excluded.sortMode;`,
+    [viewId, sortMode]
+  );
+  notifyChange("preferences");
+}
 
-  return {
-    ...result,
-    createdAt: new Date(result.createdAt),
-    dueDate: result.dueDate ? new Date(result.dueDate) : undefined as any,
-  };
-}
\ No newline at end of file
+export type Settings = {
+  language: Locale | "system";
+  theme: ThemePreference;
+  defaultFilter: FilterOptions;
+  sortMode: SortMode; // para visões sem ordenação própria em view_preferences
+  defaultListId: string; // lista das tarefas novas quando nenhuma é escolhida
+  dateFormat: DateOrder | "auto";
+  weekStart: WeekStart;
+};
+
+export type SettingKey = keyof Settings;
+
+export const DEFAULT_SETTINGS: Settings = {
+  language: "system",
+  theme: "system",
+  defaultFilter: FilterOptions.All,
+  sortMode: SortMode.DueDate,
+  defaultListId: DEFAULT_LIST_ID,
+  dateFormat: "auto",
+  weekStart: 0,
+};
+
+// Valores gravados por outra versão do app, ou corrompidos, caem no padrão em vez de chegar às telas.
+const SETTING_VALIDATORS: { [K in SettingKey]: (value: unknown) => value is Settings[K] } = {
+  language: (value): value is Settings["language"] =>
+    value === "system" || SUPPORTED_LOCALES.includes(value as Locale),
+  theme: (value): value is ThemePreference => ThemePreferenceOptions.includes(value as ThemePreference),
+  defaultFilter: isFilterOption,
+  sortMode: isSortMode,
+  defaultListId: (value): value is string => typeof value === "string" && value.length > 0,
+  dateFormat: (value): value is Settings["dateFormat"] => value === "auto" || value === "dmy" || value === "mdy",
+  weekStart: (value): value is WeekStart => value === 0 || value === 1,
+};
+
+function parseSetting<K extends SettingKey>(key: K, value: string | undefined): Settings[K] {
+  if (value === undefined) return DEFAULT_SETTINGS[key];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return SETTING_VALIDATORS[key](parsed) ? parsed : DEFAULT_SETTINGS[key];
+  } catch {
+    return DEFAULT_SETTINGS[key];
+  }
+}
+
+export function isSettingKey(key: string): key is SettingKey {
+  return Object.prototype.hasOwnProperty.call(DEFAULT_SETTINGS, key);
+}
+
+export function isValidSetting<K extends SettingKey>(key: K, value: unknown): value is Settings[K] {
+  return SETTING_VALIDATORS[key](value);
+}
+
+export async function getSettings(db: SQLiteDatabase): Promise<Settings> {
+  const rows = await db.getAllAsync<{ key: string; value: string }>("SELECT key, value FROM settings;");
+  const values = new Map(rows.map(row => [row.key, row.value]));
+  const settings = { ...DEFAULT_SETTINGS };
+  for (const key of Object.keys(DEFAULT_SETTINGS) as SettingKey[]) {
+    (settings as Record<SettingKey, unknown>)[key] = parseSetting(key, values.get(key));
+  }
+  return settings;
+}
+
+export async function getSetting<K extends SettingKey>(db: SQLiteDatabase, key: K): Promise<Settings[K]> {
+  const row = await db.getFirstAsync<{ value: string }>("SELECT value FROM settings WHERE key = ?;", [key]);
+  return parseSetting(key, row?.value);
+}
+
+export async function setSetting<K extends SettingKey>(db: SQLiteDatabase, key: K, value: Settings[K]): Promise<void> {
+  await db.runAsync(
+    "INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value;",
+    [key, JSON.stringify(value)]
+  );
+  notifyChange("preferences");
+}
+
+// A lista escolhida pode ter sido excluída depois; nesse caso as tarefas novas vão para a lista fixa.
+export async function getDefaultListId(db: SQLiteDatabase): Promise<string> {
+  const listId = await getSetting(db, "defaultListId");
+  const row = await db.getFirstAsync<{ id: string }>("SELECT id FROM todo_lists WHERE id = ?;", [listId]);
+  return row ? listId : DEFAULT_LIST_ID;
+}
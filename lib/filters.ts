@@ -0,0 +1,62 @@
+// Critérios dos filtros salvos. São guardados como JSON e compilados para SQL em lib/db.ts.
+
+import { Priority, TagMatchMode } from "./types";
+
+// Filtro de status da lista de tarefas; o padrão vem das configurações.
+export enum FilterOptions {
+  All = "all",
+  Pending = "pending",
+  Done = "done",
+}
+
+export function isFilterOption(value: unknown): value is FilterOptions {
+  return Object.values(FilterOptions).includes(value as FilterOptions);
+}
+
+export type DueFilter =
+  | { kind: "overdue" }
+  | { kind: "today" }
+  | { kind: "next"; days: number } // de hoje até daqui a `days` dias
+  | { kind: "none" } // sem data
+  | { kind: "any" }; // com qualquer data
+
+export type FilterCriteria = {
+  listIds?: string[];
+  done?: boolean;
+  due?: DueFilter;
+  text?: string;
+  priorities?: Priority[];
+  tags?: string[]; // nomes, comparados sem diferenciar maiúsculas
+  tagMode?: TagMatchMode;
+};
+
+export function parseFilterCriteria(value: unknown): FilterCriteria {
+  if (!value) return {};
+  if (typeof value === "object") return value as FilterCriteria;
+
+  try {
+    const criteria = JSON.parse(String(value));
+    return criteria && typeof criteria === "object" ? criteria : {};
+  } catch {
+    return {};
+  }
+}
+
+// Remove campos vazios para que o JSON guardado contenha só o que de fato filtra.
+export function normalizeFilterCriteria(criteria: FilterCriteria): FilterCriteria {
+  const result: FilterCriteria = {};
+  if (criteria.listIds && criteria.listIds.length > 0) result.listIds = criteria.listIds;
+  if (criteria.done !== undefined) result.done = criteria.done;
+  if (criteria.due) result.due = criteria.due;
+  if (criteria.text?.trim()) result.text = criteria.text.trim();
+  if (criteria.priorities && criteria.priorities.length > 0) result.priorities = criteria.priorities;
+  if (criteria.tags && criteria.tags.length > 0) {
+    result.tags = criteria.tags;
+    result.tagMode = criteria.tagMode ?? "or";
+  }
+  return result;
+}
+
+export function serializeFilterCriteria(criteria: FilterCriteria): string {
+  return JSON.stringify(normalizeFilterCriteria(criteria));
+}
@@ -0,0 +1,159 @@
+// Histórico de desfazer/refazer da sessão. As funções de escrita dos repositórios registram cada
+// alteração com a operação inversa; nada é persistido, o histórico começa vazio a cada abertura.
+
+import { MessageKey } from "./i18n";
+
+export type HistoryEntry = {
+  label: MessageKey;
+  // Tarefas que a operação toca; apagá-las de vez descarta a entrada (forgetTodoHistory).
+  todoIds?: string[];
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+};
+
+export type HistoryState = {
+  undoLabel: MessageKey | null;
+  redoLabel: MessageKey | null;
+};
+
+export const MAX_HISTORY = 50;
+
+let undoStack: HistoryEntry[] = [];
+let redoStack: HistoryEntry[] = [];
+let state: HistoryState = { undoLabel: null, redoLabel: null };
+// Enquanto uma operação é desfeita ou refeita, outra não começa e nada novo é registrado.
+let busy = false;
+// Entradas registradas dentro de withHistoryGroup; viram um passo só quando o grupo termina.
+let group: HistoryEntry[] | null = null;
+const listeners = new Set<() => void>();
+
+function emit() {
+  state = {
+    undoLabel: undoStack.at(-1)?.label ?? null,
+    redoLabel: redoStack.at(-1)?.label ?? null,
+  };
+  listeners.forEach(listener => listener());
+}
+
+/** Registra uma alteração já gravada. Uma alteração nova descarta o que havia para refazer. */
+export function recordHistory(entry: HistoryEntry) {
+  if (busy) return;
+  if (group) {
+    group.push(entry);
+    return;
+  }
+  undoStack.push(entry);
+  if (undoStack.length > MAX_HISTORY) undoStack.shift();
+  redoStack = [];
+  emit();
+}
+
+async function replay(from: HistoryEntry[], to: HistoryEntry[], run: (entry: HistoryEntry) => Promise<void>) {
+  if (busy) return null;
+  const entry = from.pop();
+  if (!entry) return null;
+
+  busy = true;
+  try {
+    await run(entry);
+    to.push(entry);
+    return entry.label;
+  } finally {
+    // Se a inversa falhar o passo é descartado: o banco pode não estar mais no estado esperado.
+    busy = false;
+    emit();
+  }
+}
+
+/** Desfaz a última alteração; devolve o rótulo dela, ou null se não havia o que desfazer. */
+export function undo(): Promise<MessageKey | null> {
+  return replay(undoStack, redoStack, entry => entry.undo());
+}
+
+export function redo(): Promise<MessageKey | null> {
+  return replay(redoStack, undoStack, entry => entry.redo());
+}
+
+/**
+ * Roda `action` e devolve, junto com o resultado, a entrada que ela registrou, ou null se não registrou
+ * nenhuma. Serve a quem oferece desfazer uma alteração específica mais tarde, como os avisos das telas.
+ */
+export async function withHistoryEntry<T>(action: () => Promise<T>): Promise<[T, HistoryEntry | null]> {
+  const before = undoStack.at(-1);
+  const result = await action();
+  const after = undoStack.at(-1);
+  return [result, after && after !== before ? after : null];
+}
+
+/**
+ * Roda `action` juntando num passo só tudo o que ela registrar, com o rótulo do primeiro registro.
+ * Serve às telas que gravam uma alteração em várias chamadas, como a tarefa e depois as etiquetas.
+ */
+export async function withHistoryGroup<T>(action: () => Promise<T>): Promise<T> {
+  if (group) return action();
+
+  const entries: HistoryEntry[] = [];
+  group = entries;
+  try {
+    return await action();
+  } finally {
+    group = null;
+    if (entries.length === 1) {
+      recordHistory(entries[0]);
+    } else if (entries.length > 1) {
+      recordHistory({
+        label: entries[0].label,
+        todoIds: entries.flatMap(entry => entry.todoIds ?? []),
+        undo: async () => {
+          for (const entry of [...entries].reverse()) await entry.undo();
+        },
+        redo: async () => {
+          for (const entry of entries) await entry.redo();
+        },
+      });
+    }
+  }
+}
+
+/** Se `entry` ainda é a alteração que undo() desfaria agora. */
+export function isLatestHistoryEntry(entry: HistoryEntry): boolean {
+  return undoStack.at(-1) === entry;
+}
+
+/**
+ * Desfaz `entry` só se ela ainda for a última alteração; devolve o rótulo dela, ou null se outra
+ * alteração veio depois, se ela já foi desfeita ou se o histórico está ocupado.
+ */
+export async function undoEntry(entry: HistoryEntry): Promise<MessageKey | null> {
+  if (!isLatestHistoryEntry(entry)) return null;
+  return undo();
+}
+
+/**
+ * Descarta as entradas que tocam as tarefas `ids`, depois que elas foram apagadas de vez: desfazê-las
+ * recriaria as tarefas. O resto do histórico continua valendo, porque cada entrada só mexe nas suas.
+ */
+export function forgetTodoHistory(ids: string[]) {
+  const purged = new Set(ids);
+  const keep = (entry: HistoryEntry) => !entry.todoIds?.some(id => purged.has(id));
+  undoStack = undoStack.filter(keep);
+  redoStack = redoStack.filter(keep);
+  emit();
+}
+
+export function clearHistory() {
+  undoStack = [];
+  redoStack = [];
+  emit();
+}
+
+export function getHistoryState(): HistoryState {
+  return state;
+}
+
+export function subscribeHistory(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,131 @@
+// Traduções da interface. O catálogo pt-BR define as chaves; o en-US precisa ter as mesmas, o que
+// o tipo `Catalog` garante em tempo de compilação. O idioma atual fica em estado de módulo, como o
+// agendador de lembretes, para que funções de lib/ (resumo de repetição, títulos de dias) também
+// possam traduzir; as telas assinam as mudanças pelo hook useI18n.
+
+import { enUS } from "./locales/en-US";
+import { ptBR } from "./locales/pt-BR";
+
+export type Locale = "pt-BR" | "en-US";
+
+export const SUPPORTED_LOCALES: Locale[] = ["pt-BR", "en-US"];
+
+export const DEFAULT_LOCALE: Locale = "pt-BR";
+
+export type MessageParams = Record<string, string | number>;
+
+// Formas de plural escolhidas por `params.count`; `zero` é opcional e tem precedência para 0.
+export type PluralForms = { zero?: string; one: string; other: string };
+
+// Mensagens com gramática que não cabe em um modelo (gênero, listas) são funções.
+export type Message = string | PluralForms | ((params: MessageParams) => string);
+
+export type MessageKey = keyof typeof ptBR;
+
+export type Catalog = Record<MessageKey, Message>;
+
+const catalogs: Record<Locale, Catalog> = {
+  "pt-BR": ptBR,
+  "en-US": enUS,
+};
+
+// Ordem dos campos ao digitar ou mostrar uma data: DD/MM/AAAA ou MM/DD/YYYY.
+export type DateOrder = "dmy" | "mdy";
+
+export const LocaleDateOrder: Record<Locale, DateOrder> = {
+  "pt-BR": "dmy",
+  "en-US": "mdy",
+};
+
+// Primeiro dia da semana nas telas, na numeração de Date.getDay(): 0 = domingo, 1 = segunda.
+export type WeekStart = 0 | 1;
+
+// Formatos escolhidos nas configurações; `dateOrder` nulo segue o idioma.
+export type FormatPreferences = { dateOrder: DateOrder | null; weekStart: WeekStart };
+
+export const DEFAULT_FORMAT_PREFERENCES: FormatPreferences = { dateOrder: null, weekStart: 0 };
+
+// Regras de plural do CLDR para os números inteiros que a interface mostra.
+const pluralRules: Record<Locale, (count: number) => "one" | "other"> = {
+  "pt-BR": count => (count === 0 || count === 1 ? "one" : "other"),
+  "en-US": count => (count === 1 ? "one" : "other"),
+};
+
+let currentLocale: Locale = getDeviceLocale();
+let formatPreferences = DEFAULT_FORMAT_PREFERENCES;
+const listeners = new Set<() => void>();
+
+/** Escolhe o idioma suportado mais próximo de uma tag como "en-GB" ou "pt_PT". */
+export function resolveLocale(tag: string | undefined | null): Locale {
+  const language = (tag ?? "").toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LOCALES.find(locale => locale.toLowerCase().startsWith(`${language}-`)) ?? DEFAULT_LOCALE;
+}
+
+/** Idioma suportado mais próximo do configurado no aparelho. */
+export function getDeviceLocale(): Locale {
+  try {
+    return resolveLocale(Intl.DateTimeFormat().resolvedOptions().locale);
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+}
+
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+export function setLocale(locale: Locale) {
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  listeners.forEach(listener => listener());
+}
+
+export function getFormatPreferences(): FormatPreferences {
+  return formatPreferences;
+}
+
+export function setFormatPreferences(preferences: FormatPreferences) {
+  if (preferences.dateOrder === formatPreferences.dateOrder && preferences.weekStart === formatPreferences.weekStart) {
+    return;
+  }
+  formatPreferences = preferences;
+  listeners.forEach(listener => listener());
+}
+
+export function getDateOrder(): DateOrder {
+  return formatPreferences.dateOrder ?? LocaleDateOrder[currentLocale];
+}
+
+/** Avisa quando o idioma ou os formatos mudam. */
+export function subscribeI18n(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function interpolate(template: string, params: MessageParams): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+export function plural(forms: PluralForms, count: number, locale: Locale = currentLocale): string {
+  if (count === 0 && forms.zero !== undefined) return forms.zero;
+  return forms[pluralRules[locale](Math.abs(count))];
+}
+
+/** Texto da mensagem no idioma atual, com `{nome}` substituído pelos parâmetros. */
+export function t(key: MessageKey, params: MessageParams = {}, locale: Locale = currentLocale): string {
+  const message = catalogs[locale][key] ?? catalogs[DEFAULT_LOCALE][key];
+
+  if (typeof message === "function") return message(params);
+  if (typeof message === "string") return interpolate(message, params);
+  return interpolate(plural(message, Number(params.count ?? 0), locale), params);
+}
+
+/** Junta itens como "a, b e c" / "a, b and c". */
+export function formatList(items: string[], locale: Locale = currentLocale): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} ${t("common.and", {}, locale)} ${items[items.length - 1]}`;
+}
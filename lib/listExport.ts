@@ -0,0 +1,93 @@
+// Exportação de uma lista em CSV (para planilhas) e em checklist Markdown (para colar em e-mails e notas).
+// Funções puras: recebem as tarefas já carregadas e devolvem o texto.
+
+import { PriorityLabels } from "@/constants/Priority";
+import { formatDueDate } from "./dates";
+import { t } from "./i18n";
+import { Priority, Subtask, Tag, TodoItem } from "./types";
+
+export type ListExportFormat = "csv" | "markdown";
+
+export type ListExportData = {
+  listName: string;
+  todos: TodoItem[];
+  tags?: Record<string, Tag[]>;
+  subtasks?: Record<string, Subtask[]>;
+};
+
+function csvHeader(): string[] {
+  return [
+    t("export.csv.task"),
+    t("export.csv.done"),
+    t("export.csv.due"),
+    t("export.csv.priority"),
+    t("export.csv.tags"),
+    t("export.csv.notes"),
+    t("export.csv.created"),
+  ];
+}
+
+/**
+ * Campo CSV conforme a RFC 4180: entre aspas quando contém separador, aspas, quebra de linha
+ * ou espaço nas pontas, com as aspas internas duplicadas.
+ */
+export function escapeCsvField(value: string): string {
+  if (/[",\r\n]/.test(value) || value !== value.trim()) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+export function formatListAsCsv({ todos, tags = {} }: ListExportData): string {
+  const rows = todos.map(todo => [
+    todo.text,
+    todo.done ? t("common.yes") : t("common.no"),
+    todo.dueDate ? formatDueDate(todo.dueDate, todo.allDay) : "",
+    t(PriorityLabels[(todo.priority ?? Priority.None) as Priority] ?? PriorityLabels[Priority.None]),
+    (tags[todo.id] ?? []).map(tag => tag.name).join(", "),
+    todo.notes ?? "",
+    todo.createdAt.toISOString(),
+  ]);
+
+  // CRLF também entre registros, como pede a RFC; quebras dentro de notas ficam dentro das aspas.
+  return [csvHeader(), ...rows].map(row => row.map(escapeCsvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// Texto de uma linha de checklist: sem quebras de linha e sem colchetes (links), ênfases ou código.
+function inlineMarkdown(value: string): string {
+  return value.replace(/\s*[\r\n]+\s*/g, " ").replace(/([\\[\]*_`])/g, "\\$1").trim();
+}
+
+// Linha de nota sob a tarefa: além do texto, o início não pode virar título, citação ou item de lista.
+function noteMarkdown(value: string): string {
+  return inlineMarkdown(value).replace(/^([#>+-])/, "\\$1").replace(/^(\d+)([.)])/, "$1\\$2");
+}
+
+export function formatListAsMarkdown({ listName, todos, subtasks = {} }: ListExportData): string {
+  const lines = [`# ${inlineMarkdown(listName)}`, ""];
+
+  for (const todo of todos) {
+    let line = `- [${todo.done ? "x" : " "}] ${inlineMarkdown(todo.text)}`;
+    if (todo.dueDate) {
+      line += ` (${t("export.due", { date: formatDueDate(todo.dueDate, todo.allDay) })})`;
+    }
+    lines.push(line);
+
+    for (const noteLine of (todo.notes ?? "").split(/\r?\n/).filter(l => l.trim())) {
+      lines.push(`  ${noteMarkdown(noteLine)}`);
+    }
+    for (const subtask of subtasks[todo.id] ?? []) {
+      lines.push(`  - [${subtask.done ? "x" : " "}] ${inlineMarkdown(subtask.text)}`);
+    }
+  }
+
+  if (todos.length === 0) {
+    lines.push(t("export.empty"));
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+export function formatListExport(format: ListExportFormat, data: ListExportData): string {
+  return format === "csv" ? formatListAsCsv(data) : formatListAsMarkdown(data);
+}
@@ -0,0 +1,186 @@
+// Acesso às listas (tabela todo_lists). As leituras passam por toTodoList (lib/rows.ts).
+
+import { SQLiteDatabase } from "expo-sqlite";
+import * as crypto from "expo-crypto";
+import { DEFAULT_LIST_COLOR, DEFAULT_LIST_ICON, DEFAULT_LIST_ID } from "./db";
+import { recordHistory } from "./history";
+import { MessageKey } from "./i18n";
+import { toTodoList, TodoListRow, TodoRow } from "./rows";
+import { notifyChange } from "./store";
+import {
+  captureTodoState,
+  NEXT_POSITION_SQL,
+  restoreTodoState,
+  TodoBatch,
+  TodoState,
+  undoTodoBatch,
+} from "./todoRepository";
+import { ListDeleteStrategy, TodoList } from "./types";
+
+export async function getAllLists(db: SQLiteDatabase): Promise<TodoList[]> {
+  const result = await db.getAllAsync<TodoListRow>("SELECT * FROM todo_lists ORDER BY position, name;");
+  return result.map(toTodoList);
+}
+
+export async function getListById(db: SQLiteDatabase, id: string): Promise<TodoList | null> {
+  const row = await db.getFirstAsync<TodoListRow>("SELECT * FROM todo_lists WHERE id = ?;", [id]);
+  return row ? toTodoList(row) : null;
+}
+
+export async function createList(
+  db: SQLiteDatabase,
+  name: string,
+  color: string = DEFAULT_LIST_COLOR,
+  icon: string = DEFAULT_LIST_ICON
+): Promise<TodoList> {
+  const id = crypto.randomUUID();
+  const result = await db.getFirstAsync<TodoListRow>(
+    `INSERT INTO todo_lists (id, name, color, icon, position)
+     VALUES (?, ?, ?, ?, (SELECT COALESCE(MAX(position) + 1, 0) FROM todo_lists))
+     RETURNING *;`,
+    [id, name, color, icon]
+  );
+  recordListChange(db, "history.createList", [id], []);
+  notifyChange("lists");
+  return toTodoList(result!);
+}
+
+export async function updateList(
+  db: SQLiteDatabase,
+  id: string,
+  updates: { name?: string; color?: string; icon?: string }
+): Promise<TodoList | null> {
+  const previous = await db.getFirstAsync<TodoListRow>("SELECT * FROM todo_lists WHERE id = ?;", [id]);
+  if (!previous) return null;
+  const list = toTodoList(previous);
+
+  const result = await db.getFirstAsync<TodoListRow>(
+    `UPDATE todo_lists
+     SET name = ?, color = ?, icon = ?
+     WHERE id = ?
+     RETURNING *;`,
+    [updates.name ?? list.name, updates.color ?? list.color, updates.icon ?? list.icon, id]
+  );
+  recordListChange(db, "history.editList", [id], [previous]);
+  notifyChange("lists");
+  return result ? toTodoList(result) : null;
+}
+
+// Grava a nova ordem das listas; `orderedIds` deve conter os ids na ordem desejada.
+export async function reorderLists(db: SQLiteDatabase, orderedIds: string[]): Promise<void> {
+  let previous: TodoListRow[] = [];
+  await db.withTransactionAsync(async () => {
+    previous = await getListRows(db, orderedIds);
+    for (const [index, id] of orderedIds.entries()) {
+      await db.runAsync("UPDATE todo_lists SET position = ? WHERE id = ?;", [index, id]);
+    }
+  });
+  recordListChange(db, "history.reorderLists", orderedIds, previous);
+  notifyChange("lists");
+}
+
+export async function deleteList(
+  db: SQLiteDatabase,
+  id: string,
+  strategy: ListDeleteStrategy
+): Promise<void> {
+  if (id === DEFAULT_LIST_ID) {
+    throw new Error("The default list cannot be deleted");
+  }
+  if (strategy.type === "move" && strategy.targetListId === id) {
+    throw new Error("Cannot move todos into the list being deleted");
+  }
+
+  let previous: TodoListRow[] = [];
+  const todos: TodoBatch = { previous: [], createdIds: [] };
+  await db.withTransactionAsync(async () => {
+    previous = await getListRows(db, [id]);
+    todos.previous = await db.getAllAsync<TodoRow>("SELECT * FROM todos WHERE listId = ?;", [id]);
+
+    if (strategy.type === "move") {
+      const target = await db.getFirstAsync<{ id: string }>(
+        "SELECT id FROM todo_lists WHERE id = ?;",
+        [strategy.targetListId]
+      );
+      if (!target) {
+        throw new Error(`Target list ${strategy.targetListId} does not exist`);
+      }
+      await db.runAsync(
+        `UPDATE todos SET listId = ?, position = position + (${NEXT_POSITION_SQL}) WHERE listId = ?;`,
+        [strategy.targetListId, strategy.targetListId, id]
+      );
+    } else {
+      // As tarefas vão para a lixeira; ao serem restauradas voltam para a lista padrão.
+      await db.runAsync(
+        "UPDATE todos SET deletedAt = ?, listId = ? WHERE listId = ? AND deletedAt IS NULL;",
+        [new Date().toISOString(), DEFAULT_LIST_ID, id]
+      );
+    }
+
+    await db.runAsync("UPDATE todos SET listId = ? WHERE listId = ?;", [DEFAULT_LIST_ID, id]);
+    await db.runAsync("DELETE FROM todo_lists WHERE id = ?;", [id]);
+  });
+  recordListChange(db, "history.deleteList", [id], previous, todos);
+  notifyChange("lists", "todos");
+}
+
+async function getListRows(db: SQLiteDatabase, ids: string[]): Promise<TodoListRow[]> {
+  if (ids.length === 0) return [];
+  return db.getAllAsync<TodoListRow>(
+    `SELECT * FROM todo_lists WHERE id IN (${ids.map(() => "?").join(", ")});`,
+    ids
+  );
+}
+
+// Deixa as listas de `ids` como em `rows`: recria ou atualiza as que estão lá e apaga as demais.
+async function restoreLists(db: SQLiteDatabase, rows: TodoListRow[], ids: string[]): Promise<void> {
+  const kept = new Set(rows.map(row => row.id));
+  await db.withTransactionAsync(async () => {
+    for (const row of rows) {
+      await db.runAsync(
+        `INSERT INTO todo_lists (id, name, color, icon, position) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           name = excluded.name, color = excluded.color, icon = excluded.icon, position = excluded.position;`,
+        [row.id, row.name, row.color, row.icon, row.position]
+      );
+    }
+    for (const id of ids.filter(id => !kept.has(id))) {
+      // Como em deleteList, nenhuma tarefa fica apontando para uma lista que não existe.
+      await db.runAsync("UPDATE todos SET listId = ? WHERE listId = ?;", [DEFAULT_LIST_ID, id]);
+      await db.runAsync("DELETE FROM todo_lists WHERE id = ?;", [id]);
+    }
+  });
+  notifyChange("lists", "todos");
+}
+
+/**
+ * Registra no histórico uma alteração nas listas `ids`; `previous` traz as que existiam antes dela
+ * e `todos`, as tarefas que ela alterou junto (ao excluir uma lista).
+ */
+function recordListChange(
+  db: SQLiteDatabase,
+  label: MessageKey,
+  ids: string[],
+  previous: TodoListRow[],
+  todos: TodoBatch = { previous: [], createdIds: [] }
+) {
+  let redoState: { lists: TodoListRow[]; todos: TodoState } | null = null;
+  recordHistory({
+    label,
+    todoIds: [...todos.previous.map(row => row.id), ...todos.createdIds],
+    undo: async () => {
+      redoState = {
+        lists: await getListRows(db, ids),
+        todos: await captureTodoState(db, todos.previous.map(row => row.id)),
+      };
+      await restoreLists(db, previous, ids);
+      await undoTodoBatch(db, todos);
+    },
+    redo: async () => {
+      if (!redoState) return;
+      await restoreLists(db, redoState.lists, ids);
+      await restoreTodoState(db, redoState.todos);
+    },
+  });
+}
+
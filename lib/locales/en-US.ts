@@ -0,0 +1,427 @@
+import type { Catalog, MessageParams } from "../i18n";
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const ORDINALS: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", [-1]: "last" };
+const ORDINAL_SUFFIXES: Record<number, string> = { 1: "1st", 2: "2nd", 3: "3rd", 4: "4th" };
+
+export const enUS: Catalog = {
+  "common.and": "and",
+  "common.yes": "yes",
+  "common.no": "no",
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+  "common.create": "Create",
+  "common.delete": "Delete",
+  "common.edit": "Edit",
+  "common.back": "Back",
+  "common.close": "Close",
+  "common.error": "Error",
+  "common.attention": "Heads up",
+  "common.success": "Success",
+  "common.loading": "Loading...",
+  "common.undo": "Undo",
+  "common.redo": "Redo",
+
+  "weekday.short": ({ weekday }: MessageParams) => WEEKDAYS[Number(weekday)].slice(0, 3),
+  "weekday.narrow": ({ weekday }: MessageParams) => WEEKDAYS[Number(weekday)].charAt(0),
+
+  "day.today": "Today",
+  "day.tomorrow": "Tomorrow",
+
+  "relative.today": "today",
+  "relative.tomorrow": "tomorrow",
+  "relative.yesterday": "yesterday",
+  "relative.inDays": { one: "in {count} day", other: "in {count} days" },
+  "relative.daysAgo": { one: "{count} day ago", other: "{count} days ago" },
+  "relative.inWeeks": { one: "in {count} week", other: "in {count} weeks" },
+  "relative.weeksAgo": { one: "{count} week ago", other: "{count} weeks ago" },
+  "relative.inMonths": { one: "in {count} month", other: "in {count} months" },
+  "relative.monthsAgo": { one: "{count} month ago", other: "{count} months ago" },
+
+  "date.inputDMY": "DD/MM/YYYY",
+  "date.inputMDY": "MM/DD/YYYY",
+
+  "priority.none": "None",
+  "priority.low": "Low",
+  "priority.medium": "Medium",
+  "priority.high": "High",
+  "priority.urgent": "Urgent",
+
+  "smartView.today": "Today",
+  "smartView.upcoming": "Next 7 days",
+  "smartView.overdue": "Overdue",
+  "smartView.noDate": "No date",
+
+  "theme.title": "Theme",
+  "theme.system": "System",
+  "theme.light": "Light",
+  "theme.dark": "Dark",
+
+  "reminder.atDue": "At due time",
+  "reminder.before": "{offset} before",
+  "reminder.custom": "Custom",
+  "reminder.offsetDays": { one: "{count} day", other: "{count} days" },
+  "reminder.offsetHours": { one: "{count} hour", other: "{count} hours" },
+  "reminder.offsetMinutes": "{count} min",
+
+  "notification.channel": "Reminders",
+  "notification.reminder": "Task reminder",
+  "notification.dueToday": "Due today",
+  "notification.dueTodayAt": "Due today at {time}",
+  "notification.dueOn": "Due {date}",
+
+  "recurrence.none": "Does not repeat",
+  "recurrence.freqDaily": "Daily",
+  "recurrence.freqWeekly": "Weekly",
+  "recurrence.freqMonthly": "Monthly",
+  "recurrence.freqAfterCompletion": "After completion",
+  "recurrence.every": "Every",
+  "recurrence.unitDays": { one: "day", other: "days" },
+  "recurrence.unitWeeks": { one: "week", other: "weeks" },
+  "recurrence.unitMonths": { one: "month", other: "months" },
+  "recurrence.unitOccurrences": { one: "occurrence", other: "occurrences" },
+  "recurrence.dayOfMonth": "Day of month",
+  "recurrence.dayOfWeek": "Day of week",
+  "recurrence.onDayOfMonth": "On day",
+  "recurrence.ordinal": ({ ordinal }: MessageParams) => ORDINAL_SUFFIXES[Number(ordinal)] ?? "Last",
+  "recurrence.ends": "Ends",
+  "recurrence.endsNever": "Never",
+  "recurrence.endsOnDate": "On a date",
+  "recurrence.endsAfterCount": "After N times",
+  "recurrence.daily": { one: "Every day", other: "Every {count} days" },
+  "recurrence.weekly": { one: "Every week", other: "Every {count} weeks" },
+  "recurrence.monthly": { one: "Every month", other: "Every {count} months" },
+  "recurrence.afterCompletion": { one: "{count} day after completion", other: "{count} days after completion" },
+  "recurrence.weekdayPlural": ({ weekday }: MessageParams) => `${WEEKDAYS[Number(weekday)]}s`,
+  "recurrence.onWeekdays": "{base}: {days}",
+  "recurrence.onDay": "{base} on day {day}",
+  "recurrence.onOrdinalWeekday": ({ base, ordinal, weekday }: MessageParams) =>
+    `${base} on the ${ORDINALS[Number(ordinal)]} ${WEEKDAYS[Number(weekday)]}`,
+  "recurrence.until": "{base}, until {date}",
+  "recurrence.remaining": { one: "{base}, last occurrence", other: "{base}, {count} occurrences left" },
+
+  "export.csv.task": "Task",
+  "export.csv.done": "Done",
+  "export.csv.due": "Due",
+  "export.csv.priority": "Priority",
+  "export.csv.tags": "Tags",
+  "export.csv.notes": "Notes",
+  "export.csv.created": "Created",
+  "export.due": "due {date}",
+  "export.empty": "_No tasks_",
+
+  "import.unrecognizedDate": 'Unrecognized date in "{task}": {value}',
+
+  "lists.defaultName": "All Tasks",
+  "lists.general": "General",
+  "lists.title": "My Lists",
+  "lists.savedFilters": "Saved filters",
+  "lists.empty": "No lists yet",
+  "lists.emptyHint": "Tap the + button to create a list",
+  "lists.newTitle": "New List",
+  "lists.editTitle": "Edit List",
+  "lists.namePlaceholder": "List name",
+  "lists.nameRequired": "Please enter a name for the list",
+  "lists.color": "Color",
+  "lists.icon": "Icon",
+  "lists.created": "List created!",
+  "lists.createFailed": "Could not create the list",
+  "lists.updateFailed": "Could not update the list",
+  "lists.delete": "Delete list",
+  "lists.deleteTitle": 'Delete "{name}"',
+  "lists.deleteQuestion": "What should happen to the tasks in this list?",
+  "lists.deleteMoveTo": "Move tasks to {name}",
+  "lists.deleteMoveOther": "Move tasks to another list",
+  "lists.deleteTodos": "Delete the tasks too",
+  "lists.chooseTarget": "Choose the target list",
+  "lists.deleteFailed": "Could not delete the list",
+  "lists.exportTitle": "Export",
+  "lists.exportQuestion": 'How do you want to export "{name}"?',
+  "lists.exportDialogTitle": "Export {name}",
+  "lists.exportFileName": "list",
+  "lists.exported": "List exported",
+  "lists.exportedTo": "File saved to {uri}",
+  "lists.exportFailed": "Could not export the list",
+
+  "todo.markDone": "Mark as done",
+  "todo.markPending": "Mark as pending",
+  "todo.listInfo": "📋 List: {name}",
+  "todo.due": "📅 Due: {date}",
+  "todo.overdue": "Overdue",
+
+  "search.placeholder": "🔍 Search tasks...",
+  "search.scopeList": "In this list",
+  "search.scopeAll": "Everywhere",
+  "search.noResults": 'No results for "{query}"',
+
+  "filter.all": "All",
+  "filter.pending": "Pending",
+  "filter.done": "Done",
+  "filter.tagsAll": "All (AND)",
+  "filter.tagsAny": "Any (OR)",
+
+  "sort.label": "Sort:",
+  "sort.priority": "Priority",
+  "sort.dueDate": "Due date",
+  "sort.created": "Created",
+  "sort.alphabetical": "A-Z",
+  "sort.manual": "Manual",
+
+  "addTodo.placeholder": "e.g. pay the bill #home @bills",
+  "addTodo.emptyText": "Please enter a description for the task",
+  "addTodo.invalidDate": "Invalid date. Use {format}",
+  "addTodo.invalidTime": "Invalid time. Use HH:MM",
+  "addTodo.showOptions": "▼ More options",
+  "addTodo.hideOptions": "▲ Hide options",
+  "addTodo.list": "List:",
+  "addTodo.priority": "Priority:",
+  "addTodo.tags": "Tags:",
+  "addTodo.dueDate": "Due date:",
+  "addTodo.timePlaceholder": "HH:MM (optional, no time = all day)",
+  "addTodo.notes": "Notes:",
+  "addTodo.notesPlaceholder": "Add details...",
+  "addTodo.submit": "Add Task",
+
+  "todos.allTitle": "All Tasks",
+  "todos.listFallback": "List",
+  "todos.addFailed": "Could not add the task",
+  "todos.deleteFailed": "Could not delete the task",
+  "todos.empty": "No tasks found",
+  "todos.emptyList": "No tasks in this list",
+  "todos.emptyView": "No tasks in this view",
+  "todos.dragHint": "Touch and hold a task to drag it",
+  "todos.movedToTrash": '"{text}" moved to trash',
+
+  "selection.count": { one: "{count} selected", other: "{count} selected" },
+  "selection.all": "All",
+  "selection.none": "None",
+  "selection.complete": "Complete",
+  "selection.uncomplete": "Reopen",
+  "selection.move": "Move",
+  "selection.dueDate": "Due date",
+  "selection.priority": "Priority",
+  "selection.duplicate": "Duplicate",
+  "selection.nextWeek": "Next week",
+  "selection.noDate": "No date",
+  "selection.updated": { one: "{count} task updated", other: "{count} tasks updated" },
+  "selection.duplicated": { one: "{count} task duplicated", other: "{count} tasks duplicated" },
+  "selection.deleted": { one: "{count} task moved to trash", other: "{count} tasks moved to trash" },
+  "selection.failed": "Couldn't update the selected tasks",
+
+  "history.undoAction": "Undo: {action}",
+  "history.redoAction": "Redo: {action}",
+  "history.failed": "Couldn't undo the change",
+  "history.createTodo": "Create task",
+  "history.editTodo": "Edit task",
+  "history.completeTodo": "Complete task",
+  "history.reopenTodo": "Reopen task",
+  "history.deleteTodo": "Delete task",
+  "history.restoreTodo": "Restore task",
+  "history.reorderTodos": "Reorder tasks",
+  "history.completeTodos": "Complete tasks",
+  "history.reopenTodos": "Reopen tasks",
+  "history.moveTodos": "Move tasks",
+  "history.editTodos": "Edit tasks",
+  "history.deleteTodos": "Delete tasks",
+  "history.duplicateTodos": "Duplicate tasks",
+  "history.editSubtasks": "Edit subtasks",
+  "history.editTags": "Edit tags",
+  "history.editReminders": "Edit reminders",
+  "history.createList": "Create list",
+  "history.editList": "Edit list",
+  "history.reorderLists": "Reorder lists",
+  "history.deleteList": "Delete list",
+
+  "task.title": "Task Details",
+  "task.name": "Title",
+  "task.list": "List",
+  "task.noList": "No list",
+  "task.tags": "Tags",
+  "task.noTags": "No tags",
+  "task.priority": "Priority",
+  "task.dueDate": "Due Date",
+  "task.setDate": "Set date",
+  "task.allDay": "All day",
+  "task.removeDate": "Remove date",
+  "task.noDate": "No due date",
+  "task.reminders": "Reminders",
+  "task.remindersNeedDate": "Set a due date to add reminders relative to it.",
+  "task.reminderAddFailed": "Could not add the reminder",
+  "task.reminderInPast": "Pick a time in the future for the reminder",
+  "task.recurrence": "Repeat",
+  "task.notes": "Notes",
+  "task.notesPlaceholder": "Add notes...",
+  "task.noNotes": "No notes",
+  "task.status": "Status",
+  "task.done": "Done",
+  "task.pending": "Pending",
+  "task.markDone": "Mark as done",
+  "task.statusFailed": "Could not update the status",
+  "task.subtasks": "Subtasks",
+  "task.subtaskPlaceholder": "Add subtask...",
+  "task.subtaskAddFailed": "Could not add the subtask",
+  "task.createdAt": "Created",
+  "task.saveChanges": "Save Changes",
+  "task.updated": "Task updated!",
+  "task.updateFailed": "Could not update the task",
+  "task.delete": "Delete Task",
+  "task.deleteTitle": "Delete task",
+  "task.deleteMessage": "The task will be moved to the trash, where it can be restored.",
+
+  "tags.placeholder": "Add tag...",
+
+  "trash.title": "Trash",
+  "trash.empty": "Empty",
+  "trash.emptyTitle": "Empty trash",
+  "trash.emptyMessage": "All tasks in the trash will be removed forever. Continue?",
+  "trash.emptyFailed": "Could not empty the trash",
+  "trash.purgeTitle": "Delete forever",
+  "trash.purgeMessage": '"{text}" will be removed forever. Continue?',
+  "trash.purgeFailed": "Could not delete the task",
+  "trash.restoreFailed": "Could not restore the task",
+  "trash.deletedAt": "🗑️ Deleted {date}",
+  "trash.loadFailed": "Could not load the trash",
+  "trash.isEmpty": "The trash is empty",
+
+  "count.todos": { one: "{count} task", other: "{count} tasks" },
+  "count.lists": { one: "{count} list", other: "{count} lists" },
+  "count.subtasks": { one: "{count} subtask", other: "{count} subtasks" },
+  "count.newLists": { one: "{count} new list", other: "{count} new lists" },
+  "count.newTags": { one: "{count} new tag", other: "{count} new tags" },
+
+  "backup.title": "Backup",
+  "backup.description": "A backup is a JSON file with lists, tasks, subtasks, tags, reminders, saved filters and settings.",
+  "backup.fileName": "tasks-backup",
+  "backup.export": "Export backup",
+  "backup.created": "Backup created",
+  "backup.savedTo": "File saved to {uri}",
+  "backup.exportFailed": "Could not export the backup",
+  "backup.import": "Import",
+  "backup.importMerge": "Import and merge",
+  "backup.importReplace": "Import and replace everything",
+  "backup.imported": "Backup imported",
+  "backup.importedSummary": "Imported: {todos}, {lists} and {tags}.",
+  "backup.importFailed": "Could not import the backup. No data was changed.",
+  "backup.invalidTitle": "Invalid file",
+  "backup.invalidMessage": "The chosen file is not a valid backup of this app.",
+  "backup.replace": "Replace",
+  "backup.replaceTitle": "Replace all data",
+  "backup.replaceMessage": "All current tasks and lists will be erased and replaced by {contents}. Continue?",
+  "backup.mergeTitle": "Merge backup",
+  "backup.mergeMessage": "{contents} will be added; items with the same id will be updated.",
+  "backup.otherAppsDescription": "Coming from another app? Import tasks from Todoist, a CSV spreadsheet or a plain-text checklist.",
+  "backup.otherApps": "Import from other apps",
+
+  "filterEditor.newTitle": "New Filter",
+  "filterEditor.editTitle": "Edit Filter",
+  "filterEditor.name": "Name",
+  "filterEditor.namePlaceholder": "e.g. Urgent at work",
+  "filterEditor.nameRequired": "Please enter a name for the filter",
+  "filterEditor.lists": "Lists",
+  "filterEditor.listsAll": "All",
+  "filterEditor.statusAll": "All",
+  "filterEditor.statusPending": "Pending",
+  "filterEditor.statusDone": "Done",
+  "filterEditor.due": "Due",
+  "filterEditor.dueAny": "Any",
+  "filterEditor.dueNext7": "Next 7 days",
+  "filterEditor.dueNext30": "Next 30 days",
+  "filterEditor.dueSet": "Has date",
+  "filterEditor.text": "Text contains",
+  "filterEditor.textPlaceholder": "Searches title and notes",
+  "filterEditor.tagsAny": "Any tag",
+  "filterEditor.tagsAll": "All tags",
+  "filterEditor.save": "Save Filter",
+  "filterEditor.delete": "Delete Filter",
+  "filterEditor.deleteTitle": "Delete filter",
+  "filterEditor.deleteMessage": '"{name}" will be removed. Tasks are not affected.',
+  "filterEditor.loadFailed": "Could not load the filter",
+  "filterEditor.saveFailed": "Could not save the filter",
+  "filterEditor.deleteFailed": "Could not delete the filter",
+
+  "taskImport.title": "Import Tasks",
+  "taskImport.source": "Source",
+  "taskImport.sourceTodoist": "Todoist (CSV)",
+  "taskImport.sourceCsv": "Other CSV",
+  "taskImport.sourceText": "Text or Markdown",
+  "taskImport.pasteLabel": "Paste the list (one task per line, [x] for done)",
+  "taskImport.pastePlaceholder": "# Groceries\n- [ ] Rice\n- [x] Beans",
+  "taskImport.pickFile": "Choose CSV file",
+  "taskImport.project": "Project (becomes the target list)",
+  "taskImport.columns": "Columns",
+  "taskImport.column": "Column {number}",
+  "taskImport.fieldText": "Task",
+  "taskImport.fieldDone": "Done",
+  "taskImport.fallbackList": "Tasks without a list go to",
+  "taskImport.preview": "Preview",
+  "taskImport.target": "{name}: {todos}",
+  "taskImport.targetNew": "{name}: {todos} — new list",
+  "taskImport.more": "and {todos} more",
+  "taskImport.submit": "Import {todos}",
+  "taskImport.done": "Import finished",
+  "taskImport.doneSummary": "Imported: {todos} and {subtasks}; {lists}.",
+  "taskImport.parseFailed": "The file is not in the expected format.",
+  "taskImport.readFailed": "Could not read the file",
+  "taskImport.importFailed": "Could not import the tasks. No data was changed.",
+
+  "tabs.todos": "Tasks",
+  "tabs.lists": "Lists",
+  "tabs.sync": "Sync",
+
+  "sync.title": "Sync",
+  "sync.server": "Server",
+  "sync.serverPlaceholder": "https://example.com/api",
+  "sync.tokenPlaceholder": "Access token (optional)",
+  "sync.saveServer": "Save server",
+  "sync.serverSaved": "Server saved",
+  "sync.serverSavedHint": "Sync to upload your tasks.",
+  "sync.disabled": "Sync disabled.",
+  "sync.saveFailed": "Could not save the server",
+  "sync.serverRequired": "Enter and save the server address first",
+  "sync.status": "Status",
+  "sync.pending": {
+    zero: "No pending changes",
+    one: "{count} change waiting to upload",
+    other: "{count} changes waiting to upload",
+  },
+  "sync.lastSynced": "Last sync: {date}",
+  "sync.never": "never",
+  "sync.now": "Sync now",
+  "sync.failed": "Could not sync. Your changes are still saved on this device.",
+  "sync.withConflicts": "Synced with conflicts",
+  "sync.conflictsResolved": {
+    one: "{count} conflict resolved by the most recent change.",
+    other: "{count} conflicts resolved by the most recent change.",
+  },
+  "sync.conflicts": "Conflicts",
+  "sync.clear": "Clear",
+  "sync.conflict": '{kind} "{name}": {kept}',
+  "sync.conflictTodo": "Task",
+  "sync.conflictList": "List",
+  "sync.keptRemote": "server version kept",
+  "sync.deletedRemote": "deleted on the server",
+  "sync.keptLocal": "this device's version kept",
+
+  "settings.title": "Settings",
+  "settings.language": "Language",
+  "settings.languageSystem": "System",
+  "settings.languagePtBR": "Português",
+  "settings.languageEnUS": "English",
+  "settings.defaultList": "Default list for new tasks",
+  "settings.defaultFilter": "Filter when opening tasks",
+  "settings.sortMode": "Default sort order",
+  "settings.sortModeHint": "Applies to lists and views where you haven't picked a sort order yet.",
+  "settings.dateFormat": "Date format",
+  "settings.dateFormatAuto": "From language",
+  "settings.weekStart": "Week starts on",
+  "settings.weekStartSunday": "Sunday",
+  "settings.weekStartMonday": "Monday",
+
+  "subtasks.completeTitle": "Complete subtasks?",
+  "subtasks.pending": {
+    one: "This task has {count} pending subtask.",
+    other: "This task has {count} pending subtasks.",
+  },
+  "subtasks.onlyTask": "Just the task",
+  "subtasks.completeAll": "Complete all",
+};
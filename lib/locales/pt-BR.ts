@@ -0,0 +1,436 @@
+// Catálogo de referência: as chaves daqui definem MessageKey e todo outro idioma precisa tê-las.
+
+import type { Message, MessageParams } from "../i18n";
+
+const WEEKDAYS = ["domingo", "segunda-feira", "terça-feira", "quarta-feira", "quinta-feira", "sexta-feira", "sábado"];
+const WEEKDAYS_SHORT = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
+const WEEKDAYS_PLURAL = ["domingos", "segundas", "terças", "quartas", "quintas", "sextas", "sábados"];
+const ORDINAL_STEMS: Record<number, string> = { 1: "primeir", 2: "segund", 3: "terceir", 4: "quart", [-1]: "últim" };
+
+// "no primeiro domingo", "na última sexta-feira": artigo e ordinal concordam com o dia.
+function ordinalWeekday({ base, ordinal, weekday }: MessageParams): string {
+  const day = Number(weekday);
+  const feminine = day !== 0 && day !== 6;
+  return `${base} ${feminine ? "na" : "no"} ${ORDINAL_STEMS[Number(ordinal)]}${feminine ? "a" : "o"} ${WEEKDAYS[day]}`;
+}
+
+export const ptBR = {
+  "common.and": "e",
+  "common.yes": "sim",
+  "common.no": "não",
+  "common.cancel": "Cancelar",
+  "common.save": "Salvar",
+  "common.create": "Criar",
+  "common.delete": "Excluir",
+  "common.edit": "Editar",
+  "common.back": "Voltar",
+  "common.close": "Fechar",
+  "common.error": "Erro",
+  "common.attention": "Atenção",
+  "common.success": "Sucesso",
+  "common.loading": "Carregando...",
+  "common.undo": "Desfazer",
+  "common.redo": "Refazer",
+
+  "weekday.short": ({ weekday }: MessageParams) => WEEKDAYS_SHORT[Number(weekday)],
+  "weekday.narrow": ({ weekday }: MessageParams) => WEEKDAYS_SHORT[Number(weekday)].charAt(0),
+
+  "day.today": "Hoje",
+  "day.tomorrow": "Amanhã",
+
+  "relative.today": "hoje",
+  "relative.tomorrow": "amanhã",
+  "relative.yesterday": "ontem",
+  "relative.inDays": { one: "em {count} dia", other: "em {count} dias" },
+  "relative.daysAgo": { one: "há {count} dia", other: "há {count} dias" },
+  "relative.inWeeks": { one: "em {count} semana", other: "em {count} semanas" },
+  "relative.weeksAgo": { one: "há {count} semana", other: "há {count} semanas" },
+  "relative.inMonths": { one: "em {count} mês", other: "em {count} meses" },
+  "relative.monthsAgo": { one: "há {count} mês", other: "há {count} meses" },
+
+  "date.inputDMY": "DD/MM/AAAA",
+  "date.inputMDY": "MM/DD/AAAA",
+
+  "priority.none": "Nenhuma",
+  "priority.low": "Baixa",
+  "priority.medium": "Média",
+  "priority.high": "Alta",
+  "priority.urgent": "Urgente",
+
+  "smartView.today": "Hoje",
+  "smartView.upcoming": "Próximos 7 dias",
+  "smartView.overdue": "Atrasadas",
+  "smartView.noDate": "Sem data",
+
+  "theme.title": "Tema",
+  "theme.system": "Sistema",
+  "theme.light": "Claro",
+  "theme.dark": "Escuro",
+
+  "reminder.atDue": "No vencimento",
+  "reminder.before": "{offset} antes",
+  "reminder.custom": "Personalizado",
+  "reminder.offsetDays": { one: "{count} dia", other: "{count} dias" },
+  "reminder.offsetHours": { one: "{count} hora", other: "{count} horas" },
+  "reminder.offsetMinutes": "{count} min",
+
+  "notification.channel": "Lembretes",
+  "notification.reminder": "Lembrete de tarefa",
+  "notification.dueToday": "Vence hoje",
+  "notification.dueTodayAt": "Vence hoje às {time}",
+  "notification.dueOn": "Vence em {date}",
+
+  "recurrence.none": "Não repete",
+  "recurrence.freqDaily": "Diária",
+  "recurrence.freqWeekly": "Semanal",
+  "recurrence.freqMonthly": "Mensal",
+  "recurrence.freqAfterCompletion": "Após conclusão",
+  "recurrence.every": "A cada",
+  "recurrence.unitDays": { one: "dia", other: "dias" },
+  "recurrence.unitWeeks": { one: "semana", other: "semanas" },
+  "recurrence.unitMonths": { one: "mês", other: "meses" },
+  "recurrence.unitOccurrences": { one: "ocorrência", other: "ocorrências" },
+  "recurrence.dayOfMonth": "Dia do mês",
+  "recurrence.dayOfWeek": "Dia da semana",
+  "recurrence.onDayOfMonth": "No dia",
+  "recurrence.ordinal": ({ ordinal }: MessageParams) => (Number(ordinal) === -1 ? "Última" : `${ordinal}ª`),
+  "recurrence.ends": "Termina",
+  "recurrence.endsNever": "Nunca",
+  "recurrence.endsOnDate": "Em uma data",
+  "recurrence.endsAfterCount": "Após N vezes",
+  "recurrence.daily": { one: "Todos os dias", other: "A cada {count} dias" },
+  "recurrence.weekly": { one: "Toda semana", other: "A cada {count} semanas" },
+  "recurrence.monthly": { one: "Todo mês", other: "A cada {count} meses" },
+  "recurrence.afterCompletion": { one: "{count} dia após a conclusão", other: "{count} dias após a conclusão" },
+  "recurrence.weekdayPlural": ({ weekday }: MessageParams) => WEEKDAYS_PLURAL[Number(weekday)],
+  "recurrence.onWeekdays": "{base}: {days}",
+  "recurrence.onDay": "{base} no dia {day}",
+  "recurrence.onOrdinalWeekday": ordinalWeekday,
+  "recurrence.until": "{base}, até {date}",
+  "recurrence.remaining": { one: "{base}, última ocorrência", other: "{base}, {count} ocorrências restantes" },
+
+  "export.csv.task": "Tarefa",
+  "export.csv.done": "Concluída",
+  "export.csv.due": "Vencimento",
+  "export.csv.priority": "Prioridade",
+  "export.csv.tags": "Etiquetas",
+  "export.csv.notes": "Notas",
+  "export.csv.created": "Criada em",
+  "export.due": "vence {date}",
+  "export.empty": "_Nenhuma tarefa_",
+
+  "import.unrecognizedDate": 'Data não reconhecida em "{task}": {value}',
+
+  "lists.defaultName": "Todas as Tarefas",
+  "lists.general": "Geral",
+  "lists.title": "Minhas Listas",
+  "lists.savedFilters": "Filtros salvos",
+  "lists.empty": "Nenhuma lista criada",
+  "lists.emptyHint": "Clique no botão + para criar uma nova lista",
+  "lists.newTitle": "Nova Lista",
+  "lists.editTitle": "Editar Lista",
+  "lists.namePlaceholder": "Nome da lista",
+  "lists.nameRequired": "Por favor, digite um nome para a lista",
+  "lists.color": "Cor",
+  "lists.icon": "Ícone",
+  "lists.created": "Lista criada com sucesso!",
+  "lists.createFailed": "Não foi possível criar a lista",
+  "lists.updateFailed": "Não foi possível atualizar a lista",
+  "lists.delete": "Excluir lista",
+  "lists.deleteTitle": 'Excluir "{name}"',
+  "lists.deleteQuestion": "O que fazer com as tarefas desta lista?",
+  "lists.deleteMoveTo": "Mover tarefas para {name}",
+  "lists.deleteMoveOther": "Mover tarefas para outra lista",
+  "lists.deleteTodos": "Excluir as tarefas também",
+  "lists.chooseTarget": "Escolha a lista de destino",
+  "lists.deleteFailed": "Não foi possível excluir a lista",
+  "lists.exportTitle": "Exportar",
+  "lists.exportQuestion": 'Como deseja exportar "{name}"?',
+  "lists.exportDialogTitle": "Exportar {name}",
+  "lists.exportFileName": "lista",
+  "lists.exported": "Lista exportada",
+  "lists.exportedTo": "Arquivo salvo em {uri}",
+  "lists.exportFailed": "Não foi possível exportar a lista",
+
+  "todo.markDone": "Marcar como concluído",
+  "todo.markPending": "Marcar como pendente",
+  "todo.listInfo": "📋 Lista: {name}",
+  "todo.due": "📅 Vence: {date}",
+  "todo.overdue": "Atrasada",
+
+  "search.placeholder": "🔍 Buscar tarefas...",
+  "search.scopeList": "Nesta lista",
+  "search.scopeAll": "Em todas",
+  "search.noResults": 'Nenhum resultado para "{query}"',
+
+  "filter.all": "Todos",
+  "filter.pending": "Pendentes",
+  "filter.done": "Concluídos",
+  "filter.tagsAll": "Todas (E)",
+  "filter.tagsAny": "Qualquer (OU)",
+
+  "sort.label": "Ordenar:",
+  "sort.priority": "Prioridade",
+  "sort.dueDate": "Vencimento",
+  "sort.created": "Criação",
+  "sort.alphabetical": "A-Z",
+  "sort.manual": "Manual",
+
+  "addTodo.placeholder": "Ex.: pagar conta amanhã 18h #casa !alta @contas",
+  "addTodo.emptyText": "Por favor, digite uma descrição para a tarefa",
+  "addTodo.invalidDate": "Data inválida. Use {format}",
+  "addTodo.invalidTime": "Horário inválido. Use HH:MM",
+  "addTodo.showOptions": "▼ Mais opções",
+  "addTodo.hideOptions": "▲ Ocultar opções",
+  "addTodo.list": "Lista:",
+  "addTodo.priority": "Prioridade:",
+  "addTodo.tags": "Etiquetas:",
+  "addTodo.dueDate": "Data de vencimento:",
+  "addTodo.timePlaceholder": "HH:MM (opcional, sem horário = dia inteiro)",
+  "addTodo.notes": "Notas:",
+  "addTodo.notesPlaceholder": "Adicione detalhes...",
+  "addTodo.submit": "Adicionar Tarefa",
+
+  "todos.allTitle": "Todas as Tarefas",
+  "todos.listFallback": "Lista",
+  "todos.addFailed": "Não foi possível adicionar a tarefa",
+  "todos.deleteFailed": "Não foi possível excluir a tarefa",
+  "todos.empty": "Nenhuma tarefa encontrada",
+  "todos.emptyList": "Nenhuma tarefa nesta lista",
+  "todos.emptyView": "Nenhuma tarefa nesta visão",
+  "todos.dragHint": "Toque e segure uma tarefa para arrastá-la",
+  "todos.movedToTrash": '"{text}" movida para a lixeira',
+
+  "selection.count": { one: "{count} selecionada", other: "{count} selecionadas" },
+  "selection.all": "Todas",
+  "selection.none": "Nenhuma",
+  "selection.complete": "Concluir",
+  "selection.uncomplete": "Reabrir",
+  "selection.move": "Mover",
+  "selection.dueDate": "Vencimento",
+  "selection.priority": "Prioridade",
+  "selection.duplicate": "Duplicar",
+  "selection.nextWeek": "Próxima semana",
+  "selection.noDate": "Sem data",
+  "selection.updated": { one: "{count} tarefa alterada", other: "{count} tarefas alteradas" },
+  "selection.duplicated": { one: "{count} tarefa duplicada", other: "{count} tarefas duplicadas" },
+  "selection.deleted": { one: "{count} tarefa movida para a lixeira", other: "{count} tarefas movidas para a lixeira" },
+  "selection.failed": "Não foi possível alterar as tarefas selecionadas",
+
+  "history.undoAction": "Desfazer: {action}",
+  "history.redoAction": "Refazer: {action}",
+  "history.failed": "Não foi possível desfazer a alteração",
+  "history.createTodo": "Criar tarefa",
+  "history.editTodo": "Editar tarefa",
+  "history.completeTodo": "Concluir tarefa",
+  "history.reopenTodo": "Reabrir tarefa",
+  "history.deleteTodo": "Excluir tarefa",
+  "history.restoreTodo": "Restaurar tarefa",
+  "history.reorderTodos": "Reordenar tarefas",
+  "history.completeTodos": "Concluir tarefas",
+  "history.reopenTodos": "Reabrir tarefas",
+  "history.moveTodos": "Mover tarefas",
+  "history.editTodos": "Editar tarefas",
+  "history.deleteTodos": "Excluir tarefas",
+  "history.duplicateTodos": "Duplicar tarefas",
+  "history.editSubtasks": "Editar subtarefas",
+  "history.editTags": "Editar etiquetas",
+  "history.editReminders": "Editar lembretes",
+  "history.createList": "Criar lista",
+  "history.editList": "Editar lista",
+  "history.reorderLists": "Reordenar listas",
+  "history.deleteList": "Excluir lista",
+
+  "task.title": "Detalhes da Tarefa",
+  "task.name": "Título",
+  "task.list": "Lista",
+  "task.noList": "Sem lista",
+  "task.tags": "Etiquetas",
+  "task.noTags": "Nenhuma etiqueta",
+  "task.priority": "Prioridade",
+  "task.dueDate": "Data de Vencimento",
+  "task.setDate": "Definir data",
+  "task.allDay": "Dia inteiro",
+  "task.removeDate": "Remover data",
+  "task.noDate": "Sem data definida",
+  "task.reminders": "Lembretes",
+  "task.remindersNeedDate": "Defina uma data de vencimento para lembretes relativos a ela.",
+  "task.reminderAddFailed": "Não foi possível adicionar o lembrete",
+  "task.reminderInPast": "Escolha um horário no futuro para o lembrete",
+  "task.recurrence": "Repetição",
+  "task.notes": "Notas",
+  "task.notesPlaceholder": "Adicione notas...",
+  "task.noNotes": "Nenhuma nota adicionada",
+  "task.status": "Status",
+  "task.done": "Concluída",
+  "task.pending": "Pendente",
+  "task.markDone": "Marcar como concluída",
+  "task.statusFailed": "Não foi possível atualizar o status",
+  "task.subtasks": "Subtarefas",
+  "task.subtaskPlaceholder": "Adicionar subtarefa...",
+  "task.subtaskAddFailed": "Não foi possível adicionar a subtarefa",
+  "task.createdAt": "Criada em",
+  "task.saveChanges": "Salvar Alterações",
+  "task.updated": "Tarefa atualizada!",
+  "task.updateFailed": "Não foi possível atualizar a tarefa",
+  "task.delete": "Excluir Tarefa",
+  "task.deleteTitle": "Excluir tarefa",
+  "task.deleteMessage": "A tarefa será movida para a lixeira, de onde poderá ser restaurada.",
+
+  "tags.placeholder": "Adicionar etiqueta...",
+
+  "trash.title": "Lixeira",
+  "trash.empty": "Esvaziar",
+  "trash.emptyTitle": "Esvaziar lixeira",
+  "trash.emptyMessage": "Todas as tarefas da lixeira serão removidas para sempre. Deseja continuar?",
+  "trash.emptyFailed": "Não foi possível esvaziar a lixeira",
+  "trash.purgeTitle": "Excluir definitivamente",
+  "trash.purgeMessage": '"{text}" será removida para sempre. Deseja continuar?',
+  "trash.purgeFailed": "Não foi possível excluir a tarefa",
+  "trash.restoreFailed": "Não foi possível restaurar a tarefa",
+  "trash.deletedAt": "🗑️ Excluída em {date}",
+  "trash.loadFailed": "Não foi possível carregar a lixeira",
+  "trash.isEmpty": "A lixeira está vazia",
+
+  "count.todos": { one: "{count} tarefa", other: "{count} tarefas" },
+  "count.lists": { one: "{count} lista", other: "{count} listas" },
+  "count.subtasks": { one: "{count} subtarefa", other: "{count} subtarefas" },
+  "count.newLists": { one: "{count} lista nova", other: "{count} listas novas" },
+  "count.newTags": { one: "{count} etiqueta nova", other: "{count} etiquetas novas" },
+
+  "backup.title": "Backup",
+  "backup.description": "O backup é um arquivo JSON com listas, tarefas, subtarefas, etiquetas, lembretes, filtros salvos e preferências.",
+  "backup.fileName": "tarefas-backup",
+  "backup.export": "Exportar backup",
+  "backup.created": "Backup criado",
+  "backup.savedTo": "Arquivo salvo em {uri}",
+  "backup.exportFailed": "Não foi possível exportar o backup",
+  "backup.import": "Importar",
+  "backup.importMerge": "Importar e mesclar",
+  "backup.importReplace": "Importar e substituir tudo",
+  "backup.imported": "Backup importado",
+  "backup.importedSummary": "Importadas: {todos}, {lists} e {tags}.",
+  "backup.importFailed": "Não foi possível importar o backup. Nenhum dado foi alterado.",
+  "backup.invalidTitle": "Arquivo inválido",
+  "backup.invalidMessage": "O arquivo escolhido não é um backup válido deste app.",
+  "backup.replace": "Substituir",
+  "backup.replaceTitle": "Substituir todos os dados",
+  "backup.replaceMessage": "Todas as tarefas e listas atuais serão apagadas e substituídas por {contents}. Deseja continuar?",
+  "backup.mergeTitle": "Mesclar backup",
+  "backup.mergeMessage": "{contents} serão adicionadas; itens com o mesmo id serão atualizados.",
+  "backup.otherAppsDescription": "Vindo de outro app? Importe tarefas do Todoist, de uma planilha CSV ou de uma checklist em texto.",
+  "backup.otherApps": "Importar de outros apps",
+
+  "filterEditor.newTitle": "Novo Filtro",
+  "filterEditor.editTitle": "Editar Filtro",
+  "filterEditor.name": "Nome",
+  "filterEditor.namePlaceholder": "Ex.: Urgentes do trabalho",
+  "filterEditor.nameRequired": "Por favor, digite um nome para o filtro",
+  "filterEditor.lists": "Listas",
+  "filterEditor.listsAll": "Todas",
+  "filterEditor.statusAll": "Todas",
+  "filterEditor.statusPending": "Pendentes",
+  "filterEditor.statusDone": "Concluídas",
+  "filterEditor.due": "Vencimento",
+  "filterEditor.dueAny": "Qualquer",
+  "filterEditor.dueNext7": "Próximos 7 dias",
+  "filterEditor.dueNext30": "Próximos 30 dias",
+  "filterEditor.dueSet": "Com data",
+  "filterEditor.text": "Texto contém",
+  "filterEditor.textPlaceholder": "Busca no título e nas notas",
+  "filterEditor.tagsAny": "Qualquer etiqueta",
+  "filterEditor.tagsAll": "Todas as etiquetas",
+  "filterEditor.save": "Salvar Filtro",
+  "filterEditor.delete": "Excluir Filtro",
+  "filterEditor.deleteTitle": "Excluir filtro",
+  "filterEditor.deleteMessage": '"{name}" será removido. As tarefas não são afetadas.',
+  "filterEditor.loadFailed": "Não foi possível carregar o filtro",
+  "filterEditor.saveFailed": "Não foi possível salvar o filtro",
+  "filterEditor.deleteFailed": "Não foi possível excluir o filtro",
+
+  "taskImport.title": "Importar Tarefas",
+  "taskImport.source": "Origem",
+  "taskImport.sourceTodoist": "Todoist (CSV)",
+  "taskImport.sourceCsv": "Outro CSV",
+  "taskImport.sourceText": "Texto ou Markdown",
+  "taskImport.pasteLabel": "Cole a lista (uma tarefa por linha, [x] para concluída)",
+  "taskImport.pastePlaceholder": "# Mercado\n- [ ] Arroz\n- [x] Feijão",
+  "taskImport.pickFile": "Escolher arquivo CSV",
+  "taskImport.project": "Projeto (vira a lista de destino)",
+  "taskImport.columns": "Colunas",
+  "taskImport.column": "Coluna {number}",
+  "taskImport.fieldText": "Tarefa",
+  "taskImport.fieldDone": "Concluída",
+  "taskImport.fallbackList": "Tarefas sem lista vão para",
+  "taskImport.preview": "Prévia",
+  "taskImport.target": "{name}: {todos}",
+  "taskImport.targetNew": "{name}: {todos} — lista nova",
+  "taskImport.more": "e mais {todos}",
+  "taskImport.submit": "Importar {todos}",
+  "taskImport.done": "Importação concluída",
+  "taskImport.doneSummary": "Importadas: {todos} e {subtasks}; {lists}.",
+  "taskImport.parseFailed": "O arquivo não está no formato esperado.",
+  "taskImport.readFailed": "Não foi possível ler o arquivo",
+  "taskImport.importFailed": "Não foi possível importar as tarefas. Nenhum dado foi alterado.",
+
+  "tabs.todos": "Tarefas",
+  "tabs.lists": "Listas",
+  "tabs.sync": "Sincronizar",
+
+  "sync.title": "Sincronizar",
+  "sync.server": "Servidor",
+  "sync.serverPlaceholder": "https://exemplo.com/api",
+  "sync.tokenPlaceholder": "Token de acesso (opcional)",
+  "sync.saveServer": "Salvar servidor",
+  "sync.serverSaved": "Servidor salvo",
+  "sync.serverSavedHint": "Sincronize para enviar suas tarefas.",
+  "sync.disabled": "Sincronização desativada.",
+  "sync.saveFailed": "Não foi possível salvar o servidor",
+  "sync.serverRequired": "Informe e salve o endereço do servidor primeiro",
+  "sync.status": "Estado",
+  "sync.pending": {
+    zero: "Nenhuma alteração pendente",
+    one: "{count} alteração aguardando envio",
+    other: "{count} alterações aguardando envio",
+  },
+  "sync.lastSynced": "Última sincronização: {date}",
+  "sync.never": "nunca",
+  "sync.now": "Sincronizar agora",
+  "sync.failed": "Não foi possível sincronizar. As alterações continuam guardadas neste aparelho.",
+  "sync.withConflicts": "Sincronizado com conflitos",
+  "sync.conflictsResolved": {
+    one: "{count} conflito resolvido pela alteração mais recente.",
+    other: "{count} conflitos resolvidos pela alteração mais recente.",
+  },
+  "sync.conflicts": "Conflitos",
+  "sync.clear": "Limpar",
+  "sync.conflict": '{kind} "{name}": {kept}',
+  "sync.conflictTodo": "Tarefa",
+  "sync.conflictList": "Lista",
+  "sync.keptRemote": "versão do servidor mantida",
+  "sync.deletedRemote": "excluída no servidor",
+  "sync.keptLocal": "versão deste aparelho mantida",
+
+  "settings.title": "Configurações",
+  "settings.language": "Idioma",
+  "settings.languageSystem": "Do sistema",
+  "settings.languagePtBR": "Português",
+  "settings.languageEnUS": "English",
+  "settings.defaultList": "Lista padrão para novas tarefas",
+  "settings.defaultFilter": "Filtro ao abrir as tarefas",
+  "settings.sortMode": "Ordenação padrão",
+  "settings.sortModeHint": "Vale para as listas e visões em que você ainda não escolheu uma ordenação.",
+  "settings.dateFormat": "Formato de data",
+  "settings.dateFormatAuto": "Do idioma",
+  "settings.weekStart": "Início da semana",
+  "settings.weekStartSunday": "Domingo",
+  "settings.weekStartMonday": "Segunda-feira",
+
+  "subtasks.completeTitle": "Concluir subtarefas?",
+  "subtasks.pending": {
+    one: "Esta tarefa tem {count} subtarefa pendente.",
+    other: "Esta tarefa tem {count} subtarefas pendentes.",
+  },
+  "subtasks.onlyTask": "Só a tarefa",
+  "subtasks.completeAll": "Concluir todas",
+} satisfies Record<string, Message>;
@@ -0,0 +1,432 @@
+// Migrações do banco, em ordem. Cada passo roda numa transação junto com o PRAGMA user_version,
+// então uma falha desfaz só aquele passo e a próxima abertura do app recomeça a partir dele.
+// Uma migração publicada não muda mais: alterações de esquema entram como um passo novo no fim.
+
+import { SQLiteDatabase } from "expo-sqlite";
+import * as crypto from "expo-crypto";
+import { formatDateOnly } from "./dates";
+import { t } from "./i18n";
+import { DEFAULT_LIST_COLOR, DEFAULT_LIST_ICON, DEFAULT_LIST_ID } from "./db";
+
+export type Migration = {
+  version: number;
+  description: string;
+  up: (db: SQLiteDatabase) => Promise<void>;
+};
+
+export const MIGRATIONS: Migration[] = [
+  { version: 1, description: "create todos table", up: initializeDB },
+  { version: 2, description: "add lists, notes and due dates", up: upgradeToVersion2 },
+  { version: 3, description: "add trash", up: upgradeToVersion3 },
+  { version: 4, description: "add list color, icon and order", up: upgradeToVersion4 },
+  { version: 5, description: "add subtasks", up: upgradeToVersion5 },
+  { version: 6, description: "add recurrence", up: upgradeToVersion6 },
+  { version: 7, description: "add priority and view preferences", up: upgradeToVersion7 },
+  { version: 8, description: "add manual todo order", up: upgradeToVersion8 },
+  { version: 9, description: "add tags", up: upgradeToVersion9 },
+  { version: 10, description: "add full-text search", up: upgradeToVersion10 },
+  { version: 11, description: "store due dates as calendar dates", up: upgradeToVersion11 },
+  { version: 12, description: "add reminders", up: upgradeToVersion12 },
+  { version: 13, description: "add saved filters", up: upgradeToVersion13 },
+  { version: 14, description: "add sync state", up: upgradeToVersion14 },
+  { version: 15, description: "index todos by list and due date", up: upgradeToVersion15 },
+  { version: 16, description: "add settings", up: upgradeToVersion16 },
+  { version: 17, description: "reference lists from todos", up: upgradeToVersion17 },
+];
+
+export const DATABASE_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export async function migrateDB(db: SQLiteDatabase) {
+  const userVersionRow = await db.getFirstAsync<{ user_version: number }>(
+    "PRAGMA user_version"
+  );
+  const currentDbVersion = userVersionRow?.user_version ?? 0;
+
+  if (currentDbVersion > DATABASE_VERSION) {
+    throw new Error(
+      `Database version ${currentDbVersion} is newer than this app supports (${DATABASE_VERSION})`
+    );
+  }
+
+  // O modo do journal e as chaves estrangeiras não podem ser trocados dentro de uma transação.
+  if (currentDbVersion === 0) {
+    await db.execAsync("PRAGMA journal_mode = WAL;");
+  }
+  // Desligadas durante as migrações: recriar uma tabela (DROP + RENAME) dispararia os ON DELETE CASCADE.
+  await db.execAsync("PRAGMA foreign_keys = OFF;");
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= currentDbVersion) continue;
+
+    try {
+      await db.withTransactionAsync(async () => {
+        await migration.up(db);
+        await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+      });
+    } catch (error) {
+      console.error(`Error upgrading database to version ${migration.version}:`, error);
+      throw new Error(
+        `Database migration to version ${migration.version} (${migration.description}) failed`,
+        { cause: error }
+      );
+    }
+  }
+
+  // O SQLite vem com as chaves estrangeiras desligadas, e o PRAGMA vale só para esta conexão.
+  await db.execAsync("PRAGMA foreign_keys = ON;");
+}
+
+// Versões antigas do app gravavam user_version só no fim de todos os passos, então um banco pode
+// já ter colunas de um passo que ainda consta como pendente.
+async function addColumn(db: SQLiteDatabase, table: string, column: string, definition: string) {
+  const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table});`);
+  if (columns.some((existing) => existing.name === column)) return;
+
+  await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+}
+
+async function initializeDB(db: SQLiteDatabase) {
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS todos (
+      id TEXT PRIMARY KEY,
+      text TEXT NOT NULL,
+      done INTEGER NOT NULL,
+      createdAt TEXT NOT NULL
+    );
+  `);
+
+  const samples: [string, number, string][] = [
+    ["Sample Todo from DB", 0, "2023-01-01T00:00:00Z"],
+    ["Sample Todo 2 from DB", 1, "2023-01-02T00:00:00Z"],
+    ["Sample Todo 3 from DB", 0, "2023-01-03T00:00:00Z"],
+  ];
+  for (const [text, done, createdAt] of samples) {
+    await db.runAsync("INSERT INTO todos (id, text, done, createdAt) VALUES (?, ?, ?, ?);", [
+      crypto.randomUUID(),
+      text,
+      done,
+      createdAt,
+    ]);
+  }
+}
+
+async function upgradeToVersion2(db: SQLiteDatabase) {
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS todo_lists (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL
+    );
+  `);
+
+  await addColumn(db, "todos", "listId", "TEXT");
+  await addColumn(db, "todos", "notes", "TEXT");
+  await addColumn(db, "todos", "dueDate", "TEXT");
+
+  await db.runAsync("INSERT OR IGNORE INTO todo_lists (id, name) VALUES (?, ?);", [
+    DEFAULT_LIST_ID,
+    t("lists.defaultName"),
+  ]);
+  await db.runAsync("UPDATE todos SET listId = ? WHERE listId IS NULL;", [DEFAULT_LIST_ID]);
+}
+
+async function upgradeToVersion3(db: SQLiteDatabase) {
+  await addColumn(db, "todos", "deletedAt", "TEXT");
+}
+
+async function upgradeToVersion4(db: SQLiteDatabase) {
+  await addColumn(db, "todo_lists", "color", `TEXT NOT NULL DEFAULT '${DEFAULT_LIST_COLOR}'`);
+  await addColumn(db, "todo_lists", "icon", `TEXT NOT NULL DEFAULT '${DEFAULT_LIST_ICON}'`);
+  await addColumn(db, "todo_lists", "position", "INTEGER NOT NULL DEFAULT 0");
+
+  // Mantém a ordem alfabética anterior como ordem inicial, com a lista padrão no topo.
+  const lists = await db.getAllAsync<{ id: string }>(
+    "SELECT id FROM todo_lists ORDER BY id = 'default-list' DESC, name;"
+  );
+  for (const [index, list] of lists.entries()) {
+    await db.runAsync("UPDATE todo_lists SET position = ? WHERE id = ?;", [index, list.id]);
+  }
+}
+
+async function upgradeToVersion5(db: SQLiteDatabase) {
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS todo_subtasks (
+      id TEXT PRIMARY KEY,
+      todoId TEXT NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+      text TEXT NOT NULL,
+      done INTEGER NOT NULL DEFAULT 0,
+      position INTEGER NOT NULL DEFAULT 0,
+      createdAt TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_todo_subtasks_todoId ON todo_subtasks (todoId);
+  `);
+}
+
+async function upgradeToVersion6(db: SQLiteDatabase) {
+  await addColumn(db, "todos", "recurrence", "TEXT");
+}
+
+async function upgradeToVersion7(db: SQLiteDatabase) {
+  await addColumn(db, "todos", "priority", "INTEGER NOT NULL DEFAULT 0");
+
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS view_preferences (
+      viewId TEXT PRIMARY KEY,
+      sortMode TEXT NOT NULL
+    );
+  `);
+}
+
+async function upgradeToVersion8(db: SQLiteDatabase) {
+  await addColumn(db, "todos", "position", "INTEGER NOT NULL DEFAULT 0");
+
+  // Ordem manual inicial: ordem de criação dentro de cada lista.
+  await db.execAsync(`
+    UPDATE todos SET position = (
+      SELECT COUNT(*) FROM todos AS other
+      WHERE other.listId = todos.listId
+        AND (other.createdAt < todos.createdAt OR (other.createdAt = todos.createdAt AND other.id < todos.id))
+    );
+  `);
+}
+
+async function upgradeToVersion9(db: SQLiteDatabase) {
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS tags (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE
+    );
+    CREATE TABLE IF NOT EXISTS todo_tags (
+      todoId TEXT NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+      tagId TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+      PRIMARY KEY (todoId, tagId)
+    );
+    CREATE INDEX IF NOT EXISTS idx_todo_tags_tagId ON todo_tags (tagId);
+  `);
+}
+
+async function upgradeToVersion10(db: SQLiteDatabase) {
+  // Índice de busca textual sobre título e notas. `remove_diacritics 2` faz "acao" encontrar "ação".
+  await db.execAsync(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS todos_fts USING fts5(
+      text,
+      notes,
+      content='todos',
+      content_rowid='rowid',
+      tokenize='unicode61 remove_diacritics 2'
+    );
+
+  `);
+  await createSearchTriggers(db);
+  await db.execAsync("INSERT INTO todos_fts (todos_fts) VALUES ('rebuild');");
+}
+
+// Mantêm todos_fts em dia com a tabela todos.
+async function createSearchTriggers(db: SQLiteDatabase) {
+  await db.execAsync(`
+    CREATE TRIGGER IF NOT EXISTS todos_fts_insert AFTER INSERT ON todos BEGIN
+      INSERT INTO todos_fts (rowid, text, notes) VALUES (new.rowid, new.text, new.notes);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS todos_fts_delete AFTER DELETE ON todos BEGIN
+      INSERT INTO todos_fts (todos_fts, rowid, text, notes) VALUES ('delete', old.rowid, old.text, old.notes);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS todos_fts_update AFTER UPDATE OF text, notes ON todos BEGIN
+      INSERT INTO todos_fts (todos_fts, rowid, text, notes) VALUES ('delete', old.rowid, old.text, old.notes);
+      INSERT INTO todos_fts (rowid, text, notes) VALUES (new.rowid, new.text, new.notes);
+    END;
+  `);
+}
+
+async function upgradeToVersion11(db: SQLiteDatabase) {
+  await addColumn(db, "todos", "allDay", "INTEGER NOT NULL DEFAULT 1");
+
+  // Vencimentos antigos eram a meia-noite local gravada em UTC; passam a ser a data de calendário.
+  const rows = await db.getAllAsync<{ id: string; dueDate: string }>(
+    "SELECT id, dueDate FROM todos WHERE dueDate IS NOT NULL AND dueDate LIKE '%T%';"
+  );
+  for (const row of rows) {
+    await db.runAsync("UPDATE todos SET dueDate = ?, allDay = 1 WHERE id = ?;", [
+      formatDateOnly(new Date(row.dueDate)),
+      row.id,
+    ]);
+  }
+}
+
+async function upgradeToVersion12(db: SQLiteDatabase) {
+  // kind: "at-due" | "before" (offsetMinutes) | "custom" (remindAt, instante ISO).
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS reminders (
+      id TEXT PRIMARY KEY,
+      todoId TEXT NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+      kind TEXT NOT NULL,
+      offsetMinutes INTEGER,
+      remindAt TEXT,
+      notificationId TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_reminders_todoId ON reminders (todoId);
+  `);
+}
+
+async function upgradeToVersion13(db: SQLiteDatabase) {
+  // criteria: documento JSON com os critérios do filtro (ver lib/filters.ts).
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS saved_filters (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      criteria TEXT NOT NULL,
+      position INTEGER NOT NULL DEFAULT 0
+    );
+  `);
+}
+
+async function upgradeToVersion14(db: SQLiteDatabase) {
+  await addColumn(db, "todos", "updatedAt", "TEXT");
+  await addColumn(db, "todo_lists", "updatedAt", "TEXT");
+
+  // Estado da sincronização (ver lib/sync.ts). Escritas locais não tocam em updatedAt: os gatilhos
+  // carimbam a hora e enfileiram a mudança no outbox. A sincronização grava o updatedAt do servidor
+  // explicitamente, o que não enfileira nada. Exclusões definitivas deixam uma lápide (tombstone).
+  await db.execAsync(`
+    UPDATE todos SET updatedAt = createdAt WHERE updatedAt IS NULL;
+    UPDATE todo_lists SET updatedAt = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE updatedAt IS NULL;
+
+    CREATE TABLE IF NOT EXISTS sync_state (
+      key TEXT PRIMARY KEY,
+      value TEXT
+    );
+    CREATE TABLE IF NOT EXISTS sync_outbox (
+      entity TEXT NOT NULL,
+      entityId TEXT NOT NULL,
+      op TEXT NOT NULL,
+      changedAt TEXT NOT NULL,
+      PRIMARY KEY (entity, entityId)
+    );
+    CREATE TABLE IF NOT EXISTS sync_tombstones (
+      entity TEXT NOT NULL,
+      entityId TEXT NOT NULL,
+      deletedAt TEXT NOT NULL,
+      PRIMARY KEY (entity, entityId)
+    );
+    CREATE TABLE IF NOT EXISTS sync_conflicts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      entity TEXT NOT NULL,
+      entityId TEXT NOT NULL,
+      winner TEXT NOT NULL,
+      localUpdatedAt TEXT,
+      remoteUpdatedAt TEXT NOT NULL,
+      localData TEXT,
+      remoteData TEXT,
+      createdAt TEXT NOT NULL
+    );
+  `);
+
+  await createSyncTriggers(db, "todos", "todo");
+  await createSyncTriggers(db, "todo_lists", "list");
+
+  // Tudo o que já existe ainda não foi enviado a nenhum servidor.
+  await db.execAsync(`
+    INSERT OR IGNORE INTO sync_outbox (entity, entityId, op, changedAt)
+      SELECT 'list', id, 'upsert', updatedAt FROM todo_lists;
+    INSERT OR IGNORE INTO sync_outbox (entity, entityId, op, changedAt)
+      SELECT 'todo', id, 'upsert', updatedAt FROM todos;
+  `);
+}
+
+// Carimbam updatedAt e enfileiram cada escrita local no outbox (ver lib/sync.ts).
+async function createSyncTriggers(db: SQLiteDatabase, table: string, entity: string) {
+  await db.execAsync(`
+    CREATE TRIGGER IF NOT EXISTS ${table}_sync_insert AFTER INSERT ON ${table} WHEN new.updatedAt IS NULL BEGIN
+      UPDATE ${table} SET updatedAt = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE rowid = new.rowid;
+      DELETE FROM sync_tombstones WHERE entity = '${entity}' AND entityId = new.id;
+      INSERT INTO sync_outbox (entity, entityId, op, changedAt)
+        VALUES ('${entity}', new.id, 'upsert', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+        ON CONFLICT(entity, entityId) DO UPDATE SET op = 'upsert', changedAt = excluded.changedAt;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS ${table}_sync_update AFTER UPDATE ON ${table} WHEN new.updatedAt IS old.updatedAt BEGIN
+      UPDATE ${table} SET updatedAt = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE rowid = new.rowid;
+      INSERT INTO sync_outbox (entity, entityId, op, changedAt)
+        VALUES ('${entity}', new.id, 'upsert', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+        ON CONFLICT(entity, entityId) DO UPDATE SET op = 'upsert', changedAt = excluded.changedAt;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS ${table}_sync_delete AFTER DELETE ON ${table} BEGIN
+      INSERT INTO sync_tombstones (entity, entityId, deletedAt)
+        VALUES ('${entity}', old.id, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+        ON CONFLICT(entity, entityId) DO UPDATE SET deletedAt = excluded.deletedAt;
+      INSERT INTO sync_outbox (entity, entityId, op, changedAt)
+        VALUES ('${entity}', old.id, 'delete', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+        ON CONFLICT(entity, entityId) DO UPDATE SET op = 'delete', changedAt = excluded.changedAt;
+    END;
+  `);
+}
+
+async function upgradeToVersion15(db: SQLiteDatabase) {
+  // As telas filtram por lista e as visões inteligentes por vencimento.
+  await db.execAsync(`
+    CREATE INDEX IF NOT EXISTS idx_todos_listId ON todos (listId);
+    CREATE INDEX IF NOT EXISTS idx_todos_dueDate ON todos (dueDate);
+  `);
+}
+
+async function upgradeToVersion16(db: SQLiteDatabase) {
+  // Preferências do app; os valores são JSON, lidos e validados por getSetting em lib/db.ts.
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+  `);
+}
+
+async function upgradeToVersion17(db: SQLiteDatabase) {
+  // Nenhuma tarefa pode ficar apontando para uma lista que não existe, nem registro para uma tarefa que não existe.
+  await db.runAsync(
+    "INSERT OR IGNORE INTO todo_lists (id, name, color, icon, position) VALUES (?, ?, ?, ?, 0);",
+    [DEFAULT_LIST_ID, t("lists.defaultName"), DEFAULT_LIST_COLOR, DEFAULT_LIST_ICON]
+  );
+  await db.runAsync(
+    "UPDATE todos SET listId = ? WHERE listId IS NULL OR listId NOT IN (SELECT id FROM todo_lists);",
+    [DEFAULT_LIST_ID]
+  );
+  await db.execAsync(`
+    DELETE FROM todo_subtasks WHERE todoId NOT IN (SELECT id FROM todos);
+    DELETE FROM todo_tags WHERE todoId NOT IN (SELECT id FROM todos) OR tagId NOT IN (SELECT id FROM tags);
+    DELETE FROM reminders WHERE todoId NOT IN (SELECT id FROM todos);
+  `);
+
+  // O SQLite não acrescenta REFERENCES a uma coluna existente: a tabela é recriada com os mesmos rowids,
+  // que todos_fts usa, e ganha de volta os índices e gatilhos que o DROP levou. A verificação fica para o
+  // fim da transação, para que desfazer, importar e sincronizar possam gravar tarefa e lista em qualquer ordem.
+  await db.execAsync(`
+    CREATE TABLE todos_new (
+      id TEXT PRIMARY KEY,
+      text TEXT NOT NULL,
+      done INTEGER NOT NULL,
+      createdAt TEXT NOT NULL,
+      listId TEXT NOT NULL REFERENCES todo_lists(id) DEFERRABLE INITIALLY DEFERRED,
+      notes TEXT,
+      dueDate TEXT,
+      deletedAt TEXT,
+      recurrence TEXT,
+      priority INTEGER NOT NULL DEFAULT 0,
+      position INTEGER NOT NULL DEFAULT 0,
+      allDay INTEGER NOT NULL DEFAULT 1,
+      updatedAt TEXT
+    );
+    INSERT INTO todos_new (rowid, id, text, done, createdAt, listId, notes, dueDate, deletedAt, recurrence,
+                           priority, position, allDay, updatedAt)
+      SELECT rowid, id, text, done, createdAt, listId, notes, dueDate, deletedAt, recurrence,
+             priority, position, allDay, updatedAt
+      FROM todos;
+    DROP TABLE todos;
+    ALTER TABLE todos_new RENAME TO todos;
+
+    CREATE INDEX IF NOT EXISTS idx_todos_listId ON todos (listId);
+    CREATE INDEX IF NOT EXISTS idx_todos_dueDate ON todos (dueDate);
+  `);
+  await createSearchTriggers(db);
+  await createSyncTriggers(db, "todos", "todo");
+  await db.execAsync("INSERT INTO todos_fts (todos_fts) VALUES ('rebuild');");
+}
@@ -0,0 +1,72 @@
+// Agendador de lembretes com notificações locais do expo-notifications.
+
+import * as Notifications from "expo-notifications";
+import { Platform } from "react-native";
+import { getLocale, subscribeI18n, t } from "./i18n";
+import { ReminderNotification, ReminderScheduler } from "./reminders";
+
+const REMINDER_CHANNEL_ID = "reminders";
+
+let permissionGranted: boolean | null = null;
+// Idioma em que o canal foi registrado; o nome aparece nas configurações do sistema.
+let channelLocale: string | null = null;
+
+async function registerChannel() {
+  channelLocale = getLocale();
+  await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+    name: t("notification.channel"),
+    importance: Notifications.AndroidImportance.HIGH,
+  });
+}
+
+async function ensurePermission(): Promise<boolean> {
+  if (permissionGranted !== null) return permissionGranted;
+
+  if (Platform.OS === "android") await registerChannel();
+
+  const current = await Notifications.getPermissionsAsync();
+  const status = current.granted ? current : await Notifications.requestPermissionsAsync();
+  permissionGranted = status.granted;
+  return permissionGranted;
+}
+
+export function configureNotifications() {
+  // Registrar de novo o canal existente só troca o nome, mantendo o que o usuário ajustou nele.
+  subscribeI18n(() => {
+    if (Platform.OS !== "android" || channelLocale === null || channelLocale === getLocale()) return;
+    registerChannel().catch(error => console.error("Error renaming reminder channel:", error));
+  });
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+}
+
+export const notificationScheduler: ReminderScheduler = {
+  async schedule(notification: ReminderNotification) {
+    if (Platform.OS === "web" || !(await ensurePermission())) return null;
+
+    return await Notifications.scheduleNotificationAsync({
+      content: {
+        title: notification.title,
+        body: notification.body,
+        data: notification.data,
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: notification.date,
+        channelId: REMINDER_CHANNEL_ID,
+      },
+    });
+  },
+
+  async cancel(notificationId: string) {
+    if (Platform.OS === "web") return;
+    await Notifications.cancelScheduledNotificationAsync(notificationId);
+  },
+};
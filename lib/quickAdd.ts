@@ -0,0 +1,255 @@
+// Interpretador da adição rápida: extrai data, hora, lista, prioridade e etiquetas de uma linha
+// como "pagar conta amanhã 18h #casa !alta @contas". TypeScript puro, sem dependências do app.
+
+import { addDays, isValidDate, startOfDay } from "./dates";
+import { DateOrder, getDateOrder } from "./i18n";
+import { Priority } from "./types";
+
+export type QuickAddToken =
+  | { kind: "date"; raw: string; date: Date }
+  | { kind: "time"; raw: string; hours: number; minutes: number }
+  | { kind: "list"; raw: string; listId: string; listName: string }
+  | { kind: "priority"; raw: string; priority: Priority }
+  | { kind: "tag"; raw: string; tag: string };
+
+export type QuickAddResult = {
+  text: string;
+  dueDate?: Date;
+  hasTime: boolean;
+  listId?: string;
+  priority?: Priority;
+  tags: string[];
+  tokens: QuickAddToken[];
+};
+
+type Span = { start: number; end: number };
+
+const WEEKDAYS = ["domingo", "segunda", "terca", "quarta", "quinta", "sexta", "sabado"];
+
+const NUMBER_WORDS: Record<string, number> = {
+  um: 1, uma: 1, dois: 2, duas: 2, tres: 3, quatro: 4, cinco: 5,
+  seis: 6, sete: 7, oito: 8, nove: 9, dez: 10,
+};
+
+const PRIORITY_WORDS: Record<string, Priority> = {
+  baixa: Priority.Low,
+  media: Priority.Medium,
+  alta: Priority.High,
+  urgente: Priority.Urgent,
+};
+
+/**
+ * Minúsculas e sem acentos, preservando o comprimento do texto
+ * para que os índices encontrados valham também para o texto original.
+ */
+export function foldText(value: string): string {
+  let folded = "";
+  for (const char of value) {
+    const base = char.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+    const lower = char.toLowerCase();
+    folded += base.length === char.length ? base : lower.length === char.length ? lower : char;
+  }
+  return folded;
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(date.getDate(), lastDay));
+  return result;
+}
+
+function parseAmount(value: string): number {
+  return NUMBER_WORDS[value] ?? parseInt(value, 10);
+}
+
+// Procura `pattern` como palavra(s) inteira(s) fora dos trechos já consumidos.
+function findWord(folded: string, pattern: string, used: Span[]): { match: RegExpExecArray; span: Span } | null {
+  const regex = new RegExp(`(^|\\s)(${pattern})(?=\\s|$|[.,;!?])`, "g");
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(folded)) !== null) {
+    const start = match.index + match[1].length;
+    const end = start + match[2].length;
+    if (!used.some(span => start < span.end && end > span.start)) {
+      return { match, span: { start, end } };
+    }
+  }
+  return null;
+}
+
+function parseDate(folded: string, now: Date, order: DateOrder, used: Span[]): { date: Date; span: Span } | null {
+  const today = startOfDay(now);
+  let found;
+
+  if ((found = findWord(folded, "depois de amanha", used))) {
+    return { date: addDays(today, 2), span: found.span };
+  }
+  if ((found = findWord(folded, "hoje", used))) {
+    return { date: today, span: found.span };
+  }
+  if ((found = findWord(folded, "amanha", used))) {
+    return { date: addDays(today, 1), span: found.span };
+  }
+
+  const amount = `(\\d+|${Object.keys(NUMBER_WORDS).join("|")})`;
+  if ((found = findWord(folded, `(?:daqui a|em) ${amount} (dias?|semanas?|mes|meses)`, used))) {
+    const value = parseAmount(found.match[3]);
+    const unit = found.match[4];
+    const date = unit.startsWith("dia")
+      ? addDays(today, value)
+      : unit.startsWith("semana")
+        ? addDays(today, value * 7)
+        : addMonths(today, value);
+    return { date, span: found.span };
+  }
+
+  if ((found = findWord(folded, `(?:(?:na|no|nesta|neste|proxima|proximo) )?(${WEEKDAYS.join("|")})(?:-feira)?`, used))) {
+    const weekday = WEEKDAYS.indexOf(found.match[3]);
+    const offset = (weekday - today.getDay() + 7) % 7 || 7;
+    return { date: addDays(today, offset), span: found.span };
+  }
+
+  if ((found = findWord(folded, "(?:no )?dia (\\d{1,2})", used))) {
+    const day = parseInt(found.match[3], 10);
+    for (let months = 0; months < 12; months++) {
+      const month = new Date(today.getFullYear(), today.getMonth() + months, 1);
+      if (isValidDate(month.getFullYear(), month.getMonth(), day)) {
+        const date = new Date(month.getFullYear(), month.getMonth(), day);
+        if (date >= today) return { date, span: found.span };
+      }
+    }
+  }
+
+  // Dia e mês na ordem configurada, como em parseDateInput.
+  if ((found = findWord(folded, "(\\d{1,2})/(\\d{1,2})(?:/(\\d{2}|\\d{4}))?", used))) {
+    const [first, second] = [parseInt(found.match[3], 10), parseInt(found.match[4], 10)];
+    const [day, month] = order === "dmy" ? [first, second - 1] : [second, first - 1];
+    let year = found.match[5] ? parseInt(found.match[5], 10) : today.getFullYear();
+    if (year < 100) year += 2000;
+
+    if (isValidDate(year, month, day)) {
+      let date = new Date(year, month, day);
+      if (!found.match[5] && date < today) {
+        date = new Date(year + 1, month, day);
+      }
+      return { date, span: found.span };
+    }
+  }
+
+  return null;
+}
+
+function parseTime(folded: string, used: Span[]): { hours: number; minutes: number; span: Span } | null {
+  let found;
+
+  if ((found = findWord(folded, "(?:as |a )?meio-dia", used))) {
+    return { hours: 12, minutes: 0, span: found.span };
+  }
+
+  if ((found = findWord(folded, "(?:as |a )?(\\d{1,2})(?:h(\\d{2})?|:(\\d{2}))", used))) {
+    const hours = parseInt(found.match[3], 10);
+    const minutes = parseInt(found.match[4] ?? found.match[5] ?? "0", 10);
+    if (hours < 24 && minutes < 60) {
+      return { hours, minutes, span: found.span };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Interpreta uma linha de adição rápida. `now` é injetável para que o resultado seja determinístico.
+ * Trechos reconhecidos são removidos do título; `#lista` só é reconhecido se existir uma lista com esse nome.
+ */
+export function parseQuickAdd(
+  input: string,
+  options: { now?: Date; lists?: { id: string; name: string }[]; dateOrder?: DateOrder } = {}
+): QuickAddResult {
+  const now = options.now ?? new Date();
+  const folded = foldText(input);
+  const used: Span[] = [];
+  const tokens: QuickAddToken[] = [];
+  const tags: string[] = [];
+  let listId: string | undefined;
+  let priority: Priority | undefined;
+
+  for (const match of folded.matchAll(/(^|\s)#(\S+)/g)) {
+    const start = match.index! + match[1].length;
+    const end = start + 1 + match[2].length;
+    const wanted = match[2].replace(/[-_]/g, "");
+    const list = options.lists?.find(l => foldText(l.name).replace(/[\s\-_]/g, "") === wanted);
+    if (list && listId === undefined) {
+      listId = list.id;
+      used.push({ start, end });
+      tokens.push({ kind: "list", raw: input.slice(start, end), listId: list.id, listName: list.name });
+    }
+  }
+
+  for (const match of folded.matchAll(/(^|\s)!(!*|baixa|media|alta|urgente)(?=\s|$)/g)) {
+    const start = match.index! + match[1].length;
+    const end = start + 1 + match[2].length;
+    const value = match[2];
+    const level = value === "" || value.startsWith("!")
+      ? Math.min(value.length + 1, Priority.Urgent) as Priority
+      : PRIORITY_WORDS[value];
+    used.push({ start, end });
+    if (priority === undefined) {
+      priority = level;
+      tokens.push({ kind: "priority", raw: input.slice(start, end), priority: level });
+    }
+  }
+
+  for (const match of input.matchAll(/(^|\s)@(\S+)/g)) {
+    const start = match.index! + match[1].length;
+    const end = start + 1 + match[2].length;
+    const tag = match[2];
+    used.push({ start, end });
+    if (!tags.some(t => foldText(t) === foldText(tag))) {
+      tags.push(tag);
+      tokens.push({ kind: "tag", raw: input.slice(start, end), tag });
+    }
+  }
+
+  const date = parseDate(folded, now, options.dateOrder ?? getDateOrder(), used);
+  if (date) {
+    used.push(date.span);
+    tokens.push({ kind: "date", raw: input.slice(date.span.start, date.span.end), date: date.date });
+  }
+
+  const time = parseTime(folded, used);
+  if (time) {
+    used.push(time.span);
+    tokens.push({ kind: "time", raw: input.slice(time.span.start, time.span.end), hours: time.hours, minutes: time.minutes });
+  }
+
+  let dueDate: Date | undefined;
+  if (date || time) {
+    dueDate = date ? new Date(date.date) : startOfDay(now);
+    if (time) {
+      dueDate.setHours(time.hours, time.minutes, 0, 0);
+      // Só a hora: se já passou hoje, vale para amanhã.
+      if (!date && dueDate <= now) {
+        dueDate = addDays(dueDate, 1);
+      }
+    }
+  }
+
+  const sorted = [...used].sort((a, b) => a.start - b.start);
+  let text = "";
+  let cursor = 0;
+  for (const span of sorted) {
+    text += input.slice(cursor, span.start);
+    cursor = Math.max(cursor, span.end);
+  }
+  text += input.slice(cursor);
+
+  return {
+    text: text.replace(/\s+/g, " ").trim(),
+    dueDate,
+    hasTime: !!time,
+    listId,
+    priority,
+    tags,
+    tokens,
+  };
+}
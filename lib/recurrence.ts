@@ -0,0 +1,204 @@
+// Regras de repetição de tarefas e cálculo da próxima ocorrência.
+// Módulo sem dependências de React Native para poder ser usado fora do app.
+
+import { addDays, formatDate, formatDateOnly, orderedWeekdays, parseDateOnly } from "./dates";
+import { formatList, t } from "./i18n";
+
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6; // 0 = domingo, como em Date.getDay()
+
+export type MonthlyMode =
+  | { type: "day"; day: number }
+  | { type: "weekday"; weekday: Weekday; ordinal: 1 | 2 | 3 | 4 | -1 }; // -1 = último
+
+export type RecurrenceRule = {
+  freq: "daily" | "weekly" | "monthly" | "after-completion";
+  interval: number;
+  byWeekday?: Weekday[];
+  monthly?: MonthlyMode;
+  until?: string; // data limite no formato AAAA-MM-DD
+  count?: number; // ocorrências restantes, incluindo a atual
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+
+export function parseRecurrenceRule(value: unknown): RecurrenceRule | undefined {
+  if (!value) return undefined;
+  if (typeof value === "object") return value as RecurrenceRule;
+
+  try {
+    const rule = JSON.parse(String(value));
+    return rule && typeof rule.freq === "string" ? rule : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function serializeRecurrenceRule(rule: RecurrenceRule | undefined | null): string | null {
+  return rule ? JSON.stringify(rule) : null;
+}
+
+// A data limite é um dia do calendário local, sem horário nem fuso.
+export function parseUntilDate(value: string): Date {
+  return parseDateOnly(value);
+}
+
+export function formatUntilDate(date: Date): string {
+  return formatDateOnly(date);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+function startOfWeek(date: Date): Date {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  result.setDate(result.getDate() - result.getDay());
+  return result;
+}
+
+function nthWeekdayOfMonth(year: number, month: number, weekday: Weekday, ordinal: number): number {
+  if (ordinal === -1) {
+    const last = daysInMonth(year, month);
+    const lastWeekday = new Date(year, month, last).getDay();
+    return last - ((lastWeekday - weekday + 7) % 7);
+  }
+
+  const firstWeekday = new Date(year, month, 1).getDay();
+  const first = 1 + ((weekday - firstWeekday + 7) % 7);
+  return Math.min(first + (ordinal - 1) * 7, daysInMonth(year, month));
+}
+
+function nextWeekly(rule: RecurrenceRule, from: Date): Date {
+  const weekdays = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : [from.getDay() as Weekday];
+  const baseWeek = startOfWeek(from).getTime();
+
+  for (let offset = 1; offset <= 7 * rule.interval + 7; offset++) {
+    const candidate = addDays(from, offset);
+    const weeks = Math.round((startOfWeek(candidate).getTime() - baseWeek) / (7 * DAY_MS));
+    if (weekdays.includes(candidate.getDay() as Weekday) && weeks % rule.interval === 0) {
+      return candidate;
+    }
+  }
+
+  return addDays(from, 7 * rule.interval);
+}
+
+// Sem modo explícito, o dia do mês vem da ocorrência atual; getNextOccurrence o fixa na regra.
+function nextMonthly(rule: RecurrenceRule, from: Date): Date {
+  const mode: MonthlyMode = rule.monthly ?? { type: "day", day: from.getDate() };
+  const monthIndex = from.getMonth() + rule.interval;
+  const year = from.getFullYear() + Math.floor(monthIndex / 12);
+  const month = ((monthIndex % 12) + 12) % 12;
+
+  const day = mode.type === "day"
+    ? Math.min(mode.day, daysInMonth(year, month))
+    : nthWeekdayOfMonth(year, month, mode.weekday, mode.ordinal);
+
+  const result = new Date(from);
+  result.setFullYear(year, month, day);
+  return result;
+}
+
+/**
+ * Calcula a próxima ocorrência de uma tarefa recorrente.
+ * `dueDate` é o vencimento da ocorrência atual e `completedAt` o momento em que foi concluída.
+ * Retorna `null` quando a regra terminou (data limite ou número de ocorrências).
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  dueDate: Date | undefined,
+  completedAt: Date = new Date()
+): { dueDate: Date; rule: RecurrenceRule } | null {
+  if (rule.count !== undefined && rule.count <= 1) return null;
+
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const normalized = { ...rule, interval };
+  const base = dueDate ?? completedAt;
+  let next: Date;
+  let nextRule = rule;
+
+  switch (rule.freq) {
+    case "daily":
+      next = addDays(base, interval);
+      break;
+    case "weekly":
+      next = nextWeekly(normalized, base);
+      break;
+    case "monthly":
+      next = nextMonthly(normalized, base);
+      // Fixa o dia original: depois de 31/01 → 28/02 a série volta a 31/03, em vez de ficar no dia 28.
+      if (!rule.monthly) {
+        nextRule = { ...rule, monthly: { type: "day", day: base.getDate() } };
+      }
+      break;
+    case "after-completion":
+      next = addDays(completedAt, interval);
+      if (dueDate) {
+        next.setHours(dueDate.getHours(), dueDate.getMinutes(), dueDate.getSeconds(), dueDate.getMilliseconds());
+      }
+      break;
+    default:
+      return null;
+  }
+
+  if (rule.until) {
+    const until = parseUntilDate(rule.until);
+    until.setHours(23, 59, 59, 999);
+    if (next > until) return null;
+  }
+
+  return {
+    dueDate: next,
+    rule: nextRule.count !== undefined ? { ...nextRule, count: nextRule.count - 1 } : nextRule,
+  };
+}
+
+/** Resumo da regra no idioma atual, por exemplo "Toda semana: segundas e quartas". */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  let description: string;
+
+  switch (rule.freq) {
+    case "daily":
+      description = t("recurrence.daily", { count: interval });
+      break;
+    case "weekly": {
+      description = t("recurrence.weekly", { count: interval });
+      if (rule.byWeekday && rule.byWeekday.length > 0) {
+        const days = orderedWeekdays()
+          .filter(weekday => rule.byWeekday!.includes(weekday as Weekday))
+          .map(weekday => t("recurrence.weekdayPlural", { weekday }));
+        description = t("recurrence.onWeekdays", { base: description, days: formatList(days) });
+      }
+      break;
+    }
+    case "monthly": {
+      description = t("recurrence.monthly", { count: interval });
+      const mode = rule.monthly;
+      if (mode?.type === "day") {
+        description = t("recurrence.onDay", { base: description, day: mode.day });
+      } else if (mode?.type === "weekday") {
+        description = t("recurrence.onOrdinalWeekday", {
+          base: description,
+          ordinal: mode.ordinal,
+          weekday: mode.weekday,
+        });
+      }
+      break;
+    }
+    case "after-completion":
+      description = t("recurrence.afterCompletion", { count: interval });
+      break;
+    default:
+      return "";
+  }
+
+  if (rule.until) {
+    description = t("recurrence.until", { base: description, date: formatDate(parseUntilDate(rule.until)) });
+  } else if (rule.count !== undefined) {
+    description = t("recurrence.remaining", { base: description, count: rule.count });
+  }
+
+  return description;
+}
@@ -0,0 +1,101 @@
+// Lembretes de tarefas: cálculo do horário de disparo e a interface do agendador de notificações.
+// O agendador real (expo-notifications) fica em lib/notifications.ts; aqui não há dependências do app.
+
+import { formatDueDate, formatTime, isSameDay } from "./dates";
+import { t } from "./i18n";
+import { Reminder } from "./types";
+
+// Lembretes "no vencimento" de tarefas de dia inteiro disparam neste horário.
+export const ALL_DAY_REMINDER_HOUR = 9;
+
+export type ReminderNotification = {
+  title: string;
+  body: string;
+  date: Date;
+  data: { todoId: string; reminderId: string };
+};
+
+export interface ReminderScheduler {
+  /** Agenda uma notificação local; retorna o id dela ou `null` se não foi possível (ex.: sem permissão). */
+  schedule(notification: ReminderNotification): Promise<string | null>;
+  cancel(notificationId: string): Promise<void>;
+}
+
+// Sem agendador registrado os lembretes continuam sendo gravados, apenas não notificam.
+const noopScheduler: ReminderScheduler = {
+  schedule: async () => null,
+  cancel: async () => {},
+};
+
+let scheduler: ReminderScheduler = noopScheduler;
+
+export function setReminderScheduler(value: ReminderScheduler | null) {
+  scheduler = value ?? noopScheduler;
+}
+
+export function getReminderScheduler(): ReminderScheduler {
+  return scheduler;
+}
+
+/** Momento em que o lembrete deve disparar, ou `null` se depende de um vencimento que a tarefa não tem. */
+export function getReminderTime(
+  reminder: Pick<Reminder, "kind" | "offsetMinutes" | "remindAt">,
+  dueDate: Date | undefined,
+  allDay: boolean
+): Date | null {
+  if (reminder.kind === "custom") {
+    return reminder.remindAt ?? null;
+  }
+  if (!dueDate) return null;
+
+  const base = new Date(dueDate);
+  if (allDay) {
+    base.setHours(ALL_DAY_REMINDER_HOUR, 0, 0, 0);
+  }
+  if (reminder.kind === "before") {
+    base.setMinutes(base.getMinutes() - (reminder.offsetMinutes ?? 0));
+  }
+  return base;
+}
+
+export function formatOffset(minutes: number): string {
+  if (minutes % 1440 === 0) return t("reminder.offsetDays", { count: minutes / 1440 });
+  if (minutes % 60 === 0) return t("reminder.offsetHours", { count: minutes / 60 });
+  return t("reminder.offsetMinutes", { count: minutes });
+}
+
+export function describeReminder(reminder: Pick<Reminder, "kind" | "offsetMinutes" | "remindAt">): string {
+  switch (reminder.kind) {
+    case "at-due":
+      return t("reminder.atDue");
+    case "before":
+      return t("reminder.before", { offset: formatOffset(reminder.offsetMinutes ?? 0) });
+    case "custom":
+      return reminder.remindAt ? formatDueDate(reminder.remindAt, false) : t("reminder.custom");
+  }
+}
+
+export function buildReminderNotification(
+  todo: { id: string; text: string; dueDate?: Date; allDay: boolean },
+  reminder: Reminder,
+  date: Date
+): ReminderNotification {
+  let body = t("notification.reminder");
+  if (todo.dueDate) {
+    body = todo.allDay
+      ? isSameDay(todo.dueDate, date)
+        ? t("notification.dueToday")
+        : t("notification.dueOn", { date: formatDueDate(todo.dueDate, true) })
+      : isSameDay(todo.dueDate, date)
+        ? t("notification.dueTodayAt", { time: formatTime(todo.dueDate) })
+        : t("notification.dueOn", { date: formatDueDate(todo.dueDate, false) });
+  }
+
+  return {
+    title: todo.text,
+    body,
+    date,
+    data: { todoId: todo.id, reminderId: reminder.id },
+  };
+}
+
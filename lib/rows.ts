@@ -0,0 +1,128 @@
+// Conversão entre as linhas do SQLite e os tipos do app. É o único lugar que sabe que booleanos
+// são gravados como 0/1, instantes como texto ISO e vencimentos no formato de lib/dates.ts.
+
+import type { BackupList, BackupTodo } from "./backup";
+import { decodeDueDate, encodeDueDate } from "./dates";
+import { parseRecurrenceRule, serializeRecurrenceRule } from "./recurrence";
+import { Priority, Subtask, TodoItem, TodoList } from "./types";
+
+export type TodoRow = {
+  id: string;
+  text: string;
+  done: number;
+  createdAt: string;
+  listId: string;
+  notes: string | null;
+  dueDate: string | null;
+  allDay: number;
+  deletedAt: string | null;
+  recurrence: string | null;
+  priority: number | null;
+  position: number | null;
+};
+
+export type TodoListRow = {
+  id: string;
+  name: string;
+  color: string;
+  icon: string;
+  position: number;
+};
+
+export type SubtaskRow = {
+  id: string;
+  todoId: string;
+  text: string;
+  done: number;
+  position: number;
+  createdAt: string;
+};
+
+export function toTodoItem(row: TodoRow): TodoItem {
+  return {
+    id: row.id,
+    text: row.text,
+    done: !!row.done,
+    createdAt: new Date(row.createdAt),
+    listId: row.listId,
+    notes: row.notes ?? undefined,
+    dueDate: decodeDueDate(row.dueDate),
+    allDay: !!row.allDay,
+    deletedAt: row.deletedAt ? new Date(row.deletedAt) : undefined,
+    recurrence: parseRecurrenceRule(row.recurrence),
+    priority: row.priority ?? Priority.None,
+    position: row.position ?? 0,
+  };
+}
+
+export function toTodoRow(todo: TodoItem): TodoRow {
+  return {
+    id: todo.id,
+    text: todo.text,
+    done: todo.done ? 1 : 0,
+    createdAt: todo.createdAt.toISOString(),
+    listId: todo.listId,
+    notes: todo.notes || null,
+    dueDate: encodeDueDate(todo.dueDate, todo.allDay),
+    allDay: todo.allDay ? 1 : 0,
+    deletedAt: todo.deletedAt ? todo.deletedAt.toISOString() : null,
+    recurrence: serializeRecurrenceRule(todo.recurrence),
+    priority: todo.priority,
+    position: todo.position,
+  };
+}
+
+// Formato portátil do backup e da sincronização: os valores da linha, com booleanos e recorrência decodificados.
+export function toBackupTodo(row: TodoRow): BackupTodo {
+  return {
+    id: row.id,
+    text: row.text,
+    done: !!row.done,
+    createdAt: row.createdAt,
+    listId: row.listId,
+    notes: row.notes ?? null,
+    dueDate: row.dueDate ?? null,
+    allDay: !!row.allDay,
+    deletedAt: row.deletedAt ?? null,
+    recurrence: parseRecurrenceRule(row.recurrence) ?? null,
+    priority: row.priority ?? Priority.None,
+    position: row.position ?? 0,
+  };
+}
+
+// Também recebe o que vem do servidor de sincronização, que pode omitir os campos opcionais.
+export function fromBackupTodo(todo: BackupTodo): TodoRow {
+  return {
+    id: todo.id,
+    text: todo.text,
+    done: todo.done ? 1 : 0,
+    createdAt: todo.createdAt,
+    listId: todo.listId,
+    notes: todo.notes ?? null,
+    dueDate: todo.dueDate ?? null,
+    allDay: todo.allDay ? 1 : 0,
+    deletedAt: todo.deletedAt ?? null,
+    recurrence: serializeRecurrenceRule(todo.recurrence),
+    priority: todo.priority ?? Priority.None,
+    position: todo.position ?? 0,
+  };
+}
+
+export function toBackupList(row: TodoListRow): BackupList {
+  return { id: row.id, name: row.name, color: row.color, icon: row.icon, position: row.position ?? 0 };
+}
+
+export function toTodoList(row: TodoListRow): TodoList {
+  return { id: row.id, name: row.name, color: row.color, icon: row.icon, position: row.position };
+}
+
+export function toSubtask(row: SubtaskRow): Subtask {
+  return {
+    id: row.id,
+    todoId: row.todoId,
+    text: row.text,
+    done: !!row.done,
+    position: row.position,
+    createdAt: new Date(row.createdAt),
+  };
+}
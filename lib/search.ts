@@ -0,0 +1,47 @@
+// Montagem de consultas FTS5 e tratamento dos trechos destacados retornados por highlight().
+
+// Caracteres de controle usados para marcar o início e o fim de cada trecho encontrado.
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+export type HighlightSegment = { text: string; highlighted: boolean };
+
+/**
+ * Converte o texto digitado em uma expressão MATCH do FTS5.
+ * Cada palavra vira um termo de prefixo entre aspas (`"pag"*`), combinados com AND.
+ * Retorna `null` quando não sobra nenhum termo pesquisável.
+ */
+export function buildFtsQuery(input: string): string | null {
+  const terms = input
+    .split(/\s+/)
+    .map(term => term.replace(/["*^():{}]/g, "").trim())
+    .filter(term => term.length > 0);
+
+  if (terms.length === 0) return null;
+
+  return terms.map(term => `"${term}"*`).join(" ");
+}
+
+export function splitHighlight(value: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let rest = value;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), highlighted: false });
+    }
+
+    const end = rest.indexOf(HIGHLIGHT_END, start + 1);
+    const stop = end === -1 ? rest.length : end;
+    segments.push({ text: rest.slice(start + 1, stop), highlighted: true });
+    rest = end === -1 ? "" : rest.slice(end + 1);
+  }
+
+  return segments.filter(segment => segment.text.length > 0);
+}
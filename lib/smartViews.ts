@@ -0,0 +1,57 @@
+// Visões inteligentes: tarefas de todas as listas selecionadas pelo vencimento.
+
+import { addDays, formatDate, formatDateOnly, isSameDay, startOfDay } from "./dates";
+import { t } from "./i18n";
+import { TodoItem } from "./types";
+
+export enum SmartView {
+  Today = "today",
+  Upcoming = "upcoming",
+  Overdue = "overdue",
+  NoDate = "no-date",
+}
+
+// Quantos dias, contando hoje, a visão "Próximos dias" cobre.
+export const UPCOMING_DAYS = 7;
+
+export type DaySection = {
+  key: string;
+  title: string;
+  data: TodoItem[];
+};
+
+export function isSmartView(value: unknown): value is SmartView {
+  return Object.values(SmartView).includes(value as SmartView);
+}
+
+// Chave usada em view_preferences para guardar a ordenação de cada visão inteligente.
+export function smartViewPreferenceId(view: SmartView): string {
+  return `smart:${view}`;
+}
+
+function describeDay(date: Date, now: Date): string {
+  if (isSameDay(date, now)) return t("day.today");
+  if (isSameDay(date, addDays(now, 1))) return t("day.tomorrow");
+
+  const weekday = formatDate(date, { weekday: "long" });
+  const day = formatDate(date, { day: "2-digit", month: "2-digit" });
+  return `${weekday.charAt(0).toUpperCase()}${weekday.slice(1)}, ${day}`;
+}
+
+/** Agrupa tarefas pelo dia do vencimento, preservando a ordem recebida dentro de cada dia. */
+export function groupTodosByDay(todos: TodoItem[], now: Date = new Date()): DaySection[] {
+  const sections = new Map<string, DaySection>();
+
+  for (const todo of todos) {
+    if (!todo.dueDate) continue;
+
+    const day = startOfDay(todo.dueDate);
+    const key = formatDateOnly(day);
+    if (!sections.has(key)) {
+      sections.set(key, { key, title: describeDay(day, now), data: [] });
+    }
+    sections.get(key)!.data.push(todo);
+  }
+
+  return [...sections.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
@@ -0,0 +1,70 @@
+import { getLocale } from "./i18n";
+import { Priority, TodoItem } from "./types";
+
+export enum SortMode {
+  Priority = "priority",
+  DueDate = "dueDate",
+  Created = "created",
+  Alphabetical = "alphabetical",
+  Manual = "manual",
+}
+
+type Comparator = (a: TodoItem, b: TodoItem) => number;
+
+const byDone: Comparator = (a, b) => Number(!!a.done) - Number(!!b.done);
+
+const byPriority: Comparator = (a, b) => (b.priority ?? Priority.None) - (a.priority ?? Priority.None);
+
+const byDueDate: Comparator = (a, b) => {
+  if (a.dueDate && !b.dueDate) return -1;
+  if (!a.dueDate && b.dueDate) return 1;
+  if (a.dueDate && b.dueDate) {
+    return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+  }
+  return 0;
+};
+
+const byCreatedDesc: Comparator = (a, b) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+const byCreatedAsc: Comparator = (a, b) => -byCreatedDesc(a, b);
+
+const byPosition: Comparator = (a, b) => (a.position ?? 0) - (b.position ?? 0);
+
+const byText: Comparator = (a, b) => a.text.localeCompare(b.text, getLocale(), { sensitivity: "base" });
+
+// Cada modo define a chave principal seguida dos critérios de desempate.
+const SORT_KEYS: Record<SortMode, Comparator[]> = {
+  [SortMode.Priority]: [byDone, byPriority, byDueDate, byCreatedDesc],
+  [SortMode.DueDate]: [byDone, byDueDate, byPriority, byCreatedDesc],
+  [SortMode.Created]: [byDone, byCreatedDesc],
+  [SortMode.Alphabetical]: [byDone, byText, byCreatedDesc],
+  [SortMode.Manual]: [byPosition, byCreatedAsc],
+};
+
+export function sortTodos(todos: TodoItem[], mode: SortMode): TodoItem[] {
+  const keys = SORT_KEYS[mode] ?? SORT_KEYS[SortMode.DueDate];
+  return [...todos].sort((a, b) => {
+    for (const compare of keys) {
+      const result = compare(a, b);
+      if (result !== 0) return result;
+    }
+    return 0;
+  });
+}
+
+export function isSortMode(value: unknown): value is SortMode {
+  return Object.values(SortMode).includes(value as SortMode);
+}
+
+/**
+ * Aplica uma nova ordem a um subconjunto visível das tarefas (por exemplo, só as pendentes),
+ * mantendo as demais nas posições que já ocupavam. Retorna todos os ids na nova ordem manual.
+ */
+export function mergeManualOrder(todos: TodoItem[], reorderedIds: string[]): string[] {
+  const reordered = new Set(reorderedIds);
+  const queue = [...reorderedIds];
+  return sortTodos(todos, SortMode.Manual).map(todo =>
+    reordered.has(todo.id) ? queue.shift()! : todo.id
+  );
+}
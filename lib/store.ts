@@ -0,0 +1,154 @@
+// Cache das consultas ao banco, compartilhado entre as telas. Toda função de escrita avisa com
+// notifyChange quais dados mudaram, e as consultas que dependem deles são refeitas, então uma tela
+// reflete o que foi alterado em outra sem recarregar ao ganhar foco.
+
+import { TodoItem } from "./types";
+
+export type DataTopic = "todos" | "lists" | "subtasks" | "tags" | "reminders" | "filters" | "preferences";
+
+export const ALL_DATA_TOPICS: DataTopic[] = ["todos", "lists", "subtasks", "tags", "reminders", "filters", "preferences"];
+
+export type QueryState<T> = {
+  data?: T;
+  error?: unknown;
+  loading: boolean; // só na primeira carga; refeitas mantêm os dados anteriores na tela
+};
+
+export type QueryOptions<T> = {
+  topics: DataTopic[];
+  fetcher: () => Promise<T>;
+};
+
+type QueryEntry = {
+  key: string;
+  topics: DataTopic[];
+  fetcher: () => Promise<unknown>;
+  state: QueryState<unknown>;
+  listeners: Set<() => void>;
+  stale: boolean;
+  fetching: boolean;
+  evictionTimer?: ReturnType<typeof setTimeout>;
+};
+
+// Sem inscritos, a consulta ainda fica no cache por um tempo: uma tela que volta não começa do zero.
+export const QUERY_EVICTION_MS = 30_000;
+
+// Chaves das consultas de tarefas começam com "todos:", o que permite aplicar atualizações otimistas em todas.
+export const QueryKeys = {
+  lists: "lists",
+  tags: "tags",
+  todoTags: "todoTags",
+  subtaskProgress: "subtaskProgress",
+  savedFilters: "savedFilters",
+  settings: "settings",
+  todo: (id: string) => `todo:${id}`,
+  subtasks: (todoId: string) => `subtasks:${todoId}`,
+  tagsByTodo: (todoId: string) => `tags:todo:${todoId}`,
+  reminders: (todoId: string) => `reminders:${todoId}`,
+  todos: (listId?: string) => (listId ? `todos:list:${listId}` : "todos:all"),
+  smartView: (view: string) => `todos:view:${view}`,
+  savedFilter: (id: string) => `todos:filter:${id}`,
+  deletedTodos: "todos:deleted",
+};
+
+const LOADING: QueryState<never> = { loading: true };
+
+const queries = new Map<string, QueryEntry>();
+const changedTopics = new Set<DataTopic>();
+let flushScheduled = false;
+
+/**
+ * Inscreve `listener` na consulta `key`, criando-a na primeira inscrição e buscando os dados se estiverem
+ * desatualizados. Quando o último inscrito sai, a consulta é descartada depois de QUERY_EVICTION_MS.
+ */
+export function subscribeQuery<T>(key: string, options: QueryOptions<T>, listener: () => void): () => void {
+  let entry = queries.get(key);
+  if (entry) {
+    entry.topics = options.topics;
+    entry.fetcher = options.fetcher;
+    clearTimeout(entry.evictionTimer);
+  } else {
+    entry = { key, ...options, state: LOADING, listeners: new Set(), stale: true, fetching: false };
+    queries.set(key, entry);
+  }
+
+  const subscribed = entry;
+  subscribed.listeners.add(listener);
+  if (subscribed.stale) fetchQuery(subscribed);
+  return () => {
+    subscribed.listeners.delete(listener);
+    if (subscribed.listeners.size > 0) return;
+    subscribed.evictionTimer = setTimeout(() => {
+      if (queries.get(key) === subscribed && subscribed.listeners.size === 0) queries.delete(key);
+    }, QUERY_EVICTION_MS);
+  };
+}
+
+// Devolve sempre o mesmo objeto enquanto nada muda, como exige o useSyncExternalStore.
+export function getQueryState<T>(key: string): QueryState<T> {
+  return (queries.get(key)?.state ?? LOADING) as QueryState<T>;
+}
+
+function setState(entry: QueryEntry, state: QueryState<unknown>) {
+  entry.state = state;
+  entry.listeners.forEach(listener => listener());
+}
+
+async function fetchQuery(entry: QueryEntry) {
+  // Uma escrita durante a busca marca a consulta como desatualizada e ela é refeita ao terminar.
+  if (entry.fetching) return;
+  entry.fetching = true;
+  entry.stale = false;
+
+  try {
+    const data = await entry.fetcher();
+    setState(entry, { data, loading: false });
+  } catch (error) {
+    console.error(`Error loading ${entry.key}:`, error);
+    setState(entry, { data: entry.state.data, error, loading: false });
+  } finally {
+    entry.fetching = false;
+    if (entry.stale && entry.listeners.size > 0) fetchQuery(entry);
+  }
+}
+
+// Escritas em sequência (ou dentro de uma transação) geram uma única rodada de consultas.
+export function notifyChange(...topics: DataTopic[]) {
+  topics.forEach(topic => changedTopics.add(topic));
+  if (flushScheduled) return;
+
+  flushScheduled = true;
+  setTimeout(() => {
+    flushScheduled = false;
+    const changed = new Set(changedTopics);
+    changedTopics.clear();
+
+    for (const entry of queries.values()) {
+      if (!entry.topics.some(topic => changed.has(topic))) continue;
+      entry.stale = true;
+      if (entry.listeners.size > 0) fetchQuery(entry);
+    }
+  }, 0);
+}
+
+export function setQueryData<T>(key: string, updater: (data: T) => T) {
+  const entry = queries.get(key);
+  if (!entry || entry.state.data === undefined) return;
+  setState(entry, { ...entry.state, data: updater(entry.state.data as T) });
+}
+
+// Atualizações otimistas: a tela muda na hora e a consulta refeita após a escrita traz o estado real.
+export function patchCachedTodo(id: string, patch: Partial<TodoItem>) {
+  for (const entry of queries.values()) {
+    if (entry.key.startsWith("todos:")) {
+      setQueryData<TodoItem[]>(entry.key, todos => todos.map(todo => (todo.id === id ? { ...todo, ...patch } : todo)));
+    }
+  }
+  setQueryData<TodoItem | null>(QueryKeys.todo(id), todo => (todo ? { ...todo, ...patch } : todo));
+}
+
+export function addCachedTodo(todo: TodoItem) {
+  for (const key of [QueryKeys.todos(), QueryKeys.todos(todo.listId)]) {
+    setQueryData<TodoItem[]>(key, todos => [...todos, todo]);
+  }
+}
@@ -0,0 +1,402 @@
+// Sincronização em mão dupla de tarefas (todos) e listas (todo_lists) com um servidor.
+// O motor só conhece a interface SyncTransport; lib/syncHttp.ts implementa o contrato REST abaixo,
+// e um servidor falso em memória pode tomar o lugar dele.
+//
+// Contrato REST (JSON, instantes ISO 8601 em UTC com milissegundos, como Date.toISOString):
+//   POST {base}/sync/push   corpo { deviceId, changes: SyncChange[] }  → 2xx
+//   GET  {base}/sync/pull?since={cursor}                                 → { changes, cursor, hasMore? }
+// O servidor guarda, para cada (entity, id), a mudança de maior updatedAt e devolve no pull as mudanças
+// posteriores ao cursor, em ordem. O cursor é opaco para o app; sem `since`, o servidor envia tudo.
+//
+// Conflitos: a última escrita vence (maior updatedAt; empate fica com a versão local). Quando uma mudança
+// do servidor encontra uma alteração local ainda não enviada, o resultado vai para sync_conflicts.
+// Subtarefas, etiquetas e lembretes ainda não são sincronizados.
+
+import * as crypto from "expo-crypto";
+import { SQLiteDatabase } from "expo-sqlite";
+import { BackupList, BackupTodo } from "./backup";
+import { DEFAULT_LIST_ID, syncTodoReminders } from "./db";
+import { getReminderScheduler } from "./reminders";
+import { fromBackupTodo, toBackupList, toBackupTodo, TodoListRow, TodoRow } from "./rows";
+import { notifyChange } from "./store";
+
+export type SyncEntity = "todo" | "list";
+
+export type SyncTodo = BackupTodo & { updatedAt: string };
+export type SyncList = BackupList & { updatedAt: string };
+
+export type SyncChange =
+  | { entity: "todo"; id: string; op: "upsert"; updatedAt: string; data: SyncTodo }
+  | { entity: "list"; id: string; op: "upsert"; updatedAt: string; data: SyncList }
+  | { entity: SyncEntity; id: string; op: "delete"; updatedAt: string };
+
+export type PushRequest = { deviceId: string; changes: SyncChange[] };
+export type PullResponse = { changes: SyncChange[]; cursor: string; hasMore?: boolean };
+
+export interface SyncTransport {
+  push(request: PushRequest): Promise<void>;
+  pull(since: string | null): Promise<PullResponse>;
+}
+
+export type SyncConflict = {
+  id: number;
+  entity: SyncEntity;
+  entityId: string;
+  winner: "local" | "remote";
+  localUpdatedAt: string | null;
+  remoteUpdatedAt: string;
+  localData: SyncTodo | SyncList | null; // null quando a versão local já tinha sido excluída
+  remoteData: SyncTodo | SyncList | null; // null quando o servidor excluiu
+  createdAt: string;
+};
+
+export type SyncResult = { pulled: number; pushed: number; conflicts: number };
+
+export type SyncStateKey = "deviceId" | "pullCursor" | "lastSyncedAt" | "serverUrl" | "token";
+
+const TABLES: Record<SyncEntity, string> = { todo: "todos", list: "todo_lists" };
+
+// Linhas de todos e todo_lists com a coluna que a sincronização acrescentou.
+type SyncedTodoRow = TodoRow & { updatedAt: string };
+type SyncedListRow = TodoListRow & { updatedAt: string };
+type SyncedRow = SyncedTodoRow | SyncedListRow;
+
+type ConflictRow = Omit<SyncConflict, "localData" | "remoteData"> & {
+  localData: string | null;
+  remoteData: string | null;
+};
+const PUSH_BATCH_SIZE = 100;
+
+// Estado ------------------------------------------------------------------------
+
+export async function getSyncState(db: SQLiteDatabase, key: SyncStateKey): Promise<string | null> {
+  const row = await db.getFirstAsync<{ value: string | null }>("SELECT value FROM sync_state WHERE key = ?;", [key]);
+  return row?.value ?? null;
+}
+
+export async function setSyncState(db: SQLiteDatabase, key: SyncStateKey, value: string | null): Promise<void> {
+  await db.runAsync(
+    "INSERT INTO sync_state (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value;",
+    [key, value]
+  );
+}
+
+async function getDeviceId(db: SQLiteDatabase): Promise<string> {
+  let deviceId = await getSyncState(db, "deviceId");
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    await setSyncState(db, "deviceId", deviceId);
+  }
+  return deviceId;
+}
+
+export async function getPendingChangeCount(db: SQLiteDatabase): Promise<number> {
+  const row = await db.getFirstAsync<{ count: number }>("SELECT COUNT(*) AS count FROM sync_outbox;");
+  return row?.count ?? 0;
+}
+
+export async function getSyncConflicts(db: SQLiteDatabase, limit = 50): Promise<SyncConflict[]> {
+  const rows = await db.getAllAsync<ConflictRow>(
+    "SELECT * FROM sync_conflicts ORDER BY id DESC LIMIT ?;",
+    [limit]
+  );
+  return rows.map(row => ({
+    ...row,
+    localData: row.localData ? JSON.parse(row.localData) : null,
+    remoteData: row.remoteData ? JSON.parse(row.remoteData) : null,
+  }));
+}
+
+export async function clearSyncConflicts(db: SQLiteDatabase): Promise<void> {
+  await db.runAsync("DELETE FROM sync_conflicts;");
+}
+
+// Linhas ↔ mudanças ----------------------------------------------------------------
+
+function toSyncTodo(row: SyncedTodoRow): SyncTodo {
+  return { ...toBackupTodo(row), updatedAt: row.updatedAt };
+}
+
+function toSyncList(row: SyncedListRow): SyncList {
+  return { ...toBackupList(row), updatedAt: row.updatedAt };
+}
+
+function toSyncData(entity: SyncEntity, row: SyncedRow): SyncTodo | SyncList {
+  return entity === "todo" ? toSyncTodo(row as SyncedTodoRow) : toSyncList(row as SyncedListRow);
+}
+
+// Linha como ficaria gravada a partir de uma mudança do servidor; id e updatedAt vêm do envelope.
+function fromSyncTodo(change: SyncChange & { entity: "todo"; op: "upsert" }): SyncedTodoRow {
+  const todo = change.data;
+  return {
+    ...fromBackupTodo({ ...todo, id: change.id, listId: todo.listId ?? DEFAULT_LIST_ID }),
+    updatedAt: change.updatedAt,
+  };
+}
+
+function fromSyncList(change: SyncChange & { entity: "list"; op: "upsert" }): SyncedListRow {
+  return { ...toBackupList({ ...change.data, id: change.id }), updatedAt: change.updatedAt };
+}
+
+// Pull --------------------------------------------------------------------------
+
+type ApplyContext = {
+  result: SyncResult;
+  touchedTodos: Set<string>;
+  staleNotifications: string[];
+};
+
+function newApplyContext(): ApplyContext {
+  return { result: { pulled: 0, pushed: 0, conflicts: 0 }, touchedTodos: new Set(), staleNotifications: [] };
+}
+
+// Conteúdo igual dos dois lados (por exemplo, a lista padrão criada em cada aparelho) não é conflito.
+function sameContent(change: SyncChange, local: SyncedRow | null): boolean {
+  if (change.op === "delete" || !local) return change.op === "delete" && !local;
+  const remote = change.entity === "todo" ? fromSyncTodo(change) : fromSyncList(change);
+  const { updatedAt: _local, ...localData } = toSyncData(change.entity, local);
+  const { updatedAt: _remote, ...remoteData } = toSyncData(change.entity, remote);
+  return JSON.stringify(localData) === JSON.stringify(remoteData);
+}
+
+async function logConflict(
+  db: SQLiteDatabase,
+  change: SyncChange,
+  winner: "local" | "remote",
+  local: SyncedRow | null,
+  localUpdatedAt: string | null
+) {
+  if (sameContent(change, local)) return false;
+
+  await db.runAsync(
+    `INSERT INTO sync_conflicts (entity, entityId, winner, localUpdatedAt, remoteUpdatedAt, localData, remoteData, createdAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?);`,
+    [
+      change.entity,
+      change.id,
+      winner,
+      localUpdatedAt,
+      change.updatedAt,
+      local ? JSON.stringify(toSyncData(change.entity, local)) : null,
+      change.op === "upsert" ? JSON.stringify(change.data) : null,
+      new Date().toISOString(),
+    ]
+  );
+  return true;
+}
+
+async function deleteLocalTodo(db: SQLiteDatabase, id: string, context: ApplyContext) {
+  const reminders = await db.getAllAsync<{ notificationId: string }>(
+    "SELECT notificationId FROM reminders WHERE todoId = ? AND notificationId IS NOT NULL;",
+    [id]
+  );
+  context.staleNotifications.push(...reminders.map(reminder => reminder.notificationId));
+
+  await db.runAsync("DELETE FROM todo_subtasks WHERE todoId = ?;", [id]);
+  await db.runAsync("DELETE FROM todo_tags WHERE todoId = ?;", [id]);
+  await db.runAsync("DELETE FROM reminders WHERE todoId = ?;", [id]);
+  await db.runAsync("DELETE FROM todos WHERE id = ?;", [id]);
+}
+
+async function upsertLocalRow(db: SQLiteDatabase, change: SyncChange & { op: "upsert" }) {
+  // updatedAt vem do servidor: os gatilhos de sync ignoram a escrita e nada volta para o outbox.
+  if (change.entity === "todo") {
+    const todo = fromSyncTodo(change);
+    await db.runAsync(
+      `INSERT INTO todos (id, text, done, createdAt, listId, notes, dueDate, allDay, deletedAt, recurrence, priority, position, updatedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET text = excluded.text, done = excluded.done, createdAt = excluded.createdAt,
+         listId = excluded.listId, notes = excluded.notes, dueDate = excluded.dueDate, allDay = excluded.allDay,
+         deletedAt = excluded.deletedAt, recurrence = excluded.recurrence, priority = excluded.priority,
+         position = excluded.position, updatedAt = excluded.updatedAt;`,
+      [
+        todo.id, todo.text, todo.done, todo.createdAt, todo.listId, todo.notes, todo.dueDate, todo.allDay,
+        todo.deletedAt, todo.recurrence, todo.priority, todo.position, todo.updatedAt,
+      ]
+    );
+  } else {
+    const list = fromSyncList(change);
+    await db.runAsync(
+      `INSERT INTO todo_lists (id, name, color, icon, position, updatedAt) VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET name = excluded.name, color = excluded.color, icon = excluded.icon,
+         position = excluded.position, updatedAt = excluded.updatedAt;`,
+      [list.id, list.name, list.color, list.icon, list.position, list.updatedAt]
+    );
+  }
+}
+
+async function applyRemoteChange(db: SQLiteDatabase, change: SyncChange, context: ApplyContext) {
+  const table = TABLES[change.entity];
+  if (!table || (change.op !== "upsert" && change.op !== "delete")) return;
+
+  const key = [change.entity, change.id];
+  const local = await db.getFirstAsync<SyncedRow>(`SELECT * FROM ${table} WHERE id = ?;`, [change.id]);
+  const tombstone = await db.getFirstAsync<{ deletedAt: string }>(
+    "SELECT deletedAt FROM sync_tombstones WHERE entity = ? AND entityId = ?;",
+    key
+  );
+  const pending = await db.getFirstAsync<Pick<OutboxRow, "op">>("SELECT op FROM sync_outbox WHERE entity = ? AND entityId = ?;", key);
+  const localUpdatedAt: string | null = local?.updatedAt ?? tombstone?.deletedAt ?? null;
+
+  if (localUpdatedAt !== null && change.updatedAt <= localUpdatedAt) {
+    // Versão local mais nova (ou o eco do que este aparelho já enviou).
+    if (pending && change.updatedAt < localUpdatedAt && (await logConflict(db, change, "local", local, localUpdatedAt))) {
+      context.result.conflicts++;
+    }
+    return;
+  }
+
+  if (pending && (await logConflict(db, change, "remote", local, localUpdatedAt))) {
+    context.result.conflicts++;
+  }
+
+  if (change.op === "delete") {
+    if (change.entity === "todo") {
+      await deleteLocalTodo(db, change.id, context);
+    } else if (change.id !== DEFAULT_LIST_ID) {
+      await db.runAsync("UPDATE todos SET listId = ? WHERE listId = ?;", [DEFAULT_LIST_ID, change.id]);
+      await db.runAsync("DELETE FROM todo_lists WHERE id = ?;", [change.id]);
+    }
+    await db.runAsync(
+      `INSERT INTO sync_tombstones (entity, entityId, deletedAt) VALUES (?, ?, ?)
+       ON CONFLICT(entity, entityId) DO UPDATE SET deletedAt = excluded.deletedAt;`,
+      [...key, change.updatedAt]
+    );
+  } else {
+    await upsertLocalRow(db, change);
+    await db.runAsync("DELETE FROM sync_tombstones WHERE entity = ? AND entityId = ?;", key);
+  }
+
+  // A versão do servidor venceu: a alteração local pendente (e o que os gatilhos enfileiraram agora) é descartada.
+  await db.runAsync("DELETE FROM sync_outbox WHERE entity = ? AND entityId = ?;", key);
+
+  if (change.entity === "todo") {
+    // Tarefa de uma lista que não existe neste aparelho (já excluída aqui, por exemplo): vai para a lista
+    // padrão, como em deleteList, antes que a chave estrangeira seja conferida no fim da transação.
+    // Essa mudança local é enviada no push.
+    await db.runAsync(
+      "UPDATE todos SET listId = ? WHERE id = ? AND listId NOT IN (SELECT id FROM todo_lists);",
+      [DEFAULT_LIST_ID, change.id]
+    );
+    context.touchedTodos.add(change.id);
+  }
+  context.result.pulled++;
+}
+
+// Push --------------------------------------------------------------------------
+
+type OutboxRow = { entity: SyncEntity; entityId: string; op: "upsert" | "delete"; changedAt: string };
+
+async function buildChange(db: SQLiteDatabase, entry: OutboxRow): Promise<SyncChange | null> {
+  if (entry.op === "delete") {
+    const tombstone = await db.getFirstAsync<{ deletedAt: string }>(
+      "SELECT deletedAt FROM sync_tombstones WHERE entity = ? AND entityId = ?;",
+      [entry.entity, entry.entityId]
+    );
+    return { entity: entry.entity, id: entry.entityId, op: "delete", updatedAt: tombstone?.deletedAt ?? entry.changedAt };
+  }
+
+  const row = await db.getFirstAsync<SyncedRow>(
+    `SELECT * FROM ${TABLES[entry.entity]} WHERE id = ?;`,
+    [entry.entityId]
+  );
+  if (!row) return null;
+
+  return entry.entity === "todo"
+    ? { entity: "todo", id: row.id, op: "upsert", updatedAt: row.updatedAt, data: toSyncTodo(row as SyncedTodoRow) }
+    : { entity: "list", id: row.id, op: "upsert", updatedAt: row.updatedAt, data: toSyncList(row as SyncedListRow) };
+}
+
+async function pushOutbox(db: SQLiteDatabase, transport: SyncTransport, result: SyncResult) {
+  const deviceId = await getDeviceId(db);
+  // Listas antes das tarefas, para o servidor nunca receber uma tarefa de lista desconhecida.
+  const entries = await db.getAllAsync<OutboxRow>(
+    "SELECT * FROM sync_outbox ORDER BY CASE entity WHEN 'list' THEN 0 ELSE 1 END, changedAt;"
+  );
+
+  for (let start = 0; start < entries.length; start += PUSH_BATCH_SIZE) {
+    const batch = entries.slice(start, start + PUSH_BATCH_SIZE);
+    const changes: SyncChange[] = [];
+    for (const entry of batch) {
+      const change = await buildChange(db, entry);
+      if (change) changes.push(change);
+    }
+
+    if (changes.length > 0) {
+      await transport.push({ deviceId, changes });
+    }
+
+    // Só sai do outbox o que não mudou de novo enquanto o envio estava em andamento.
+    await db.withTransactionAsync(async () => {
+      for (const entry of batch) {
+        await db.runAsync(
+          "DELETE FROM sync_outbox WHERE entity = ? AND entityId = ? AND changedAt = ?;",
+          [entry.entity, entry.entityId, entry.changedAt]
+        );
+      }
+    });
+    result.pushed += changes.length;
+  }
+}
+
+// Ciclo completo ------------------------------------------------------------------
+
+let runningSync: Promise<SyncResult> | null = null;
+
+/**
+ * Recebe as mudanças do servidor (aplicando a regra da última escrita) e depois envia o outbox.
+ * Chamadas simultâneas compartilham a mesma execução. Erros do transporte são repassados a quem chamou;
+ * o que já foi aplicado fica gravado e o resto é retomado na próxima sincronização.
+ */
+export function syncNow(db: SQLiteDatabase, transport: SyncTransport): Promise<SyncResult> {
+  if (!runningSync) {
+    runningSync = runSync(db, transport).finally(() => {
+      runningSync = null;
+    });
+  }
+  return runningSync;
+}
+
+async function runSync(db: SQLiteDatabase, transport: SyncTransport): Promise<SyncResult> {
+  const context = newApplyContext();
+
+  try {
+    let cursor = await getSyncState(db, "pullCursor");
+    for (;;) {
+      const response = await transport.pull(cursor);
+      // Cada página entra no contexto só depois que a transação dela foi gravada.
+      const page = newApplyContext();
+      await db.withTransactionAsync(async () => {
+        for (const change of response.changes) {
+          await applyRemoteChange(db, change, page);
+        }
+        await setSyncState(db, "pullCursor", response.cursor);
+      });
+      context.result.pulled += page.result.pulled;
+      context.result.conflicts += page.result.conflicts;
+      page.touchedTodos.forEach(id => context.touchedTodos.add(id));
+      context.staleNotifications.push(...page.staleNotifications);
+      cursor = response.cursor;
+      if (!response.hasMore || response.changes.length === 0) break;
+    }
+  } finally {
+    // Excluir uma tarefa remota também apaga as subtarefas, etiquetas e lembretes dela.
+    notifyChange("todos", "lists", "subtasks", "tags", "reminders");
+    // As notificações ficam fora da transação, como na importação de backup.
+    const scheduler = getReminderScheduler();
+    for (const notificationId of context.staleNotifications) {
+      try {
+        await scheduler.cancel(notificationId);
+      } catch (error) {
+        console.error("Error cancelling reminder:", error);
+      }
+    }
+    for (const todoId of context.touchedTodos) {
+      await syncTodoReminders(db, todoId);
+    }
+  }
+
+  await pushOutbox(db, transport, context.result);
+  await setSyncState(db, "lastSyncedAt", new Date().toISOString());
+  return context.result;
+}
@@ -0,0 +1,42 @@
+// Transporte da sincronização sobre HTTP, seguindo o contrato REST descrito em lib/sync.ts.
+
+import { PullResponse, PushRequest, SyncTransport } from "./sync";
+
+export type HttpTransportOptions = {
+  baseUrl: string;
+  token?: string; // enviado como "Authorization: Bearer"
+  fetch?: typeof fetch;
+};
+
+export function createHttpTransport({ baseUrl, token, fetch: fetchImpl = fetch }: HttpTransportOptions): SyncTransport {
+  const base = baseUrl.trim().replace(/\/+$/, "");
+  const headers: Record<string, string> = { Accept: "application/json", "Content-Type": "application/json" };
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  return {
+    async push(request: PushRequest): Promise<void> {
+      const response = await fetchImpl(`${base}/sync/push`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        throw new Error(`Sync push failed with HTTP ${response.status}`);
+      }
+    },
+
+    async pull(since: string | null): Promise<PullResponse> {
+      const query = since ? `?since=${encodeURIComponent(since)}` : "";
+      const response = await fetchImpl(`${base}/sync/pull${query}`, { headers });
+      if (!response.ok) {
+        throw new Error(`Sync pull failed with HTTP ${response.status}`);
+      }
+
+      const body = await response.json();
+      if (!body || !Array.isArray(body.changes) || typeof body.cursor !== "string") {
+        throw new Error("Invalid sync pull response");
+      }
+      return { changes: body.changes, cursor: body.cursor, hasMore: !!body.hasMore };
+    },
+  };
+}
@@ -0,0 +1,477 @@
+// Importação de tarefas vindas de outros apps: CSV do Todoist, CSV genérico com mapeamento de colunas
+// e checklists em texto ou Markdown colados. Os leitores são puros e devolvem um ImportPlan, mostrado
+// como prévia antes de importTasks gravar tudo numa transação.
+
+import * as crypto from "expo-crypto";
+import { SQLiteDatabase } from "expo-sqlite";
+import { isValidDate } from "./dates";
+import { DateOrder, getDateOrder, SUPPORTED_LOCALES, t } from "./i18n";
+import { createSubtask, DEFAULT_LIST_ID } from "./db";
+import { clearHistory } from "./history";
+import { createList } from "./listRepository";
+import { notifyChange } from "./store";
+import { createTodo } from "./todoRepository";
+import { foldText } from "./quickAdd";
+import { Priority, TodoList } from "./types";
+
+export type ImportSource = "todoist" | "csv" | "text";
+
+export type ImportedTask = {
+  text: string;
+  done: boolean;
+  notes?: string;
+  dueDate?: Date;
+  allDay: boolean;
+  priority: Priority;
+  tags: string[];
+  subtasks: { text: string; done: boolean }[];
+  listName?: string; // projeto/lista de origem; sem nome vai para a lista escolhida na importação
+};
+
+export type ImportPlan = {
+  tasks: ImportedTask[];
+  warnings: string[];
+};
+
+export type CsvField = "text" | "done" | "dueDate" | "notes" | "list" | "priority" | "tags";
+
+// Índice da coluna de cada campo; só "text" é obrigatório.
+export type CsvColumnMapping = Partial<Record<CsvField, number>> & { text: number };
+
+// Leitura de CSV ---------------------------------------------------------------
+
+/**
+ * Lê um CSV conforme a RFC 4180 (campos entre aspas podem ter separador, aspas duplicadas e quebras de linha).
+ * O separador é "," ou ";" (planilhas em português), escolhido pela primeira linha.
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^﻿/, "");
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = firstLine.split(";").length > firstLine.split(",").length ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ""));
+}
+
+// Valores -----------------------------------------------------------------------
+
+const DONE_WORDS = ["sim", "s", "yes", "y", "true", "1", "x", "concluida", "concluido", "completed", "complete", "done", "feito"];
+
+const PRIORITY_WORDS: Record<string, Priority> = {
+  nenhuma: Priority.None,
+  none: Priority.None,
+  normal: Priority.None,
+  baixa: Priority.Low,
+  low: Priority.Low,
+  media: Priority.Medium,
+  medium: Priority.Medium,
+  alta: Priority.High,
+  high: Priority.High,
+  urgente: Priority.Urgent,
+  urgent: Priority.Urgent,
+};
+
+function parseDone(value: string): boolean {
+  return DONE_WORDS.includes(foldText(value.trim()));
+}
+
+function parsePriority(value: string): Priority {
+  const folded = foldText(value.trim());
+  if (/^[0-4]$/.test(folded)) return Number(folded) as Priority;
+  return PRIORITY_WORDS[folded] ?? Priority.None;
+}
+
+function splitTags(value: string): string[] {
+  return value.split(/[,;]/).map(tag => tag.trim().replace(/^[#@]/, "")).filter(Boolean);
+}
+
+/**
+ * Aceita "AAAA-MM-DD", "dd/mm/aaaa" ou "mm/dd/aaaa" (conforme `order`, como parseDateInput) e, opcionalmente,
+ * um horário "HH:MM" depois da data, além de instantes ISO completos. Sem horário, o vencimento é de dia inteiro.
+ */
+export function parseImportedDate(
+  value: string,
+  order: DateOrder = getDateOrder()
+): { date: Date; allDay: boolean } | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const match =
+    trimmed.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::\d{2})?)?$/) ??
+    trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:,?\s+(\d{1,2}):(\d{2}))?$/);
+  if (match) {
+    const isoOrder = match[1].length === 4;
+    const year = Number(isoOrder ? match[1] : match[3]);
+    const [day, month] = isoOrder
+      ? [Number(match[3]), Number(match[2]) - 1]
+      : order === "dmy"
+        ? [Number(match[1]), Number(match[2]) - 1]
+        : [Number(match[2]), Number(match[1]) - 1];
+    if (!isValidDate(year, month, day)) return null;
+
+    if (match[4] === undefined) {
+      return { date: new Date(year, month, day), allDay: true };
+    }
+    const hours = Number(match[4]);
+    const minutes = Number(match[5]);
+    if (hours > 23 || minutes > 59) return null;
+    return { date: new Date(year, month, day, hours, minutes), allDay: false };
+  }
+
+  // Instante ISO com fuso, como "2026-10-20T13:00:00Z".
+  if (/^\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:?\d{2})$/.test(trimmed)) {
+    const date = new Date(trimmed);
+    if (!isNaN(date.getTime())) return { date, allDay: false };
+  }
+  return null;
+}
+
+function newTask(text: string): ImportedTask {
+  return { text, done: false, allDay: true, priority: Priority.None, tags: [], subtasks: [] };
+}
+
+function applyDueDate(task: ImportedTask, value: string, warnings: string[]) {
+  if (!value.trim()) return;
+  const parsed = parseImportedDate(value);
+  if (parsed) {
+    task.dueDate = parsed.date;
+    task.allDay = parsed.allDay;
+  } else {
+    warnings.push(t("import.unrecognizedDate", { task: task.text, value: value.trim() }));
+  }
+}
+
+// Todoist -----------------------------------------------------------------------
+
+// Prioridade do CSV do Todoist: 1 é a mais alta (p1) e 4 é "sem prioridade".
+const TODOIST_PRIORITIES: Record<string, Priority> = {
+  "1": Priority.Urgent,
+  "2": Priority.High,
+  "3": Priority.Medium,
+  "4": Priority.None,
+};
+
+/**
+ * Lê o CSV exportado de um projeto do Todoist (colunas TYPE, CONTENT, DESCRIPTION, PRIORITY, INDENT, DATE...).
+ * Cada arquivo é um projeto, então todas as tarefas vão para `projectName`. Tarefas com INDENT maior
+ * viram subtarefas da tarefa de nível 1 acima delas; linhas "note" são anexadas às notas.
+ */
+export function parseTodoistCsv(content: string, projectName?: string): ImportPlan {
+  const rows = parseCsv(content);
+  const warnings: string[] = [];
+  if (rows.length === 0) return { tasks: [], warnings };
+
+  const header = rows[0].map(cell => cell.trim().toUpperCase());
+  const column = (name: string) => header.indexOf(name);
+  const typeColumn = column("TYPE");
+  const contentColumn = column("CONTENT");
+  if (typeColumn < 0 || contentColumn < 0) {
+    throw new Error("Not a Todoist CSV: missing TYPE or CONTENT column");
+  }
+  const descriptionColumn = column("DESCRIPTION");
+  const priorityColumn = column("PRIORITY");
+  const indentColumn = column("INDENT");
+  const dateColumn = column("DATE");
+
+  const cell = (row: string[], index: number) => (index >= 0 ? row[index] ?? "" : "");
+  const tasks: ImportedTask[] = [];
+  let parent: ImportedTask | undefined;
+
+  for (const row of rows.slice(1)) {
+    const type = cell(row, typeColumn).trim().toLowerCase();
+    const rawContent = cell(row, contentColumn).trim();
+
+    if (type === "note" && rawContent) {
+      if (parent) parent.notes = parent.notes ? `${parent.notes}\n${rawContent}` : rawContent;
+      continue;
+    }
+    if (type !== "task" || !rawContent) continue;
+
+    // Etiquetas do Todoist ficam no próprio texto, como "@mercado".
+    const tags = Array.from(rawContent.matchAll(/(?:^|\s)@([\p{L}\p{N}_-]+)/gu), match => match[1]);
+    const text = rawContent.replace(/(?:^|\s)@[\p{L}\p{N}_-]+/gu, "").trim() || rawContent;
+    const indent = Number(cell(row, indentColumn)) || 1;
+
+    if (indent > 1 && parent) {
+      parent.subtasks.push({ text, done: false });
+      continue;
+    }
+
+    const task = newTask(text);
+    task.listName = projectName;
+    task.notes = cell(row, descriptionColumn).trim() || undefined;
+    task.priority = TODOIST_PRIORITIES[cell(row, priorityColumn).trim()] ?? Priority.None;
+    task.tags = tags;
+    applyDueDate(task, cell(row, dateColumn), warnings);
+
+    tasks.push(task);
+    parent = task;
+  }
+
+  return { tasks, warnings };
+}
+
+// CSV genérico ------------------------------------------------------------------
+
+// Cabeçalhos reconhecidos automaticamente, já sem acentos e em minúsculas.
+const CSV_HEADER_ALIASES: Record<CsvField, string[]> = {
+  text: ["tarefa", "titulo", "nome", "task", "title", "name", "subject", "content"],
+  done: ["concluida", "concluido", "feito", "status", "completed", "done", "complete"],
+  dueDate: ["vencimento", "data", "prazo", "due date", "due", "date", "duedate"],
+  notes: ["notas", "nota", "descricao", "observacoes", "notes", "note", "description", "body"],
+  list: ["lista", "projeto", "list", "project", "folder"],
+  priority: ["prioridade", "importancia", "priority", "importance"],
+  tags: ["etiquetas", "tags", "categorias", "labels", "categories"],
+};
+
+/** Sugere o mapeamento a partir da linha de cabeçalho; a tela deixa o usuário ajustar. */
+export function guessCsvMapping(header: string[]): CsvColumnMapping {
+  const folded = header.map(name => foldText(name.trim()));
+  const mapping: Partial<Record<CsvField, number>> = {};
+
+  for (const field of Object.keys(CSV_HEADER_ALIASES) as CsvField[]) {
+    const index = folded.findIndex(name => CSV_HEADER_ALIASES[field].includes(name));
+    if (index >= 0) mapping[field] = index;
+  }
+  return { ...mapping, text: mapping.text ?? 0 };
+}
+
+/** Lê um CSV qualquer com a primeira linha de cabeçalho, usando `mapping` para achar cada campo. */
+export function parseGenericCsv(content: string, mapping: CsvColumnMapping): ImportPlan {
+  const rows = parseCsv(content).slice(1);
+  const warnings: string[] = [];
+  const tasks: ImportedTask[] = [];
+  const cell = (row: string[], field: CsvField) => {
+    const index = mapping[field];
+    return index === undefined ? "" : (row[index] ?? "").trim();
+  };
+
+  for (const row of rows) {
+    const text = cell(row, "text");
+    if (!text) continue;
+
+    const task = newTask(text);
+    task.done = parseDone(cell(row, "done"));
+    task.notes = cell(row, "notes") || undefined;
+    task.listName = cell(row, "list") || undefined;
+    task.priority = parsePriority(cell(row, "priority"));
+    task.tags = splitTags(cell(row, "tags"));
+    applyDueDate(task, cell(row, "dueDate"), warnings);
+    tasks.push(task);
+  }
+
+  return { tasks, warnings };
+}
+
+// Texto e Markdown --------------------------------------------------------------
+
+const CHECKLIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s*)?(.*)$/;
+const CHECKBOX_ONLY = /^(\s*)\[([ xX])\]\s*(.*)$/;
+// "(vence 10/01/2030)" ou "(due 01/10/2030)": o sufixo da exportação em Markdown, em qualquer idioma.
+// Cada idioma tem seu grupo com a data; só o do idioma encontrado fica preenchido.
+const DUE_SUFFIX = new RegExp(
+  `\\s*\\((?:${SUPPORTED_LOCALES.map(locale =>
+    t("export.due", { date: "\0" }, locale).replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace("\0", "([^)]+)")
+  ).join("|")})\\)\\s*$`
+);
+
+/**
+ * Lê uma checklist colada: uma tarefa por linha, com ou sem marcador ("- ", "* ", "1. "),
+ * e "[x]" para concluída. Títulos "# Nome" mudam a lista das linhas seguintes, itens recuados
+ * viram subtarefas e outras linhas recuadas viram notas — o mesmo formato da exportação em Markdown.
+ */
+export function parseChecklist(content: string): ImportPlan {
+  const warnings: string[] = [];
+  const tasks: ImportedTask[] = [];
+  let listName: string | undefined;
+  let last: ImportedTask | undefined;
+
+  // Uma lista vazia exportada em qualquer idioma traz só o aviso de "nenhuma tarefa".
+  const emptyMarkers = SUPPORTED_LOCALES.map(locale => t("export.empty", {}, locale));
+
+  for (const line of content.replace(/^﻿/, "").split(/\r?\n/)) {
+    if (!line.trim() || emptyMarkers.includes(line.trim())) continue;
+
+    const heading = line.match(/^\s*#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      listName = unescapeMarkdown(heading[1]);
+      last = undefined;
+      continue;
+    }
+
+    const item = line.match(CHECKLIST_ITEM) ?? line.match(CHECKBOX_ONLY);
+    const indented = /^\s/.test(line);
+
+    if (indented && last) {
+      if (item && item[3].trim()) {
+        last.subtasks.push({ text: unescapeMarkdown(item[3].trim()), done: /x/i.test(item[2] ?? "") });
+      } else {
+        const note = unescapeMarkdown(line.trim());
+        last.notes = last.notes ? `${last.notes}\n${note}` : note;
+      }
+      continue;
+    }
+
+    let text = (item ? item[3] : line).trim();
+    if (!text) continue;
+
+    const task = newTask("");
+    task.done = /x/i.test(item?.[2] ?? "");
+    task.listName = listName;
+    const due = text.match(DUE_SUFFIX);
+    if (due) text = text.slice(0, due.index).trim();
+    task.text = unescapeMarkdown(text);
+    if (due) applyDueDate(task, due.slice(1).find(Boolean) ?? "", warnings);
+
+    tasks.push(task);
+    last = task;
+  }
+
+  return { tasks, warnings };
+}
+
+// Desfaz os escapes da exportação em Markdown (lib/listExport.ts).
+function unescapeMarkdown(value: string): string {
+  return value.replace(/\\([\\[\]*_`#>+.)-])/g, "$1");
+}
+
+// Prévia e gravação -------------------------------------------------------------
+
+export type ImportListTarget = {
+  name: string;
+  listId?: string; // lista existente de mesmo nome; sem id, a lista será criada
+  count: number;
+};
+
+/**
+ * Agrupa as tarefas pela lista de destino, comparando nomes sem diferenciar maiúsculas e acentos.
+ * Tarefas sem lista de origem vão para `fallbackList`.
+ */
+export function planImportLists(
+  plan: ImportPlan,
+  existingLists: TodoList[],
+  fallbackList: TodoList
+): ImportListTarget[] {
+  const byName = new Map(existingLists.map(list => [foldText(list.name.trim()), list]));
+  const targets = new Map<string, ImportListTarget>();
+
+  for (const task of plan.tasks) {
+    const name = task.listName?.trim();
+    const list = name ? byName.get(foldText(name)) : fallbackList;
+    const key = list ? list.id : foldText(name!);
+    const target = targets.get(key) ?? { name: list?.name ?? name!, listId: list?.id, count: 0 };
+    target.count++;
+    targets.set(key, target);
+  }
+
+  return Array.from(targets.values());
+}
+
+export type TaskImportSummary = {
+  lists: number;
+  todos: number;
+  subtasks: number;
+};
+
+/**
+ * Grava as tarefas do plano numa única transação: cria as listas que faltam com createList
+ * e insere tarefas, subtarefas e etiquetas. Se algo falhar, nada é gravado.
+ */
+export async function importTasks(
+  db: SQLiteDatabase,
+  plan: ImportPlan,
+  fallbackListId: string = DEFAULT_LIST_ID
+): Promise<TaskImportSummary> {
+  const summary: TaskImportSummary = { lists: 0, todos: 0, subtasks: 0 };
+
+  // createList e createTodo já avisam das mudanças, mas se a transação for desfeita as telas
+  // precisam consultar de novo para descartar o que leram no meio dela.
+  try {
+    await db.withTransactionAsync(async () => {
+      const lists = await db.getAllAsync<TodoList>("SELECT * FROM todo_lists;");
+      const listIds = new Map(lists.map(list => [foldText(list.name.trim()), list.id]));
+
+      for (const task of plan.tasks) {
+        let listId = fallbackListId;
+        const listName = task.listName?.trim();
+        if (listName) {
+          const key = foldText(listName);
+          if (!listIds.has(key)) {
+            listIds.set(key, (await createList(db, listName)).id);
+            summary.lists++;
+          }
+          listId = listIds.get(key)!;
+        }
+
+        const todo = await createTodo(
+          db, task.text, listId, task.notes, task.dueDate, undefined, task.priority, task.allDay
+        );
+        if (task.done) {
+          await db.runAsync("UPDATE todos SET done = 1 WHERE id = ?;", [todo.id]);
+        }
+        summary.todos++;
+
+        for (const subtask of task.subtasks) {
+          const created = await createSubtask(db, todo.id, subtask.text);
+          if (subtask.done) {
+            await db.runAsync("UPDATE todo_subtasks SET done = 1 WHERE id = ?;", [created.id]);
+          }
+          summary.subtasks++;
+        }
+
+        // Mesma regra de setTodoTags, sem abrir outra transação.
+        for (const name of new Map(task.tags.map(tag => [tag.toLowerCase(), tag])).values()) {
+          await db.runAsync(
+            "INSERT INTO tags (id, name) VALUES (?, ?) ON CONFLICT(name) DO NOTHING;",
+            [crypto.randomUUID(), name]
+          );
+          await db.runAsync(
+            "INSERT OR IGNORE INTO todo_tags (todoId, tagId) SELECT ?, id FROM tags WHERE name = ?;",
+            [todo.id, name]
+          );
+        }
+      }
+    });
+  } finally {
+    // createTodo e createList registram cada passo no histórico; uma importação não se desfaz por partes.
+    clearHistory();
+    notifyChange("todos", "lists", "subtasks", "tags");
+  }
+
+  return summary;
+}
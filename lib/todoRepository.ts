@@ -0,0 +1,757 @@
+// Acesso às tarefas (tabela todos). Todas as leituras passam por toTodoItem (lib/rows.ts);
+// as telas usam estas funções em vez de montar SQL.
+
+import { SQLiteDatabase } from "expo-sqlite";
+import * as crypto from "expo-crypto";
+import { addDays, encodeDueDate, formatDateOnly, startOfDay } from "./dates";
+import { captureTodoDependents, getDefaultListId, syncTodoReminders, TodoDependents } from "./db";
+import { FilterCriteria } from "./filters";
+import { forgetTodoHistory, recordHistory } from "./history";
+import { MessageKey } from "./i18n";
+import { getNextOccurrence, RecurrenceRule, serializeRecurrenceRule } from "./recurrence";
+import { getReminderScheduler } from "./reminders";
+import { toTodoItem, toTodoRow, TodoRow } from "./rows";
+import { buildFtsQuery, HIGHLIGHT_END, HIGHLIGHT_START } from "./search";
+import { SmartView, UPCOMING_DAYS } from "./smartViews";
+import { notifyChange } from "./store";
+import { Priority, SearchResult, TodoItem } from "./types";
+
+// Próxima posição livre na ordem manual de uma lista; recebe o listId como parâmetro.
+export const NEXT_POSITION_SQL = "SELECT COALESCE(MAX(position) + 1, 0) FROM todos WHERE listId = ?";
+
+// Linha crua, sem conversão: é o que o histórico guarda para desfazer.
+async function getTodoRow(db: SQLiteDatabase, id: string): Promise<TodoRow | null> {
+  return db.getFirstAsync<TodoRow>("SELECT * FROM todos WHERE id = ?;", [id]);
+}
+
+export async function getTodoById(db: SQLiteDatabase, id: string): Promise<TodoItem | null> {
+  const row = await db.getFirstAsync<TodoRow>("SELECT * FROM todos WHERE id = ?;", [id]);
+  return row ? toTodoItem(row) : null;
+}
+
+export async function getAllTodos(db: SQLiteDatabase): Promise<TodoItem[]> {
+  const result = await db.getAllAsync<TodoRow>("SELECT * FROM todos WHERE deletedAt IS NULL;");
+  return result.map(toTodoItem);
+}
+
+export async function getTodosByList(db: SQLiteDatabase, listId?: string): Promise<TodoItem[]> {
+  let result: TodoRow[];
+  
+  if (listId) {
+    result = await db.getAllAsync<TodoRow>(
+      "SELECT * FROM todos WHERE listId = ? AND deletedAt IS NULL;",
+      [listId]
+    );
+  } else {
+    result = await db.getAllAsync<TodoRow>("SELECT * FROM todos WHERE deletedAt IS NULL;");
+  }
+  
+  return result.map(toTodoItem);
+}
+
+// Condição "vence antes de `day`". Vencimentos de dia inteiro (AAAA-MM-DD) são comparados com a data
+// de calendário e os com horário (ISO em UTC) com `instant`; nos dois formatos a ordem do texto é a ordem cronológica.
+function dueBeforeSql(day: Date, instant: Date = startOfDay(day)): { sql: string; params: string[] } {
+  return {
+    sql: "((allDay = 1 AND dueDate < ?) OR (allDay = 0 AND dueDate < ?))",
+    params: [formatDateOnly(day), instant.toISOString()],
+  };
+}
+
+async function getTodosWhere(db: SQLiteDatabase, where: string, params: (string | number)[]): Promise<TodoItem[]> {
+  const result = await db.getAllAsync<TodoRow>(
+    `SELECT * FROM todos WHERE deletedAt IS NULL AND ${where} ORDER BY dueDate;`,
+    params
+  );
+  return result.map(toTodoItem);
+}
+
+// Tarefas de hoje (inclusive as já concluídas) e as pendentes atrasadas.
+export async function getTodosDueToday(db: SQLiteDatabase, now: Date = new Date()): Promise<TodoItem[]> {
+  const beforeTomorrow = dueBeforeSql(addDays(now, 1));
+  const beforeToday = dueBeforeSql(now);
+  return getTodosWhere(
+    db,
+    `dueDate IS NOT NULL AND ${beforeTomorrow.sql} AND (done = 0 OR NOT ${beforeToday.sql})`,
+    [...beforeTomorrow.params, ...beforeToday.params]
+  );
+}
+
+// Tarefas que vencem de hoje até o fim dos próximos UPCOMING_DAYS dias.
+export async function getUpcomingTodos(db: SQLiteDatabase, now: Date = new Date()): Promise<TodoItem[]> {
+  const beforeToday = dueBeforeSql(now);
+  const beforeEnd = dueBeforeSql(addDays(now, UPCOMING_DAYS));
+  return getTodosWhere(
+    db,
+    `dueDate IS NOT NULL AND NOT ${beforeToday.sql} AND ${beforeEnd.sql}`,
+    [...beforeToday.params, ...beforeEnd.params]
+  );
+}
+
+// Dia inteiro fica atrasada a partir do dia seguinte; com horário, assim que o horário passa.
+export async function getOverdueTodos(db: SQLiteDatabase, now: Date = new Date()): Promise<TodoItem[]> {
+  const beforeNow = dueBeforeSql(now, now);
+  return getTodosWhere(db, `done = 0 AND dueDate IS NOT NULL AND ${beforeNow.sql}`, beforeNow.params);
+}
+
+export async function getUndatedTodos(db: SQLiteDatabase): Promise<TodoItem[]> {
+  return getTodosWhere(db, "dueDate IS NULL", []);
+}
+
+export async function getSmartViewTodos(
+  db: SQLiteDatabase,
+  view: SmartView,
+  now: Date = new Date()
+): Promise<TodoItem[]> {
+  switch (view) {
+    case SmartView.Today:
+      return getTodosDueToday(db, now);
+    case SmartView.Upcoming:
+      return getUpcomingTodos(db, now);
+    case SmartView.Overdue:
+      return getOverdueTodos(db, now);
+    case SmartView.NoDate:
+      return getUndatedTodos(db);
+  }
+}
+
+function placeholders(count: number): string {
+  return new Array(count).fill("?").join(", ");
+}
+
+/**
+ * Compila os critérios de um filtro salvo para uma condição SQL sobre `todos`, com os valores em `params`.
+ * Critérios ausentes não restringem nada; sem nenhum critério o resultado é "1 = 1".
+ */
+export function compileFilterCriteria(
+  criteria: FilterCriteria,
+  now: Date = new Date()
+): { where: string; params: (string | number)[] } {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (criteria.listIds && criteria.listIds.length > 0) {
+    conditions.push(`listId IN (${placeholders(criteria.listIds.length)})`);
+    params.push(...criteria.listIds);
+  }
+
+  if (criteria.done !== undefined) {
+    conditions.push("done = ?");
+    params.push(criteria.done ? 1 : 0);
+  }
+
+  if (criteria.due) {
+    switch (criteria.due.kind) {
+      case "overdue": {
+        const beforeNow = dueBeforeSql(now, now);
+        conditions.push(`dueDate IS NOT NULL AND ${beforeNow.sql}`);
+        params.push(...beforeNow.params);
+        break;
+      }
+      case "today":
+      case "next": {
+        const days = criteria.due.kind === "today" ? 1 : Math.max(1, criteria.due.days);
+        const beforeToday = dueBeforeSql(now);
+        const beforeEnd = dueBeforeSql(addDays(now, days));
+        conditions.push(`dueDate IS NOT NULL AND NOT ${beforeToday.sql} AND ${beforeEnd.sql}`);
+        params.push(...beforeToday.params, ...beforeEnd.params);
+        break;
+      }
+      case "none":
+        conditions.push("dueDate IS NULL");
+        break;
+      case "any":
+        conditions.push("dueDate IS NOT NULL");
+        break;
+    }
+  }
+
+  const match = criteria.text ? buildFtsQuery(criteria.text) : "";
+  if (match) {
+    conditions.push("rowid IN (SELECT rowid FROM todos_fts WHERE todos_fts MATCH ?)");
+    params.push(match);
+  }
+
+  if (criteria.priorities && criteria.priorities.length > 0) {
+    conditions.push(`priority IN (${placeholders(criteria.priorities.length)})`);
+    params.push(...criteria.priorities);
+  }
+
+  if (criteria.tags && criteria.tags.length > 0) {
+    const tagged = `SELECT todo_tags.todoId FROM todo_tags JOIN tags ON tags.id = todo_tags.tagId
+      WHERE tags.name IN (${placeholders(criteria.tags.length)})`;
+    conditions.push(criteria.tagMode === "and"
+      ? `id IN (${tagged} GROUP BY todo_tags.todoId HAVING COUNT(DISTINCT tags.id) = ?)`
+      : `id IN (${tagged})`);
+    params.push(...criteria.tags);
+    if (criteria.tagMode === "and") {
+      params.push(new Set(criteria.tags.map(tag => tag.toLowerCase())).size);
+    }
+  }
+
+  return {
+    where: conditions.length > 0 ? conditions.map(c => `(${c})`).join(" AND ") : "1 = 1",
+    params,
+  };
+}
+
+export async function getTodosByFilter(
+  db: SQLiteDatabase,
+  criteria: FilterCriteria,
+  now: Date = new Date()
+): Promise<TodoItem[]> {
+  const { where, params } = compileFilterCriteria(criteria, now);
+  return getTodosWhere(db, where, params);
+}
+
+// Busca textual com prefixo e sem diferenciar acentos; `listId` restringe a busca a uma lista.
+export async function searchTodos(
+  db: SQLiteDatabase,
+  query: string,
+  options: { listId?: string; limit?: number } = {}
+): Promise<SearchResult[]> {
+  const match = buildFtsQuery(query);
+  if (!match) return [];
+
+  const params: (string | number)[] = [HIGHLIGHT_START, HIGHLIGHT_END, HIGHLIGHT_START, HIGHLIGHT_END, match];
+  let listFilter = "";
+  if (options.listId) {
+    listFilter = "AND todos.listId = ?";
+    params.push(options.listId);
+  }
+  params.push(options.limit ?? 50);
+
+  const rows = await db.getAllAsync<TodoRow & { textHighlight: string; notesHighlight: string | null }>(
+    `SELECT todos.*,
+       highlight(todos_fts, 0, ?, ?) AS textHighlight,
+       highlight(todos_fts, 1, ?, ?) AS notesHighlight
+     FROM todos_fts
+     JOIN todos ON todos.rowid = todos_fts.rowid
+     WHERE todos_fts MATCH ? AND todos.deletedAt IS NULL ${listFilter}
+     ORDER BY bm25(todos_fts)
+     LIMIT ?;`,
+    params
+  );
+
+  return rows.map(({ textHighlight, notesHighlight, ...todo }) => ({
+    todo: toTodoItem(todo),
+    textHighlight,
+    notesHighlight: notesHighlight ?? undefined,
+  }));
+}
+
+export async function getDeletedTodos(db: SQLiteDatabase): Promise<TodoItem[]> {
+  const result = await db.getAllAsync<TodoRow>(
+    "SELECT * FROM todos WHERE deletedAt IS NOT NULL ORDER BY deletedAt DESC;"
+  );
+  return result.map(toTodoItem);
+}
+
+
+export async function createTodo(
+  db: SQLiteDatabase,
+  text: string,
+  listId?: string,
+  notes?: string,
+  dueDate?: Date,
+  recurrence?: RecurrenceRule,
+  priority: Priority = Priority.None,
+  allDay: boolean = true
+): Promise<TodoItem> {
+  const id = crypto.randomUUID();
+  const createdAt = new Date().toISOString();
+  const dueDateString = encodeDueDate(dueDate, allDay);
+  const targetListId = listId ?? (await getDefaultListId(db));
+  
+  const result = await db.getFirstAsync<TodoRow>(
+    `INSERT INTO todos (id, text, done, createdAt, listId, notes, dueDate, allDay, recurrence, priority, position) 
+     VALUES (?, ?, 0, ?, ?, ?, ?, ?, ?, ?, (${NEXT_POSITION_SQL})) 
+     RETURNING *;`,
+    [id, text, createdAt, targetListId, notes || null, dueDateString, allDay ? 1 : 0, serializeRecurrenceRule(recurrence), priority, targetListId]
+  );
+
+  recordTodoBatch(db, "history.createTodo", { previous: [], createdIds: [id] });
+  notifyChange("todos");
+  return toTodoItem(result!);
+}
+
+// Troca o status dentro de uma transação já aberta; devolve o id da próxima ocorrência, se criada.
+async function applyTodoStatus(
+  db: SQLiteDatabase,
+  todo: TodoItem,
+  done: boolean
+): Promise<{ row: TodoRow | null; nextId: string | null }> {
+  const rule = todo.recurrence;
+  const completing = done && !todo.done;
+  const next = completing && rule
+    ? getNextOccurrence(rule, todo.dueDate)
+    : null;
+
+  const row = await db.getFirstAsync<TodoRow>(
+    "UPDATE todos SET done = ?, recurrence = ? WHERE id = ? RETURNING *;",
+    [done ? 1 : 0, completing ? null : serializeRecurrenceRule(rule), todo.id]
+  );
+  if (!next) return { row, nextId: null };
+
+  const nextId = crypto.randomUUID();
+  await db.runAsync(
+    `INSERT INTO todos (id, text, done, createdAt, listId, notes, dueDate, allDay, recurrence, priority, position)
+     VALUES (?, ?, 0, ?, ?, ?, ?, ?, ?, ?, (${NEXT_POSITION_SQL}));`,
+    [nextId, todo.text, new Date().toISOString(), todo.listId, todo.notes || null,
+     encodeDueDate(next.dueDate, todo.allDay), todo.allDay ? 1 : 0, serializeRecurrenceRule(next.rule),
+     todo.priority, todo.listId]
+  );
+  await db.runAsync(
+    `INSERT INTO todo_subtasks (id, todoId, text, done, position, createdAt)
+     SELECT lower(hex(randomblob(16))), ?, text, 0, position, ? FROM todo_subtasks WHERE todoId = ?;`,
+    [nextId, new Date().toISOString(), todo.id]
+  );
+  // Lembretes relativos ao vencimento acompanham a próxima ocorrência.
+  await db.runAsync(
+    `INSERT INTO reminders (id, todoId, kind, offsetMinutes, remindAt)
+     SELECT lower(hex(randomblob(16))), ?, kind, offsetMinutes, NULL FROM reminders
+     WHERE todoId = ? AND kind != 'custom';`,
+    [nextId, todo.id]
+  );
+  return { row, nextId };
+}
+
+// Ao concluir uma tarefa recorrente, a próxima ocorrência é criada e passa a carregar a regra.
+export async function updateTodoStatus(
+  db: SQLiteDatabase,
+  id: string,
+  done: boolean
+): Promise<TodoItem | null> {
+  let previous = null as TodoRow | null;
+  let result = null as TodoRow | null;
+  let nextId = null as string | null;
+
+  await db.withTransactionAsync(async () => {
+    previous = await getTodoRow(db, id);
+    if (!previous) return;
+
+    ({ row: result, nextId } = await applyTodoStatus(db, toTodoItem(previous), done));
+  });
+
+  if (!result || !previous) return null;
+  recordTodoBatch(db, done ? "history.completeTodo" : "history.reopenTodo", {
+    previous: [previous],
+    createdIds: nextId ? [nextId] : [],
+  });
+
+  // Concluir cancela os lembretes; reabrir agenda de novo os que ainda estão no futuro.
+  await syncTodoReminders(db, id);
+  if (nextId) {
+    await syncTodoReminders(db, nextId);
+    notifyChange("subtasks", "reminders");
+  }
+  notifyChange("todos");
+
+  return toTodoItem(result);
+}
+
+export async function updateTodo(
+  db: SQLiteDatabase,
+  id: string,
+  updates: {
+    text?: string;
+    notes?: string;
+    dueDate?: Date | null;
+    allDay?: boolean;
+    listId?: string;
+    recurrence?: RecurrenceRule | null;
+    priority?: Priority;
+  }
+): Promise<TodoItem | null> {
+  const previousRow = await getTodoRow(db, id);
+  if (!previousRow) return null;
+  const todo = toTodoItem(previousRow);
+
+  // `dueDate`/`recurrence: null` removem o valor; `undefined` mantém o atual.
+  const updated: TodoItem = {
+    ...todo,
+    text: updates.text ?? todo.text,
+    notes: updates.notes ?? todo.notes,
+    dueDate: updates.dueDate !== undefined ? updates.dueDate ?? undefined : todo.dueDate,
+    allDay: updates.allDay ?? todo.allDay,
+    listId: updates.listId ?? todo.listId,
+    recurrence: updates.recurrence !== undefined ? updates.recurrence ?? undefined : todo.recurrence,
+    priority: updates.priority ?? todo.priority,
+  };
+
+  // Ao mudar de lista, a tarefa vai para o final da lista de destino.
+  if (updated.listId !== todo.listId) {
+    const row = await db.getFirstAsync<{ position: number }>(
+      `SELECT (${NEXT_POSITION_SQL}) AS position;`,
+      [updated.listId]
+    );
+    updated.position = row?.position ?? 0;
+  }
+
+  const values = toTodoRow(updated);
+  const result = await db.getFirstAsync<TodoRow>(
+    `UPDATE todos 
+     SET text = ?, notes = ?, dueDate = ?, allDay = ?, listId = ?, recurrence = ?, priority = ?, position = ? 
+     WHERE id = ? 
+     RETURNING *;`,
+    [values.text, values.notes, values.dueDate, values.allDay, values.listId, values.recurrence, values.priority, values.position, id]
+  );
+
+  if (!result) return null;
+  recordTodoBatch(db, "history.editTodo", { previous: [previousRow], createdIds: [] });
+
+  const previous = toTodoRow(todo);
+  if (values.dueDate !== previous.dueDate || values.allDay !== previous.allDay || values.text !== previous.text) {
+    await syncTodoReminders(db, id);
+  }
+
+  notifyChange("todos");
+  return toTodoItem(result);
+}
+
+// Exclusão lógica: a tarefa vai para a lixeira e pode ser restaurada com restoreTodo.
+export async function deleteTodo(db: SQLiteDatabase, id: string): Promise<boolean> {
+  const previous = await getTodoRow(db, id);
+  const result = await db.runAsync(
+    "UPDATE todos SET deletedAt = ? WHERE id = ? AND deletedAt IS NULL;",
+    [new Date().toISOString(), id]
+  );
+  if (previous && result.changes > 0) {
+    recordTodoBatch(db, "history.deleteTodo", { previous: [previous], createdIds: [] });
+    await syncTodoReminders(db, id);
+    notifyChange("todos");
+  }
+  return result.changes > 0;
+}
+
+export async function restoreTodo(db: SQLiteDatabase, id: string): Promise<boolean> {
+  const previous = await getTodoRow(db, id);
+  const result = await db.runAsync(
+    "UPDATE todos SET deletedAt = NULL WHERE id = ?;",
+    [id]
+  );
+  if (previous && result.changes > 0) {
+    recordTodoBatch(db, "history.restoreTodo", { previous: [previous], createdIds: [] });
+    await syncTodoReminders(db, id);
+    notifyChange("todos");
+  }
+  return result.changes > 0;
+}
+
+// Remove definitivamente uma tarefa que já está na lixeira.
+export async function purgeTodo(db: SQLiteDatabase, id: string): Promise<boolean> {
+  let changes = 0;
+  await db.withTransactionAsync(async () => {
+    await db.runAsync(
+      "DELETE FROM todo_subtasks WHERE todoId IN (SELECT id FROM todos WHERE id = ? AND deletedAt IS NOT NULL);",
+      [id]
+    );
+    await db.runAsync(
+      "DELETE FROM todo_tags WHERE todoId IN (SELECT id FROM todos WHERE id = ? AND deletedAt IS NOT NULL);",
+      [id]
+    );
+    await db.runAsync(
+      "DELETE FROM reminders WHERE todoId IN (SELECT id FROM todos WHERE id = ? AND deletedAt IS NOT NULL);",
+      [id]
+    );
+    const result = await db.runAsync(
+      "DELETE FROM todos WHERE id = ? AND deletedAt IS NOT NULL;",
+      [id]
+    );
+    changes = result.changes;
+  });
+  if (changes === 0) return false;
+  // Apagar de vez não tem volta; o que o histórico tem dessa tarefa poderia recriá-la.
+  forgetTodoHistory([id]);
+  notifyChange("todos", "subtasks", "tags", "reminders");
+  return true;
+}
+
+export async function purgeDeletedTodos(db: SQLiteDatabase): Promise<number> {
+  let changes = 0;
+  let ids: string[] = [];
+  await db.withTransactionAsync(async () => {
+    ids = (await db.getAllAsync<{ id: string }>("SELECT id FROM todos WHERE deletedAt IS NOT NULL;")).map(
+      row => row.id
+    );
+    await db.runAsync(
+      "DELETE FROM todo_subtasks WHERE todoId IN (SELECT id FROM todos WHERE deletedAt IS NOT NULL);"
+    );
+    await db.runAsync(
+      "DELETE FROM todo_tags WHERE todoId IN (SELECT id FROM todos WHERE deletedAt IS NOT NULL);"
+    );
+    await db.runAsync(
+      "DELETE FROM reminders WHERE todoId IN (SELECT id FROM todos WHERE deletedAt IS NOT NULL);"
+    );
+    const result = await db.runAsync("DELETE FROM todos WHERE deletedAt IS NOT NULL;");
+    changes = result.changes;
+  });
+  if (changes === 0) return 0;
+  forgetTodoHistory(ids);
+  notifyChange("todos", "subtasks", "tags", "reminders");
+  return changes;
+}
+
+
+// Grava a ordem manual das tarefas; `orderedIds` deve conter os ids na ordem desejada.
+export async function reorderTodos(db: SQLiteDatabase, orderedIds: string[]): Promise<void> {
+  let previous: TodoRow[] = [];
+  await db.withTransactionAsync(async () => {
+    previous = await db.getAllAsync<TodoRow>(
+      `SELECT * FROM todos WHERE id IN (${placeholders(orderedIds.length)});`,
+      orderedIds
+    );
+    for (const [index, id] of orderedIds.entries()) {
+      await db.runAsync("UPDATE todos SET position = ? WHERE id = ?;", [index, id]);
+    }
+  });
+  recordTodoBatch(db, "history.reorderTodos", { previous, createdIds: [] });
+  notifyChange("todos");
+}
+
+
+/**
+ * Estado anterior de um lote de alterações: `previous` guarda as linhas como estavam antes e
+ * `createdIds` as tarefas que o lote criou (cópias e próximas ocorrências). Ver undoTodoBatch.
+ */
+export type TodoBatch = {
+  previous: TodoRow[];
+  createdIds: string[];
+};
+
+// Executa `apply` sobre as tarefas (fora da lixeira) numa única transação e devolve o lote para desfazer.
+async function runTodoBatch(
+  db: SQLiteDatabase,
+  label: MessageKey,
+  ids: string[],
+  apply: (todos: TodoItem[]) => Promise<string[]>
+): Promise<TodoBatch> {
+  const batch: TodoBatch = { previous: [], createdIds: [] };
+  if (ids.length === 0) return batch;
+
+  await db.withTransactionAsync(async () => {
+    batch.previous = await db.getAllAsync<TodoRow>(
+      `SELECT * FROM todos WHERE id IN (${placeholders(ids.length)}) AND deletedAt IS NULL
+       ORDER BY position, createdAt;`,
+      ids
+    );
+    batch.createdIds = await apply(batch.previous.map(toTodoItem));
+  });
+
+  recordTodoBatch(db, label, batch);
+  for (const id of [...batch.previous.map(row => row.id), ...batch.createdIds]) {
+    await syncTodoReminders(db, id);
+  }
+  notifyChange("todos", "subtasks", "tags", "reminders");
+  return batch;
+}
+
+export async function setTodosStatus(db: SQLiteDatabase, ids: string[], done: boolean): Promise<TodoBatch> {
+  return runTodoBatch(db, done ? "history.completeTodos" : "history.reopenTodos", ids, async (todos) => {
+    const createdIds: string[] = [];
+    for (const todo of todos) {
+      const { nextId } = await applyTodoStatus(db, todo, done);
+      if (nextId) createdIds.push(nextId);
+    }
+    return createdIds;
+  });
+}
+
+// Como em updateTodo, as tarefas movidas vão para o final da lista de destino, na ordem em que estavam.
+export async function moveTodos(db: SQLiteDatabase, ids: string[], listId: string): Promise<TodoBatch> {
+  return runTodoBatch(db, "history.moveTodos", ids, async (todos) => {
+    for (const todo of todos) {
+      if (todo.listId === listId) continue;
+      await db.runAsync(
+        `UPDATE todos SET listId = ?, position = (${NEXT_POSITION_SQL}) WHERE id = ?;`,
+        [listId, listId, todo.id]
+      );
+    }
+    return [];
+  });
+}
+
+// `dueDate: null` remove o vencimento.
+export async function setTodosDueDate(
+  db: SQLiteDatabase,
+  ids: string[],
+  dueDate: Date | null,
+  allDay: boolean = true
+): Promise<TodoBatch> {
+  return runTodoBatch(db, "history.editTodos", ids, async (todos) => {
+    for (const todo of todos) {
+      await db.runAsync(
+        "UPDATE todos SET dueDate = ?, allDay = ? WHERE id = ?;",
+        [encodeDueDate(dueDate ?? undefined, allDay), allDay ? 1 : 0, todo.id]
+      );
+    }
+    return [];
+  });
+}
+
+export async function setTodosPriority(db: SQLiteDatabase, ids: string[], priority: Priority): Promise<TodoBatch> {
+  return runTodoBatch(db, "history.editTodos", ids, async (todos) => {
+    for (const todo of todos) {
+      await db.runAsync("UPDATE todos SET priority = ? WHERE id = ?;", [priority, todo.id]);
+    }
+    return [];
+  });
+}
+
+// Exclusão lógica, como deleteTodo: as tarefas vão para a lixeira.
+export async function deleteTodos(db: SQLiteDatabase, ids: string[]): Promise<TodoBatch> {
+  return runTodoBatch(db, "history.deleteTodos", ids, async (todos) => {
+    const deletedAt = new Date().toISOString();
+    for (const todo of todos) {
+      await db.runAsync("UPDATE todos SET deletedAt = ? WHERE id = ?;", [deletedAt, todo.id]);
+    }
+    return [];
+  });
+}
+
+// A cópia fica pendente no final da mesma lista, com subtarefas (desmarcadas), etiquetas e lembretes.
+export async function duplicateTodos(db: SQLiteDatabase, ids: string[]): Promise<TodoBatch> {
+  return runTodoBatch(db, "history.duplicateTodos", ids, async (todos) => {
+    const createdIds: string[] = [];
+    for (const todo of todos) {
+      const copyId = crypto.randomUUID();
+      const createdAt = new Date().toISOString();
+      await db.runAsync(
+        `INSERT INTO todos (id, text, done, createdAt, listId, notes, dueDate, allDay, recurrence, priority, position)
+         SELECT ?, text, 0, ?, listId, notes, dueDate, allDay, recurrence, priority, (${NEXT_POSITION_SQL})
+         FROM todos WHERE id = ?;`,
+        [copyId, createdAt, todo.listId, todo.id]
+      );
+      await db.runAsync(
+        `INSERT INTO todo_subtasks (id, todoId, text, done, position, createdAt)
+         SELECT lower(hex(randomblob(16))), ?, text, 0, position, ? FROM todo_subtasks WHERE todoId = ?;`,
+        [copyId, createdAt, todo.id]
+      );
+      await db.runAsync(
+        "INSERT INTO todo_tags (todoId, tagId) SELECT ?, tagId FROM todo_tags WHERE todoId = ?;",
+        [copyId, todo.id]
+      );
+      await db.runAsync(
+        `INSERT INTO reminders (id, todoId, kind, offsetMinutes, remindAt)
+         SELECT lower(hex(randomblob(16))), ?, kind, offsetMinutes, remindAt FROM reminders WHERE todoId = ?;`,
+        [copyId, todo.id]
+      );
+      createdIds.push(copyId);
+    }
+    return createdIds;
+  });
+}
+
+/**
+ * Estado completo de algumas tarefas, para o histórico de desfazer: as linhas e, para poder
+ * recriar uma tarefa apagada de vez, suas subtarefas, etiquetas e lembretes.
+ */
+export type TodoState = TodoDependents & { rows: TodoRow[] };
+
+export async function captureTodoState(db: SQLiteDatabase, ids: string[]): Promise<TodoState> {
+  if (ids.length === 0) return { rows: [], subtasks: [], tags: [], reminders: [] };
+  return {
+    rows: await db.getAllAsync<TodoRow>(`SELECT * FROM todos WHERE id IN (${placeholders(ids.length)});`, ids),
+    ...(await captureTodoDependents(db, ids)),
+  };
+}
+
+/**
+ * Grava `state` numa transação: as linhas voltam como estavam (e são recriadas, com os dependentes,
+ * se tiverem sido apagadas) e as tarefas de `removeIds` são apagadas de vez com tudo o que têm.
+ * Não entra no histórico: é a operação usada para desfazer e refazer.
+ */
+export async function restoreTodoState(
+  db: SQLiteDatabase,
+  state: TodoState,
+  removeIds: string[] = []
+): Promise<void> {
+  if (removeIds.length > 0) {
+    const scheduled = await db.getAllAsync<{ notificationId: string }>(
+      `SELECT notificationId FROM reminders
+       WHERE todoId IN (${placeholders(removeIds.length)}) AND notificationId IS NOT NULL;`,
+      removeIds
+    );
+    for (const { notificationId } of scheduled) {
+      try {
+        await getReminderScheduler().cancel(notificationId);
+      } catch (error) {
+        console.error("Error cancelling reminder:", error);
+      }
+    }
+  }
+
+  await db.withTransactionAsync(async () => {
+    if (removeIds.length > 0) {
+      const inRemoved = `todoId IN (${placeholders(removeIds.length)})`;
+      await db.runAsync(`DELETE FROM todo_subtasks WHERE ${inRemoved};`, removeIds);
+      await db.runAsync(`DELETE FROM todo_tags WHERE ${inRemoved};`, removeIds);
+      await db.runAsync(`DELETE FROM reminders WHERE ${inRemoved};`, removeIds);
+      await db.runAsync(`DELETE FROM todos WHERE id IN (${placeholders(removeIds.length)});`, removeIds);
+    }
+
+    for (const row of state.rows) {
+      await db.runAsync(
+        `INSERT INTO todos (id, text, done, createdAt, listId, notes, dueDate, allDay, deletedAt, recurrence, priority, position)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           text = excluded.text, done = excluded.done, listId = excluded.listId, notes = excluded.notes,
+           dueDate = excluded.dueDate, allDay = excluded.allDay, deletedAt = excluded.deletedAt,
+           recurrence = excluded.recurrence, priority = excluded.priority, position = excluded.position;`,
+        [row.id, row.text, row.done, row.createdAt, row.listId, row.notes, row.dueDate, row.allDay,
+         row.deletedAt, row.recurrence, row.priority, row.position]
+      );
+    }
+    for (const subtask of state.subtasks) {
+      await db.runAsync(
+        `INSERT OR IGNORE INTO todo_subtasks (id, todoId, text, done, position, createdAt)
+         VALUES (?, ?, ?, ?, ?, ?);`,
+        [subtask.id, subtask.todoId, subtask.text, subtask.done, subtask.position, subtask.createdAt]
+      );
+    }
+    // Uma etiqueta excluída nesse meio-tempo não volta.
+    for (const { todoId, tagId } of state.tags) {
+      await db.runAsync(
+        "INSERT OR IGNORE INTO todo_tags (todoId, tagId) SELECT ?, id FROM tags WHERE id = ?;",
+        [todoId, tagId]
+      );
+    }
+    for (const reminder of state.reminders) {
+      await db.runAsync(
+        `INSERT OR IGNORE INTO reminders (id, todoId, kind, offsetMinutes, remindAt)
+         VALUES (?, ?, ?, ?, ?);`,
+        [reminder.id, reminder.todoId, reminder.kind, reminder.offsetMinutes, reminder.remindAt]
+      );
+    }
+  });
+
+  for (const row of state.rows) {
+    await syncTodoReminders(db, row.id);
+  }
+  notifyChange("todos", "subtasks", "tags", "reminders");
+}
+
+/** Desfaz um lote: as tarefas voltam ao estado de `previous` e as criadas por ele são apagadas de vez. */
+export async function undoTodoBatch(db: SQLiteDatabase, batch: TodoBatch): Promise<void> {
+  await restoreTodoState(db, { rows: batch.previous, subtasks: [], tags: [], reminders: [] }, batch.createdIds);
+}
+
+// O estado para refazer é lido na hora de desfazer, e assim inclui o que foi feito depois nas mesmas
+// tarefas sem passar pelo histórico (etiquetas de uma tarefa nova, por exemplo).
+function recordTodoBatch(db: SQLiteDatabase, label: MessageKey, batch: TodoBatch) {
+  const ids = [...batch.previous.map(row => row.id), ...batch.createdIds];
+  if (ids.length === 0) return;
+
+  let redoState: TodoState | null = null;
+  recordHistory({
+    label,
+    todoIds: ids,
+    undo: async () => {
+      redoState = await captureTodoState(db, ids);
+      await undoTodoBatch(db, batch);
+    },
+    redo: async () => {
+      if (redoState) await restoreTodoState(db, redoState);
+    },
+  });
+}
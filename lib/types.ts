@@ -1,5 +1,16 @@
+import { FilterCriteria } from "./filters";
+import { RecurrenceRule } from "./recurrence";
+
 export type uuid = string;
 
+export enum Priority {
+    None = 0,
+    Low = 1,
+    Medium = 2,
+    High = 3,
+    Urgent = 4
+}
+
 export type TodoItem = {
     id: uuid;
     text: string;
@@ -8,10 +19,67 @@ export type TodoItem = {
 
     listId: uuid,
     notes?: string,
-    dueDate?: Date
+    dueDate?: Date,
+    allDay: boolean, // sem horário: dueDate é a meia-noite local do dia
+    deletedAt?: Date,
+    recurrence?: RecurrenceRule,
+    priority: Priority,
+    position: number
 };
 
 export type TodoList = {
+    id: uuid,
+    name: string,
+    color: string,
+    icon: string,
+    position: number
+};
+
+export type ListDeleteStrategy =
+    | { type: "move", targetListId: uuid }
+    | { type: "delete-todos" };
+
+export type Subtask = {
+    id: uuid,
+    todoId: uuid,
+    text: string,
+    done: boolean,
+    position: number,
+    createdAt: Date
+};
+
+export type SubtaskProgress = {
+    done: number,
+    total: number
+};
+
+export type Tag = {
     id: uuid,
     name: string
-};
\ No newline at end of file
+};
+
+export type TagMatchMode = "and" | "or";
+
+export type SearchResult = {
+    todo: TodoItem,
+    textHighlight: string,
+    notesHighlight?: string
+};
+
+export type ReminderKind = "at-due" | "before" | "custom";
+
+export type Reminder = {
+    id: uuid,
+    todoId: uuid,
+    kind: ReminderKind,
+    offsetMinutes?: number, // só para "before"
+    remindAt?: Date, // só para "custom"
+    notificationId?: string // notificação local agendada no momento
+};
+
+export type SavedFilter = {
+    id: uuid,
+    name: string,
+    criteria: FilterCriteria,
+    position: number
+};
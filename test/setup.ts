@@ -0,0 +1,16 @@
+import { randomUUID } from "node:crypto";
+import { beforeEach, vi } from "vitest";
+import { clearHistory } from "@/lib/history";
+import { DEFAULT_FORMAT_PREFERENCES, setFormatPreferences, setLocale } from "@/lib/i18n";
+import { setReminderScheduler } from "@/lib/reminders";
+
+// expo-crypto depende do módulo nativo do Expo; nos testes o crypto do Node faz o mesmo papel.
+vi.mock("expo-crypto", () => ({ randomUUID }));
+
+// Estado de módulo que um teste pode alterar volta ao padrão antes do próximo.
+beforeEach(() => {
+  setReminderScheduler(null);
+  clearHistory();
+  setLocale("pt-BR");
+  setFormatPreferences(DEFAULT_FORMAT_PREFERENCES);
+});
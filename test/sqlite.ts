@@ -0,0 +1,76 @@
+// Banco em memória com a parte da API do expo-sqlite que o app usa (execAsync, runAsync,
+// getFirstAsync, getAllAsync e withTransactionAsync), sobre o better-sqlite3.
+
+import Database from "better-sqlite3";
+import { SQLiteDatabase } from "expo-sqlite";
+import { migrateDB } from "@/lib/migrations";
+
+type BindValue = string | number | bigint | boolean | null | undefined | Uint8Array;
+
+// Aceita os dois jeitos do expo-sqlite: um array de parâmetros ou os parâmetros soltos.
+function bind(params: (BindValue | BindValue[])[]): (string | number | bigint | null | Uint8Array)[] {
+  const values = (params.length === 1 && Array.isArray(params[0]) ? params[0] : params) as BindValue[];
+  return values.map(value => (value === undefined ? null : typeof value === "boolean" ? Number(value) : value));
+}
+
+export type TestDatabase = SQLiteDatabase & { raw: Database.Database };
+
+export function openTestDatabase(): TestDatabase {
+  const raw = new Database(":memory:");
+  // O better-sqlite3 liga as chaves estrangeiras por padrão; o SQLite do aparelho não (migrateDB as liga).
+  raw.pragma("foreign_keys = OFF");
+
+  const run = (sql: string, params: (BindValue | BindValue[])[]) => {
+    const statement = raw.prepare(sql);
+    if (statement.reader) {
+      statement.all(...bind(params));
+      return { changes: (raw.prepare("SELECT changes() AS changes").get() as { changes: number }).changes };
+    }
+    return statement.run(...bind(params));
+  };
+
+  const db = {
+    raw,
+    async execAsync(sql: string) {
+      raw.exec(sql);
+    },
+    async runAsync(sql: string, ...params: (BindValue | BindValue[])[]) {
+      const result = run(sql, params);
+      return { changes: result.changes, lastInsertRowId: Number("lastInsertRowid" in result ? result.lastInsertRowid : 0) };
+    },
+    async getFirstAsync(sql: string, ...params: (BindValue | BindValue[])[]) {
+      const statement = raw.prepare(sql);
+      if (!statement.reader) {
+        statement.run(...bind(params));
+        return null;
+      }
+      return statement.get(...bind(params)) ?? null;
+    },
+    async getAllAsync(sql: string, ...params: (BindValue | BindValue[])[]) {
+      const statement = raw.prepare(sql);
+      if (!statement.reader) {
+        statement.run(...bind(params));
+        return [];
+      }
+      return statement.all(...bind(params));
+    },
+    async withTransactionAsync(task: () => Promise<void>) {
+      raw.exec("BEGIN");
+      try {
+        await task();
+        raw.exec("COMMIT");
+      } catch (error) {
+        raw.exec("ROLLBACK");
+        throw error;
+      }
+    },
+  };
+  return db as unknown as TestDatabase;
+}
+
+/** Banco novo já migrado até a versão atual, como o app o abre. */
+export async function openMigratedDatabase(): Promise<TestDatabase> {
+  const db = openTestDatabase();
+  await migrateDB(db);
+  return db;
+}
@@ -0,0 +1,17 @@
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+// Os testes rodam fora do React Native: só lib/ e constants/, sobre um SQLite de verdade
+// (better-sqlite3, ver test/sqlite.ts). Fuso fixo com horário de verão para as contas de datas.
+process.env.TZ = "America/New_York";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname) },
+  },
+  test: {
+    include: ["lib/**/__tests__/**/*.test.ts"],
+    setupFiles: ["test/setup.ts"],
+    environment: "node",
+  },
+});